@@ -0,0 +1,188 @@
+/**
+ * File-backed Cache.
+ *
+ * A content-addressed key/value store: every entry is a JSON file named after
+ * the SHA-256 hash of its namespace and key. Entries expire after their TTL,
+ * and the least recently used entries are evicted once the files grow past
+ * the size limit.
+ */
+
+import { createHash, randomUUID } from "node:crypto";
+import {
+  mkdir,
+  readdir,
+  readFile,
+  rename,
+  rm,
+  stat,
+  utimes,
+  writeFile,
+} from "node:fs/promises";
+import { dirname, join } from "node:path";
+
+// On-disk layout of one entry
+type CacheEntry<T> = {
+  namespace: string;
+  key: string;
+  created_at: string;
+  expires_at: string;
+  value: T;
+};
+
+export class FileCache {
+  // Size in bytes of every entry file, loaded from disk on the first write
+  private sizes: Promise<Map<string, number>> | undefined;
+
+  constructor(
+    private readonly dir: string,
+    private readonly maxBytes: number,
+  ) {}
+
+  private entryPath(namespace: string, key: string): string {
+    const hash = createHash("sha256")
+      .update(`${namespace}\n${key}`)
+      .digest("hex");
+    return join(this.dir, namespace, `${hash}.json`);
+  }
+
+  /**
+   * Read an entry.
+   * @param namespace - Kind of cached value, e.g. "search"
+   * @param key - Serialized key
+   * @returns The cached value, or undefined when missing or expired
+   */
+  async get<T>(namespace: string, key: string): Promise<T | undefined> {
+    const path = this.entryPath(namespace, key);
+    let entry: CacheEntry<T>;
+    try {
+      entry = JSON.parse(await readFile(path, "utf-8"));
+    } catch (error: any) {
+      if (error?.code === "ENOENT") return undefined;
+      // A corrupt entry is dropped and recomputed
+      await this.remove(path);
+      return undefined;
+    }
+
+    // Guard against hash collisions and expired entries
+    if (entry.key !== key) return undefined;
+    if (Date.parse(entry.expires_at) <= Date.now()) {
+      await this.remove(path);
+      return undefined;
+    }
+
+    // The modification time records the last use for eviction
+    const now = new Date();
+    await utimes(path, now, now).catch(() => {});
+    return entry.value;
+  }
+
+  /**
+   * Write an entry, then evict old entries if the cache is over its size limit.
+   * @param namespace - Kind of cached value, e.g. "search"
+   * @param key - Serialized key
+   * @param value - JSON-serializable value
+   * @param ttlMs - Time to live in milliseconds
+   */
+  async set<T>(
+    namespace: string,
+    key: string,
+    value: T,
+    ttlMs: number,
+  ): Promise<void> {
+    const path = this.entryPath(namespace, key);
+    const now = Date.now();
+    const entry: CacheEntry<T> = {
+      namespace,
+      key,
+      created_at: new Date(now).toISOString(),
+      expires_at: new Date(now + ttlMs).toISOString(),
+      value,
+    };
+    const content = JSON.stringify(entry);
+
+    await mkdir(dirname(path), { recursive: true });
+    const temp = `${path}.${randomUUID()}.tmp`;
+    await writeFile(temp, content, "utf-8");
+    await rename(temp, path);
+
+    const sizes = await this.loadSizes();
+    sizes.set(path, Buffer.byteLength(content));
+    await this.evict(sizes);
+  }
+
+  /**
+   * Remove every entry.
+   */
+  async clear(): Promise<void> {
+    await rm(this.dir, { recursive: true, force: true });
+    this.sizes = undefined;
+  }
+
+  /**
+   * Count the entries on disk.
+   * @returns Number of entries and their total size in bytes
+   */
+  async stats(): Promise<{ entries: number; bytes: number }> {
+    const sizes = await this.loadSizes();
+    let bytes = 0;
+    for (const size of sizes.values()) bytes += size;
+    return { entries: sizes.size, bytes };
+  }
+
+  private async remove(path: string): Promise<void> {
+    await rm(path, { force: true });
+    (await this.sizes)?.delete(path);
+  }
+
+  /**
+   * Find the entry files on disk, once per process.
+   * @returns Size of every entry file by path
+   */
+  private loadSizes(): Promise<Map<string, number>> {
+    this.sizes ??= (async () => {
+      const sizes = new Map<string, number>();
+      let namespaces: string[];
+      try {
+        namespaces = await readdir(this.dir);
+      } catch (error: any) {
+        if (error?.code === "ENOENT") return sizes;
+        throw error;
+      }
+      for (const namespace of namespaces) {
+        const dir = join(this.dir, namespace);
+        const names = await readdir(dir).catch(() => [] as string[]);
+        for (const name of names.filter((name) => name.endsWith(".json"))) {
+          const path = join(dir, name);
+          const info = await stat(path).catch(() => undefined);
+          if (info) sizes.set(path, info.size);
+        }
+      }
+      return sizes;
+    })();
+    return this.sizes;
+  }
+
+  /**
+   * Delete the least recently used entries until the cache fits its limit.
+   * @param sizes - Size of every entry file by path
+   */
+  private async evict(sizes: Map<string, number>): Promise<void> {
+    let total = 0;
+    for (const size of sizes.values()) total += size;
+    if (total <= this.maxBytes) return;
+
+    const entries = await Promise.all(
+      [...sizes.keys()].map(async (path) => ({
+        path,
+        usedAt: (await stat(path).catch(() => undefined))?.mtimeMs ?? 0,
+      })),
+    );
+    entries.sort((a, b) => a.usedAt - b.usedAt);
+
+    for (const { path } of entries) {
+      if (total <= this.maxBytes) break;
+      total -= sizes.get(path) ?? 0;
+      await this.remove(path);
+    }
+  }
+}
@@ -0,0 +1,148 @@
+/**
+ * Search and Summary Cache.
+ *
+ * Search responses are cached by provider, normalized query and search
+ * options, and webpage summaries by the hash of the page content, so repeated
+ * runs (and researchers of the same run that hit the same page) do not query
+ * the search provider or the summarization model again.
+ */
+
+import { createHash } from "node:crypto";
+import { RunnableConfig } from "@langchain/core/runnables";
+import { cacheSettings, cassetteSettings } from "../config.js";
+import { FileCache } from "./file-cache.js";
+
+export { FileCache } from "./file-cache.js";
+
+export const cacheModes = ["use", "refresh", "bypass"] as const;
+
+// "use" reads and writes the cache, "refresh" ignores cached entries but
+// stores new ones, and "bypass" does not touch the cache at all.
+export type CacheMode = (typeof cacheModes)[number];
+
+export type CacheNamespace = "search" | "summary";
+
+// Whether a cacheable call was served from the cache.
+export type CacheOutcome = {
+  namespace: CacheNamespace;
+  hit: boolean;
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const ttlMs: Record<CacheNamespace, number> = {
+  search: cacheSettings.searchTtlHours * HOUR_MS,
+  summary: cacheSettings.summaryTtlHours * HOUR_MS,
+};
+
+// Shared cache used by the research tools
+export const cache = new FileCache(
+  cacheSettings.dir,
+  cacheSettings.maxSizeMb * 1024 * 1024,
+);
+
+// Lookups in progress, shared by concurrent callers with the same key and
+// mode; callers that join a lookup share its outcome
+const inFlight = new Map<
+  string,
+  Promise<{ value: unknown; outcome: CacheOutcome }>
+>();
+
+/**
+ * Get the cache mode of a run.
+ *
+ * The cache is bypassed while recording or replaying a cassette, so every
+ * call reaches the cassette.
+ * @param config - Runnable config; its `cache_mode` option overrides CACHE_MODE
+ * @returns The run's cache mode
+ */
+export function getCacheMode(config?: RunnableConfig): CacheMode {
+  if (cassetteSettings.mode) return "bypass";
+  const mode = config?.configurable?.cache_mode ?? cacheSettings.mode;
+  if (!cacheModes.includes(mode)) {
+    throw new Error(
+      `Unknown cache mode: ${mode}. Expected one of ${cacheModes.join(", ")}`,
+    );
+  }
+  return mode;
+}
+
+/**
+ * Serialize a cache key with sorted object keys, so equal keys always
+ * produce the same entry.
+ * @param key - Key parts
+ * @returns Serialized key
+ */
+function serializeKey(key: unknown): string {
+  return JSON.stringify(key, (_name, value) =>
+    value && typeof value === "object" && !Array.isArray(value)
+      ? Object.fromEntries(
+          Object.entries(value).sort(([a], [b]) => a.localeCompare(b)),
+        )
+      : value,
+  );
+}
+
+/**
+ * Hash text for use in a cache key.
+ * @param text - Text such as a webpage's content
+ * @returns SHA-256 hex digest
+ */
+export function hashContent(text: string): string {
+  return createHash("sha256").update(text).digest("hex");
+}
+
+/**
+ * Get a value from the cache, or compute and store it.
+ *
+ * Errors thrown by `compute` are not cached, and a failing cache never fails
+ * the call: the value is then computed as if it were not cached.
+ * @param namespace - Kind of cached value
+ * @param key - Key parts identifying the value
+ * @param mode - Cache mode of the run
+ * @param compute - Computes the value on a cache miss
+ * @returns The value, and whether it came from the cache (unless bypassed)
+ */
+export async function cached<T>(
+  namespace: CacheNamespace,
+  key: Record<string, unknown>,
+  mode: CacheMode,
+  compute: () => Promise<T>,
+): Promise<{ value: T; outcome?: CacheOutcome | undefined }> {
+  if (mode === "bypass") {
+    return { value: await compute() };
+  }
+
+  const serialized = serializeKey(key);
+  const flightKey = `${mode}\n${namespace}\n${serialized}`;
+  const pending = inFlight.get(flightKey);
+  if (pending) {
+    return (await pending) as { value: T; outcome: CacheOutcome };
+  }
+
+  const lookup = (async () => {
+    if (mode === "use") {
+      const value = await cache
+        .get<T>(namespace, serialized)
+        .catch((error) => console.error("Error reading cache:", error));
+      if (value !== undefined) {
+        return { value, outcome: { namespace, hit: true } };
+      }
+    }
+
+    const value = await compute();
+    if (ttlMs[namespace] > 0) {
+      await cache
+        .set(namespace, serialized, value, ttlMs[namespace])
+        .catch((error) => console.error("Error writing cache:", error));
+    }
+    return { value, outcome: { namespace, hit: false } };
+  })();
+
+  inFlight.set(flightKey, lookup);
+  try {
+    return await lookup;
+  } finally {
+    inFlight.delete(flightKey);
+  }
+}
@@ -0,0 +1,152 @@
+/**
+ * Cassette File.
+ *
+ * A cassette holds the LLM, search and page fetch calls of a recorded run. Each call is
+ * stored with a normalized copy of its request and a key hashed from it, so
+ * a replay can find the response for a request no matter in which order
+ * parallel researchers make their calls. Identical requests are answered in
+ * the order they were recorded.
+ *
+ * The file is in JSON Lines format: a header line with the recording's date,
+ * followed by one line per call, appended as the call is recorded.
+ */
+
+import { createHash } from "node:crypto";
+import { readFileSync, writeFileSync } from "node:fs";
+import { appendFile } from "node:fs/promises";
+
+export type CassetteMode = "record" | "replay";
+
+export type InteractionType = "llm" | "search" | "fetch";
+
+// One recorded call.
+export type Interaction = {
+  type: InteractionType;
+  key: string;
+  request: unknown;
+  response: unknown;
+};
+
+// First line of a cassette file; each further line is an Interaction
+type CassetteHeader = {
+  version: 2;
+  // Date used in prompts while recording, as YYYY-MM-DD
+  date: string;
+};
+
+/**
+ * Hash a normalized request into the key it is recorded under.
+ * @param type - Kind of call
+ * @param request - Normalized request
+ * @returns Request key
+ */
+function requestKey(type: InteractionType, request: unknown): string {
+  return createHash("sha256")
+    .update(`${type}\n${JSON.stringify(request)}`)
+    .digest("hex");
+}
+
+export class Cassette {
+  // Recorded responses not yet replayed, by request key
+  private readonly pending = new Map<string, Interaction[]>();
+  private saving: Promise<void> = Promise.resolve();
+
+  private constructor(
+    readonly path: string,
+    readonly mode: CassetteMode,
+    readonly date: string,
+  ) {}
+
+  /**
+   * Start recording a new cassette, replacing any existing file.
+   * @param path - Cassette file
+   * @param date - Date used in prompts, as YYYY-MM-DD
+   * @returns Empty cassette in record mode
+   */
+  static record(path: string, date: string): Cassette {
+    const header: CassetteHeader = { version: 2, date };
+    writeFileSync(path, JSON.stringify(header) + "\n", "utf-8");
+    return new Cassette(path, "record", date);
+  }
+
+  /**
+   * Load a cassette for replay.
+   * @param path - Cassette file
+   * @returns Cassette in replay mode
+   */
+  static replay(path: string): Cassette {
+    const [first = "", ...lines] = readFileSync(path, "utf-8")
+      .split("\n")
+      .filter((line) => line.trim());
+    let header: Partial<CassetteHeader> | undefined;
+    try {
+      header = JSON.parse(first);
+    } catch {
+      header = undefined;
+    }
+    if (header?.version !== 2 || !header.date) {
+      throw new Error(
+        `Cassette ${path} is not a version 2 cassette; re-record it`,
+      );
+    }
+
+    const cassette = new Cassette(path, "replay", header.date);
+    for (const line of lines) {
+      const interaction: Interaction = JSON.parse(line);
+      const queue = cassette.pending.get(interaction.key) ?? [];
+      queue.push(interaction);
+      cassette.pending.set(interaction.key, queue);
+    }
+    return cassette;
+  }
+
+  /**
+   * Add a call to the cassette and append it to the file.
+   * @param type - Kind of call
+   * @param request - Normalized request
+   * @param response - JSON-serializable response
+   */
+  async add(
+    type: InteractionType,
+    request: unknown,
+    response: unknown,
+  ): Promise<void> {
+    await this.append({
+      type,
+      key: requestKey(type, request),
+      request,
+      response,
+    });
+  }
+
+  /**
+   * Take the next recorded response for a request.
+   * @param type - Kind of call
+   * @param request - Normalized request
+   * @returns The recorded response
+   * @throws When the cassette has no (more) responses for the request
+   */
+  take(type: InteractionType, request: unknown): unknown {
+    const interaction = this.pending.get(requestKey(type, request))?.shift();
+    if (!interaction) {
+      throw new Error(
+        `Cassette ${this.path} has no recorded ${type} response for this request; re-record it. Request: ` +
+          JSON.stringify(request).slice(0, 500),
+      );
+    }
+    return interaction.response;
+  }
+
+  /**
+   * Append a call to the file. Appends are chained so calls are written
+   * whole and in the order they were recorded.
+   * @param interaction - Recorded call
+   */
+  private append(interaction: Interaction): Promise<void> {
+    const append = this.saving.then(() =>
+      appendFile(this.path, JSON.stringify(interaction) + "\n", "utf-8"),
+    );
+    this.saving = append.catch(() => {});
+    return append;
+  }
+}
@@ -0,0 +1,194 @@
+/**
+ * Record and Replay of LLM, Search and Page Fetch Calls.
+ *
+ * With CASSETTE_MODE=record, every LLM request/response, search call and
+ * page download made by the graphs is written to the cassette at
+ * CASSETTE_PATH. With CASSETTE_MODE=replay, the recorded responses are served
+ * back instead of calling the providers, so a run can be repeated
+ * deterministically with no network access. Prompts contain the current date, so the date is pinned to
+ * the one stored in the cassette while recording or replaying.
+ */
+
+import {
+  BaseMessage,
+  mapStoredMessagesToChatMessages,
+  StoredMessage,
+} from "@langchain/core/messages";
+import { BaseChatModel } from "@langchain/core/language_models/chat_models";
+import { ChatGeneration, ChatResult } from "@langchain/core/outputs";
+import { cassetteSettings, pinnedDate } from "../config.js";
+import { SearchProvider, SearchResponse } from "../search/types.js";
+import { Cassette } from "./cassette.js";
+
+export * from "./cassette.js";
+
+// A chat result as stored in a cassette
+type StoredChatResult = {
+  generations: (Omit<ChatGeneration, "message"> & {
+    message: StoredMessage;
+  })[];
+  llmOutput?: Record<string, any> | undefined;
+};
+
+/**
+ * Open the cassette selected by configuration.
+ * @returns The cassette, or undefined when recording and replay are off
+ */
+function openCassette(): Cassette | undefined {
+  switch (cassetteSettings.mode) {
+    case "":
+      return undefined;
+    case "record":
+      return Cassette.record(
+        cassetteSettings.path,
+        pinnedDate || new Date().toLocaleDateString("en-CA"),
+      );
+    case "replay":
+      return Cassette.replay(cassetteSettings.path);
+    default:
+      throw new Error(
+        `Unknown cassette mode: ${cassetteSettings.mode}. Expected "record" or "replay"`,
+      );
+  }
+}
+
+// Cassette of this process, if recording or replaying
+export const cassette = openCassette();
+
+/**
+ * Reduce prompt messages to what the model sees.
+ *
+ * Message IDs are dropped because LangGraph assigns random IDs to messages
+ * created by the graphs.
+ * @param messages - Prompt messages
+ * @returns Normalized messages
+ */
+function normalizeMessages(messages: BaseMessage[]): Record<string, any>[] {
+  return messages.map((message: any) => ({
+    type: message.getType(),
+    content: message.content,
+    ...(message.tool_calls?.length
+      ? {
+          tool_calls: message.tool_calls.map((call: any) => ({
+            name: call.name,
+            args: call.args,
+            id: call.id,
+          })),
+        }
+      : {}),
+    ...(message.tool_call_id ? { tool_call_id: message.tool_call_id } : {}),
+  }));
+}
+
+/**
+ * Record or replay every generation of a chat model through the cassette.
+ *
+ * Requests are matched by the model's label, the prompt messages and the
+ * names of the bound tools.
+ * @param model - Chat model
+ * @param label - Identifies the model in the cassette, e.g. its role
+ * @returns The same model
+ */
+export function withCassette<M extends BaseChatModel>(
+  model: M,
+  label: string,
+): M {
+  if (!cassette) return model;
+
+  const generate = model._generate.bind(model);
+  model._generate = async (messages, options, runManager) => {
+    const request = {
+      model: label,
+      tools: ((options as any)?.tools ?? []).map(
+        (tool: any) => tool.name ?? tool.function?.name,
+      ),
+      messages: normalizeMessages(messages),
+    };
+
+    if (cassette.mode === "replay") {
+      const stored = cassette.take("llm", request) as StoredChatResult;
+      const replayed = mapStoredMessagesToChatMessages(
+        stored.generations.map((generation) => generation.message),
+      );
+      return {
+        generations: stored.generations.map((generation, index) => ({
+          ...generation,
+          message: replayed[index]!,
+        })),
+        ...(stored.llmOutput ? { llmOutput: stored.llmOutput } : {}),
+      };
+    }
+
+    const result: ChatResult = await generate(messages, options, runManager);
+    const stored: StoredChatResult = {
+      generations: result.generations.map((generation) => ({
+        ...generation,
+        message: generation.message.toDict(),
+      })),
+      llmOutput: result.llmOutput,
+    };
+    await cassette.add("llm", request, stored);
+    return result;
+  };
+  return model;
+}
+
+/**
+ * Record or replay the searches of a search provider through the cassette.
+ * @param name - Provider name
+ * @param createProvider - Creates the real provider; not called when replaying
+ * @returns Provider that records or replays its searches
+ */
+export function withSearchCassette(
+  name: string,
+  createProvider: () => SearchProvider,
+): SearchProvider {
+  if (!cassette) return createProvider();
+
+  if (cassette.mode === "replay") {
+    return {
+      name,
+      async search(query, options) {
+        return cassette.take("search", {
+          provider: name,
+          query,
+          options,
+        }) as SearchResponse;
+      },
+    };
+  }
+
+  const provider = createProvider();
+  return {
+    name,
+    async search(query, options) {
+      const response = await provider.search(query, options);
+      await cassette.add(
+        "search",
+        { provider: name, query, options },
+        response,
+      );
+      return response;
+    },
+  };
+}
+
+/**
+ * Record or replay a page download through the cassette.
+ * @param request - The download's URL and limits
+ * @param download - Performs the download; not called when replaying
+ * @returns The downloaded, or recorded, response
+ */
+export async function withFetchCassette<T>(
+  request: Record<string, unknown>,
+  download: () => Promise<T>,
+): Promise<T> {
+  if (!cassette) return download();
+  if (cassette.mode === "replay") {
+    return cassette.take("fetch", request) as T;
+  }
+
+  const response = await download();
+  await cassette.add("fetch", request, response);
+  return response;
+}
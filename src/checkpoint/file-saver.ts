@@ -0,0 +1,400 @@
+/**
+ * File-backed LangGraph checkpointer.
+ *
+ * Appends every checkpoint and batch of pending writes to a per-thread log
+ * file so runs survive process restarts, and keeps the threads it has read
+ * in memory. Each put writes only what it adds, so saving stays cheap
+ * however long a thread grows. Threads are loaded from disk the first time
+ * they are accessed.
+ */
+
+import { mkdirSync, readdirSync, readFileSync } from "node:fs";
+import { appendFile } from "node:fs/promises";
+import { join } from "node:path";
+import { RunnableConfig } from "@langchain/core/runnables";
+import {
+  BaseCheckpointSaver,
+  Checkpoint,
+  CheckpointListOptions,
+  CheckpointMetadata,
+  CheckpointPendingWrite,
+  CheckpointTuple,
+  copyCheckpoint,
+  getCheckpointId,
+  PendingWrite,
+  TASKS,
+  WRITES_IDX_MAP,
+} from "@langchain/langgraph-checkpoint";
+
+// A serialized checkpoint and the checkpoint it follows
+type StoredCheckpoint = {
+  checkpoint: Uint8Array;
+  metadata: Uint8Array;
+  parent?: string | undefined;
+};
+
+// A serialized pending write of a task
+type StoredWrite = {
+  taskId: string;
+  channel: string;
+  value: Uint8Array;
+};
+
+// What is known of a thread: its checkpoints by namespace and ID, and the
+// pending writes of each checkpoint by its location and the write's task
+// and index
+type Thread = {
+  checkpoints: Map<string, Map<string, StoredCheckpoint>>;
+  writes: Map<string, Map<string, StoredWrite>>;
+};
+
+// One line of a thread's log, with binary values base64-encoded
+type LogEntry =
+  | {
+      type: "checkpoint";
+      ns: string;
+      id: string;
+      checkpoint: string;
+      metadata: string;
+      parent: string | null;
+    }
+  | {
+      type: "writes";
+      ns: string;
+      checkpoint_id: string;
+      writes: {
+        key: string;
+        task_id: string;
+        channel: string;
+        value: string;
+      }[];
+    };
+
+// Extension of thread log files
+const LOG_EXTENSION = ".jsonl";
+
+const toBase64 = (bytes: Uint8Array) => Buffer.from(bytes).toString("base64");
+const fromBase64 = (text: string) =>
+  new Uint8Array(Buffer.from(text, "base64"));
+
+/**
+ * Identify the pending writes of a checkpoint within its thread.
+ * @param ns - Checkpoint namespace
+ * @param checkpointId - Checkpoint ID
+ * @returns Key of the checkpoint's writes
+ */
+function writesKey(ns: string, checkpointId: string): string {
+  return JSON.stringify([ns, checkpointId]);
+}
+
+export class FileCheckpointSaver extends BaseCheckpointSaver {
+  private readonly threads = new Map<string, Thread>();
+  private readonly pendingSaves = new Map<string, Promise<void>>();
+
+  constructor(private readonly dir: string) {
+    super();
+    mkdirSync(dir, { recursive: true });
+  }
+
+  private threadPath(threadId: string): string {
+    return join(this.dir, `${encodeURIComponent(threadId)}${LOG_EXTENSION}`);
+  }
+
+  /**
+   * Get a thread, loading it from disk once per process.
+   *
+   * A line cut off by a crash while it was appended is skipped; the
+   * checkpoint before it is where the run resumes.
+   * @param threadId - Thread to get
+   * @returns The thread, empty when nothing was saved for it
+   */
+  private getThread(threadId: string): Thread {
+    let thread = this.threads.get(threadId);
+    if (thread) return thread;
+    thread = { checkpoints: new Map(), writes: new Map() };
+    this.threads.set(threadId, thread);
+
+    let log: string;
+    try {
+      log = readFileSync(this.threadPath(threadId), "utf-8");
+    } catch (error: any) {
+      if (error?.code === "ENOENT") return thread;
+      throw error;
+    }
+
+    for (const line of log.split("\n")) {
+      let entry: LogEntry;
+      try {
+        entry = JSON.parse(line);
+      } catch {
+        continue;
+      }
+      if (entry.type === "checkpoint") {
+        const namespace = thread.checkpoints.get(entry.ns) ?? new Map();
+        namespace.set(entry.id, {
+          checkpoint: fromBase64(entry.checkpoint),
+          metadata: fromBase64(entry.metadata),
+          parent: entry.parent ?? undefined,
+        });
+        thread.checkpoints.set(entry.ns, namespace);
+      } else {
+        const key = writesKey(entry.ns, entry.checkpoint_id);
+        const stored = thread.writes.get(key) ?? new Map();
+        for (const write of entry.writes) {
+          stored.set(write.key, {
+            taskId: write.task_id,
+            channel: write.channel,
+            value: fromBase64(write.value),
+          });
+        }
+        thread.writes.set(key, stored);
+      }
+    }
+    return thread;
+  }
+
+  /**
+   * Append an entry to a thread's log.
+   *
+   * Appends to the same thread are chained so entries are written in the
+   * order they were made.
+   * @param threadId - Thread the entry belongs to
+   * @param entry - Checkpoint or pending writes to save
+   */
+  private appendEntry(threadId: string, entry: LogEntry): Promise<void> {
+    const previous = this.pendingSaves.get(threadId) ?? Promise.resolve();
+    const save = previous.then(() =>
+      appendFile(
+        this.threadPath(threadId),
+        `${JSON.stringify(entry)}\n`,
+        "utf-8",
+      ),
+    );
+
+    this.pendingSaves.set(
+      threadId,
+      save.catch(() => {}),
+    );
+    return save;
+  }
+
+  /**
+   * Deserialize a saved checkpoint into a checkpoint tuple.
+   * @param threadId - Thread of the checkpoint
+   * @param ns - Checkpoint namespace
+   * @param id - Checkpoint ID
+   * @param saved - The saved checkpoint
+   * @returns Checkpoint tuple with its pending writes and parent
+   */
+  private async toTuple(
+    threadId: string,
+    ns: string,
+    id: string,
+    saved: StoredCheckpoint,
+  ): Promise<CheckpointTuple> {
+    const thread = this.getThread(threadId);
+    const load = (value: Uint8Array) => this.serde.loadsTyped("json", value);
+
+    // Sends of the parent's tasks are delivered with this checkpoint
+    const parentWrites =
+      saved.parent !== undefined
+        ? [...(thread.writes.get(writesKey(ns, saved.parent))?.values() ?? [])]
+        : [];
+    const pendingSends = await Promise.all(
+      parentWrites
+        .filter(({ channel }) => channel === TASKS)
+        .map(({ value }) => load(value)),
+    );
+    const pendingWrites: CheckpointPendingWrite[] = await Promise.all(
+      [...(thread.writes.get(writesKey(ns, id))?.values() ?? [])].map(
+        async ({ taskId, channel, value }) =>
+          [taskId, channel, await load(value)] as CheckpointPendingWrite,
+      ),
+    );
+
+    return {
+      config: {
+        configurable: {
+          thread_id: threadId,
+          checkpoint_ns: ns,
+          checkpoint_id: id,
+        },
+      },
+      checkpoint: {
+        ...(await load(saved.checkpoint)),
+        pending_sends: pendingSends,
+      },
+      metadata: await load(saved.metadata),
+      pendingWrites,
+      ...(saved.parent !== undefined
+        ? {
+            parentConfig: {
+              configurable: {
+                thread_id: threadId,
+                checkpoint_ns: ns,
+                checkpoint_id: saved.parent,
+              },
+            },
+          }
+        : {}),
+    };
+  }
+
+  /**
+   * List the IDs of all threads with saved checkpoints.
+   * @returns Thread IDs
+   */
+  listThreadIds(): string[] {
+    return readdirSync(this.dir)
+      .filter((name) => name.endsWith(LOG_EXTENSION))
+      .map((name) => decodeURIComponent(name.slice(0, -LOG_EXTENSION.length)));
+  }
+
+  async getTuple(config: RunnableConfig): Promise<CheckpointTuple | undefined> {
+    const threadId = config.configurable?.thread_id;
+    if (threadId === undefined) return undefined;
+    const ns = config.configurable?.checkpoint_ns ?? "";
+    const checkpoints = this.getThread(threadId).checkpoints.get(ns);
+    if (!checkpoints) return undefined;
+
+    // Without a checkpoint ID, the latest checkpoint; IDs sort by time
+    const id =
+      getCheckpointId(config) ||
+      [...checkpoints.keys()].sort((a, b) => b.localeCompare(a))[0];
+    const saved = id !== undefined ? checkpoints.get(id) : undefined;
+    return saved && id !== undefined
+      ? this.toTuple(threadId, ns, id, saved)
+      : undefined;
+  }
+
+  async *list(
+    config: RunnableConfig,
+    options: CheckpointListOptions = {},
+  ): AsyncGenerator<CheckpointTuple> {
+    const { before, filter } = options;
+    let { limit } = options;
+    const threadId = config.configurable?.thread_id;
+    const configNs = config.configurable?.checkpoint_ns;
+    const configId = config.configurable?.checkpoint_id;
+    const beforeId = before?.configurable?.checkpoint_id;
+
+    for (const id of threadId !== undefined
+      ? [threadId]
+      : this.listThreadIds()) {
+      for (const [ns, checkpoints] of this.getThread(id).checkpoints) {
+        if (configNs !== undefined && ns !== configNs) continue;
+        const sorted = [...checkpoints].sort(([a], [b]) => b.localeCompare(a));
+        for (const [checkpointId, saved] of sorted) {
+          if (configId && checkpointId !== configId) continue;
+          if (beforeId && checkpointId >= beforeId) continue;
+          const metadata = await this.serde.loadsTyped("json", saved.metadata);
+          if (
+            filter &&
+            !Object.entries(filter).every(
+              ([key, value]) => metadata[key] === value,
+            )
+          ) {
+            continue;
+          }
+          if (limit !== undefined) {
+            if (limit <= 0) return;
+            limit -= 1;
+          }
+          yield this.toTuple(id, ns, checkpointId, saved);
+        }
+      }
+    }
+  }
+
+  async put(
+    config: RunnableConfig,
+    checkpoint: Checkpoint,
+    metadata: CheckpointMetadata,
+  ): Promise<RunnableConfig> {
+    const threadId = config.configurable?.thread_id;
+    if (threadId === undefined) {
+      throw new Error(
+        'Failed to put checkpoint: the config has no "thread_id" in its "configurable" property',
+      );
+    }
+    const ns = config.configurable?.checkpoint_ns ?? "";
+    const parent = config.configurable?.checkpoint_id;
+
+    // Pending sends are stored as the writes of the parent's tasks
+    const prepared: Partial<Checkpoint> = copyCheckpoint(checkpoint);
+    delete prepared.pending_sends;
+    const [, serializedCheckpoint] = this.serde.dumpsTyped(prepared);
+    const [, serializedMetadata] = this.serde.dumpsTyped(metadata);
+
+    const thread = this.getThread(threadId);
+    const namespace = thread.checkpoints.get(ns) ?? new Map();
+    namespace.set(checkpoint.id, {
+      checkpoint: serializedCheckpoint,
+      metadata: serializedMetadata,
+      parent,
+    });
+    thread.checkpoints.set(ns, namespace);
+
+    await this.appendEntry(threadId, {
+      type: "checkpoint",
+      ns,
+      id: checkpoint.id,
+      checkpoint: toBase64(serializedCheckpoint),
+      metadata: toBase64(serializedMetadata),
+      parent: parent ?? null,
+    });
+    return {
+      configurable: {
+        thread_id: threadId,
+        checkpoint_ns: ns,
+        checkpoint_id: checkpoint.id,
+      },
+    };
+  }
+
+  async putWrites(
+    config: RunnableConfig,
+    writes: PendingWrite[],
+    taskId: string,
+  ): Promise<void> {
+    const threadId = config.configurable?.thread_id;
+    const ns = config.configurable?.checkpoint_ns ?? "";
+    const checkpointId = config.configurable?.checkpoint_id;
+    if (threadId === undefined || checkpointId === undefined) {
+      throw new Error(
+        'Failed to put writes: the config has no "thread_id" or "checkpoint_id" in its "configurable" property',
+      );
+    }
+
+    const thread = this.getThread(threadId);
+    const key = writesKey(ns, checkpointId);
+    const stored = thread.writes.get(key) ?? new Map<string, StoredWrite>();
+    thread.writes.set(key, stored);
+
+    const added: Extract<LogEntry, { type: "writes" }>["writes"] = [];
+    writes.forEach(([channel, value], i) => {
+      // Special writes such as errors have fixed negative indices and are
+      // replaced; regular writes of a task are only stored once
+      const index = WRITES_IDX_MAP[channel] ?? i;
+      const writeKey = `${taskId},${index}`;
+      if (index >= 0 && stored.has(writeKey)) return;
+      const [, serialized] = this.serde.dumpsTyped(value);
+      stored.set(writeKey, { taskId, channel, value: serialized });
+      added.push({
+        key: writeKey,
+        task_id: taskId,
+        channel,
+        value: toBase64(serialized),
+      });
+    });
+
+    if (added.length > 0) {
+      await this.appendEntry(threadId, {
+        type: "writes",
+        ns,
+        checkpoint_id: checkpointId,
+        writes: added,
+      });
+    }
+  }
+}
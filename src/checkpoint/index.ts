@@ -0,0 +1,46 @@
+/**
+ * Checkpointing for the research graphs.
+ *
+ * All graphs share one checkpointer so interrupted runs can be resumed from
+ * their last completed super-step using the same thread ID.
+ */
+
+import { BaseCheckpointSaver, MemorySaver } from "@langchain/langgraph";
+import { checkpointSettings } from "../config.js";
+import { FileCheckpointSaver } from "./file-saver.js";
+
+export { FileCheckpointSaver } from "./file-saver.js";
+
+/**
+ * Create the checkpointer selected by configuration.
+ * @returns File-backed checkpointer, or an in-memory one for "memory"
+ */
+export function createCheckpointer(): BaseCheckpointSaver {
+  switch (checkpointSettings.backend) {
+    case "file":
+      return new FileCheckpointSaver(checkpointSettings.dir);
+    case "memory":
+      return new MemorySaver();
+    default:
+      throw new Error(
+        `Unknown checkpoint backend: ${checkpointSettings.backend}. Expected "file" or "memory"`,
+      );
+  }
+}
+
+// Shared checkpointer used when compiling the graphs
+export const checkpointer = createCheckpointer();
+
+/**
+ * Check whether a thread has an unfinished run that can be resumed.
+ * @param graph - Compiled graph
+ * @param threadId - Thread ID of the run
+ * @returns True when the last checkpoint still has nodes to execute
+ */
+export async function hasPendingRun(
+  graph: { getState: (config: any) => Promise<{ next: string[] }> },
+  threadId: string,
+): Promise<boolean> {
+  const state = await graph.getState({ configurable: { thread_id: threadId } });
+  return state.next.length > 0;
+}
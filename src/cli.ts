@@ -0,0 +1,640 @@
+#!/usr/bin/env node
+/**
+ * Command-line runner for the research graphs.
+ *
+ * Runs a research question through one of the graphs, prints live progress,
+ * and writes the result to stdout or a file. When the scoping step ends with
+ * a clarification question, the question is asked in the terminal and the
+ * answer is sent back on the same thread so the conversation continues.
+ *
+ * Usage:
+ *   deep-research "What are the latest developments in solid-state batteries?"
+ *   deep-research --file question.md --output report.md
+ *   deep-research --graph research_agent "Current state of perovskite solar cells"
+ *   deep-research --resume --thread-id <id>
+ *   deep-research --review-brief "How do EU and US AI regulations differ?"
+ *   deep-research --review-plan "How do EU and US AI regulations differ?"
+ *   deep-research --output report.html "State of grid-scale storage in 2025"
+ *   deep-research --thread-id <id> "How does this compare to last year?"
+ *   deep-research export report.md --format docx --output report.docx
+ */
+
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { randomUUID } from "node:crypto";
+import { spawnSync } from "node:child_process";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { createInterface, Interface } from "node:readline";
+import { parseArgs } from "node:util";
+import { Command } from "@langchain/langgraph";
+import { HumanMessage, isAIMessage } from "@langchain/core/messages";
+import { checkpointer, hasPendingRun } from "./checkpoint/index.js";
+import { formatProgressEvent, toProgressEvent } from "./shared/progress.js";
+import { reportFormat } from "./config.js";
+import { DegradedSummary, ReportVerification } from "./shared/types.js";
+import { SourceRegistry } from "./sources/index.js";
+import {
+  formatPlan,
+  ResearchPlan,
+  validatePlan,
+} from "./research-plan/index.js";
+import {
+  formatCacheUsage,
+  formatUsage,
+  totalCacheUsage,
+  totalUsage,
+  UsageBudget,
+} from "./usage/index.js";
+import {
+  ExportedReport,
+  exportReport,
+  formatFromPath,
+  isReportFormat,
+  ReportFormat,
+  reportFormats,
+} from "./export/index.js";
+
+// ===== GRAPH SELECTION =====
+
+// Graph modules create their models when loaded, which needs the models'
+// credentials, so they are only imported for commands that run a graph.
+type GraphSpec = {
+  load: () => Promise<any>;
+  input: (question: string) => Record<string, any>;
+  output: (values: Record<string, any>) => string;
+  // Whether the graph can end with a clarification question for the user
+  clarifies: boolean;
+};
+
+const graphs: Record<string, GraphSpec> = {
+  deep_research: {
+    load: async () => (await import("./full-research.js")).deepResearch,
+    input: (question) => ({ messages: [new HumanMessage(question)] }),
+    // A follow-up answered from the existing research has no new report
+    output: (values) => values.follow_up?.answer ?? values.final_report ?? "",
+    clarifies: true,
+  },
+  scope_research: {
+    load: async () => (await import("./research-scoping.js")).scopeResearch,
+    input: (question) => ({ messages: [new HumanMessage(question)] }),
+    output: (values) => values.research_brief ?? "",
+    clarifies: true,
+  },
+  research_agent: {
+    load: async () => (await import("./research-agent.js")).researcherAgent,
+    input: (question) => ({
+      researcher_messages: [new HumanMessage(question)],
+      research_topic: question,
+    }),
+    output: (values) => values.compressed_research ?? "",
+    clarifies: false,
+  },
+  supervisor_agent: {
+    load: async () =>
+      (await import("./multi-agent-supervisor.js")).supervisorAgent,
+    input: (question) => ({
+      supervisor_messages: [new HumanMessage(question)],
+      research_brief: question,
+    }),
+    output: (values) => (values.notes ?? []).join("\n\n"),
+    clarifies: false,
+  },
+};
+
+const usage = `Usage: deep-research [options] [question]
+       deep-research export <report.md> [--format <name>] [--output <path>] [--thread-id <id>]
+
+Options:
+  -f, --file <path>             Read the question from a file
+  -o, --output <path>           Write the result to a file instead of stdout
+      --format <name>           Output format: ${reportFormats.join(", ")} (default: from --output extension, else ${reportFormat})
+  -g, --graph <name>            Graph to run: ${Object.keys(graphs).join(", ")} (default: deep_research)
+  -t, --thread-id <id>          Thread ID for the run (default: random); a question on a
+                                finished thread is answered as a follow-up to its report
+  -r, --resume                  Resume the interrupted run on --thread-id
+      --review-brief            Approve, edit or reject the research brief before research starts
+      --review-plan             Approve or edit the supervisor's research plan whenever it changes
+      --search-provider <name>  Search provider for this run (tavily, searxng, brave, fixture)
+      --corpus-dir <path>       Local document corpus for this run
+      --max-tokens <n>          Token budget for this run
+      --max-cost <usd>          Cost budget for this run, in USD
+      --max-searches <n>        Search-call budget for this run
+      --no-cache                Do not read or write the search and summary cache
+      --refresh-cache           Ignore cached entries and store fresh results
+      --verification <mode>     Fact-check the report: appendix, revise or off (default: VERIFICATION_MODE)
+      --report-writer <mode>    Write the report: single, sectioned or auto (default: REPORT_WRITER)
+  -q, --quiet                   Do not print progress
+  -h, --help                    Show this help
+
+The export command converts a saved Markdown report to another format. With
+--thread-id, cited sources are completed from that run's source registry.`;
+
+// ===== RUNNER =====
+
+// Lines are read through one shared iterator so answers piped on stdin are
+// buffered instead of being dropped between questions.
+let terminal: { rl: Interface; lines: AsyncIterator<string> } | undefined;
+
+function closeTerminal(): void {
+  terminal?.rl.close();
+  terminal = undefined;
+}
+
+/**
+ * Ask the user a question in the terminal.
+ * @param question - Question to display
+ * @returns The user's answer, trimmed
+ */
+async function prompt(question: string): Promise<string> {
+  if (!terminal) {
+    const rl = createInterface({
+      input: process.stdin,
+      output: process.stderr,
+    });
+    terminal = { rl, lines: rl[Symbol.asyncIterator]() };
+  }
+
+  process.stderr.write(`\n${question}\n\n> `);
+  const { value, done } = await terminal.lines.next();
+  if (done) {
+    throw new Error("Input closed before an answer was given.");
+  }
+  return String(value).trim();
+}
+
+/**
+ * Let the user edit text in their editor ($VISUAL, $EDITOR or vi).
+ *
+ * The editor runs without a shell, with the file as its last argument, so
+ * the temporary path is never interpreted by a shell. Arguments in the
+ * editor setting, e.g. "code --wait", are split on whitespace.
+ * @param text - Initial text
+ * @param fileName - Name of the temporary file, whose extension editors use
+ * @returns The edited text, trimmed
+ */
+async function editInEditor(
+  text: string,
+  fileName: string = "research-brief.md",
+): Promise<string> {
+  const dir = await mkdtemp(join(tmpdir(), "deep-research-"));
+  const file = join(dir, fileName);
+  try {
+    await writeFile(file, text, "utf-8");
+    // Release the terminal so the editor can take over stdin
+    if (process.stdin.isTTY) closeTerminal();
+
+    const editor = process.env.VISUAL || process.env.EDITOR || "vi";
+    const [command = "vi", ...args] = editor.trim().split(/\s+/);
+    const { status, error } = spawnSync(command, [...args, file], {
+      stdio: "inherit",
+    });
+    if (error) {
+      throw new Error(
+        `Editor ${editor} could not be started: ${error.message}`,
+      );
+    }
+    if (status !== 0) {
+      throw new Error(`Editor ${editor} exited with status ${status}`);
+    }
+    return (await readFile(file, "utf-8")).trim();
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Show the research brief and ask the user to approve, edit or reject it.
+ * @param researchBrief - Generated research brief
+ * @returns Decision to resume the brief review interrupt with
+ */
+async function reviewBrief(
+  researchBrief: string,
+): Promise<Record<string, any>> {
+  console.error(`\nResearch brief:\n\n${researchBrief}`);
+
+  while (true) {
+    const choice = (
+      await prompt("[a]pprove, [e]dit or [r]eject this brief?")
+    ).toLowerCase();
+
+    if (choice === "a" || choice === "approve") {
+      return { action: "approve" };
+    }
+    if (choice === "e" || choice === "edit") {
+      const edited = await editInEditor(researchBrief);
+      return edited
+        ? { action: "edit", research_brief: edited }
+        : { action: "approve" };
+    }
+    if (choice === "r" || choice === "reject") {
+      const feedback = await prompt("What should change?");
+      if (feedback) {
+        return { action: "reject", feedback };
+      }
+    }
+  }
+}
+
+/**
+ * Show the research plan and ask the user to approve or edit it.
+ * @param plan - Research plan the supervisor created or updated
+ * @param errors - Why the previous decision was rejected, when asked again
+ * @returns Decision to resume the plan review interrupt with
+ */
+async function reviewPlan(
+  plan: ResearchPlan,
+  errors: string[] = [],
+): Promise<Record<string, any>> {
+  console.error(`\nResearch plan:\n\n${formatPlan(plan)}`);
+  if (errors.length > 0) {
+    console.error(`\nThe previous decision was rejected: ${errors.join("; ")}`);
+  }
+
+  while (true) {
+    const choice = (
+      await prompt("[a]pprove or [e]dit this plan?")
+    ).toLowerCase();
+
+    if (choice === "a" || choice === "approve") {
+      return { action: "approve" };
+    }
+    if (choice === "e" || choice === "edit") {
+      const edited = await editInEditor(
+        JSON.stringify(plan, null, 2),
+        "research-plan.json",
+      );
+      if (!edited) {
+        return { action: "approve" };
+      }
+      try {
+        const researchPlan = ResearchPlan.parse(JSON.parse(edited));
+        const errors = validatePlan(researchPlan);
+        if (errors.length === 0) {
+          return { action: "edit", research_plan: researchPlan };
+        }
+        console.error(`Invalid research plan: ${errors.join("; ")}`);
+      } catch (error) {
+        console.error(`Invalid research plan: ${(error as Error).message}`);
+      }
+    }
+  }
+}
+
+/**
+ * Stream a graph run on a thread, printing progress for each node update.
+ * @param graph - Compiled graph
+ * @param input - Graph input
+ * @param config - Run config with the thread ID
+ * @param quiet - Suppress progress output
+ */
+async function streamRun(
+  graph: any,
+  input: Record<string, any> | Command | null,
+  config: Record<string, any>,
+  quiet: boolean,
+): Promise<void> {
+  const stream = await graph.stream(input, {
+    ...config,
+    streamMode: "updates",
+    subgraphs: true,
+  });
+
+  for await (const [namespace, chunk] of stream) {
+    if (quiet) continue;
+    for (const [node, update] of Object.entries(chunk ?? {})) {
+      if (node.startsWith("__")) continue; // e.g. __interrupt__
+      console.error(
+        formatProgressEvent(toProgressEvent(namespace, node, update as any)),
+      );
+    }
+  }
+}
+
+/**
+ * Run a graph on a thread, looping on clarification questions and brief and
+ * plan reviews.
+ * @param spec - Selected graph
+ * @param graph - The selected graph, compiled
+ * @param input - Graph input, or null to resume the thread's pending run
+ * @param config - Run config with the thread ID and configurable options
+ * @param quiet - Suppress progress output
+ * @returns Final graph state values
+ */
+async function runWithClarification(
+  spec: GraphSpec,
+  graph: any,
+  input: Record<string, any> | null,
+  config: Record<string, any>,
+  quiet: boolean,
+): Promise<Record<string, any>> {
+  let next: Record<string, any> | Command | null = input;
+
+  while (true) {
+    await streamRun(graph, next, config, quiet);
+    const { values, tasks } = await graph.getState(config);
+
+    // The run pauses at the brief review until the user decides
+    const review = tasks
+      .flatMap((task: any) => task.interrupts ?? [])
+      .find((item: any) => item.value?.type === "research_brief_review");
+    if (review) {
+      next = new Command({
+        resume: await reviewBrief(review.value.research_brief),
+      });
+      continue;
+    }
+
+    // The supervisor pauses after updating its plan until the user decides
+    const planReview = tasks
+      .flatMap((task: any) => task.interrupts ?? [])
+      .find((item: any) => item.value?.type === "research_plan_review");
+    if (planReview) {
+      next = new Command({
+        resume: await reviewPlan(
+          planReview.value.research_plan,
+          planReview.value.errors,
+        ),
+      });
+      continue;
+    }
+
+    // The scoping step ends without a brief when it needs clarification
+    const lastMessage = values.messages?.at(-1);
+    if (!spec.clarifies || values.research_brief || !isAIMessage(lastMessage)) {
+      return values;
+    }
+
+    const answer = await prompt(String(lastMessage.content));
+    if (!answer) {
+      throw new Error("No answer given to the clarification question.");
+    }
+    next = { messages: [new HumanMessage(answer)] };
+  }
+}
+
+/**
+ * Read the usage budget flags.
+ * @param args - Parsed command-line options
+ * @returns Budget with the limits that were given
+ */
+function parseBudget(args: {
+  "max-tokens"?: string | undefined;
+  "max-cost"?: string | undefined;
+  "max-searches"?: string | undefined;
+}): UsageBudget {
+  const limit = (flag: keyof typeof args) => {
+    const value = args[flag];
+    if (value === undefined) return undefined;
+    const number = Number(value);
+    if (!Number.isFinite(number) || number < 0) {
+      throw new Error(`--${flag} must be a non-negative number`);
+    }
+    return number;
+  };
+
+  const budget: UsageBudget = {};
+  const maxTokens = limit("max-tokens");
+  const maxCost = limit("max-cost");
+  const maxSearches = limit("max-searches");
+  if (maxTokens !== undefined) budget.max_tokens = maxTokens;
+  if (maxCost !== undefined) budget.max_cost_usd = maxCost;
+  if (maxSearches !== undefined) budget.max_search_calls = maxSearches;
+  return budget;
+}
+
+/**
+ * Pick the output format from the --format flag or the output file name.
+ * @param format - Value of --format, if given
+ * @param output - Value of --output, if given
+ * @returns The selected report format
+ */
+function resolveFormat(
+  format: string | undefined,
+  output: string | undefined,
+): ReportFormat {
+  const name = format ?? (output && formatFromPath(output)) ?? reportFormat;
+  if (!isReportFormat(name)) {
+    throw new Error(
+      `Unknown format: ${name}. Expected one of ${reportFormats.join(", ")}`,
+    );
+  }
+  return name;
+}
+
+/**
+ * Write an exported report to a file, or to stdout.
+ * @param exported - Exported report
+ * @param output - Output file path, if given
+ * @param quiet - Suppress the confirmation message
+ */
+async function writeReport(
+  exported: ExportedReport,
+  output: string | undefined,
+  quiet: boolean,
+): Promise<void> {
+  if (output) {
+    await writeFile(output, exported.content);
+    if (!quiet) {
+      console.error(`Wrote ${exported.format} result to ${output}`);
+    }
+  } else if (typeof exported.content === "string") {
+    console.log(exported.content);
+  } else if (!process.stdout.isTTY) {
+    process.stdout.write(exported.content);
+  } else {
+    throw new Error(
+      `Writing ${exported.format} to a terminal requires --output`,
+    );
+  }
+}
+
+/**
+ * Export a previously saved Markdown report.
+ * @param file - Path of the saved report
+ * @param args - Parsed command-line options
+ */
+async function exportSavedReport(
+  file: string | undefined,
+  args: {
+    format?: string | undefined;
+    output?: string | undefined;
+    "thread-id"?: string | undefined;
+    quiet: boolean;
+  },
+): Promise<void> {
+  if (!file) {
+    throw new Error("export requires the path of a saved report");
+  }
+  const report = await readFile(file, "utf-8");
+
+  // The run's registry adds IDs, retrieval times and excerpts to the
+  // sources. It is read from the thread's last checkpoint, so exporting does
+  // not load the graphs and their models.
+  const registry = (
+    args["thread-id"]
+      ? ((
+          await checkpointer.getTuple({
+            configurable: { thread_id: args["thread-id"] },
+          })
+        )?.checkpoint.channel_values.sources ?? {})
+      : {}
+  ) as SourceRegistry;
+
+  const format = resolveFormat(args.format, args.output);
+  await writeReport(
+    await exportReport(report, format, registry),
+    args.output,
+    args.quiet,
+  );
+}
+
+async function main(): Promise<void> {
+  const { values: args, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      file: { type: "string", short: "f" },
+      output: { type: "string", short: "o" },
+      format: { type: "string" },
+      graph: { type: "string", short: "g", default: "deep_research" },
+      "thread-id": { type: "string", short: "t" },
+      resume: { type: "boolean", short: "r", default: false },
+      "review-brief": { type: "boolean", default: false },
+      "review-plan": { type: "boolean", default: false },
+      "search-provider": { type: "string" },
+      "corpus-dir": { type: "string" },
+      "max-tokens": { type: "string" },
+      "max-cost": { type: "string" },
+      "max-searches": { type: "string" },
+      "no-cache": { type: "boolean", default: false },
+      "refresh-cache": { type: "boolean", default: false },
+      verification: { type: "string" },
+      "report-writer": { type: "string" },
+      quiet: { type: "boolean", short: "q", default: false },
+      help: { type: "boolean", short: "h", default: false },
+    },
+  });
+
+  if (args.help) {
+    console.log(usage);
+    return;
+  }
+
+  if (positionals[0] === "export") {
+    await exportSavedReport(positionals[1], args);
+    return;
+  }
+
+  const format = resolveFormat(args.format, args.output);
+  const spec = graphs[args.graph];
+  if (!spec) {
+    throw new Error(
+      `Unknown graph: ${args.graph}. Expected one of ${Object.keys(graphs).join(", ")}`,
+    );
+  }
+
+  const graph = await spec.load();
+  const threadId = args["thread-id"] ?? randomUUID();
+  const configurable: Record<string, any> = { thread_id: threadId };
+  if (args["search-provider"]) {
+    configurable.search_provider = args["search-provider"];
+  }
+  if (args["corpus-dir"]) {
+    configurable.corpus_dir = args["corpus-dir"];
+  }
+  const budget = parseBudget(args);
+  if (Object.keys(budget).length > 0) {
+    configurable.budget = budget;
+  }
+  if (args["review-brief"]) {
+    configurable.review_research_brief = true;
+  }
+  if (args["review-plan"]) {
+    configurable.review_research_plan = true;
+  }
+  if (args["no-cache"]) {
+    configurable.cache_mode = "bypass";
+  } else if (args["refresh-cache"]) {
+    configurable.cache_mode = "refresh";
+  }
+  if (args.verification) {
+    configurable.verification_mode = args.verification;
+  }
+  if (args["report-writer"]) {
+    configurable.report_writer = args["report-writer"];
+  }
+
+  let input: Record<string, any> | null;
+  if (args.resume) {
+    if (!args["thread-id"]) {
+      throw new Error("--resume requires --thread-id");
+    }
+    if (!(await hasPendingRun(graph, threadId))) {
+      throw new Error(`Thread ${threadId} has no interrupted run to resume`);
+    }
+    // A null input continues from the last completed super-step
+    input = null;
+  } else {
+    const question = args.file
+      ? (await readFile(args.file, "utf-8")).trim()
+      : positionals.join(" ").trim();
+    if (!question) {
+      console.error(usage);
+      process.exitCode = 1;
+      return;
+    }
+    input = spec.input(question);
+  }
+
+  if (!args.quiet) {
+    console.error(
+      `${args.resume ? "Resuming" : "Running"} ${args.graph} on thread ${threadId}`,
+    );
+  }
+  const values = await runWithClarification(
+    spec,
+    graph,
+    input,
+    { configurable },
+    args.quiet,
+  );
+  const result = spec.output(values);
+  if (!args.quiet && values.usage?.length) {
+    console.error(`Usage: ${formatUsage(totalUsage(values.usage))}`);
+    const cacheUsage = totalCacheUsage(values.usage);
+    if (Object.keys(cacheUsage).length > 0) {
+      console.error(`Cache: ${formatCacheUsage(cacheUsage)}`);
+    }
+  }
+  // Reported even when quiet: these pages weakened the result
+  const degraded: DegradedSummary[] = values.degraded_summaries ?? [];
+  if (degraded.length > 0) {
+    console.error(
+      `Warning: ${degraded.length} page(s) could not be summarized; researchers only saw their first 1000 characters:`,
+    );
+    for (const { url, error } of degraded) {
+      console.error(`  - ${url}: ${error}`);
+    }
+  }
+
+  const verification: ReportVerification | undefined = values.verification;
+  // A follow-up answer leaves the report, and its verification, unchanged
+  if (!args.quiet && verification && !values.follow_up?.answer) {
+    console.error(
+      `Verification: ${verification.supported} supported, ${verification.unsupported} unsupported, ` +
+        `${verification.contradicted} contradicted claim(s)${verification.revised ? "; report revised" : ""}`,
+    );
+  }
+
+  await writeReport(
+    await exportReport(result, format, values.sources ?? {}),
+    args.output,
+    args.quiet,
+  );
+}
+
+main()
+  .catch((error) => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  })
+  .finally(closeTerminal);
@@ -1,29 +1,291 @@
 // Config file for the project
 import { config as dotenvConfig } from "dotenv";
-import { tavily } from "@tavily/core";
 
 // Load environment variables from .env file
-dotenvConfig();
+dotenvConfig({ quiet: true });
 
-// Initialize the Tavily client
-export const tavilyClient = tavily({
-  apiKey: process.env.TAVILY_API_KEY || "",
-});
+// Default search provider, overridable per run via the `search_provider`
+// configurable option ("tavily" | "searxng" | "brave" | "fixture")
+export const searchProvider = process.env.SEARCH_PROVIDER || "tavily";
 
-export const maxConcurrentResearchUnits = process.env.MAX_CONCURRENT_RESEARCH_UNITS || "3";
-export const maxResearcherIterations = process.env.MAX_RESEARCHER_ITERATIONS || "6";
+// Results per search when the researcher does not ask for a number, and the
+// most a researcher can ask for
+export const searchSettings = {
+  defaultMaxResults: parseInt(process.env.SEARCH_DEFAULT_RESULTS || "3", 10),
+  maxResults: parseInt(process.env.SEARCH_MAX_RESULTS || "10", 10),
+};
+
+// Domains every search and page fetch is restricted to (DOMAIN_ALLOWLIST) or
+// never reaches (DOMAIN_BLOCKLIST), as comma-separated lists. Subdomains of a
+// listed domain match too. Enforced regardless of what researchers request.
+export const domainPolicy = {
+  allow: (process.env.DOMAIN_ALLOWLIST || "")
+    .split(",")
+    .map((domain) => domain.trim().toLowerCase())
+    .filter(Boolean),
+  deny: (process.env.DOMAIN_BLOCKLIST || "")
+    .split(",")
+    .map((domain) => domain.trim().toLowerCase())
+    .filter(Boolean),
+};
+
+// Source credibility scoring. Sources on CREDIBILITY_TRUSTED_DOMAINS rank
+// above neutral ones, sources on CREDIBILITY_LOW_DOMAINS below them (comma-
+// separated, subdomains match). Publication age counts with a half-life of
+// CREDIBILITY_RECENCY_HALF_LIFE_DAYS, and search results scoring below
+// CREDIBILITY_MIN_SCORE (0-1) are dropped before summarization.
+export const credibilitySettings = {
+  trustedDomains: (
+    process.env.CREDIBILITY_TRUSTED_DOMAINS ||
+    "gov,edu,int,ac.uk,europa.eu,nih.gov,who.int,nature.com,science.org,arxiv.org,acm.org,ieee.org"
+  )
+    .split(",")
+    .map((domain) => domain.trim().toLowerCase())
+    .filter(Boolean),
+  lowDomains: (process.env.CREDIBILITY_LOW_DOMAINS || "")
+    .split(",")
+    .map((domain) => domain.trim().toLowerCase())
+    .filter(Boolean),
+  recencyHalfLifeDays: parseFloat(
+    process.env.CREDIBILITY_RECENCY_HALF_LIFE_DAYS || "730",
+  ),
+  minScore: parseFloat(process.env.CREDIBILITY_MIN_SCORE || "0.3"),
+};
+
+export const searchSecrets = {
+  tavily: {
+    apiKey: process.env.TAVILY_API_KEY || "",
+  },
+  searxng: {
+    baseUrl: process.env.SEARXNG_BASE_URL || "",
+  },
+  brave: {
+    apiKey: process.env.BRAVE_API_KEY || "",
+  },
+  fixture: {
+    path: process.env.SEARCH_FIXTURE_PATH || "",
+  },
+};
+
+// Local document corpus searched by the `local_search` tool. The directory
+// can be overridden per run via the `corpus_dir` configurable option.
+export const corpusSettings = {
+  dir: process.env.CORPUS_DIR || "",
+  chunkSize: parseInt(process.env.CORPUS_CHUNK_SIZE || "1500", 10),
+  chunkOverlap: parseInt(process.env.CORPUS_CHUNK_OVERLAP || "200", 10),
+  chunksPerDocument: parseInt(process.env.CORPUS_CHUNKS_PER_DOCUMENT || "3", 10),
+};
+
+// Checkpointer used by the compiled graphs: "file" appends every thread's
+// checkpoints to a log under CHECKPOINT_DIR so runs can be resumed; "memory"
+// keeps them in process
+export const checkpointSettings = {
+  backend: process.env.CHECKPOINT_BACKEND || "file",
+  dir: process.env.CHECKPOINT_DIR || ".checkpoints",
+};
+
+// On-disk cache of search responses and webpage summaries. CACHE_MODE is
+// "use" (read and write), "refresh" (ignore cached entries but store new ones)
+// or "bypass" (no caching), overridable per run via the `cache_mode` option.
+// The oldest entries are evicted once the cache grows past CACHE_MAX_SIZE_MB.
+export const cacheSettings = {
+  dir: process.env.CACHE_DIR || ".cache",
+  mode: process.env.CACHE_MODE || "use",
+  maxSizeMb: parseFloat(process.env.CACHE_MAX_SIZE_MB || "200"),
+  searchTtlHours: parseFloat(process.env.CACHE_SEARCH_TTL_HOURS || "24"),
+  summaryTtlHours: parseFloat(process.env.CACHE_SUMMARY_TTL_HOURS || "720"),
+};
+
+// Rate limits shared by every run in the process; 0 means unlimited. LLM,
+// search and page fetch calls failing with a rate limit (429) or server error
+// (5xx) are retried up to MAX_RETRIES times with exponential backoff.
+export const rateLimits = {
+  llmRequestsPerMinute: parseInt(process.env.LLM_REQUESTS_PER_MINUTE || "0", 10),
+  llmTokensPerMinute: parseInt(process.env.LLM_TOKENS_PER_MINUTE || "0", 10),
+  searchRequestsPerMinute: parseInt(
+    process.env.SEARCH_REQUESTS_PER_MINUTE || "0",
+    10,
+  ),
+  fetchRequestsPerMinute: parseInt(
+    process.env.FETCH_REQUESTS_PER_MINUTE || "0",
+    10,
+  ),
+  maxRetries: parseInt(process.env.MAX_RETRIES || "4", 10),
+  retryBaseDelayMs: parseInt(process.env.RETRY_BASE_DELAY_MS || "1000", 10),
+};
+
+// Page downloads by the fetch_url and crawl_site tools: the User-Agent sent
+// and matched against robots.txt, the request timeout, the most bytes read
+// per page, and the most pages and link depth of a crawl. Hosts that resolve
+// to loopback, private or link-local addresses are refused unless
+// WEB_FETCH_ALLOW_PRIVATE_HOSTS=true, e.g. to research an intranet.
+export const webFetchSettings = {
+  userAgent: process.env.WEB_FETCH_USER_AGENT || "deep-research-ts",
+  timeoutMs: parseInt(process.env.WEB_FETCH_TIMEOUT_MS || "15000", 10),
+  maxBytes: parseInt(process.env.WEB_FETCH_MAX_BYTES || "2000000", 10),
+  maxCrawlPages: parseInt(process.env.CRAWL_MAX_PAGES || "10", 10),
+  maxCrawlDepth: parseInt(process.env.CRAWL_MAX_DEPTH || "2", 10),
+  allowPrivateHosts: process.env.WEB_FETCH_ALLOW_PRIVATE_HOSTS === "true",
+};
+
+// Webpages summarized at the same time for one search call
+export const summarizationConcurrency = parseInt(
+  process.env.SUMMARIZATION_CONCURRENCY || "4",
+  10,
+);
+
+// Record/replay of LLM and search calls for deterministic offline runs:
+// CASSETTE_MODE=record writes every call to CASSETTE_PATH, and
+// CASSETTE_MODE=replay serves the recorded responses without network access.
+// The search and summary cache is bypassed while a cassette is in use.
+export const cassetteSettings = {
+  mode: process.env.CASSETTE_MODE || "",
+  path: process.env.CASSETTE_PATH || "cassette.jsonl",
+};
+
+// Date used in prompts instead of today, as YYYY-MM-DD. Replays always use
+// the date stored in the cassette.
+export const pinnedDate = process.env.PINNED_DATE || "";
+
+// Pause after the research brief is written so a human can approve, edit or
+// reject it. Overridable per run via the `review_research_brief` option.
+export const reviewResearchBrief = process.env.REVIEW_RESEARCH_BRIEF === "true";
+
+// Pause after the supervisor creates or updates its research plan so a human
+// can approve or edit it. Overridable per run via the `review_research_plan` option.
+export const reviewResearchPlan = process.env.REVIEW_RESEARCH_PLAN === "true";
+
+// Fact-checking of the final report against the research notes and source
+// excerpts: "appendix" lists unsupported and contradicted claims after the
+// report, "revise" rewrites the report to remove or qualify them, "off" skips
+// verification. Overridable per run via the `verification_mode` option.
+export const verificationSettings = {
+  mode: process.env.VERIFICATION_MODE || "appendix",
+  // Claims checked per report; claims beyond this are not verified
+  maxClaims: parseInt(process.env.VERIFICATION_MAX_CLAIMS || "30", 10),
+};
+
+// Final report writing: "single" writes the report in one call, "sectioned"
+// outlines it, writes its sections in parallel from their own notes and
+// frames them with an introduction and conclusion, and "auto" writes
+// sectioned once the research notes exceed sectionedMinTokens (estimated).
+// Overridable per run via the `report_writer` option.
+export const reportWriterSettings = {
+  mode: process.env.REPORT_WRITER || "auto",
+  sectionedMinTokens: parseInt(process.env.REPORT_SECTIONED_MIN_TOKENS || "20000", 10),
+  // Sections written at once
+  sectionConcurrency: parseInt(process.env.REPORT_SECTION_CONCURRENCY || "4", 10),
+};
+
+// Default format of exported reports ("markdown" | "html" | "docx" | "json"),
+// selectable per run with the CLI --format flag or the job API
+export const reportFormat = process.env.REPORT_FORMAT || "markdown";
+
+// Per-run usage budgets; 0 means unlimited. Overridable per run via the
+// `budget` configurable option ({ max_tokens, max_cost_usd, max_search_calls }).
+// When a budget is exhausted, research stops and the final report is written
+// from the notes gathered so far.
+export const usageBudget = {
+  maxTokens: parseInt(process.env.BUDGET_MAX_TOKENS || "0", 10),
+  maxCostUsd: parseFloat(process.env.BUDGET_MAX_COST_USD || "0"),
+  maxSearchCalls: parseInt(process.env.BUDGET_MAX_SEARCH_CALLS || "0", 10),
+};
+
+// Additional model prices as JSON in USD per million tokens, e.g.
+// {"my-model": {"input": 1, "output": 2}}; merged over src/usage/pricing.ts
+export const modelPricingOverrides = process.env.MODEL_PRICING || "";
+
+// Port of the research job HTTP server (src/server)
+export const serverPort = parseInt(process.env.SERVER_PORT || "3000", 10);
+
+// Research limits, overridable per run via the `max_concurrent_research_units`,
+// `max_researcher_iterations` and `max_react_tool_calls` configurable options:
+// researchers the supervisor runs per turn, supervisor turns per run, and tool
+// calls per researcher before its findings are compressed
+export const maxConcurrentResearchUnits = parseInt(
+  process.env.MAX_CONCURRENT_RESEARCH_UNITS || "3",
+  10,
+);
+export const maxResearcherIterations = parseInt(
+  process.env.MAX_RESEARCHER_ITERATIONS || "6",
+  10,
+);
+export const maxReactToolCalls = parseInt(
+  process.env.MAX_REACT_TOOL_CALLS || "10",
+  10,
+);
+
+// Context-window management of researchers, in estimated tokens: once a
+// researcher's message history exceeds historyTokens, its older tool rounds
+// are condensed into running notes, keeping the last keepRecentRounds rounds
+// verbatim. Research findings larger than the compress model's window
+// (compressContextTokens) are compressed in chunks and then merged.
+export const contextSettings = {
+  historyTokens: parseInt(process.env.RESEARCHER_HISTORY_TOKENS || "60000", 10),
+  keepRecentRounds: parseInt(process.env.RESEARCHER_KEEP_RECENT_ROUNDS || "2", 10),
+  compressContextTokens: parseInt(process.env.COMPRESS_CONTEXT_TOKENS || "100000", 10),
+};
 
 export const modelSecrets = {
   gpt41: {
+    modelName: process.env.AZURE_OPENAI_API_MODEL_NAME_4_1 || "gpt-4.1",
     apiKey: process.env.AZURE_OPENAI_API_KEY!,
     apiDeploymentName: process.env.AZURE_OPENAI_API_DEPLOYMENT_NAME_4_1!,
     apiVersion: process.env.AZURE_OPENAI_API_VERSION_4_1!,
     apiInstanceName: process.env.AZURE_OPENAI_API_INSTANCE_NAME!,
   },
   gpt41Mini: {
+    modelName: process.env.AZURE_OPENAI_API_MODEL_NAME_4_1_MINI || "gpt-4.1-mini",
     apiKey: process.env.AZURE_OPENAI_API_KEY!,
     apiDeploymentName: process.env.AZURE_OPENAI_API_DEPLOYMENT_NAME_4_1_MINI!,
     apiVersion: process.env.AZURE_OPENAI_API_VERSION_4_1_MINI!,
     apiInstanceName: process.env.AZURE_OPENAI_API_INSTANCE_NAME!,
   },
 };
+
+export const providerSecrets = {
+  openai: {
+    apiKey: process.env.OPENAI_API_KEY || "",
+    // Optional, for OpenAI-compatible servers (vLLM, LM Studio, ...)
+    baseUrl: process.env.OPENAI_BASE_URL || "",
+  },
+  anthropic: {
+    apiKey: process.env.ANTHROPIC_API_KEY || "",
+  },
+  ollama: {
+    baseUrl: process.env.OLLAMA_BASE_URL || "http://localhost:11434/v1",
+    // Ollama ignores the key, but the OpenAI client requires one
+    apiKey: process.env.OLLAMA_API_KEY || "ollama",
+  },
+};
+
+export type ModelRole =
+  | "clarify"
+  | "brief"
+  | "supervisor"
+  | "researcher"
+  | "compress"
+  | "summarize"
+  | "final_report"
+  // Handles follow-up messages on a finished report
+  | "follow_up"
+  // Extracts and checks the claims of the final report
+  | "verify"
+  // Scores reports in the evaluation suite (src/eval)
+  | "judge";
+
+// Model used for each role, as "<provider>:<model>". Providers are azure
+// (model is a family from modelSecrets), openai, anthropic, ollama and fake
+// (model is the path of a chat script, see src/llm/scripted.ts).
+export const roleModels: Record<ModelRole, string> = {
+  clarify: process.env.CLARIFY_MODEL || "azure:gpt41",
+  brief: process.env.BRIEF_MODEL || "azure:gpt41",
+  supervisor: process.env.SUPERVISOR_MODEL || "azure:gpt41",
+  researcher: process.env.RESEARCHER_MODEL || "azure:gpt41",
+  compress: process.env.COMPRESS_MODEL || "azure:gpt41",
+  summarize: process.env.SUMMARIZE_MODEL || "azure:gpt41Mini",
+  final_report: process.env.FINAL_REPORT_MODEL || "azure:gpt41",
+  follow_up: process.env.FOLLOW_UP_MODEL || "azure:gpt41",
+  verify: process.env.VERIFY_MODEL || "azure:gpt41",
+  judge: process.env.JUDGE_MODEL || "azure:gpt41",
+};
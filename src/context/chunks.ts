@@ -0,0 +1,76 @@
+/**
+ * Transcript Chunking.
+ *
+ * Splits texts that do not fit in a model's context window into chunks
+ * that do, for map-reduce processing.
+ */
+
+import { CHARACTERS_PER_TOKEN, estimateTextTokens } from "./tokens.js";
+
+/**
+ * Split a text into pieces of at most the given size, preferring to break
+ * between paragraphs, then lines.
+ * @param text - Text to split
+ * @param maxTokens - Largest piece, in estimated tokens
+ * @returns Pieces of the text, in order
+ */
+function splitText(text: string, maxTokens: number): string[] {
+  const maxCharacters = Math.max(1, maxTokens * CHARACTERS_PER_TOKEN);
+  const pieces: string[] = [];
+  let rest = text;
+  while (rest.length > maxCharacters) {
+    const window = rest.slice(0, maxCharacters);
+    const breakAt = Math.max(
+      window.lastIndexOf("\n\n"),
+      window.lastIndexOf("\n"),
+    );
+    const end = breakAt > maxCharacters / 2 ? breakAt : maxCharacters;
+    pieces.push(rest.slice(0, end));
+    rest = rest.slice(end).replace(/^\n+/, "");
+  }
+  if (rest) pieces.push(rest);
+  return pieces;
+}
+
+/**
+ * Group consecutive texts whose combined size fits the given size.
+ *
+ * Texts are kept whole and in order; a text larger than the size forms a
+ * group of its own.
+ * @param texts - Texts to group
+ * @param maxTokens - Largest group, in estimated tokens
+ * @returns Groups of texts, in order
+ */
+export function groupTexts(texts: string[], maxTokens: number): string[][] {
+  const groups: string[][] = [];
+  let current: string[] = [];
+  let size = 0;
+  for (const text of texts) {
+    const tokens = estimateTextTokens(text);
+    if (current.length > 0 && size + tokens > maxTokens) {
+      groups.push(current);
+      current = [];
+      size = 0;
+    }
+    current.push(text);
+    size += tokens;
+  }
+  if (current.length > 0) groups.push(current);
+  return groups;
+}
+
+/**
+ * Pack texts into chunks of at most the given size.
+ *
+ * Texts are kept whole and in order where they fit; a text larger than a
+ * chunk is split across chunks of its own.
+ * @param texts - Texts, e.g. the messages of a transcript
+ * @param maxTokens - Largest chunk, in estimated tokens
+ * @returns Chunks, in order
+ */
+export function packTexts(texts: string[], maxTokens: number): string[] {
+  const pieces = texts.flatMap((text) =>
+    estimateTextTokens(text) > maxTokens ? splitText(text, maxTokens) : [text],
+  );
+  return groupTexts(pieces, maxTokens).map((group) => group.join("\n\n"));
+}
@@ -0,0 +1,141 @@
+/**
+ * Researcher History.
+ *
+ * A researcher's message history grows by one round, a model turn and the
+ * outputs of its tool calls, per loop iteration. Older rounds are condensed
+ * into running notes that stand in for them in later prompts, while the
+ * latest rounds are kept verbatim.
+ */
+
+import {
+  BaseMessage,
+  HumanMessage,
+  isAIMessage,
+  isToolMessage,
+} from "@langchain/core/messages";
+import {
+  extractSourceIds,
+  resolveSource,
+  SourceRegistry,
+} from "../sources/index.js";
+
+// A researcher's history split into its rounds.
+export type HistorySplit = {
+  // Messages before the first round, i.e. the research topic
+  leading: BaseMessage[];
+  // Rounds to condense, oldest first
+  older: BaseMessage[];
+  // Latest rounds, kept verbatim
+  recent: BaseMessage[];
+};
+
+const SOURCES_HEADING = /^#{1,6}\s*\**\s*sources\b/im;
+
+/**
+ * Split a researcher's history into older and recent rounds.
+ *
+ * Each round starts with a model turn, so a tool call is never separated
+ * from its output.
+ * @param messages - Researcher messages
+ * @param keepRecentRounds - Latest rounds to keep verbatim
+ * @returns Leading messages, older rounds and recent rounds
+ */
+export function splitHistory(
+  messages: BaseMessage[],
+  keepRecentRounds: number,
+): HistorySplit {
+  const roundStarts = messages.flatMap((message, i) =>
+    isAIMessage(message) ? [i] : [],
+  );
+  if (roundStarts.length === 0) {
+    return { leading: messages, older: [], recent: [] };
+  }
+  const first = roundStarts[0]!;
+  const kept = Math.max(0, roundStarts.length - Math.max(1, keepRecentRounds));
+  const split = kept > 0 ? roundStarts[kept]! : first;
+  return {
+    leading: messages.slice(0, first),
+    older: messages.slice(first, split),
+    recent: messages.slice(split),
+  };
+}
+
+/**
+ * Render messages as a plain-text transcript.
+ * @param messages - Researcher messages
+ * @returns Transcript with the model's tool calls and each tool's output
+ */
+export function formatTranscript(messages: BaseMessage[]): string {
+  return messages
+    .map((message) => {
+      const content =
+        typeof message.content === "string"
+          ? message.content
+          : JSON.stringify(message.content);
+      if (isToolMessage(message)) {
+        return `[${message.name ?? "tool"} output]\n${content}`;
+      }
+      if (isAIMessage(message)) {
+        const calls = (message.tool_calls ?? []).map(
+          (call) => `[calls ${call.name}] ${JSON.stringify(call.args)}`,
+        );
+        return [`[researcher]${content ? `\n${content}` : ""}`, ...calls].join(
+          "\n",
+        );
+      }
+      return content;
+    })
+    .join("\n\n");
+}
+
+/**
+ * Add the running notes of condensed rounds to a researcher's history.
+ * @param messages - Researcher messages
+ * @param notes - Running notes, if any rounds were condensed
+ * @param heading - Introduction of the notes
+ * @returns Messages with the notes before the first remaining round
+ */
+export function withRunningNotes(
+  messages: BaseMessage[],
+  notes: string,
+  heading: string,
+): BaseMessage[] {
+  if (!notes) return messages;
+  const { leading, older, recent } = splitHistory(messages, Infinity);
+  return [
+    ...leading,
+    new HumanMessage(`${heading}\n\n${notes}`),
+    ...older,
+    ...recent,
+  ];
+}
+
+/**
+ * Make sure a condensed text still mentions the sources its input cited.
+ *
+ * Sources the model left out are appended to the text's Sources list, which
+ * is added when the text has none.
+ * @param text - Condensed text
+ * @param sourceIds - IDs of the sources the input cited
+ * @param sources - Source registry the IDs resolve against
+ * @returns The text, listing every registered source it must mention
+ */
+export function keepSources(
+  text: string,
+  sourceIds: string[],
+  sources: SourceRegistry,
+): string {
+  const mentioned = new Set(extractSourceIds(text));
+  const missing = sourceIds
+    .filter((id) => !mentioned.has(id))
+    .map((id) => resolveSource(sources, id))
+    .filter((source) => source && !mentioned.has(source.id));
+  const listed = [...new Map(missing.map((s) => [s!.id, s!])).values()];
+  if (listed.length === 0) return text;
+
+  const lines = listed.map(
+    (source) => `[${source.id}] ${source.title}: ${source.url}`,
+  );
+  const heading = SOURCES_HEADING.test(text) ? "" : "\n\n### Sources";
+  return `${text.trimEnd()}${heading}\n${lines.join("\n")}`;
+}
@@ -0,0 +1,11 @@
+/**
+ * Context-Window Management.
+ *
+ * Keeps researcher prompts within their models' context windows: token
+ * estimates, condensing older rounds of a researcher's history into running
+ * notes, and chunking transcripts too large for one model call.
+ */
+
+export * from "./tokens.js";
+export * from "./history.js";
+export * from "./chunks.js";
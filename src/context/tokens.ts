@@ -0,0 +1,41 @@
+/**
+ * Token Estimates.
+ *
+ * Prompt sizes are estimated from their length rather than counted with a
+ * provider's tokenizer, which is close enough to decide when a context
+ * window is getting full.
+ */
+
+import { BaseMessage } from "@langchain/core/messages";
+
+// Characters per token of typical English text
+export const CHARACTERS_PER_TOKEN = 4;
+
+/**
+ * Estimate the tokens of a text (about 4 characters per token).
+ * @param text - Text
+ * @returns Estimated token count
+ */
+export function estimateTextTokens(text: string): number {
+  return Math.ceil(text.length / CHARACTERS_PER_TOKEN);
+}
+
+/**
+ * Estimate the tokens of prompt messages, including the tool calls of AI
+ * messages.
+ * @param messages - Prompt messages
+ * @returns Estimated token count
+ */
+export function estimateTokens(messages: BaseMessage[]): number {
+  const characters = messages.reduce((sum, message) => {
+    const content =
+      typeof message.content === "string"
+        ? message.content
+        : JSON.stringify(message.content);
+    const toolCalls = (message as any).tool_calls?.length
+      ? JSON.stringify((message as any).tool_calls)
+      : "";
+    return sum + content.length + toolCalls.length;
+  }, 0);
+  return Math.ceil(characters / CHARACTERS_PER_TOKEN);
+}
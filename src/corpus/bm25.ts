@@ -0,0 +1,98 @@
+/**
+ * Okapi BM25 keyword index.
+ *
+ * A small in-memory implementation, sufficient for corpora of a few thousand
+ * documents without an external search engine.
+ */
+
+const K1 = 1.2;
+const B = 0.75;
+
+const STOPWORDS = new Set(
+  (
+    "a an and are as at be by for from has have in is it its of on or that the " +
+    "this to was were will with what which who how when where why do does"
+  ).split(" "),
+);
+
+/**
+ * Split text into lowercase terms, dropping stopwords.
+ * @param text - Text to tokenize
+ * @returns List of terms
+ */
+export function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []).filter(
+    (term) => term.length > 1 && !STOPWORDS.has(term),
+  );
+}
+
+export type Bm25Hit<T> = {
+  item: T;
+  score: number;
+};
+
+export type Bm25Index<T> = {
+  size: number;
+  search(query: string, limit: number): Bm25Hit<T>[];
+};
+
+/**
+ * Build a BM25 index over a list of items.
+ * @param items - Items to index
+ * @param getText - Returns the searchable text of an item
+ * @returns Index that ranks items against a keyword query
+ */
+export function createBm25Index<T>(
+  items: T[],
+  getText: (item: T) => string,
+): Bm25Index<T> {
+  const termFrequencies = items.map((item) => {
+    const frequencies = new Map<string, number>();
+    for (const term of tokenize(getText(item))) {
+      frequencies.set(term, (frequencies.get(term) ?? 0) + 1);
+    }
+    return frequencies;
+  });
+  const lengths = termFrequencies.map((frequencies) =>
+    [...frequencies.values()].reduce((sum, count) => sum + count, 0),
+  );
+  const averageLength =
+    lengths.reduce((sum, length) => sum + length, 0) / (items.length || 1);
+
+  const documentFrequencies = new Map<string, number>();
+  for (const frequencies of termFrequencies) {
+    for (const term of frequencies.keys()) {
+      documentFrequencies.set(term, (documentFrequencies.get(term) ?? 0) + 1);
+    }
+  }
+
+  function idf(term: string): number {
+    const df = documentFrequencies.get(term) ?? 0;
+    return Math.log(1 + (items.length - df + 0.5) / (df + 0.5));
+  }
+
+  return {
+    size: items.length,
+    search(query: string, limit: number): Bm25Hit<T>[] {
+      const queryTerms = [...new Set(tokenize(query))];
+      const hits: Bm25Hit<T>[] = [];
+
+      termFrequencies.forEach((frequencies, index) => {
+        const length = lengths[index] ?? 0;
+        let score = 0;
+        for (const term of queryTerms) {
+          const tf = frequencies.get(term);
+          if (!tf) continue;
+          score +=
+            (idf(term) * tf * (K1 + 1)) /
+            (tf + K1 * (1 - B + (B * length) / (averageLength || 1)));
+        }
+        if (score > 0) {
+          hits.push({ item: items[index]!, score });
+        }
+      });
+
+      return hits.sort((a, b) => b.score - a.score).slice(0, limit);
+    },
+  };
+}
@@ -0,0 +1,48 @@
+/**
+ * Split text into overlapping chunks on paragraph boundaries.
+ *
+ * Paragraphs are packed into chunks of up to `chunkSize` characters. A
+ * paragraph longer than `chunkSize` is split on its own. Each chunk starts
+ * with the last `overlap` characters of the previous one so that facts
+ * straddling a boundary remain retrievable, as far as the overlap leaves
+ * room for the next paragraph; no chunk is longer than `chunkSize`.
+ * @param text - Document text
+ * @param chunkSize - Maximum chunk length in characters
+ * @param overlap - Number of characters shared between consecutive chunks
+ * @returns List of chunks
+ */
+export function chunkText(
+  text: string,
+  chunkSize: number,
+  overlap: number,
+): string[] {
+  const paragraphs = text
+    .split(/\n\s*\n/)
+    .map((paragraph) => paragraph.trim())
+    .filter(Boolean)
+    .flatMap((paragraph) => {
+      const pieces: string[] = [];
+      for (let start = 0; start < paragraph.length; start += chunkSize) {
+        pieces.push(paragraph.slice(start, start + chunkSize));
+      }
+      return pieces;
+    });
+
+  const chunks: string[] = [];
+  let current = "";
+
+  for (const paragraph of paragraphs) {
+    if (current && current.length + paragraph.length + 2 > chunkSize) {
+      chunks.push(current);
+      // slice(-0) would keep the whole chunk, so an overlap of 0 starts afresh
+      const room = Math.min(overlap, chunkSize - paragraph.length - 2);
+      current = room > 0 ? current.slice(-room) : "";
+    }
+    current = current ? `${current}\n\n${paragraph}` : paragraph;
+  }
+  if (current) {
+    chunks.push(current);
+  }
+
+  return chunks;
+}
@@ -0,0 +1,191 @@
+/**
+ * Local Document Corpus.
+ *
+ * Indexes a local directory of PDF, Markdown, HTML and text files so the
+ * research agent can search internal documents alongside the web. Documents
+ * are split into chunks and ranked with BM25; the best chunks of each file
+ * are returned as a normalized search result whose URL is the file's
+ * `file://` path, so local documents can be cited like web sources.
+ */
+
+import { readdir, stat } from "node:fs/promises";
+import { join, resolve, extname } from "node:path";
+import { pathToFileURL } from "node:url";
+import { corpusSettings } from "../config.js";
+import {
+  SearchOptions,
+  SearchProvider,
+  SearchResponse,
+} from "../search/index.js";
+import { createBm25Index, Bm25Index } from "./bm25.js";
+import { chunkText } from "./chunker.js";
+import { loadDocument, supportedExtensions } from "./loaders.js";
+
+export type CorpusChunk = {
+  path: string;
+  title: string;
+  index: number;
+  text: string;
+};
+
+type CorpusIndex = {
+  signature: string;
+  chunks: Bm25Index<CorpusChunk>;
+};
+
+const indexes = new Map<string, Promise<CorpusIndex>>();
+
+/**
+ * Recursively list the supported files under a directory.
+ * @param dir - Directory to walk
+ * @returns Absolute file paths
+ */
+async function listCorpusFiles(dir: string): Promise<string[]> {
+  const entries = await readdir(dir, { withFileTypes: true });
+  const files = await Promise.all(
+    entries.map(async (entry) => {
+      const path = join(dir, entry.name);
+      if (entry.isDirectory()) {
+        return entry.name.startsWith(".") ? [] : listCorpusFiles(path);
+      }
+      return supportedExtensions.includes(extname(path).toLowerCase())
+        ? [path]
+        : [];
+    }),
+  );
+  return files.flat().sort();
+}
+
+/**
+ * Fingerprint the corpus by file paths, sizes and modification times.
+ * @param files - Corpus file paths
+ * @returns Signature that changes whenever a file is added, removed or edited
+ */
+async function corpusSignature(files: string[]): Promise<string> {
+  const stats = await Promise.all(files.map((file) => stat(file)));
+  return files
+    .map((file, i) => `${file}:${stats[i]!.size}:${stats[i]!.mtimeMs}`)
+    .join("|");
+}
+
+/**
+ * Load, chunk and index every supported corpus file.
+ * @param files - Files to index
+ * @param signature - Corpus signature at indexing time
+ * @returns The built corpus index
+ */
+async function buildCorpusIndex(
+  files: string[],
+  signature: string,
+): Promise<CorpusIndex> {
+  const chunks: CorpusChunk[] = [];
+
+  for (const file of files) {
+    try {
+      const document = await loadDocument(file);
+      if (!document) continue;
+
+      chunkText(
+        document.text,
+        corpusSettings.chunkSize,
+        corpusSettings.chunkOverlap,
+      ).forEach((text, index) => {
+        chunks.push({ path: file, title: document.title, index, text });
+      });
+    } catch (error) {
+      console.error(`Error indexing corpus file ${file}:`, error);
+    }
+  }
+
+  return {
+    signature,
+    chunks: createBm25Index(chunks, (chunk) => `${chunk.title}\n${chunk.text}`),
+  };
+}
+
+/**
+ * Get the index for a corpus directory, rebuilding it when files changed.
+ * @param dir - Corpus directory
+ * @returns Up-to-date corpus index
+ */
+export async function getCorpusIndex(dir: string): Promise<CorpusIndex> {
+  const root = resolve(dir);
+  const files = await listCorpusFiles(root);
+  const signature = await corpusSignature(files);
+
+  const cached = indexes.get(root);
+  if (cached && (await cached).signature === signature) {
+    return cached;
+  }
+
+  const index = buildCorpusIndex(files, signature);
+  indexes.set(root, index);
+  index.catch(() => indexes.delete(root));
+  return index;
+}
+
+/**
+ * Search the corpus and return the best matching chunks.
+ * @param dir - Corpus directory
+ * @param query - Keyword query
+ * @param limit - Maximum number of chunks
+ * @returns Ranked chunks with their BM25 scores
+ */
+export async function searchCorpus(dir: string, query: string, limit: number) {
+  const index = await getCorpusIndex(dir);
+  return index.chunks.search(query, limit);
+}
+
+/**
+ * Create a search provider over a local corpus directory.
+ *
+ * Matching chunks are grouped by file: each result is one document whose raw
+ * content holds its best chunks in document order, ready for summarization.
+ * @param dir - Corpus directory
+ * @returns Search provider returning local documents as search results
+ */
+export function createCorpusProvider(dir: string): SearchProvider {
+  return {
+    name: "corpus",
+    async search(
+      query: string,
+      options: SearchOptions,
+    ): Promise<SearchResponse> {
+      const hits = await searchCorpus(
+        dir,
+        query,
+        options.maxResults * corpusSettings.chunksPerDocument,
+      );
+
+      const byPath = new Map<
+        string,
+        { chunks: CorpusChunk[]; score: number }
+      >();
+      for (const { item, score } of hits) {
+        const entry = byPath.get(item.path) ?? { chunks: [], score };
+        if (entry.chunks.length < corpusSettings.chunksPerDocument) {
+          entry.chunks.push(item);
+        }
+        byPath.set(item.path, entry);
+      }
+
+      const results = [...byPath.entries()]
+        .slice(0, options.maxResults)
+        .map(([path, { chunks, score }]) => {
+          const text = chunks
+            .sort((a, b) => a.index - b.index)
+            .map((chunk) => chunk.text)
+            .join("\n\n[...]\n\n");
+          return {
+            url: pathToFileURL(path).href,
+            title: chunks[0]!.title,
+            content: text.slice(0, 500),
+            rawContent: options.includeRawContent ? text : undefined,
+            score,
+          };
+        });
+
+      return { query, provider: "corpus", results };
+    },
+  };
+}
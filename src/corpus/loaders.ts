@@ -0,0 +1,73 @@
+import { readFile } from "node:fs/promises";
+import { basename, extname } from "node:path";
+import { extractText, getDocumentProxy } from "unpdf";
+import { extractHtmlTitle, htmlToText } from "../shared/html.js";
+
+// A local document reduced to plain text.
+export type CorpusDocument = {
+  path: string;
+  title: string;
+  text: string;
+};
+
+export const supportedExtensions = [
+  ".pdf",
+  ".md",
+  ".markdown",
+  ".html",
+  ".htm",
+  ".txt",
+];
+
+/**
+ * Use the first Markdown heading as the title, falling back to the file name.
+ * @param text - Markdown source
+ * @param path - File path
+ * @returns Document title
+ */
+function markdownTitle(text: string, path: string): string {
+  const heading = text.match(/^#{1,6}\s+(.+)$/m);
+  return heading?.[1]?.trim() || basename(path);
+}
+
+/**
+ * Load a local file and extract its text.
+ * @param path - Absolute path to the file
+ * @returns The loaded document, or undefined for unsupported file types
+ */
+export async function loadDocument(
+  path: string,
+): Promise<CorpusDocument | undefined> {
+  const extension = extname(path).toLowerCase();
+
+  switch (extension) {
+    case ".pdf": {
+      const pdf = await getDocumentProxy(new Uint8Array(await readFile(path)));
+      const { text } = await extractText(pdf, { mergePages: true });
+      const info = (await pdf.getMetadata()).info as { Title?: string };
+      return { path, title: info?.Title || basename(path), text };
+    }
+    case ".md":
+    case ".markdown": {
+      const text = await readFile(path, "utf-8");
+      return { path, title: markdownTitle(text, path), text };
+    }
+    case ".html":
+    case ".htm": {
+      const html = await readFile(path, "utf-8");
+      return {
+        path,
+        title: extractHtmlTitle(html) || basename(path),
+        text: htmlToText(html),
+      };
+    }
+    case ".txt":
+      return {
+        path,
+        title: basename(path),
+        text: await readFile(path, "utf-8"),
+      };
+    default:
+      return undefined;
+  }
+}
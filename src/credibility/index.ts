@@ -0,0 +1,9 @@
+/**
+ * Source Credibility.
+ *
+ * Scores retrieved sources so researchers can tell a peer-reviewed paper
+ * from a content farm, and drops the least credible search results before
+ * they are summarized.
+ */
+
+export * from "./scoring.js";
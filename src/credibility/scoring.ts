@@ -0,0 +1,296 @@
+/**
+ * Source Credibility Scoring.
+ *
+ * Scores every retrieved source between 0 and 1 from four signals: the
+ * reputation of its domain, how recently it was published, the relevance
+ * score the search provider gave it, and how many independent sites in the
+ * same results say something similar. Signals that are unknown for a source,
+ * e.g. the date of a page without one, are left out of its score rather than
+ * counted against it.
+ */
+
+import { credibilitySettings } from "../config.js";
+import {
+  matchesDomain,
+  normalizeDomain,
+  SearchResult,
+} from "../search/index.js";
+
+export type DomainReputation = "trusted" | "neutral" | "low";
+
+// Credibility of one source, with the signals it was computed from.
+export type CredibilityScore = {
+  // Weighted mean of the known signals, between 0 and 1
+  score: number;
+  reputation: DomainReputation;
+  // Days since publication, when the publication date is known
+  age_days?: number | undefined;
+  // Provider relevance, scaled to 0-1 within the results
+  relevance?: number | undefined;
+  // Other sites whose results overlap with this one
+  corroborating_sites: number;
+};
+
+export type CredibilitySettings = typeof credibilitySettings;
+
+// Weight of each signal in the score
+const WEIGHTS = {
+  reputation: 0.5,
+  relevance: 0.2,
+  recency: 0.15,
+  corroboration: 0.15,
+};
+
+const REPUTATION_SCORES: Record<DomainReputation, number> = {
+  trusted: 1,
+  neutral: 0.5,
+  low: 0,
+};
+
+// Share of the smaller result's terms two results must have in common to
+// corroborate each other
+const CORROBORATION_OVERLAP = 0.3;
+
+// Independent sites needed for full corroboration
+const FULL_CORROBORATION = 2;
+
+const STOPWORDS = new Set(
+  `about after also been before being between could does from have into more
+  most only other over such than that their them then there these they this
+  those through under were what when where which while will with would your`.split(
+    /\s+/,
+  ),
+);
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Round a score to two decimals.
+ * @param value - Score between 0 and 1
+ * @returns Rounded score
+ */
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Get the host of a URL.
+ * @param url - Source URL
+ * @returns Normalized host, empty for URLs without one
+ */
+function hostOf(url: string): string {
+  try {
+    return normalizeDomain(new URL(url).host);
+  } catch {
+    return "";
+  }
+}
+
+/**
+ * Reduce a host to the site it belongs to, so that subdomains of one site
+ * never corroborate each other.
+ * @param host - Normalized host
+ * @returns The last two labels, or three under a country's second level
+ *          domain such as "co.uk"
+ */
+export function siteOf(host: string): string {
+  const labels = host.split(".");
+  const secondLevel = labels.at(-2) ?? "";
+  const country = (labels.at(-1) ?? "").length === 2;
+  const count =
+    country && /^(co|ac|com|gov|org|net|edu)$/.test(secondLevel) ? 3 : 2;
+  return labels.slice(-count).join(".");
+}
+
+/**
+ * Look up the reputation of a source's domain.
+ * @param url - Source URL
+ * @param settings - Reputation lists, the configured ones by default
+ * @returns "low" for listed low-credibility domains, "trusted" for listed
+ *          trusted domains, "neutral" otherwise
+ */
+export function domainReputation(
+  url: string,
+  settings: CredibilitySettings = credibilitySettings,
+): DomainReputation {
+  const host = hostOf(url);
+  if (settings.lowDomains.some((domain) => matchesDomain(host, domain))) {
+    return "low";
+  }
+  if (settings.trustedDomains.some((domain) => matchesDomain(host, domain))) {
+    return "trusted";
+  }
+  return "neutral";
+}
+
+/**
+ * Compute the days since a source was published.
+ * @param publishedDate - Publication date as given by the provider
+ * @param now - Current time
+ * @returns Whole days since publication, 0 for future dates, or undefined
+ *          when the date cannot be parsed
+ */
+export function ageInDays(
+  publishedDate: string | undefined,
+  now: Date = new Date(),
+): number | undefined {
+  const published = publishedDate ? Date.parse(publishedDate) : NaN;
+  if (Number.isNaN(published)) return undefined;
+  return Math.max(0, Math.floor((now.getTime() - published) / DAY_MS));
+}
+
+/**
+ * Extract the distinctive terms of a result's title and snippet.
+ * @param result - Search result
+ * @returns Lowercased words of four or more letters, without stopwords
+ */
+function termsOf(result: SearchResult): Set<string> {
+  const words = `${result.title} ${result.content}`
+    .toLowerCase()
+    .match(/\p{L}[\p{L}\p{N}-]{3,}/gu);
+  return new Set((words ?? []).filter((word) => !STOPWORDS.has(word)));
+}
+
+/**
+ * Count, for every result, the other sites whose results overlap with it.
+ * @param results - Results retrieved together
+ * @returns Number of corroborating sites by URL
+ */
+export function countCorroboratingSites(
+  results: SearchResult[],
+): Record<string, number> {
+  const entries = results.map((result) => ({
+    url: result.url,
+    site: siteOf(hostOf(result.url)),
+    terms: termsOf(result),
+  }));
+
+  const counts: Record<string, number> = {};
+  for (const entry of entries) {
+    const sites = new Set<string>();
+    for (const other of entries) {
+      if (other.site === entry.site || sites.has(other.site)) continue;
+      const smaller = Math.min(entry.terms.size, other.terms.size);
+      if (smaller === 0) continue;
+      let shared = 0;
+      for (const term of entry.terms) {
+        if (other.terms.has(term)) shared++;
+      }
+      if (shared / smaller >= CORROBORATION_OVERLAP) sites.add(other.site);
+    }
+    counts[entry.url] = sites.size;
+  }
+  return counts;
+}
+
+/**
+ * Score the credibility of results retrieved together.
+ *
+ * Relevance is scaled by the highest provider score in the results, since
+ * providers use different ranges. Corroboration only counts when the results
+ * come from more than one site.
+ * @param results - Results retrieved together, e.g. by one search call
+ * @param now - Current time, for the publication age
+ * @param settings - Reputation lists and recency half-life
+ * @returns Credibility score by URL
+ */
+export function scoreSources(
+  results: SearchResult[],
+  now: Date = new Date(),
+  settings: CredibilitySettings = credibilitySettings,
+): Record<string, CredibilityScore> {
+  const corroboration = countCorroboratingSites(results);
+  const sites = new Set(results.map((result) => siteOf(hostOf(result.url))));
+  const maxScore = Math.max(1, ...results.map((result) => result.score ?? 0));
+
+  const scores: Record<string, CredibilityScore> = {};
+  for (const result of results) {
+    const reputation = domainReputation(result.url, settings);
+    const ageDays = ageInDays(result.publishedDate, now);
+    const relevance =
+      result.score !== undefined
+        ? round(Math.max(0, result.score) / maxScore)
+        : undefined;
+    const corroboratingSites = corroboration[result.url] ?? 0;
+
+    const signals: [number, number][] = [
+      [WEIGHTS.reputation, REPUTATION_SCORES[reputation]],
+    ];
+    if (relevance !== undefined) {
+      signals.push([WEIGHTS.relevance, relevance]);
+    }
+    if (ageDays !== undefined) {
+      signals.push([
+        WEIGHTS.recency,
+        Math.pow(0.5, ageDays / settings.recencyHalfLifeDays),
+      ]);
+    }
+    if (sites.size > 1) {
+      signals.push([
+        WEIGHTS.corroboration,
+        Math.min(1, corroboratingSites / FULL_CORROBORATION),
+      ]);
+    }
+
+    const weight = signals.reduce((sum, [w]) => sum + w, 0);
+    scores[result.url] = {
+      score: round(
+        signals.reduce((sum, [w, value]) => sum + w * value, 0) / weight,
+      ),
+      reputation,
+      ...(ageDays !== undefined ? { age_days: ageDays } : {}),
+      ...(relevance !== undefined ? { relevance } : {}),
+      corroborating_sites: corroboratingSites,
+    };
+  }
+  return scores;
+}
+
+/**
+ * Rank results by credibility and drop those below a minimum score.
+ * @param uniqueResults - Results by URL
+ * @param scores - Credibility scores by URL
+ * @param minScore - Lowest score kept
+ * @returns The kept results, most credible first, and the dropped URLs
+ */
+export function rankByCredibility<T extends SearchResult>(
+  uniqueResults: Record<string, T>,
+  scores: Record<string, CredibilityScore>,
+  minScore: number = credibilitySettings.minScore,
+): { ranked: Record<string, T>; dropped: string[] } {
+  const scoreOf = (url: string) => scores[url]?.score ?? 0;
+  // Sorting is stable, so results of equal score keep the provider's order
+  const urls = Object.keys(uniqueResults).sort(
+    (a, b) => scoreOf(b) - scoreOf(a),
+  );
+  return {
+    ranked: Object.fromEntries(
+      urls
+        .filter((url) => scoreOf(url) >= minScore)
+        .map((url) => [url, uniqueResults[url]!]),
+    ),
+    dropped: urls.filter((url) => scoreOf(url) < minScore),
+  };
+}
+
+/**
+ * Describe a credibility score for the researcher.
+ * @param credibility - Credibility score of a source
+ * @returns E.g. "0.82 (trusted domain, published 120 days ago, relevance
+ *          0.91, corroborated by 2 other sites)"
+ */
+export function formatCredibility(credibility: CredibilityScore): string {
+  const details = [`${credibility.reputation} domain`];
+  if (credibility.age_days !== undefined) {
+    details.push(`published ${credibility.age_days} days ago`);
+  }
+  if (credibility.relevance !== undefined) {
+    details.push(`relevance ${credibility.relevance.toFixed(2)}`);
+  }
+  details.push(
+    credibility.corroborating_sites > 0
+      ? `corroborated by ${credibility.corroborating_sites} other site${credibility.corroborating_sites === 1 ? "" : "s"}`
+      : "not corroborated",
+  );
+  return `${credibility.score.toFixed(2)} (${details.join(", ")})`;
+}
@@ -0,0 +1,165 @@
+/**
+ * Deterministic Evaluation Checks.
+ *
+ * Compares the outcome of a case's run with the case's expectations. Each
+ * check scores between 0 and 1, so partially met expectations (e.g. two of
+ * three required sections) still show progress between versions.
+ */
+
+import { EvalCase, SubAgentExpectation } from "./dataset.js";
+
+// What a run of the workflow produced for one case.
+export type CaseOutcome = {
+  asked_clarification: boolean;
+  clarification_question?: string | undefined;
+  research_brief: string;
+  // ConductResearch calls made by the supervisor over the whole run
+  sub_agents: number;
+  final_report: string;
+  // Headings of the final report
+  report_sections: string[];
+  // URLs of the sources in the final report's Sources list
+  cited_sources: string[];
+};
+
+export type CheckResult = {
+  name: string;
+  passed: boolean;
+  score: number;
+  detail: string;
+};
+
+/**
+ * Find which expected phrases occur in some text, ignoring case.
+ * @param expected - Phrases to look for
+ * @param candidates - Texts to search
+ * @returns The phrases that were not found
+ */
+function findMissing(expected: string[], candidates: string[]): string[] {
+  const haystack = candidates.map((candidate) => candidate.toLowerCase());
+  return expected.filter(
+    (phrase) => !haystack.some((text) => text.includes(phrase.toLowerCase())),
+  );
+}
+
+/**
+ * Score how many expected phrases were found.
+ * @param name - Check name
+ * @param expected - Expected phrases
+ * @param missing - Phrases that were not found
+ * @returns Check result
+ */
+function coverageCheck(
+  name: string,
+  expected: string[],
+  missing: string[],
+): CheckResult {
+  const found = expected.length - missing.length;
+  return {
+    name,
+    passed: missing.length === 0,
+    score: expected.length ? found / expected.length : 1,
+    detail: missing.length
+      ? `${found}/${expected.length} found; missing: ${missing.join(", ")}`
+      : `all ${expected.length} found`,
+  };
+}
+
+/**
+ * Describe an expected number of sub-agents.
+ * @param expected - Exact number or range
+ * @returns e.g. "2" or "2-4"
+ */
+function describeRange(expected: SubAgentExpectation): string {
+  if (typeof expected === "number") return String(expected);
+  return `${expected.min ?? 0}-${expected.max ?? "∞"}`;
+}
+
+/**
+ * Run the deterministic checks of a case.
+ * @param evalCase - Case with its expectations
+ * @param outcome - Outcome of the case's run
+ * @returns One result per expectation the case specifies
+ */
+export function runChecks(
+  evalCase: EvalCase,
+  outcome: CaseOutcome,
+): CheckResult[] {
+  const expected = evalCase.expected;
+  const results: CheckResult[] = [];
+
+  if (expected.need_clarification !== undefined) {
+    const passed = outcome.asked_clarification === expected.need_clarification;
+    results.push({
+      name: "clarification",
+      passed,
+      score: passed ? 1 : 0,
+      detail: outcome.asked_clarification
+        ? `asked: ${outcome.clarification_question ?? ""}`
+        : "did not ask",
+    });
+  }
+
+  // Later stages are only checked when the run got past clarification
+  if (outcome.asked_clarification) return results;
+
+  if (expected.brief_must_include?.length) {
+    results.push(
+      coverageCheck(
+        "brief_must_include",
+        expected.brief_must_include,
+        findMissing(expected.brief_must_include, [outcome.research_brief]),
+      ),
+    );
+  }
+
+  if (expected.sub_agents !== undefined) {
+    const range =
+      typeof expected.sub_agents === "number"
+        ? { min: expected.sub_agents, max: expected.sub_agents }
+        : expected.sub_agents;
+    const passed =
+      outcome.sub_agents >= (range.min ?? 0) &&
+      outcome.sub_agents <= (range.max ?? Infinity);
+    results.push({
+      name: "sub_agents",
+      passed,
+      score: passed ? 1 : 0,
+      detail: `${outcome.sub_agents} delegated, expected ${describeRange(expected.sub_agents)}`,
+    });
+  }
+
+  if (expected.report_sections?.length) {
+    results.push(
+      coverageCheck(
+        "report_sections",
+        expected.report_sections,
+        findMissing(expected.report_sections, outcome.report_sections),
+      ),
+    );
+  }
+
+  if (expected.min_citations !== undefined) {
+    const cited = outcome.cited_sources.length;
+    results.push({
+      name: "min_citations",
+      passed: cited >= expected.min_citations,
+      score: expected.min_citations
+        ? Math.min(cited / expected.min_citations, 1)
+        : 1,
+      detail: `${cited} cited, expected at least ${expected.min_citations}`,
+    });
+  }
+
+  if (expected.required_sources?.length) {
+    results.push(
+      coverageCheck(
+        "required_sources",
+        expected.required_sources,
+        findMissing(expected.required_sources, outcome.cited_sources),
+      ),
+    );
+  }
+
+  return results;
+}
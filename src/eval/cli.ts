@@ -0,0 +1,154 @@
+/**
+ * Command-line runner for the evaluation suite.
+ *
+ * Usage:
+ *   npm run eval -- run --dataset evals/example.jsonl --label baseline --output baseline.json
+ *   npm run eval -- run --dataset evals/example.jsonl --label fixture --config variant.json --output fixture.json
+ *   npm run eval -- compare baseline.json fixture.json --output comparison.md
+ */
+
+import { readFile, writeFile } from "node:fs/promises";
+import { parseArgs } from "node:util";
+import { formatUsage } from "../usage/index.js";
+import { loadDataset } from "./dataset.js";
+import { CaseResult, EvalRun, runEvaluation } from "./runner.js";
+import { compareRuns } from "./compare.js";
+
+const usage = `Usage: npm run eval -- run --dataset <file.jsonl> [options]
+       npm run eval -- compare <baseline.json> <candidate.json> [--output <file.md>]
+
+Run options:
+  -d, --dataset <path>      JSONL dataset of evaluation cases
+  -l, --label <name>        Name of the variant being evaluated (default: default)
+  -c, --config <path>       JSON file of configurable options for every run
+  -o, --output <path>       Write the run's results as JSON
+      --only <ids>          Comma-separated case IDs to run
+      --concurrency <n>     Cases run at the same time (default: 1)
+      --no-judge            Skip the LLM judge; only deterministic checks are scored
+  -h, --help                Show this help
+
+The compare command writes a Markdown report of two saved runs to stdout or
+--output.`;
+
+/**
+ * Print one line per finished case.
+ * @param result - Case result
+ */
+function printCase(result: CaseResult): void {
+  const passed = result.checks.filter((check) => check.passed).length;
+  const judge = result.judge ? `, judge ${result.judge.score.toFixed(2)}` : "";
+  console.error(
+    result.error
+      ? `✗ ${result.id}: ${result.error}`
+      : `${passed === result.checks.length ? "✓" : "✗"} ${result.id}: score ${result.score.toFixed(2)} ` +
+          `(${passed}/${result.checks.length} checks${judge})`,
+  );
+  for (const check of result.checks.filter((check) => !check.passed)) {
+    console.error(`    ${check.name}: ${check.detail}`);
+  }
+}
+
+/**
+ * Load a saved evaluation run.
+ * @param path - JSON file written by the run command
+ * @returns The evaluation run
+ */
+async function loadRun(path: string): Promise<EvalRun> {
+  return JSON.parse(await readFile(path, "utf-8")) as EvalRun;
+}
+
+async function main(): Promise<void> {
+  const { values: args, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      dataset: { type: "string", short: "d" },
+      label: { type: "string", short: "l", default: "default" },
+      config: { type: "string", short: "c" },
+      output: { type: "string", short: "o" },
+      only: { type: "string" },
+      concurrency: { type: "string", default: "1" },
+      "no-judge": { type: "boolean", default: false },
+      help: { type: "boolean", short: "h", default: false },
+    },
+  });
+  const [command, ...files] = positionals;
+
+  if (args.help || !command) {
+    console.log(usage);
+    return;
+  }
+
+  if (command === "compare") {
+    if (files.length !== 2) {
+      throw new Error("compare requires two result files");
+    }
+    const report = compareRuns(
+      await loadRun(files[0]!),
+      await loadRun(files[1]!),
+    );
+    if (args.output) {
+      await writeFile(args.output, report, "utf-8");
+      console.error(`Wrote comparison to ${args.output}`);
+    } else {
+      console.log(report);
+    }
+    return;
+  }
+
+  if (command !== "run") {
+    throw new Error(`Unknown command: ${command}. Expected run or compare`);
+  }
+  if (!args.dataset) {
+    throw new Error("run requires --dataset");
+  }
+  const concurrency = Number(args.concurrency);
+  if (!Number.isInteger(concurrency) || concurrency < 1) {
+    throw new Error("--concurrency must be a positive integer");
+  }
+
+  let dataset = await loadDataset(args.dataset);
+  if (args.only) {
+    const ids = args.only.split(",").map((id) => id.trim());
+    const unknown = ids.filter((id) => !dataset.some((item) => item.id === id));
+    if (unknown.length) {
+      throw new Error(`Unknown case ID(s): ${unknown.join(", ")}`);
+    }
+    dataset = dataset.filter((item) => ids.includes(item.id));
+  }
+  const configurable: Record<string, any> = args.config
+    ? JSON.parse(await readFile(args.config, "utf-8"))
+    : {};
+
+  console.error(`Evaluating ${args.label} on ${dataset.length} case(s)`);
+  const run = await runEvaluation(
+    dataset,
+    {
+      label: args.label,
+      configurable,
+      judge: !args["no-judge"],
+      concurrency,
+    },
+    printCase,
+  );
+
+  const { summary } = run;
+  console.error(
+    `\nScore ${summary.score.toFixed(2)}: ${summary.checks_passed}/${summary.checks_total} checks passed, ` +
+      `judge ${summary.judge_score?.toFixed(2) ?? "-"}, ${summary.errors} failed run(s)`,
+  );
+  console.error(`Usage: ${formatUsage(summary.usage)}`);
+  console.error(`Judge usage: ${formatUsage(summary.judge_usage)}`);
+
+  const json = JSON.stringify(run, null, 2);
+  if (args.output) {
+    await writeFile(args.output, json, "utf-8");
+    console.error(`Wrote results to ${args.output}`);
+  } else {
+    console.log(json);
+  }
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+});
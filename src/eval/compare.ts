@@ -0,0 +1,186 @@
+/**
+ * Evaluation Run Comparison.
+ *
+ * Renders a Markdown report comparing two evaluation runs of the same
+ * dataset: overall scores and cost side by side, per-case scores, and the
+ * checks that regressed or improved.
+ */
+
+import { CaseResult, EvalRun } from "./runner.js";
+
+// Case score changes smaller than this are not marked as up or down
+const SCORE_EPSILON = 0.005;
+
+/**
+ * Format a score between 0 and 1.
+ * @param score - Score, if any
+ * @returns e.g. "0.82", or "-" when missing
+ */
+function formatScore(score: number | undefined): string {
+  return score === undefined ? "-" : score.toFixed(2);
+}
+
+/**
+ * Format the difference between two values.
+ * @param a - Baseline value
+ * @param b - Candidate value
+ * @param digits - Decimal places
+ * @returns e.g. "+0.10", "-3", or "" when either value is missing
+ */
+function formatDelta(
+  a: number | undefined,
+  b: number | undefined,
+  digits: number = 2,
+): string {
+  if (a === undefined || b === undefined) return "";
+  const delta = b - a;
+  if (Math.abs(delta) < 10 ** -digits / 2) return "0";
+  return `${delta > 0 ? "+" : ""}${delta.toFixed(digits)}`;
+}
+
+/**
+ * Describe the check results that differ between two runs of a case.
+ * @param a - Case result of the baseline run
+ * @param b - Case result of the candidate run
+ * @returns Regressed and improved checks, as Markdown list items
+ */
+function diffChecks(
+  a: CaseResult,
+  b: CaseResult,
+): { regressions: string[]; improvements: string[] } {
+  const regressions: string[] = [];
+  const improvements: string[] = [];
+
+  if (!a.error && b.error) {
+    regressions.push(`- **${b.id}**: run failed: ${b.error}`);
+  } else if (a.error && !b.error) {
+    improvements.push(`- **${b.id}**: run no longer fails`);
+  }
+
+  for (const check of b.checks) {
+    const before = a.checks.find((item) => item.name === check.name);
+    if (!before || before.passed === check.passed) continue;
+    const line = `- **${b.id}** ${check.name}: ${check.detail} (was: ${before.detail})`;
+    (check.passed ? improvements : regressions).push(line);
+  }
+
+  const judgeDelta = (b.judge?.score ?? 0) - (a.judge?.score ?? 0);
+  if (a.judge && b.judge && Math.abs(judgeDelta) >= 0.25) {
+    const line = `- **${b.id}** judge: ${formatScore(a.judge.score)} → ${formatScore(b.judge.score)}`;
+    (judgeDelta > 0 ? improvements : regressions).push(line);
+  }
+  return { regressions, improvements };
+}
+
+/**
+ * Compare two evaluation runs.
+ * @param a - Baseline run
+ * @param b - Candidate run
+ * @returns Markdown comparison report
+ */
+export function compareRuns(a: EvalRun, b: EvalRun): string {
+  const lines: string[] = [
+    `# Evaluation: ${a.label} vs ${b.label}`,
+    "",
+    "| Metric | " + `${a.label} | ${b.label} | Δ |`,
+    "| --- | ---: | ---: | ---: |",
+  ];
+  const row = (metric: string, x: string, y: string, delta: string) =>
+    lines.push(`| ${metric} | ${x} | ${y} | ${delta} |`);
+
+  const sa = a.summary;
+  const sb = b.summary;
+  row(
+    "Score",
+    formatScore(sa.score),
+    formatScore(sb.score),
+    formatDelta(sa.score, sb.score),
+  );
+  row(
+    "Checks passed",
+    `${sa.checks_passed}/${sa.checks_total}`,
+    `${sb.checks_passed}/${sb.checks_total}`,
+    formatDelta(sa.checks_passed, sb.checks_passed, 0),
+  );
+  row(
+    "Check score",
+    formatScore(sa.check_score),
+    formatScore(sb.check_score),
+    formatDelta(sa.check_score, sb.check_score),
+  );
+  row(
+    "Judge score",
+    formatScore(sa.judge_score),
+    formatScore(sb.judge_score),
+    formatDelta(sa.judge_score, sb.judge_score),
+  );
+  row(
+    "Failed runs",
+    String(sa.errors),
+    String(sb.errors),
+    formatDelta(sa.errors, sb.errors, 0),
+  );
+  row(
+    "Tokens",
+    sa.usage.total_tokens.toLocaleString("en-US"),
+    sb.usage.total_tokens.toLocaleString("en-US"),
+    formatDelta(sa.usage.total_tokens, sb.usage.total_tokens, 0),
+  );
+  row(
+    "Cost (USD)",
+    sa.usage.cost_usd.toFixed(4),
+    sb.usage.cost_usd.toFixed(4),
+    formatDelta(sa.usage.cost_usd, sb.usage.cost_usd, 4),
+  );
+  row(
+    "Searches",
+    String(sa.usage.search_calls),
+    String(sb.usage.search_calls),
+    formatDelta(sa.usage.search_calls, sb.usage.search_calls, 0),
+  );
+  row(
+    "Duration (s)",
+    (sa.duration_ms / 1000).toFixed(1),
+    (sb.duration_ms / 1000).toFixed(1),
+    formatDelta(sa.duration_ms / 1000, sb.duration_ms / 1000, 1),
+  );
+
+  lines.push(
+    "",
+    "## Cases",
+    "",
+    `| Case | ${a.label} | ${b.label} | Δ |`,
+    "| --- | ---: | ---: | ---: |",
+  );
+  const regressions: string[] = [];
+  const improvements: string[] = [];
+  const ids = [...new Set([...a.cases, ...b.cases].map((result) => result.id))];
+  for (const id of ids) {
+    const x = a.cases.find((result) => result.id === id);
+    const y = b.cases.find((result) => result.id === id);
+    const delta = x && y ? y.score - x.score : 0;
+    const marker =
+      x && y && Math.abs(delta) >= SCORE_EPSILON
+        ? delta > 0
+          ? " ▲"
+          : " ▼"
+        : "";
+    row(
+      id,
+      formatScore(x?.score),
+      formatScore(y?.score),
+      formatDelta(x?.score, y?.score) + marker,
+    );
+    if (x && y) {
+      const diff = diffChecks(x, y);
+      regressions.push(...diff.regressions);
+      improvements.push(...diff.improvements);
+    }
+  }
+
+  lines.push("", "## Regressions", "");
+  lines.push(...(regressions.length ? regressions : ["None."]));
+  lines.push("", "## Improvements", "");
+  lines.push(...(improvements.length ? improvements : ["None."]));
+  return lines.join("\n") + "\n";
+}
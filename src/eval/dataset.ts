@@ -0,0 +1,94 @@
+/**
+ * Evaluation Dataset.
+ *
+ * An evaluation dataset is a JSONL file with one case per line: a
+ * conversation to run through the full workflow and the properties its
+ * result is expected to have. Every expectation is optional, so a case only
+ * checks what it specifies.
+ */
+
+import { readFile } from "node:fs/promises";
+import { z } from "zod/v3";
+
+// Expected number of sub-agents: exact, or a range.
+const SubAgentExpectation = z.union([
+  z.number().int().nonnegative(),
+  z.object({
+    min: z.number().int().nonnegative().optional(),
+    max: z.number().int().nonnegative().optional(),
+  }),
+]);
+
+export const EvalCase = z.object({
+  id: z.string().min(1),
+  // Conversation sent to the workflow, ending with the user's message
+  messages: z
+    .array(
+      z.object({
+        role: z.enum(["user", "assistant"]),
+        content: z.string(),
+      }),
+    )
+    .min(1),
+  expected: z
+    .object({
+      // Whether the workflow should ask a clarification question
+      need_clarification: z.boolean().optional(),
+      // Facts the research brief must mention (case-insensitive)
+      brief_must_include: z.array(z.string()).optional(),
+      // Research tasks the supervisor should delegate, e.g. one per compared item
+      sub_agents: SubAgentExpectation.optional(),
+      // Headings the final report must contain (case-insensitive substrings)
+      report_sections: z.array(z.string()).optional(),
+      // Minimum number of sources cited in the final report
+      min_citations: z.number().int().nonnegative().optional(),
+      // URLs (or URL substrings) the final report must cite
+      required_sources: z.array(z.string()).optional(),
+    })
+    .default({}),
+  // Additional criteria for the LLM judge
+  rubric: z.array(z.string()).optional(),
+});
+
+export type EvalCase = z.infer<typeof EvalCase>;
+
+export type SubAgentExpectation = z.infer<typeof SubAgentExpectation>;
+
+/**
+ * Load and validate an evaluation dataset.
+ * @param path - JSONL file with one case per line; blank lines are skipped
+ * @returns The dataset's cases
+ * @throws When a line is not valid JSON, a case is invalid, or IDs repeat
+ */
+export async function loadDataset(path: string): Promise<EvalCase[]> {
+  const lines = (await readFile(path, "utf-8")).split("\n");
+  const cases: EvalCase[] = [];
+  const ids = new Set<string>();
+
+  lines.forEach((line, index) => {
+    if (!line.trim()) return;
+    let json: unknown;
+    try {
+      json = JSON.parse(line);
+    } catch (error) {
+      throw new Error(`${path}:${index + 1}: invalid JSON: ${error}`);
+    }
+    const parsed = EvalCase.safeParse(json);
+    if (!parsed.success) {
+      throw new Error(
+        `${path}:${index + 1}: invalid case: ${parsed.error.issues
+          .map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+          .join("; ")}`,
+      );
+    }
+    if (ids.has(parsed.data.id)) {
+      throw new Error(
+        `${path}:${index + 1}: duplicate case ID ${parsed.data.id}`,
+      );
+    }
+    ids.add(parsed.data.id);
+    cases.push(parsed.data);
+  });
+
+  return cases;
+}
@@ -0,0 +1,12 @@
+/**
+ * Evaluation Suite.
+ *
+ * Measures the workflow's scoping, delegation and report quality on a
+ * dataset of conversations, and compares prompt or configuration versions.
+ */
+
+export * from "./dataset.js";
+export * from "./checks.js";
+export * from "./judge.js";
+export * from "./runner.js";
+export * from "./compare.js";
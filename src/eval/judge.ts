@@ -0,0 +1,113 @@
+/**
+ * LLM Judge.
+ *
+ * Scores a final report against a rubric with the "judge" role model. Every
+ * report is judged on the same default criteria, plus any criteria specific
+ * to its case, so scores can be compared between runs.
+ */
+
+import { HumanMessage } from "@langchain/core/messages";
+import { z } from "zod/v3";
+import { createRoleModel, getRoleModelName } from "../llm/factory.js";
+import { measureUsage, TokenUsage } from "../usage/index.js";
+
+// Criteria every report is judged on
+export const defaultRubric = [
+  "Comprehensiveness: the report answers every part of the user's request.",
+  "Grounding: claims are specific and supported by the cited sources, with no unsupported speculation.",
+  "Structure: the report is well organized, with headings that match the request.",
+  "Citations: sources are cited inline and listed at the end.",
+];
+
+const JudgeVerdict = z.object({
+  scores: z
+    .array(
+      z.object({
+        criterion: z
+          .string()
+          .describe("The criterion, copied exactly from the rubric."),
+        reasoning: z
+          .string()
+          .describe("One or two sentences justifying the score."),
+        score: z
+          .number()
+          .int()
+          .min(1)
+          .max(5)
+          .describe("1 = fails the criterion, 5 = fully meets it."),
+      }),
+    )
+    .describe("One score per rubric criterion, in rubric order."),
+});
+
+export type CriterionScore = z.infer<typeof JudgeVerdict>["scores"][number];
+
+export type JudgeResult = {
+  scores: CriterionScore[];
+  // Mean of the criterion scores, scaled from 1-5 to 0-1
+  score: number;
+  usage: TokenUsage;
+};
+
+const judgeLLM = createRoleModel("judge", { temperature: 0.0 });
+// Raw responses are kept for their token usage
+const structuredJudgeLLM = judgeLLM.withStructuredOutput(JudgeVerdict, {
+  includeRaw: true,
+});
+
+/**
+ * Build the judge's prompt.
+ * @param request - The user's request, as the conversation text
+ * @param report - Final report to judge
+ * @param rubric - Criteria to score
+ * @returns Prompt text
+ */
+function createJudgePrompt(
+  request: string,
+  report: string,
+  rubric: string[],
+): string {
+  return `You are grading a research report written in response to a user's request.
+
+<Request>
+${request}
+</Request>
+
+<Report>
+${report}
+</Report>
+
+Score the report from 1 to 5 on each of these criteria:
+${rubric.map((criterion, index) => `${index + 1}. ${criterion}`).join("\n")}
+
+Judge only what is in the report. Be strict: reserve 5 for reports with no
+meaningful weakness on that criterion.`;
+}
+
+/**
+ * Judge a final report.
+ * @param request - The user's request, as the conversation text
+ * @param report - Final report to judge
+ * @param rubric - Case-specific criteria, added to the default rubric
+ * @returns Criterion scores, overall score and the judge's usage
+ */
+export async function judgeReport(
+  request: string,
+  report: string,
+  rubric: string[] = [],
+): Promise<JudgeResult> {
+  const criteria = [...defaultRubric, ...rubric];
+  const { raw, parsed } = await structuredJudgeLLM.invoke([
+    new HumanMessage(createJudgePrompt(request, report, criteria)),
+  ]);
+  const scores: CriterionScore[] = parsed.scores.slice(0, criteria.length);
+  const mean = scores.length
+    ? scores.reduce((sum, entry) => sum + entry.score, 0) / scores.length
+    : 1;
+
+  return {
+    scores,
+    score: (mean - 1) / 4,
+    usage: measureUsage(raw, getRoleModelName("judge")),
+  };
+}
@@ -0,0 +1,251 @@
+/**
+ * Evaluation Runner.
+ *
+ * Runs every case of a dataset through the full deep research workflow with
+ * one configuration (a "variant"), checks each outcome and, optionally, has
+ * the judge score each final report. The resulting run is saved as JSON, so
+ * runs of two prompt or configuration versions can be compared later.
+ */
+
+import { randomUUID } from "node:crypto";
+import {
+  AIMessage,
+  BaseMessage,
+  getBufferString,
+  HumanMessage,
+  isAIMessage,
+} from "@langchain/core/messages";
+import { deepResearch } from "../full-research.js";
+import { parseReport } from "../export/index.js";
+import { mapWithConcurrency } from "../utils.js";
+import { totalUsage, TokenUsage, UsageTotals } from "../usage/index.js";
+import { EvalCase } from "./dataset.js";
+import { CaseOutcome, CheckResult, runChecks } from "./checks.js";
+import { judgeReport, JudgeResult } from "./judge.js";
+
+export type EvalOptions = {
+  // Name of the variant, e.g. "baseline" or "new-brief-prompt"
+  label: string;
+  // Configurable options passed to every run, e.g. { search_provider: "fixture" }
+  configurable?: Record<string, any>;
+  // Whether to score final reports with the LLM judge
+  judge?: boolean;
+  // Cases run at the same time
+  concurrency?: number;
+};
+
+export type CaseResult = {
+  id: string;
+  outcome?: CaseOutcome | undefined;
+  // Set when the run failed; the case then scores 0
+  error?: string | undefined;
+  checks: CheckResult[];
+  judge?: Omit<JudgeResult, "usage"> | undefined;
+  // Mean of the check scores and the judge score
+  score: number;
+  // Usage of the research run, without the judge
+  usage: UsageTotals;
+  duration_ms: number;
+};
+
+export type EvalSummary = {
+  cases: number;
+  errors: number;
+  checks_passed: number;
+  checks_total: number;
+  // Means over the cases that have the score
+  check_score: number;
+  judge_score?: number | undefined;
+  score: number;
+  usage: UsageTotals;
+  // Usage of the judge itself
+  judge_usage: UsageTotals;
+  duration_ms: number;
+};
+
+export type EvalRun = {
+  label: string;
+  configurable: Record<string, any>;
+  started_at: string;
+  cases: CaseResult[];
+  summary: EvalSummary;
+};
+
+/**
+ * Convert a case's conversation into LangChain messages.
+ * @param evalCase - Evaluation case
+ * @returns Conversation messages
+ */
+function toMessages(evalCase: EvalCase): BaseMessage[] {
+  return evalCase.messages.map(({ role, content }) =>
+    role === "user" ? new HumanMessage(content) : new AIMessage(content),
+  );
+}
+
+/**
+ * Extract what the checks look at from a run's final state.
+ * @param values - Final state of the deep research graph
+ * @returns The case outcome
+ */
+function toOutcome(values: Record<string, any>): CaseOutcome {
+  const lastMessage = values.messages?.at(-1);
+  const asked =
+    !values.research_brief && !!lastMessage && isAIMessage(lastMessage);
+  const finalReport: string = values.final_report ?? "";
+  const document = parseReport(finalReport, values.sources ?? {});
+  const subAgents = (values.supervisor_messages ?? [])
+    .flatMap((message: any) => message.tool_calls ?? [])
+    .filter((call: any) => call.name === "ConductResearch").length;
+
+  return {
+    asked_clarification: asked,
+    clarification_question: asked ? String(lastMessage.content) : undefined,
+    research_brief: values.research_brief ?? "",
+    sub_agents: subAgents,
+    final_report: finalReport,
+    report_sections: document.sections
+      .map((section) => section.heading)
+      .filter(Boolean),
+    cited_sources: document.sources.map((source) => source.url),
+  };
+}
+
+/**
+ * Mean of some numbers.
+ * @param values - Numbers
+ * @returns The mean, or undefined when there are none
+ */
+function mean(values: number[]): number | undefined {
+  return values.length
+    ? values.reduce((sum, value) => sum + value, 0) / values.length
+    : undefined;
+}
+
+/**
+ * Run and score one case.
+ * @param evalCase - Evaluation case
+ * @param options - Evaluation options
+ * @param judgeUsage - Collects the judge's usage
+ * @returns The case result
+ */
+export async function runCase(
+  evalCase: EvalCase,
+  options: EvalOptions,
+  judgeUsage: TokenUsage[] = [],
+): Promise<CaseResult> {
+  const started = Date.now();
+  const config = {
+    configurable: {
+      ...options.configurable,
+      // Scoring needs the run to finish without waiting for a reviewer
+      review_research_brief: false,
+      review_research_plan: false,
+      thread_id: `eval:${options.label}:${evalCase.id}:${randomUUID()}`,
+    },
+  };
+
+  let values: Record<string, any>;
+  try {
+    values = await deepResearch.invoke(
+      { messages: toMessages(evalCase) },
+      config,
+    );
+  } catch (error) {
+    return {
+      id: evalCase.id,
+      error: String(error),
+      checks: [],
+      score: 0,
+      usage: totalUsage([]),
+      duration_ms: Date.now() - started,
+    };
+  }
+
+  const outcome = toOutcome(values);
+  const checks = runChecks(evalCase, outcome);
+  let judge: CaseResult["judge"];
+  if (options.judge !== false && outcome.final_report) {
+    const { usage, ...verdict } = await judgeReport(
+      getBufferString(toMessages(evalCase)),
+      outcome.final_report,
+      evalCase.rubric,
+    );
+    judgeUsage.push(usage);
+    judge = verdict;
+  }
+
+  const scores = checks.map((check) => check.score);
+  if (judge) scores.push(judge.score);
+  return {
+    id: evalCase.id,
+    outcome,
+    checks,
+    judge,
+    score: mean(scores) ?? 0,
+    usage: totalUsage(values.usage ?? []),
+    duration_ms: Date.now() - started,
+  };
+}
+
+/**
+ * Run a dataset with one variant.
+ * @param dataset - Evaluation cases
+ * @param options - Variant label, configurable options, judging and concurrency
+ * @param onCase - Called as each case finishes
+ * @returns The evaluation run
+ */
+export async function runEvaluation(
+  dataset: EvalCase[],
+  options: EvalOptions,
+  onCase?: (result: CaseResult) => void,
+): Promise<EvalRun> {
+  const startedAt = new Date();
+  const judgeUsage: TokenUsage[] = [];
+  const cases = await mapWithConcurrency(
+    dataset,
+    options.concurrency ?? 1,
+    async (evalCase) => {
+      const result = await runCase(evalCase, options, judgeUsage);
+      onCase?.(result);
+      return result;
+    },
+  );
+
+  const checks = cases.flatMap((result) => result.checks);
+  const usage = totalUsage([]);
+  for (const result of cases) {
+    usage.input_tokens += result.usage.input_tokens;
+    usage.output_tokens += result.usage.output_tokens;
+    usage.total_tokens += result.usage.total_tokens;
+    usage.cost_usd += result.usage.cost_usd;
+    usage.search_calls += result.usage.search_calls;
+  }
+
+  return {
+    label: options.label,
+    configurable: options.configurable ?? {},
+    started_at: startedAt.toISOString(),
+    cases,
+    summary: {
+      cases: cases.length,
+      errors: cases.filter((result) => result.error).length,
+      checks_passed: checks.filter((check) => check.passed).length,
+      checks_total: checks.length,
+      check_score:
+        mean(
+          cases
+            .filter((result) => result.checks.length)
+            .map(
+              (result) => mean(result.checks.map((check) => check.score)) ?? 0,
+            ),
+        ) ?? 0,
+      judge_score: mean(
+        cases.flatMap((result) => (result.judge ? [result.judge.score] : [])),
+      ),
+      score: mean(cases.map((result) => result.score)) ?? 0,
+      usage,
+      judge_usage: totalUsage(judgeUsage),
+      duration_ms: Date.now() - startedAt.getTime(),
+    },
+  };
+}
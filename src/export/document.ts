@@ -0,0 +1,374 @@
+/**
+ * Structured Report Document.
+ *
+ * Parses a Markdown report into a document model (title, sections, blocks
+ * and sources) that every exporter renders from. Citations are mapped to the
+ * source records in the report's Sources list, resolved against the run's
+ * source registry when it is available.
+ */
+
+import {
+  createSourceId,
+  findSourceByUrl,
+  SourceRecord,
+  SourceRegistry,
+} from "../sources/index.js";
+
+// ===== DOCUMENT MODEL =====
+
+// A source cited in the report under its citation number.
+export type ReportSource = Pick<SourceRecord, "id" | "url" | "title"> &
+  Partial<Pick<SourceRecord, "retrieved_at" | "excerpts" | "credibility">> & {
+    number: number;
+  };
+
+export type ReportBlock =
+  | {
+      type: "paragraph" | "bullet" | "numbered" | "quote";
+      // Markdown text of the block, with citation markers such as "[1, 2]"
+      text: string;
+      // IDs of the sources cited in the block
+      citations: string[];
+    }
+  | { type: "code"; text: string; language: string }
+  | { type: "table"; header: string[]; rows: string[][]; citations: string[] };
+
+export type ReportSection = {
+  // Anchor ID, unique within the document
+  id: string;
+  // Heading text; empty for content before the first heading
+  heading: string;
+  level: number;
+  blocks: ReportBlock[];
+};
+
+export type ReportDocument = {
+  title: string;
+  sections: ReportSection[];
+  sources: ReportSource[];
+};
+
+// Inline pieces of a block's text, as understood by the renderers.
+export type InlineToken =
+  | { type: "text"; text: string; bold?: boolean; italic?: boolean }
+  | { type: "code"; text: string }
+  | { type: "link"; text: string; url: string }
+  | { type: "citation"; numbers: number[] };
+
+// ===== PARSING =====
+
+// A block before its citations are resolved.
+type ParsedBlock =
+  | { type: "paragraph" | "bullet" | "numbered" | "quote"; text: string }
+  | { type: "code"; text: string; language: string }
+  | { type: "table"; header: string[]; rows: string[][] };
+
+const HEADING = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+const SOURCES_HEADING = /^(?:sources|references)\b/i;
+const LISTED_SOURCE =
+  /^\s*[-*]?\s*\[(\d+)\]\s*(.*?)(?:\s*\(credibility ([\d.]+)\))?:?\s*((?:https?|file):\/\/\S+)\s*$/;
+const BULLET = /^\s*[-*+]\s+(.*)$/;
+const NUMBERED = /^\s*\d+[.)]\s+(.*)$/;
+const CITATION = /\[(\d+(?:\s*,\s*\d+)*)\](?!\()/g;
+
+/**
+ * Turn a heading into an anchor ID.
+ * @param text - Heading text
+ * @returns Lowercase, dash-separated slug
+ */
+function slugify(text: string): string {
+  return (
+    text
+      .toLowerCase()
+      .replace(/[*_`[\]()]/g, "")
+      .replace(/[^\p{L}\p{N}]+/gu, "-")
+      .replace(/^-+|-+$/g, "") || "section"
+  );
+}
+
+/**
+ * Remove inline Markdown markup, leaving plain text.
+ * @param text - Markdown text
+ * @returns Plain text
+ */
+export function stripInline(text: string): string {
+  return parseInline(text)
+    .map((token) =>
+      token.type === "citation" ? `[${token.numbers.join(", ")}]` : token.text,
+    )
+    .join("");
+}
+
+/**
+ * Split a Markdown table row into its cells.
+ * @param line - Table row
+ * @returns Trimmed cell texts
+ */
+function splitTableRow(line: string): string[] {
+  return line
+    .trim()
+    .replace(/^\||\|$/g, "")
+    .split("|")
+    .map((cell) => cell.trim());
+}
+
+/**
+ * Parse the body of a section into blocks.
+ * @param lines - Lines between two headings
+ * @returns Blocks in document order
+ */
+function parseBlocks(lines: string[]): ParsedBlock[] {
+  const blocks: ParsedBlock[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i]!;
+
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    // Fenced code block
+    const fence = line.match(/^\s*```(\S*)/);
+    if (fence) {
+      const code: string[] = [];
+      i++;
+      while (i < lines.length && !/^\s*```/.test(lines[i]!)) {
+        code.push(lines[i]!);
+        i++;
+      }
+      i++;
+      blocks.push({
+        type: "code",
+        text: code.join("\n"),
+        language: fence[1] ?? "",
+      });
+      continue;
+    }
+
+    // Table: a header row followed by a |---| separator row
+    if (
+      line.trim().startsWith("|") &&
+      /^\s*\|?[\s:|-]+\|?\s*$/.test(lines[i + 1] ?? "-")
+    ) {
+      const header = splitTableRow(line);
+      const rows: string[][] = [];
+      i += 2;
+      while (i < lines.length && lines[i]!.trim().startsWith("|")) {
+        rows.push(splitTableRow(lines[i]!));
+        i++;
+      }
+      blocks.push({ type: "table", header, rows });
+      continue;
+    }
+
+    // List items, with indented continuation lines
+    const item = line.match(BULLET) ?? line.match(NUMBERED);
+    if (item) {
+      const type = BULLET.test(line) ? "bullet" : "numbered";
+      const text = [item[1]!];
+      i++;
+      while (
+        i < lines.length &&
+        /^\s{2,}\S/.test(lines[i]!) &&
+        !BULLET.test(lines[i]!) &&
+        !NUMBERED.test(lines[i]!)
+      ) {
+        text.push(lines[i]!.trim());
+        i++;
+      }
+      blocks.push({ type, text: text.join(" ") });
+      continue;
+    }
+
+    if (line.trim().startsWith(">")) {
+      const text: string[] = [];
+      while (i < lines.length && lines[i]!.trim().startsWith(">")) {
+        text.push(lines[i]!.trim().replace(/^>\s?/, ""));
+        i++;
+      }
+      blocks.push({ type: "quote", text: text.join(" ") });
+      continue;
+    }
+
+    // Paragraph: consecutive lines up to the next blank line or other block
+    const text: string[] = [];
+    while (
+      i < lines.length &&
+      lines[i]!.trim() &&
+      !BULLET.test(lines[i]!) &&
+      !NUMBERED.test(lines[i]!) &&
+      !/^\s*(```|>|\|)/.test(lines[i]!)
+    ) {
+      text.push(lines[i]!.trim());
+      i++;
+    }
+    blocks.push({ type: "paragraph", text: text.join(" ") });
+  }
+
+  return blocks;
+}
+
+/**
+ * Find the citation numbers used in a text.
+ * @param text - Markdown text
+ * @returns Citation numbers in order of appearance
+ */
+function citationNumbers(text: string): number[] {
+  return [...text.matchAll(CITATION)].flatMap((match) =>
+    match[1]!.split(",").map((number) => Number(number.trim())),
+  );
+}
+
+/**
+ * Parse a Markdown report into a structured document.
+ * @param markdown - Report as produced by the final report step
+ * @param registry - Source registry of the run, to attach full source records
+ * @returns The structured report document
+ */
+export function parseReport(
+  markdown: string,
+  registry: SourceRegistry = {},
+): ReportDocument {
+  const lines = markdown.replace(/\r\n/g, "\n").split("\n");
+  let title = "";
+  const sources: ReportSource[] = [];
+  const rawSections: {
+    heading: string;
+    level: number;
+    lines: string[];
+  }[] = [{ heading: "", level: 1, lines: [] }];
+  let inSources = false;
+  let inFence = false;
+
+  for (const line of lines) {
+    if (/^\s*```/.test(line)) inFence = !inFence;
+    const heading = inFence ? null : line.match(HEADING);
+
+    if (heading) {
+      const level = heading[1]!.length;
+      const text = heading[2]!;
+      inSources = SOURCES_HEADING.test(stripInline(text));
+      if (inSources) continue;
+
+      if (level === 1 && !title) {
+        title = stripInline(text);
+        continue;
+      }
+      rawSections.push({ heading: text, level, lines: [] });
+      continue;
+    }
+
+    if (inSources) {
+      const listed = line.match(LISTED_SOURCE);
+      if (listed) {
+        const url = listed[4]!.replace(/[).,]+$/, "");
+        const record = findSourceByUrl(registry, url);
+        sources.push({
+          number: Number(listed[1]),
+          ...(record ?? {
+            id: createSourceId(url),
+            url,
+            title: listed[2]!.trim() || url,
+            ...(listed[3] ? { credibility: Number(listed[3]) } : {}),
+          }),
+        });
+      }
+      continue;
+    }
+
+    rawSections.at(-1)!.lines.push(line);
+  }
+
+  const idsByNumber = new Map(
+    sources.map((source) => [source.number, source.id]),
+  );
+  const citedIds = (texts: string[]) => [
+    ...new Set(
+      texts
+        .flatMap(citationNumbers)
+        .map((number) => idsByNumber.get(number))
+        .filter((id): id is string => id !== undefined),
+    ),
+  ];
+
+  const usedIds = new Set<string>();
+  const sections: ReportSection[] = rawSections
+    .map(({ heading, level, lines }) => {
+      let id = slugify(stripInline(heading) || "introduction");
+      for (let n = 2; usedIds.has(id); n++) {
+        id = `${slugify(stripInline(heading) || "introduction")}-${n}`;
+      }
+      usedIds.add(id);
+
+      const blocks = parseBlocks(lines).map((block): ReportBlock => {
+        switch (block.type) {
+          case "code":
+            return block;
+          case "table":
+            return {
+              ...block,
+              citations: citedIds([...block.header, ...block.rows.flat()]),
+            };
+          default:
+            return { ...block, citations: citedIds([block.text]) };
+        }
+      });
+
+      return { id, heading, level, blocks };
+    })
+    .filter((section) => section.heading || section.blocks.length > 0);
+
+  return {
+    title:
+      title || stripInline(sections[0]?.heading ?? "") || "Research Report",
+    sections,
+    sources,
+  };
+}
+
+// ===== INLINE MARKUP =====
+
+/**
+ * Split Markdown text into inline tokens.
+ *
+ * Understands bold, italics, inline code, links and citation markers, which
+ * covers what the report writer produces.
+ * @param text - Markdown text of one block
+ * @returns Inline tokens in order
+ */
+export function parseInline(text: string): InlineToken[] {
+  const pattern =
+    /`([^`]+)`|\[([^\]]+)\]\(([^)\s]+)\)|\[(\d+(?:\s*,\s*\d+)*)\]|\*\*(.+?)\*\*|__(.+?)__|\*(.+?)\*|\b_(.+?)_\b/g;
+  const tokens: InlineToken[] = [];
+  let last = 0;
+
+  for (const match of text.matchAll(pattern)) {
+    if (match.index! > last) {
+      tokens.push({ type: "text", text: text.slice(last, match.index) });
+    }
+    const [, code, linkText, url, citation, bold1, bold2, italic1, italic2] =
+      match;
+    if (code !== undefined) {
+      tokens.push({ type: "code", text: code });
+    } else if (linkText !== undefined) {
+      tokens.push({ type: "link", text: linkText, url: url! });
+    } else if (citation !== undefined) {
+      tokens.push({
+        type: "citation",
+        numbers: citation.split(",").map((number) => Number(number.trim())),
+      });
+    } else if ((bold1 ?? bold2) !== undefined) {
+      tokens.push({ type: "text", text: (bold1 ?? bold2)!, bold: true });
+    } else {
+      tokens.push({ type: "text", text: (italic1 ?? italic2)!, italic: true });
+    }
+    last = match.index! + match[0].length;
+  }
+
+  if (last < text.length) {
+    tokens.push({ type: "text", text: text.slice(last) });
+  }
+  return tokens;
+}
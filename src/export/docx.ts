@@ -0,0 +1,229 @@
+/**
+ * DOCX Report Exporter.
+ *
+ * Renders a report document as a Word document with native headings, lists,
+ * tables and hyperlinked sources.
+ */
+
+import {
+  AlignmentType,
+  Document,
+  ExternalHyperlink,
+  HeadingLevel,
+  LevelFormat,
+  Packer,
+  Paragraph,
+  ParagraphChild,
+  Table,
+  TableCell,
+  TableRow,
+  TextRun,
+  WidthType,
+} from "docx";
+import { formatSourceCredibility } from "../sources/index.js";
+import { parseInline, ReportBlock, ReportDocument } from "./document.js";
+
+const headingLevels = [
+  HeadingLevel.HEADING_1,
+  HeadingLevel.HEADING_2,
+  HeadingLevel.HEADING_3,
+  HeadingLevel.HEADING_4,
+  HeadingLevel.HEADING_5,
+  HeadingLevel.HEADING_6,
+];
+
+const NUMBERED_LIST = "numbered-list";
+
+/**
+ * Render inline Markdown as Word runs.
+ * @param text - Markdown text of a block
+ * @returns Runs and hyperlinks
+ */
+function renderInline(text: string): ParagraphChild[] {
+  return parseInline(text).map((token) => {
+    switch (token.type) {
+      case "code":
+        return new TextRun({ text: token.text, font: "Courier New" });
+      case "link":
+        return new ExternalHyperlink({
+          link: token.url,
+          children: [new TextRun({ text: token.text, style: "Hyperlink" })],
+        });
+      case "citation":
+        return new TextRun({
+          text: `[${token.numbers.join(", ")}]`,
+          superScript: true,
+        });
+      default:
+        return new TextRun({
+          text: token.text,
+          bold: token.bold ?? false,
+          italics: token.italic ?? false,
+        });
+    }
+  });
+}
+
+/**
+ * Render a section's blocks as Word paragraphs and tables.
+ * @param blocks - Blocks of one section
+ * @param nextListInstance - Returns a new numbering instance for each numbered list
+ * @returns Document children
+ */
+function renderBlocks(
+  blocks: ReportBlock[],
+  nextListInstance: () => number,
+): (Paragraph | Table)[] {
+  const children: (Paragraph | Table)[] = [];
+  let listInstance: number | undefined;
+
+  for (const block of blocks) {
+    if (block.type !== "numbered") listInstance = undefined;
+
+    switch (block.type) {
+      case "bullet":
+        children.push(
+          new Paragraph({
+            children: renderInline(block.text),
+            bullet: { level: 0 },
+          }),
+        );
+        break;
+      case "numbered":
+        // Each run of numbered items restarts at 1
+        listInstance ??= nextListInstance();
+        children.push(
+          new Paragraph({
+            children: renderInline(block.text),
+            numbering: {
+              reference: NUMBERED_LIST,
+              level: 0,
+              instance: listInstance,
+            },
+          }),
+        );
+        break;
+      case "quote":
+        children.push(
+          new Paragraph({
+            children: [
+              new TextRun({ text: block.text, italics: true, color: "555555" }),
+            ],
+            indent: { left: 720 },
+          }),
+        );
+        break;
+      case "code":
+        children.push(
+          ...block.text.split("\n").map(
+            (line) =>
+              new Paragraph({
+                children: [new TextRun({ text: line, font: "Courier New" })],
+              }),
+          ),
+        );
+        break;
+      case "table":
+        children.push(
+          new Table({
+            width: { size: 100, type: WidthType.PERCENTAGE },
+            rows: [block.header, ...block.rows].map(
+              (row, rowIndex) =>
+                new TableRow({
+                  tableHeader: rowIndex === 0,
+                  children: row.map(
+                    (cell) =>
+                      new TableCell({
+                        children: [
+                          new Paragraph({
+                            children:
+                              rowIndex === 0
+                                ? [new TextRun({ text: cell, bold: true })]
+                                : renderInline(cell),
+                          }),
+                        ],
+                      }),
+                  ),
+                }),
+            ),
+          }),
+        );
+        break;
+      default:
+        children.push(new Paragraph({ children: renderInline(block.text) }));
+    }
+  }
+
+  return children;
+}
+
+/**
+ * Render a report document as a DOCX file.
+ * @param document - Parsed report
+ * @returns DOCX file contents
+ */
+export async function renderDocx(document: ReportDocument): Promise<Buffer> {
+  let listInstances = 0;
+  const nextListInstance = () => ++listInstances;
+
+  const children: (Paragraph | Table)[] = [
+    new Paragraph({ text: document.title, heading: HeadingLevel.TITLE }),
+  ];
+
+  for (const section of document.sections) {
+    if (section.heading) {
+      children.push(
+        new Paragraph({
+          children: renderInline(section.heading),
+          heading: headingLevels[section.level - 1]!,
+        }),
+      );
+    }
+    children.push(...renderBlocks(section.blocks, nextListInstance));
+  }
+
+  if (document.sources.length > 0) {
+    children.push(
+      new Paragraph({ text: "Sources", heading: HeadingLevel.HEADING_2 }),
+      ...document.sources.map(
+        (source) =>
+          new Paragraph({
+            children: [
+              new TextRun({
+                text: `[${source.number}] ${source.title}${formatSourceCredibility(source)}: `,
+              }),
+              new ExternalHyperlink({
+                link: source.url,
+                children: [
+                  new TextRun({ text: source.url, style: "Hyperlink" }),
+                ],
+              }),
+            ],
+          }),
+      ),
+    );
+  }
+
+  const doc = new Document({
+    title: document.title,
+    numbering: {
+      config: [
+        {
+          reference: NUMBERED_LIST,
+          levels: [
+            {
+              level: 0,
+              format: LevelFormat.DECIMAL,
+              text: "%1.",
+              alignment: AlignmentType.START,
+              style: { paragraph: { indent: { left: 720, hanging: 360 } } },
+            },
+          ],
+        },
+      ],
+    },
+    sections: [{ children }],
+  });
+
+  return await Packer.toBuffer(doc);
+}
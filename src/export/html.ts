@@ -0,0 +1,190 @@
+/**
+ * HTML Report Exporter.
+ *
+ * Renders a report document as a standalone HTML page with inline styles, a
+ * table of contents and citation links to the Sources list.
+ */
+
+import { formatSourceCredibility } from "../sources/index.js";
+import {
+  InlineToken,
+  parseInline,
+  ReportBlock,
+  ReportDocument,
+} from "./document.js";
+
+const styles = `
+  body { font-family: Georgia, "Times New Roman", serif; line-height: 1.6; color: #222; max-width: 48rem; margin: 2rem auto; padding: 0 1rem; }
+  h1, h2, h3, h4, h5, h6 { font-family: Helvetica, Arial, sans-serif; line-height: 1.25; }
+  nav.toc { background: #f6f6f6; border: 1px solid #ddd; padding: 0.5rem 1.5rem; margin-bottom: 2rem; }
+  nav.toc ul { list-style: none; padding-left: 1rem; }
+  sup.citation a, ol.sources a { color: #0645ad; text-decoration: none; }
+  blockquote { border-left: 4px solid #ddd; margin-left: 0; padding-left: 1rem; color: #555; }
+  pre { background: #f6f6f6; padding: 1rem; overflow-x: auto; }
+  table { border-collapse: collapse; margin: 1rem 0; }
+  th, td { border: 1px solid #ccc; padding: 0.3rem 0.6rem; text-align: left; vertical-align: top; }
+`;
+
+/**
+ * Escape text for use in HTML.
+ * @param text - Raw text
+ * @returns Escaped text
+ */
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/**
+ * Render inline Markdown as HTML.
+ * @param text - Markdown text of a block
+ * @returns HTML fragment
+ */
+function renderInline(text: string): string {
+  return parseInline(text)
+    .map((token: InlineToken) => {
+      switch (token.type) {
+        case "code":
+          return `<code>${escapeHtml(token.text)}</code>`;
+        case "link":
+          return `<a href="${escapeHtml(token.url)}">${escapeHtml(token.text)}</a>`;
+        case "citation":
+          return `<sup class="citation">[${token.numbers
+            .map((number) => `<a href="#source-${number}">${number}</a>`)
+            .join(", ")}]</sup>`;
+        default: {
+          const escaped = escapeHtml(token.text);
+          if (token.bold) return `<strong>${escaped}</strong>`;
+          if (token.italic) return `<em>${escaped}</em>`;
+          return escaped;
+        }
+      }
+    })
+    .join("");
+}
+
+/**
+ * Render a section's blocks, grouping consecutive list items into lists.
+ * @param blocks - Blocks of one section
+ * @returns HTML fragment
+ */
+function renderBlocks(blocks: ReportBlock[]): string {
+  const html: string[] = [];
+  let openList: "ul" | "ol" | undefined;
+
+  for (const block of blocks) {
+    const list =
+      block.type === "bullet"
+        ? "ul"
+        : block.type === "numbered"
+          ? "ol"
+          : undefined;
+    if (openList && openList !== list) {
+      html.push(`</${openList}>`);
+      openList = undefined;
+    }
+    if (list && !openList) {
+      html.push(`<${list}>`);
+      openList = list;
+    }
+
+    switch (block.type) {
+      case "bullet":
+      case "numbered":
+        html.push(`<li>${renderInline(block.text)}</li>`);
+        break;
+      case "quote":
+        html.push(
+          `<blockquote><p>${renderInline(block.text)}</p></blockquote>`,
+        );
+        break;
+      case "code":
+        html.push(`<pre><code>${escapeHtml(block.text)}</code></pre>`);
+        break;
+      case "table":
+        html.push(
+          "<table>",
+          `<thead><tr>${block.header.map((cell) => `<th>${renderInline(cell)}</th>`).join("")}</tr></thead>`,
+          `<tbody>${block.rows
+            .map(
+              (row) =>
+                `<tr>${row.map((cell) => `<td>${renderInline(cell)}</td>`).join("")}</tr>`,
+            )
+            .join("")}</tbody>`,
+          "</table>",
+        );
+        break;
+      default:
+        html.push(`<p>${renderInline(block.text)}</p>`);
+    }
+  }
+
+  if (openList) html.push(`</${openList}>`);
+  return html.join("\n");
+}
+
+/**
+ * Render a report document as a standalone HTML page.
+ * @param document - Parsed report
+ * @returns Complete HTML document
+ */
+export function renderHtml(document: ReportDocument): string {
+  const headed = document.sections.filter((section) => section.heading);
+  const minLevel = Math.min(...headed.map((section) => section.level));
+
+  const toc = headed.length
+    ? `<nav class="toc">
+<h2>Contents</h2>
+<ul>
+${headed
+  .map(
+    (section) =>
+      `<li style="margin-left: ${(section.level - minLevel) * 1.25}rem"><a href="#${section.id}">${renderInline(section.heading)}</a></li>`,
+  )
+  .join("\n")}
+${document.sources.length ? `<li><a href="#sources">Sources</a></li>` : ""}
+</ul>
+</nav>`
+    : "";
+
+  const body = document.sections
+    .map((section) => {
+      const heading = section.heading
+        ? `<h${section.level} id="${section.id}">${renderInline(section.heading)}</h${section.level}>\n`
+        : "";
+      return heading + renderBlocks(section.blocks);
+    })
+    .join("\n\n");
+
+  const sources = document.sources.length
+    ? `<h2 id="sources">Sources</h2>
+<ol class="sources">
+${document.sources
+  .map(
+    (source) =>
+      `<li id="source-${source.number}" value="${source.number}">${escapeHtml(source.title)}${formatSourceCredibility(source)}: <a href="${escapeHtml(source.url)}">${escapeHtml(source.url)}</a></li>`,
+  )
+  .join("\n")}
+</ol>`
+    : "";
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(document.title)}</title>
+<style>${styles}</style>
+</head>
+<body>
+<h1>${escapeHtml(document.title)}</h1>
+${toc}
+${body}
+${sources}
+</body>
+</html>
+`;
+}
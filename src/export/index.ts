@@ -0,0 +1,95 @@
+/**
+ * Report Export.
+ *
+ * Converts a final report from Markdown into the format selected for a run:
+ * Markdown, standalone HTML, DOCX or a structured JSON document. Exporters
+ * only need the Markdown report, so a previously saved report can be exported
+ * again later; passing the run's source registry adds the full source records.
+ */
+
+import { extname } from "node:path";
+import { SourceRegistry } from "../sources/index.js";
+import { parseReport } from "./document.js";
+import { renderDocx } from "./docx.js";
+import { renderHtml } from "./html.js";
+
+export * from "./document.js";
+
+export const reportFormats = ["markdown", "html", "docx", "json"] as const;
+
+export type ReportFormat = (typeof reportFormats)[number];
+
+export type ExportedReport = {
+  format: ReportFormat;
+  content: string | Buffer;
+  contentType: string;
+  extension: string;
+};
+
+const formatDetails: Record<
+  ReportFormat,
+  { contentType: string; extension: string }
+> = {
+  markdown: { contentType: "text/markdown; charset=utf-8", extension: ".md" },
+  html: { contentType: "text/html; charset=utf-8", extension: ".html" },
+  docx: {
+    contentType:
+      "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+    extension: ".docx",
+  },
+  json: { contentType: "application/json; charset=utf-8", extension: ".json" },
+};
+
+/**
+ * Check whether a string names a supported report format.
+ * @param value - Format name
+ * @returns True for markdown, html, docx and json
+ */
+export function isReportFormat(value: unknown): value is ReportFormat {
+  return reportFormats.includes(value as ReportFormat);
+}
+
+/**
+ * Guess the report format from a file name.
+ * @param path - Output or input file path
+ * @returns The format for a known extension, otherwise undefined
+ */
+export function formatFromPath(path: string): ReportFormat | undefined {
+  const extension = extname(path).toLowerCase();
+  if (extension === ".markdown") return "markdown";
+  if (extension === ".htm") return "html";
+  return reportFormats.find(
+    (format) => formatDetails[format].extension === extension,
+  );
+}
+
+/**
+ * Export a Markdown report in the requested format.
+ * @param report - Final report in Markdown
+ * @param format - Output format
+ * @param registry - Source registry of the run, when available
+ * @returns The exported report with its content type and file extension
+ */
+export async function exportReport(
+  report: string,
+  format: ReportFormat,
+  registry: SourceRegistry = {},
+): Promise<ExportedReport> {
+  let content: string | Buffer;
+  switch (format) {
+    case "markdown":
+      content = report;
+      break;
+    case "html":
+      content = renderHtml(parseReport(report, registry));
+      break;
+    case "docx":
+      content = await renderDocx(parseReport(report, registry));
+      break;
+    case "json":
+      content = JSON.stringify(parseReport(report, registry), null, 2) + "\n";
+      break;
+  }
+
+  return { format, content, ...formatDetails[format] };
+}
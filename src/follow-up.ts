@@ -0,0 +1,213 @@
+/**
+ * Follow-Up Questions on a Finished Report.
+ *
+ * A message sent on a thread whose final report is already written is a
+ * follow-up, not a new research request. Instead of rerunning clarification
+ * and the whole pipeline, the follow-up is answered directly from the
+ * existing notes when they suffice. Otherwise narrowly scoped research tasks
+ * are delegated to new researchers, and their findings are written into a
+ * revised report or an addendum. The existing brief, notes and source
+ * registry are kept, so new findings only add to them.
+ */
+
+import { randomUUID } from "node:crypto";
+import { AIMessage, HumanMessage } from "@langchain/core/messages";
+import { ToolCall } from "@langchain/core/messages/tool";
+import { Command, END, LangGraphRunnableConfig } from "@langchain/langgraph";
+import { createRoleModel, getRoleModelName } from "./llm/factory.js";
+import { AgentState, FollowUp, FollowUpPlan } from "./shared/types.js";
+import {
+  createFollowUpPrompt,
+  createFollowUpReportPrompt,
+} from "./shared/prompts.js";
+import { KnowledgeStore } from "./knowledge/index.js";
+import { runResearchers } from "./multi-agent-supervisor.js";
+import {
+  createPassageIndex,
+  stripVerificationAppendix,
+} from "./report-verification.js";
+import {
+  revalidateCitations,
+  SOURCES_SECTION,
+  validateCitations,
+} from "./sources/index.js";
+import { attributeUsage, measureUsage } from "./usage/index.js";
+import { getResearchLimits, getToday } from "./utils.js";
+
+// Raw note passages shown to the follow-up planner, on top of the notes
+const FOLLOW_UP_PASSAGES = 8;
+
+const followUpLLM = createRoleModel("follow_up", { temperature: 0.0 });
+// Raw responses are kept for their token usage
+const structuredFollowUpLLM = followUpLLM.withStructuredOutput(FollowUpPlan, {
+  includeRaw: true,
+});
+const writerLLM = createRoleModel("final_report");
+
+/**
+ * Route a new message on a thread.
+ *
+ * Threads without a final report are still being scoped, so their messages
+ * go to clarification; on a finished thread a new message is a follow-up.
+ * @param state - The current state of the workflow
+ * @returns Name of the next node
+ */
+export function routeNewMessage(
+  state: typeof AgentState.State,
+): "handle_follow_up" | "clarify_with_user" {
+  return state.final_report ? "handle_follow_up" : "clarify_with_user";
+}
+
+/**
+ * Decide how to handle a follow-up on a finished report.
+ *
+ * Answers directly when the report and notes suffice. Otherwise records the
+ * new research tasks as ConductResearch tool calls, so a resumed run
+ * continues the same researchers, and hands over to follow-up research.
+ * @param state - The current state of the workflow
+ * @param config - Runtime config with the run's research limits
+ * @returns Command to end with the answer, or to research the follow-up
+ */
+export async function handleFollowUp(
+  state: typeof AgentState.State,
+  config: LangGraphRunnableConfig,
+): Promise<Command<"follow_up_research" | typeof END>> {
+  const question = String(state.messages.at(-1)?.content ?? "");
+  const rawPassages = createPassageIndex(state.raw_notes ?? [])
+    .search(question, FOLLOW_UP_PASSAGES)
+    .map((hit) => hit.item);
+  const notes = [...(state.notes ?? []), ...rawPassages].join("\n\n");
+  const maxTopics = getResearchLimits(config).maxConcurrentResearchUnits;
+
+  const { raw, parsed: plan } = await structuredFollowUpLLM.invoke([
+    new HumanMessage(
+      createFollowUpPrompt(
+        state.research_brief ?? "",
+        stripVerificationAppendix(state.final_report ?? ""),
+        notes,
+        question,
+        maxTopics,
+        getToday(),
+      ),
+    ),
+  ]);
+  const usage = attributeUsage(
+    [measureUsage(raw, getRoleModelName("follow_up"))],
+    "handle_follow_up",
+  );
+
+  const topics: string[] = plan.research_topics.slice(0, maxTopics);
+  if (plan.action === "answer" || topics.length === 0) {
+    const { report: answer } = validateCitations(
+      plan.answer,
+      state.sources ?? {},
+    );
+    const followUp: FollowUp = { question, action: "answer", answer };
+    return new Command({
+      goto: END,
+      update: {
+        messages: [new AIMessage(answer)],
+        follow_up: followUp,
+        usage,
+      },
+    });
+  }
+
+  const followUp: FollowUp = { question, action: plan.action };
+  return new Command({
+    goto: "follow_up_research",
+    update: {
+      supervisor_messages: [
+        new AIMessage({
+          content: `Follow-up research for: ${question}`,
+          tool_calls: topics.map((topic) => ({
+            name: "ConductResearch",
+            args: { research_topic: topic },
+            id: `call_${randomUUID()}`,
+          })),
+        }),
+      ],
+      follow_up: followUp,
+      usage,
+    },
+  });
+}
+
+/**
+ * Run the researchers delegated for a follow-up.
+ *
+ * Only the findings of these researchers are added to the notes, so notes
+ * from the original research are not duplicated.
+ * @param state - The current state of the workflow
+ * @param config - Runtime config, whose options are forwarded to researchers
+ * @returns The new findings, notes, sources and usage
+ */
+export async function followUpResearch(
+  state: typeof AgentState.State,
+  config: LangGraphRunnableConfig,
+) {
+  const delegation = state.supervisor_messages.at(-1) as AIMessage;
+  const toolCalls: ToolCall[] = (delegation.tool_calls ?? []).filter(
+    (toolCall) => toolCall.name === "ConductResearch",
+  );
+  const research = await runResearchers(
+    toolCalls,
+    state.usage,
+    config,
+    new KnowledgeStore(state.sources, state.findings),
+  );
+  const findings = research.notes;
+
+  return {
+    supervisor_messages: research.toolMessages,
+    notes: findings,
+    raw_notes: research.rawNotes,
+    sources: research.sources,
+    findings: research.findings,
+    usage: research.usage,
+    degraded_summaries: research.degradedSummaries,
+    follow_up: { ...state.follow_up!, findings },
+  };
+}
+
+/**
+ * Write the follow-up research into the report.
+ *
+ * Depending on the follow-up plan, the report is revised as a whole or an
+ * addendum section is added before its Sources list. The report is then
+ * verified again.
+ * @param state - The current state of the workflow
+ * @returns The updated final report and usage
+ */
+export async function writeFollowUpReport(state: typeof AgentState.State) {
+  const followUp = state.follow_up!;
+  const report = stripVerificationAppendix(state.final_report ?? "");
+  const mode = followUp.action === "revise" ? "revise" : "addendum";
+
+  const response = await writerLLM.invoke([
+    new HumanMessage(
+      createFollowUpReportPrompt(
+        mode,
+        report,
+        followUp.question,
+        (followUp.findings ?? []).join("\n\n"),
+        getToday(),
+      ),
+    ),
+  ]);
+  const text = String(response.content).trim();
+  const updated =
+    mode === "revise"
+      ? text
+      : `${report.replace(SOURCES_SECTION, "").trim()}\n\n${text}`;
+
+  return {
+    final_report: text
+      ? revalidateCitations(updated, report, state.sources ?? {})
+      : report,
+    usage: attributeUsage(
+      [measureUsage(response, getRoleModelName("final_report"))],
+      "write_follow_up_report",
+    ),
+  };
+}
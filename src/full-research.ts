@@ -6,49 +6,77 @@
  * - Research brief generation
  * - Multi-agent research coordination
  * - Final report generation
+ * - Claim-level verification of the final report
+ * - Follow-up questions on the finished report
  *
  * The system orchestrates the complete research workflow from initial user
  * input through final report delivery.
  */
-import { createChatModel } from "./llm/factory";
-import { AgentState, AgentInputState } from "./shared/types";
-import { createFinalReportGenerationPrompt } from "./shared/prompts";
-import { END, START, StateGraph } from "@langchain/langgraph";
-import { HumanMessage } from "@langchain/core/messages";
-import { getToday } from "./utils";
-import { clarifyWithUser, writeResearchBrief } from "./research-scoping";
-import { supervisorAgent } from "./multi-agent-supervisor";
-
-const llm = createChatModel({ family: "gpt41", model: "gpt-4.1" });
+import { AgentState, AgentInputState } from "./shared/types.js";
+import {
+  END,
+  START,
+  StateGraph,
+  LangGraphRunnableConfig,
+} from "@langchain/langgraph";
+import {
+  clarifyWithUser,
+  writeResearchBrief,
+  reviewResearchBrief,
+  routeAfterBriefReview,
+} from "./research-scoping.js";
+import { supervisorAgent } from "./multi-agent-supervisor.js";
+import { verifyReport } from "./report-verification.js";
+import { writeReport } from "./report-writer.js";
+import {
+  followUpResearch,
+  handleFollowUp,
+  routeNewMessage,
+  writeFollowUpReport,
+} from "./follow-up.js";
+import { checkpointer } from "./checkpoint/index.js";
+import { validateCitations } from "./sources/index.js";
+import { attributeUsage, UsageRecord } from "./usage/index.js";
 
 /**
  * Final report generation node.
  *
- * Synthesizes all research findings into a comprehensive final report
+ * Synthesizes all research findings into a comprehensive final report, in
+ * one pass or section by section for large runs, then validates its
+ * citations against the source registry: unknown citations are repaired or
+ * removed, citations are numbered across the whole report and the Sources
+ * list is built from the registry. The report is delivered to the user once
+ * it has been verified.
  * @param state - The current state of the workflow
+ * @param config - Runtime config with the per-run report writer mode
  */
-async function finalReportGeneration(state: typeof AgentState.State): Promise<{
+async function finalReportGeneration(
+  state: typeof AgentState.State,
+  config: LangGraphRunnableConfig,
+): Promise<{
   final_report: string;
-  messages: string[];
+  usage: UsageRecord[];
 }> {
-  const notes = state.notes ?? [];
-  const findings = notes.join("\n");
-  const finalReportPrompt = createFinalReportGenerationPrompt(
-    state.research_brief ?? "",
-    findings,
-    getToday(),
-  );
+  const written = await writeReport(state, config);
 
-  const finalReport = await llm.invoke([new HumanMessage(finalReportPrompt)]);
+  const { report, unknown } = validateCitations(
+    written.report,
+    state.sources ?? {},
+  );
+  if (unknown.length > 0) {
+    console.error(
+      `Removed ${unknown.length} citation(s) to unknown sources: ${unknown.join(", ")}`,
+    );
+  }
 
   return {
-    final_report: finalReport.content as string,
-    messages: ["Here is the final report: " + finalReport.content],
+    final_report: report,
+    usage: attributeUsage(written.usage, "final_report_generation"),
   };
 }
 
 // ===== GRAPH CONSTRUCTION =====
-const deepResearchBuilder = new StateGraph({
+export const deepResearchBuilder = new StateGraph({
   stateSchema: AgentState,
   input: AgentInputState,
 })
@@ -56,17 +84,32 @@ const deepResearchBuilder = new StateGraph({
   .addNode("clarify_with_user", clarifyWithUser, {
     ends: ["write_research_brief", END],
   })
-  .addNode("write_research_brief", writeResearchBrief, {
-    ends: ["supervisor_subgraph"],
-  })
+  .addNode("write_research_brief", writeResearchBrief)
+  .addNode("review_research_brief", reviewResearchBrief)
   .addNode("supervisor_subgraph", supervisorAgent)
-  .addNode("final_report_generation", finalReportGeneration, { ends: [END] })
+  .addNode("final_report_generation", finalReportGeneration)
+  .addNode("verify_report", verifyReport)
+  .addNode("handle_follow_up", handleFollowUp, {
+    ends: ["follow_up_research", END],
+  })
+  .addNode("follow_up_research", followUpResearch)
+  .addNode("write_follow_up_report", writeFollowUpReport)
 
   // Add workflow edges
-  .addEdge(START, "clarify_with_user")
-  .addEdge("write_research_brief", "supervisor_subgraph")
+  .addConditionalEdges(START, routeNewMessage, {
+    clarify_with_user: "clarify_with_user",
+    handle_follow_up: "handle_follow_up",
+  })
+  .addEdge("write_research_brief", "review_research_brief")
+  .addConditionalEdges("review_research_brief", routeAfterBriefReview, {
+    write_research_brief: "write_research_brief",
+    approved: "supervisor_subgraph",
+  })
   .addEdge("supervisor_subgraph", "final_report_generation")
-  .addEdge("final_report_generation", END);
+  .addEdge("final_report_generation", "verify_report")
+  .addEdge("follow_up_research", "write_follow_up_report")
+  .addEdge("write_follow_up_report", "verify_report")
+  .addEdge("verify_report", END);
 
-export const deepResearch = deepResearchBuilder.compile();
+export const deepResearch = deepResearchBuilder.compile({ checkpointer });
 deepResearch.name = "Deep Research";
@@ -0,0 +1,106 @@
+/**
+ * Research Coverage.
+ *
+ * Summarizes for the supervisor which sub-questions of the research plan
+ * are already answered, and by which sources, so it can see the gaps instead
+ * of reading every researcher's prose.
+ */
+
+import { ResearchPlan } from "../research-plan/index.js";
+import { SourceRegistry } from "../sources/index.js";
+import { KnowledgeStore, ResearchFinding } from "./store.js";
+
+// Sources listed per sub-question or research task
+const MAX_LISTED_SOURCES = 5;
+
+// Related sources suggested for a sub-question without findings
+const MAX_RELATED_SOURCES = 3;
+
+/**
+ * List sources by ID and title.
+ * @param ids - Source IDs
+ * @param sources - Source registry
+ * @returns E.g. "src-1a2b3c4d (Title), src-5e6f7a8b (Title) and 2 more"
+ */
+function listSources(ids: string[], sources: SourceRegistry): string {
+  const listed = ids
+    .slice(0, MAX_LISTED_SOURCES)
+    .map((id) => `${id} (${sources[id]?.title ?? "unknown"})`)
+    .join(", ");
+  const more = ids.length - MAX_LISTED_SOURCES;
+  return more > 0 ? `${listed} and ${more} more` : listed;
+}
+
+/**
+ * Describe the sources a set of findings cites.
+ * @param findings - Findings of research tasks
+ * @param sources - Source registry
+ * @returns E.g. "3 sources: src-1a2b3c4d (Title), ..."
+ */
+function describeCitedSources(
+  findings: ResearchFinding[],
+  sources: SourceRegistry,
+): string {
+  const ids = [...new Set(findings.flatMap((finding) => finding.source_ids))];
+  return ids.length > 0
+    ? `${ids.length} source${ids.length === 1 ? "" : "s"}: ${listSources(ids, sources)}`
+    : "no cited sources";
+}
+
+/**
+ * Describe which sub-questions are answered by which sources.
+ *
+ * Sub-questions without findings list the sources already in the store
+ * that look related to them, which researchers can build on.
+ * @param plan - Current research plan
+ * @param store - Knowledge store of the run
+ * @returns Coverage view for the supervisor prompt
+ */
+export function formatCoverage(
+  plan: ResearchPlan,
+  store: KnowledgeStore,
+): string {
+  const { sources, findings } = store;
+  const registered = Object.values(sources).filter(
+    (source) => !source.duplicate_of,
+  );
+  if (registered.length === 0 && findings.length === 0) {
+    return "Nothing has been researched yet.";
+  }
+
+  const summarized = registered.filter((source) => source.summary).length;
+  const lines = [
+    `${registered.length} sources retrieved (${summarized} summarized), ${findings.length} research tasks finished.`,
+  ];
+
+  for (const item of plan.sub_questions) {
+    const answers = findings.filter(
+      (finding) => finding.sub_question_id === item.id,
+    );
+    if (answers.length > 0) {
+      lines.push(
+        `- ${item.id} [${item.status}]: answered by ${answers.length} research task${answers.length === 1 ? "" : "s"} citing ${describeCitedSources(answers, sources)}`,
+      );
+      continue;
+    }
+    const related = store
+      .search(item.question, MAX_RELATED_SOURCES)
+      .flatMap((hit) => (hit.type === "source" ? [hit.source.id] : []));
+    lines.push(
+      related.length > 0
+        ? `- ${item.id} [${item.status}]: not researched yet; related sources in the store: ${listSources(related, sources)}`
+        : `- ${item.id} [${item.status}]: not researched yet`,
+    );
+  }
+
+  const planned = new Set(plan.sub_questions.map((item) => item.id));
+  for (const finding of findings) {
+    if (finding.sub_question_id && planned.has(finding.sub_question_id)) {
+      continue;
+    }
+    lines.push(
+      `- Research on "${finding.topic}": ${describeCitedSources([finding], sources)}`,
+    );
+  }
+  return lines.join("\n");
+}
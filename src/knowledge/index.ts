@@ -0,0 +1,10 @@
+/**
+ * Shared Knowledge of a Research Run.
+ *
+ * The knowledge store lets researchers reuse what the others have found,
+ * and the coverage view shows the supervisor which sub-questions are
+ * answered by which sources.
+ */
+
+export * from "./store.js";
+export * from "./coverage.js";
@@ -0,0 +1,172 @@
+/**
+ * Run-Wide Knowledge Store.
+ *
+ * Holds what the researchers of one run have learned so far: the sources
+ * they retrieved, with the summaries they were shown, and the findings of
+ * every finished research task. One store is shared by all researchers the
+ * supervisor launches in a turn, so a researcher can look up what the others
+ * have already found, even while they are still running, before searching
+ * the web. The store is rebuilt from the run's state on every turn, so it
+ * survives checkpoints and resumes.
+ */
+
+import { RunnableConfig } from "@langchain/core/runnables";
+import { createBm25Index } from "../corpus/bm25.js";
+import {
+  extractSourceIds,
+  mergeSources,
+  resolveSource,
+  SourceRecord,
+  SourceRegistry,
+} from "../sources/index.js";
+
+// The findings of one finished research task.
+export type ResearchFinding = {
+  // ID of the ConductResearch tool call that started the researcher
+  researcher_id: string;
+  topic: string;
+  // Sub-question of the research plan the research answered
+  sub_question_id?: string | undefined;
+  // Compressed findings of the researcher
+  findings: string;
+  // Registered sources the findings cite
+  source_ids: string[];
+};
+
+// An item of the knowledge store matching a query.
+export type KnowledgeHit =
+  | { type: "source"; source: SourceRecord; score: number }
+  | { type: "finding"; finding: ResearchFinding; score: number };
+
+/**
+ * Merge research findings.
+ *
+ * Used as the state reducer for `findings`. Findings of a researcher that
+ * reports again replace its earlier ones.
+ * @param findings - Current findings
+ * @param update - Findings to add
+ * @returns Merged findings
+ */
+export function mergeFindings(
+  findings: ResearchFinding[],
+  update: ResearchFinding[] | undefined,
+): ResearchFinding[] {
+  if (!update || update.length === 0) return findings;
+  const replaced = new Set(update.map((finding) => finding.researcher_id));
+  return [
+    ...findings.filter((finding) => !replaced.has(finding.researcher_id)),
+    ...update,
+  ];
+}
+
+/**
+ * Create the finding of a finished research task.
+ * @param researcherId - ID of the ConductResearch tool call
+ * @param topic - Research topic
+ * @param findings - Compressed findings
+ * @param sources - Source registry the findings' citations resolve against
+ * @param subQuestionId - Sub-question the research answered, if any
+ * @returns Finding citing the registered sources it mentions
+ */
+export function createFinding(
+  researcherId: string,
+  topic: string,
+  findings: string,
+  sources: SourceRegistry,
+  subQuestionId?: string,
+): ResearchFinding {
+  const sourceIds = extractSourceIds(findings)
+    .map((id) => resolveSource(sources, id)?.id)
+    .filter((id): id is string => id !== undefined);
+  return {
+    researcher_id: researcherId,
+    topic,
+    ...(subQuestionId ? { sub_question_id: subQuestionId } : {}),
+    findings,
+    source_ids: [...new Set(sourceIds)],
+  };
+}
+
+export class KnowledgeStore {
+  private registry: SourceRegistry;
+  private researchFindings: ResearchFinding[];
+
+  /**
+   * @param sources - Sources the run has retrieved so far
+   * @param findings - Findings of the research finished so far
+   */
+  constructor(sources: SourceRegistry = {}, findings: ResearchFinding[] = []) {
+    this.registry = sources;
+    this.researchFindings = findings;
+  }
+
+  get sources(): SourceRegistry {
+    return this.registry;
+  }
+
+  get findings(): ResearchFinding[] {
+    return this.researchFindings;
+  }
+
+  /**
+   * Record retrieved sources.
+   * @param sources - Sources to add, as a registry or a list
+   */
+  addSources(sources: SourceRegistry | SourceRecord[] | undefined): void {
+    this.registry = mergeSources(this.registry, sources);
+  }
+
+  /**
+   * Record the findings of a finished research task.
+   * @param finding - Findings to add
+   */
+  addFinding(finding: ResearchFinding): void {
+    this.researchFindings = mergeFindings(this.researchFindings, [finding]);
+  }
+
+  /**
+   * Search the sources and findings by keywords.
+   * @param query - Keywords to search for
+   * @param limit - Most items to return
+   * @returns Matching sources and findings, best match first
+   */
+  search(query: string, limit: number): KnowledgeHit[] {
+    const items: (
+      | { type: "source"; source: SourceRecord }
+      | { type: "finding"; finding: ResearchFinding }
+    )[] = [
+      ...Object.values(this.registry)
+        .filter((source) => !source.duplicate_of)
+        .map((source) => ({ type: "source" as const, source })),
+      ...this.researchFindings.map((finding) => ({
+        type: "finding" as const,
+        finding,
+      })),
+    ];
+    const index = createBm25Index(items, (item) =>
+      item.type === "source"
+        ? [item.source.title, item.source.summary, ...item.source.excerpts]
+            .filter(Boolean)
+            .join("\n")
+        : `${item.finding.topic}\n${item.finding.findings}`,
+    );
+    return index
+      .search(query, limit)
+      .map(({ item, score }) => ({ ...item, score }) as KnowledgeHit);
+  }
+}
+
+/**
+ * Get the knowledge store shared by the researchers of a run.
+ * @param config - Runnable config; its `knowledge_store` option holds the store
+ * @param sources - Sources to seed a new store with when the run has none,
+ *        e.g. for a researcher running on its own
+ * @returns The run's store, or a new one
+ */
+export function getKnowledgeStore(
+  config?: RunnableConfig,
+  sources: SourceRegistry = {},
+): KnowledgeStore {
+  const store = config?.configurable?.knowledge_store;
+  return store instanceof KnowledgeStore ? store : new KnowledgeStore(sources);
+}
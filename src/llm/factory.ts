@@ -1,20 +1,72 @@
-import { AzureChatOpenAI } from "@langchain/openai";
-import { modelSecrets } from "../config";
+import { AzureChatOpenAI, ChatOpenAI } from "@langchain/openai";
+import { ChatAnthropic } from "@langchain/anthropic";
+import { BaseChatModel } from "@langchain/core/language_models/chat_models";
+import {
+  modelSecrets,
+  providerSecrets,
+  roleModels,
+  ModelRole,
+} from "../config.js";
+import { ScriptedChatModel } from "./scripted.js";
+import { withRateLimits } from "../rate-limit/index.js";
+import { withCassette } from "../cassette/index.js";
 
 type ModelFamily = keyof typeof modelSecrets; // e.g., 'gpt41' | 'gpt41Mini'
 
+export const modelProviders = [
+  "azure",
+  "openai",
+  "anthropic",
+  "ollama",
+  "fake",
+] as const;
+
+export type ModelProvider = (typeof modelProviders)[number];
+
 export type ChatModelOptions = {
+  provider?: ModelProvider;
   family?: ModelFamily;
   model?: string; // e.g., 'gpt-4.1'
   temperature?: number;
   maxTokens?: number;
+  // Retries of the provider's own client; 0 when retries are handled outside
+  maxRetries?: number;
+  // Role the model is created for; used by the scripted fake model
+  role?: ModelRole;
 };
 
+// Chat model that supports tool binding, which every provider above does.
+export type ToolCallingChatModel = BaseChatModel &
+  Required<Pick<BaseChatModel, "bindTools">>;
+
+/**
+ * Parse a "<provider>:<model>" spec such as "anthropic:claude-sonnet-4-0".
+ *
+ * For the azure provider the model part is a configured model family
+ * (e.g. "azure:gpt41Mini"); for the fake provider it is a script path.
+ * @param spec - Model spec string
+ * @returns Provider and model name
+ */
+export function parseModelSpec(spec: string): {
+  provider: ModelProvider;
+  model: string;
+} {
+  const separator = spec.indexOf(":");
+  const provider = spec.slice(0, separator) as ModelProvider;
+  const model = spec.slice(separator + 1);
+
+  if (separator === -1 || !modelProviders.includes(provider) || !model) {
+    throw new Error(
+      `Invalid model spec "${spec}". Expected "<provider>:<model>" with provider one of ${modelProviders.join(", ")}`,
+    );
+  }
+  return { provider, model };
+}
+
 /**
  * Create a configured AzureChatOpenAI instance based on configured model family.
- * Optionally bind tools via the caller using .bindTools().
  */
-export function createChatModel(opts: ChatModelOptions = {}) {
+function createAzureChatModel(opts: ChatModelOptions, base: any) {
   const family: ModelFamily = opts.family ?? "gpt41";
   const config = modelSecrets[family];
 
@@ -22,15 +74,110 @@ export function createChatModel(opts: ChatModelOptions = {}) {
     throw new Error(`Unknown model family: ${family}`);
   }
 
-  const base: any = {
-    model: opts.model ?? "gpt-4.1",
+  return new AzureChatOpenAI({
+    ...base,
+    model: opts.model ?? config.modelName,
     azureOpenAIApiKey: config.apiKey,
     azureOpenAIApiDeploymentName: config.apiDeploymentName,
     azureOpenAIApiVersion: config.apiVersion,
     azureOpenAIApiInstanceName: config.apiInstanceName,
-  };
+  });
+}
+
+/**
+ * Create a chat model for the requested provider.
+ * Optionally bind tools via the caller using .bindTools().
+ */
+export function createChatModel(
+  opts: ChatModelOptions = {},
+): ToolCallingChatModel {
+  const provider: ModelProvider = opts.provider ?? "azure";
+
+  const base: any = {};
   if (typeof opts.temperature === "number") base.temperature = opts.temperature;
   if (typeof opts.maxTokens === "number") base.maxTokens = opts.maxTokens;
+  if (typeof opts.maxRetries === "number") base.maxRetries = opts.maxRetries;
+
+  switch (provider) {
+    case "azure":
+      return createAzureChatModel(opts, base);
+    case "openai":
+      return new ChatOpenAI({
+        ...base,
+        model: opts.model ?? "gpt-4.1",
+        apiKey: providerSecrets.openai.apiKey,
+        configuration: providerSecrets.openai.baseUrl
+          ? { baseURL: providerSecrets.openai.baseUrl }
+          : {},
+      });
+    case "anthropic":
+      return new ChatAnthropic({
+        ...base,
+        model: opts.model ?? "claude-sonnet-4-0",
+        apiKey: providerSecrets.anthropic.apiKey,
+      });
+    case "ollama":
+      // Ollama (and other local servers) expose an OpenAI-compatible API
+      return new ChatOpenAI({
+        ...base,
+        model: opts.model ?? "llama3.1",
+        apiKey: providerSecrets.ollama.apiKey,
+        configuration: { baseURL: providerSecrets.ollama.baseUrl },
+      });
+    case "fake":
+      if (!opts.model) {
+        throw new Error("The fake provider needs a script path as its model");
+      }
+      return new ScriptedChatModel(opts.model, opts.role ?? "default");
+  }
+}
+
+/**
+ * Create the chat model configured for a role in the research workflow.
+ *
+ * The role's model spec comes from configuration (e.g. SUPERVISOR_MODEL),
+ * while call-specific settings like temperature are passed by the caller.
+ * Calls go through the shared LLM rate limiter, which also retries them, and
+ * are recorded to or replayed from the cassette when one is in use.
+ * @param role - Workflow role the model is used for
+ * @param opts - Per-call model settings
+ * @returns Chat model for the role
+ */
+export function createRoleModel(
+  role: ModelRole,
+  opts: Pick<ChatModelOptions, "temperature" | "maxTokens"> = {},
+): ToolCallingChatModel {
+  const { provider, model } = parseModelSpec(roleModels[role]);
 
-  return new AzureChatOpenAI(base);
+  if (provider === "azure" && !(model in modelSecrets)) {
+    throw new Error(
+      `Unknown Azure model family "${model}" for role ${role}. Expected one of ${Object.keys(modelSecrets).join(", ")}`,
+    );
+  }
+  const chatModel =
+    provider === "azure"
+      ? createChatModel({
+          ...opts,
+          provider,
+          family: model as ModelFamily,
+          maxRetries: 0,
+          role,
+        })
+      : createChatModel({ ...opts, provider, model, maxRetries: 0, role });
+
+  return withCassette(withRateLimits(chatModel, `${role} model`), role);
+}
+
+/**
+ * Name of the model configured for a role, used when a provider does not
+ * report the model name with its responses.
+ * @param role - Workflow role
+ * @returns Model name (the Azure deployment's model, the script path for fake)
+ */
+export function getRoleModelName(role: ModelRole): string {
+  const { provider, model } = parseModelSpec(roleModels[role]);
+  if (provider === "azure") {
+    return modelSecrets[model as ModelFamily]?.modelName ?? model;
+  }
+  return model;
 }
@@ -0,0 +1,155 @@
+/**
+ * Deterministic scripted chat model.
+ *
+ * Replays responses from a JSON script instead of calling an LLM, so the
+ * graphs can run offline with fully predictable behaviour. The script maps a
+ * model role to an ordered list of responses:
+ *
+ * {
+ *   "clarify": [{ "structured": { "need_clarification": false, "question": "", "verification": "Starting." } }],
+ *   "researcher": [
+ *     { "tool_calls": [{ "name": "tavily_search", "args": { "query": "..." } }] },
+ *     { "content": "Done." }
+ *   ]
+ * }
+ *
+ * Each response is used once, in order. A response with a `match` string is
+ * only used when the latest message contains that text, which keeps parallel
+ * callers (e.g. several researchers) deterministic.
+ */
+
+import { readFileSync } from "node:fs";
+import {
+  BaseChatModel,
+  BaseChatModelCallOptions,
+  BindToolsInput,
+} from "@langchain/core/language_models/chat_models";
+import { AIMessage, BaseMessage } from "@langchain/core/messages";
+import { ChatResult } from "@langchain/core/outputs";
+import { convertToOpenAITool } from "@langchain/core/utils/function_calling";
+
+export type ScriptedResponse = {
+  match?: string;
+  content?: string;
+  tool_calls?: { name: string; args: Record<string, any> }[];
+  // Structured output, returned when the model is used via withStructuredOutput
+  structured?: Record<string, any>;
+};
+
+export type ChatScript = Record<string, ScriptedResponse[]>;
+
+interface ScriptedChatModelCallOptions extends BaseChatModelCallOptions {
+  tools?: BindToolsInput[];
+}
+
+// Scripts are shared between all models loaded from the same file, so each
+// response is consumed exactly once per process no matter which model uses it.
+const scripts = new Map<string, ChatScript>();
+
+/**
+ * Load a chat script, reusing the already-loaded copy of a file.
+ * @param path - Path to the script JSON file
+ * @returns The mutable script
+ */
+function loadScript(path: string): ChatScript {
+  let script = scripts.get(path);
+  if (!script) {
+    script = JSON.parse(readFileSync(path, "utf-8")) as ChatScript;
+    scripts.set(path, script);
+  }
+  return script;
+}
+
+export class ScriptedChatModel extends BaseChatModel<ScriptedChatModelCallOptions> {
+  private readonly script: ChatScript;
+  private callCount = 0;
+
+  constructor(
+    private readonly scriptPath: string,
+    private readonly role: string,
+  ) {
+    super({});
+    this.script = loadScript(scriptPath);
+  }
+
+  _llmType(): string {
+    return "scripted";
+  }
+
+  override bindTools(tools: BindToolsInput[]) {
+    return this.withConfig({ tools } as Partial<ScriptedChatModelCallOptions>);
+  }
+
+  /**
+   * Take the next scripted response for this role that applies to the messages.
+   * @param messages - Prompt messages
+   * @returns The scripted response
+   */
+  private nextResponse(messages: BaseMessage[]): ScriptedResponse {
+    const responses = this.script[this.role] ?? [];
+    const latest = String(messages.at(-1)?.content ?? "");
+    const index = responses.findIndex(
+      (response) => !response.match || latest.includes(response.match),
+    );
+
+    if (index === -1) {
+      throw new Error(
+        `Chat script ${this.scriptPath} has no remaining response for role "${this.role}"`,
+      );
+    }
+    return responses.splice(index, 1)[0]!;
+  }
+
+  async _generate(
+    messages: BaseMessage[],
+    options: this["ParsedCallOptions"],
+  ): Promise<ChatResult> {
+    const response = this.nextResponse(messages);
+    const callId = () => `scripted-${this.role}-${++this.callCount}`;
+
+    let toolCalls = (response.tool_calls ?? []).map((toolCall) => ({
+      ...toolCall,
+      id: callId(),
+      type: "tool_call" as const,
+    }));
+    if (response.structured) {
+      // Structured output is requested through a single bound tool
+      const schemaTool = options.tools?.[0];
+      if (!schemaTool) {
+        throw new Error(
+          `Scripted response for role "${this.role}" is structured, but no output schema was bound`,
+        );
+      }
+      toolCalls = [
+        {
+          name: convertToOpenAITool(schemaTool).function.name,
+          args: response.structured,
+          id: callId(),
+          type: "tool_call",
+        },
+      ];
+    }
+
+    // Token counts are estimated at four characters per token so that usage
+    // accounting and budgets can be exercised offline
+    const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+    const inputTokens = estimateTokens(
+      messages.map((message) => String(message.content)).join("\n"),
+    );
+    const outputTokens = estimateTokens(
+      (response.content ?? "") + JSON.stringify(toolCalls.map((c) => c.args)),
+    );
+
+    const message = new AIMessage({
+      content: response.content ?? "",
+      tool_calls: toolCalls,
+      usage_metadata: {
+        input_tokens: inputTokens,
+        output_tokens: outputTokens,
+        total_tokens: inputTokens + outputTokens,
+      },
+      response_metadata: { model_name: "scripted" },
+    });
+    return { generations: [{ message, text: String(message.content) }] };
+  }
+}
@@ -14,28 +14,287 @@ import {
   conductResearch,
   ResearchComplete,
   thinkTool,
-  getNotesFromToolCalls,
-} from "./utils";
-import { SupervisorState } from "./shared/types";
-import { Command, END, StateGraph, START } from "@langchain/langgraph";
+  updateResearchPlan,
+  getNestedRunConfig,
+  getResearchLimits,
+  mapWithConcurrency,
+} from "./utils.js";
+import {
+  DegradedSummary,
+  PlanReviewDecision,
+  SupervisorState,
+} from "./shared/types.js";
+import {
+  Command,
+  END,
+  StateGraph,
+  START,
+  LangGraphRunnableConfig,
+  interrupt,
+} from "@langchain/langgraph";
 import {
   SystemMessage,
   ToolMessage,
   HumanMessage,
   AIMessage,
+  isAIMessage,
 } from "@langchain/core/messages";
-import { createLeadResearcherPrompt } from "./shared/prompts";
-import { getToday } from "./utils";
-import { createChatModel } from "./llm/factory";
-import { maxConcurrentResearchUnits, maxResearcherIterations } from "./config";
+import { ToolCall } from "@langchain/core/messages/tool";
+import { randomUUID } from "node:crypto";
+import { createLeadResearcherPrompt } from "./shared/prompts.js";
+import { getToday } from "./utils.js";
+import { createRoleModel, getRoleModelName } from "./llm/factory.js";
+import { checkpointer } from "./checkpoint/index.js";
+import { reviewResearchPlan as reviewResearchPlanDefault } from "./config.js";
+import {
+  applyPlanUpdates,
+  blockSubQuestions,
+  formatPlan,
+  prerequisiteFindings,
+  recordFindings,
+  ResearchPlan,
+  scheduleWaves,
+  SubQuestionUpdate,
+  validatePlan,
+} from "./research-plan/index.js";
+import { SourceRecord, SourceRegistry } from "./sources/index.js";
+import {
+  createFinding,
+  formatCoverage,
+  KnowledgeStore,
+  ResearchFinding,
+} from "./knowledge/index.js";
+import {
+  attributeUsage,
+  budgetExhausted,
+  getUsageBudget,
+  measureUsage,
+  shareRemainingBudget,
+  totalUsage,
+  UsageRecord,
+} from "./usage/index.js";
 
 // Set up tools and model binding
-const supervisorToolsArray = [conductResearch, ResearchComplete, thinkTool];
+const supervisorToolsArray = [
+  conductResearch,
+  updateResearchPlan,
+  ResearchComplete,
+  thinkTool,
+];
 // Ensure models are initialized before binding tools
-const supervisorModelWithTools = createChatModel({
-  family: "gpt41",
-  model: "gpt-4.1",
-}).bindTools(supervisorToolsArray);
+const supervisorModelWithTools =
+  createRoleModel("supervisor").bindTools(supervisorToolsArray);
+
+// ===== RESEARCHER EXECUTION =====
+
+// Combined results of researchers launched for ConductResearch tool calls.
+export type ResearchResults = {
+  // One ToolMessage per tool call, holding the researcher's compressed findings
+  toolMessages: ToolMessage[];
+  // Compressed findings of the researchers that produced any, for the report
+  notes: string[];
+  rawNotes: string[];
+  sources: SourceRecord[];
+  // Findings of each researcher, with the sources they cite
+  findings: ResearchFinding[];
+  usage: UsageRecord[];
+  degradedSummaries: DegradedSummary[];
+};
+
+/**
+ * Run a researcher for each ConductResearch tool call.
+ *
+ * Each researcher runs on its own thread derived from the caller's thread and
+ * the tool call ID, so when the calling node is re-executed after a crash,
+ * finished researchers are reused and interrupted ones resume from their
+ * last checkpoint. At most the concurrency limit run at a time.
+ * @param toolCalls - ConductResearch tool calls, with their IDs
+ * @param usage - Usage of the run so far; researchers share what is left of the budget
+ * @param config - Runtime config, whose options are forwarded to researchers
+ * @param store - Knowledge store of the run, shared by the researchers; each
+ *        researcher's sources and findings are added as it finishes
+ * @returns Findings, notes, sources and usage of all researchers
+ */
+export async function runResearchers(
+  toolCalls: ToolCall[],
+  usage: UsageRecord[],
+  config: LangGraphRunnableConfig,
+  store: KnowledgeStore = new KnowledgeStore(),
+): Promise<ResearchResults> {
+  // Import researcher agent here to avoid circular dependencies
+  const { researcherAgent } = await import("./research-agent.js");
+
+  const parentThreadId = config.configurable?.thread_id ?? randomUUID();
+  // Researchers running in parallel share what is left of the budget
+  const researcherBudget = shareRemainingBudget(
+    getUsageBudget(config),
+    totalUsage(usage),
+    toolCalls.length,
+  );
+  const runResearcher = async (toolCall: any) => {
+    const researcherConfig = getNestedRunConfig(config);
+    researcherConfig.configurable!.thread_id = `${parentThreadId}:research:${toolCall.id}`;
+    researcherConfig.configurable!.budget = researcherBudget;
+    researcherConfig.configurable!.knowledge_store = store;
+
+    const previous = await researcherAgent.getState(researcherConfig);
+    const result =
+      previous.next.length === 0 && previous.values.compressed_research
+        ? previous.values
+        : await researcherAgent.invoke(
+            previous.next.length > 0
+              ? null
+              : {
+                  researcher_messages: [
+                    new HumanMessage(toolCall.args.research_topic),
+                  ],
+                  research_topic: toolCall.args.research_topic,
+                  researcher_id: toolCall.id,
+                },
+            researcherConfig,
+          );
+
+    // Share what the researcher found with the researchers still running
+    store.addSources(result.sources);
+    const finding = createFinding(
+      toolCall.id,
+      toolCall.args.research_topic.split(PREREQUISITES_HEADING)[0],
+      result.compressed_research ?? "",
+      store.sources,
+      toolCall.args.sub_question_id,
+    );
+    store.addFinding(finding);
+
+    return { result, toolCall, finding };
+  };
+
+  // Run the researchers through a pool bounded by the concurrency limit
+  // and wait for all research to complete
+  const researchResults = await mapWithConcurrency(
+    toolCalls,
+    getResearchLimits(config).maxConcurrentResearchUnits,
+    runResearcher,
+  );
+
+  return {
+    // Each sub-agent returns compressed research findings in
+    // result.compressed_research, written as the content of a ToolMessage so
+    // the supervisor sees them in its conversation
+    toolMessages: researchResults.map(
+      ({ result, toolCall }: { result: any; toolCall: any }) =>
+        new ToolMessage(
+          result.compressed_research || "Error synthesizing research report",
+          toolCall.id,
+          toolCall.name,
+        ),
+    ),
+    // Only research that actually produced findings becomes report notes
+    notes: researchResults
+      .map(({ result }: { result: any }) => result.compressed_research ?? "")
+      .filter(Boolean),
+    // Raw notes of each researcher
+    rawNotes: researchResults.map(({ result }: { result: any }) =>
+      result.raw_notes ? result.raw_notes.join("\n") : "",
+    ),
+    // Sources each researcher retrieved, to merge into the registry
+    sources: researchResults.flatMap(({ result }: { result: any }) =>
+      Object.values((result.sources ?? {}) as SourceRegistry),
+    ),
+    findings: researchResults.map(({ finding }) => finding),
+    usage: researchResults.flatMap(
+      ({ result }: { result: any }) => (result.usage ?? []) as UsageRecord[],
+    ),
+    // Pages researchers could not summarize
+    degradedSummaries: researchResults.flatMap(
+      ({ result }: { result: any }) =>
+        (result.degraded_summaries ?? []) as DegradedSummary[],
+    ),
+  };
+}
+
+/**
+ * Order ConductResearch tool calls by the dependencies of their sub-questions.
+ *
+ * Calls without a sub-question run in the first wave. Calls for a
+ * sub-question run after the calls for its prerequisites, unless those are
+ * already done; calls whose prerequisites are neither done nor delegated in
+ * this turn are rejected, as are calls for unknown or dropped sub-questions.
+ * @param plan - Current research plan
+ * @param toolCalls - ConductResearch tool calls of this turn
+ * @returns Waves of tool calls, in order, and rejected calls with the reason
+ */
+function scheduleResearchCalls(
+  plan: ResearchPlan,
+  toolCalls: ToolCall[],
+): {
+  waves: ToolCall[][];
+  rejected: { toolCall: ToolCall; reason: string }[];
+  blocked: string[];
+} {
+  const rejected: { toolCall: ToolCall; reason: string }[] = [];
+  const unplanned: ToolCall[] = [];
+  const planned = new Map<string, ToolCall[]>();
+
+  for (const toolCall of toolCalls) {
+    const id = toolCall.args.sub_question_id;
+    const subQuestion = plan.sub_questions.find((item) => item.id === id);
+    if (!id) {
+      unplanned.push(toolCall);
+    } else if (!subQuestion) {
+      rejected.push({
+        toolCall,
+        reason: `unknown sub-question ${id}. Add it with UpdateResearchPlan first`,
+      });
+    } else if (subQuestion.status === "dropped") {
+      rejected.push({ toolCall, reason: `sub-question ${id} was dropped` });
+    } else {
+      planned.set(id, [...(planned.get(id) ?? []), toolCall]);
+    }
+  }
+
+  const { waves, blocked } = scheduleWaves(plan, [...planned.keys()]);
+  for (const { id, reason } of blocked) {
+    for (const toolCall of planned.get(id)!) {
+      rejected.push({ toolCall, reason: `sub-question ${id} ${reason}` });
+    }
+  }
+
+  const callWaves = waves.map((wave) => wave.flatMap((id) => planned.get(id)!));
+  if (unplanned.length > 0) {
+    callWaves[0] = [...unplanned, ...(callWaves[0] ?? [])];
+  }
+  return {
+    waves: callWaves,
+    rejected,
+    blocked: blocked.map(({ id }) => id),
+  };
+}
+
+// Separates a research topic from the prerequisite findings added to it
+const PREREQUISITES_HEADING =
+  "\n\nFindings of the research this task builds on:\n";
+
+/**
+ * Pass the findings of a sub-question's prerequisites to its researcher.
+ * @param plan - Research plan with the prerequisites' findings
+ * @param toolCall - ConductResearch tool call
+ * @returns Tool call whose research topic includes the prerequisite findings
+ */
+function withPrerequisiteFindings(
+  plan: ResearchPlan,
+  toolCall: ToolCall,
+): ToolCall {
+  const id = toolCall.args.sub_question_id;
+  const findings = id ? prerequisiteFindings(plan, id) : "";
+  if (!findings) return toolCall;
+  return {
+    ...toolCall,
+    args: {
+      ...toolCall.args,
+      research_topic: `${toolCall.args.research_topic}${PREREQUISITES_HEADING}${findings}`,
+    },
+  };
+}
 
 // ===== SUPERVISOR NODES =====
 
@@ -48,19 +307,27 @@ const supervisorModelWithTools = createChatModel({
  * - When research is complete
  *
  * @param state - Current supervisor state with messages and research progress
+ * @param config - Runtime config with the run's research limits
  * @returns Command to proceed to supervisor_tools node with updated state
  */
 async function supervisor(
   state: typeof SupervisorState.State,
+  config: LangGraphRunnableConfig,
 ): Promise<Command<"supervisor_tools">> {
   const supervisorMessages = state.supervisor_messages ?? [];
+  const limits = getResearchLimits(config);
 
   // Prepare system message with current date and constraints
   const systemMessage = new SystemMessage(
     createLeadResearcherPrompt(
       getToday(),
-      maxConcurrentResearchUnits,
-      maxResearcherIterations,
+      String(limits.maxConcurrentResearchUnits),
+      String(limits.maxResearcherIterations),
+      formatPlan(state.research_plan),
+      formatCoverage(
+        state.research_plan,
+        new KnowledgeStore(state.sources, state.findings),
+      ),
     ),
   );
   const messages = [systemMessage, ...supervisorMessages];
@@ -73,6 +340,10 @@ async function supervisor(
     update: {
       supervisor_messages: [response],
       research_iterations: state.research_iterations + 1,
+      usage: attributeUsage(
+        [measureUsage(response, getRoleModelName("supervisor"))],
+        "supervisor",
+      ),
     },
   });
 }
@@ -82,33 +353,56 @@ async function supervisor(
  *
  * Handles:
  * - Executing think_tool calls for strategic reflection
- * - Launching parallel research agents for different topics
+ * - Applying UpdateResearchPlan calls to the research plan
+ * - Launching research agents for different topics, at most the concurrency
+ *   limit at a time; delegations beyond the limit are answered with a message
+ * - Running research for dependent sub-questions after their prerequisites,
+ *   with the prerequisites' findings, and recording findings in the plan
  * - Aggregating research results
- * - Determining when research is complete
+ * - Determining when research is complete, or the usage budget or iteration
+ *   limit is exhausted
  * @param state - Current supervisor state with messages and iteration count
+ * @param config - Runtime config, whose options are forwarded to researchers
  * @returns Command to continue supervision, end process, or handle errors
  */
 async function supervisorTools(
   state: typeof SupervisorState.State,
-): Promise<Command<"supervisor" | typeof END>> {
+  config: LangGraphRunnableConfig,
+): Promise<Command<"review_research_plan" | typeof END>> {
   const supervisorMessages = state.supervisor_messages ?? [];
   const researchIterations = state.research_iterations ?? 0;
   const mostRecentMessage = supervisorMessages.at(-1);
 
   // Initialize variables for single return pattern
   const toolMessages: ToolMessage[] = [];
+  const allNotes: string[] = [];
   const allRawNotes: string[] = [];
-  let nextStep = "supervisor";
+  const allSources: SourceRecord[] = [];
+  const allFindings: ResearchFinding[] = [];
+  const allUsage: UsageRecord[] = [];
+  const allDegradedSummaries: DegradedSummary[] = [];
+  let plan = state.research_plan;
+  // Researchers of all waves share what the run has learned so far
+  const store = new KnowledgeStore(state.sources, state.findings);
+  let nextStep = "review_research_plan";
   let shouldEnd = false;
 
   // Check exit criteria first
-  const exceededIterations = researchIterations >= 6;
-  const noToolCalls = !(mostRecentMessage as AIMessage)?.tool_calls;
+  const budget = getUsageBudget(config);
+  const budgetReason = budgetExhausted(totalUsage(state.usage), budget);
+  const limits = getResearchLimits(config);
+  const exceededIterations =
+    researchIterations >= limits.maxResearcherIterations;
+  const noToolCalls = !(mostRecentMessage as AIMessage)?.tool_calls?.length;
   const researchComplete = (mostRecentMessage as AIMessage)?.tool_calls?.some(
     (toolCall: any) => toolCall.name === "ResearchComplete",
   );
 
-  if (exceededIterations || noToolCalls || researchComplete) {
+  if (budgetReason) {
+    console.error(`Stopping research: ${budgetReason}`);
+  }
+
+  if (exceededIterations || noToolCalls || researchComplete || budgetReason) {
     shouldEnd = true;
     nextStep = END;
   } else {
@@ -123,6 +417,9 @@ async function supervisorTools(
       const conductResearchCalls = toolCalls.filter(
         (toolCall: any) => toolCall.name === "ConductResearch",
       );
+      const planCalls = toolCalls.filter(
+        (toolCall: any) => toolCall.name === "UpdateResearchPlan",
+      );
 
       // Handle think_tool calls
       for (const toolCall of thinkToolCalls) {
@@ -138,54 +435,127 @@ async function supervisorTools(
         );
       }
 
-      // Handle ConductResearch calls
-      if (conductResearchCalls.length > 0) {
-        // Import researcher agent here to avoid circular dependencies
-        const { researcherAgent } = await import("./research-agent");
-
-        // Launch parallel research agents
-        const researchPromises = conductResearchCalls.map(
-          async (toolCall: any) => {
-            const result = await researcherAgent.invoke({
-              researcher_messages: [
-                new HumanMessage(toolCall.args.research_topic),
-              ],
-              research_topic: toolCall.args.research_topic,
-            });
-
-            return { result, toolCall };
-          },
+      // Apply plan updates first, so research delegated in the same turn
+      // can refer to new sub-questions
+      for (const toolCall of planCalls) {
+        const result = applyPlanUpdates(
+          plan,
+          (toolCall.args.sub_questions ?? []) as SubQuestionUpdate[],
         );
-
-        // Wait for all research to complete
-        const researchResults = await Promise.all(researchPromises);
-
-        // Format research results as tool messages
-        // Each sub-agent returns compressed research findings in result.compressed_research
-        // Write this compressed research as the content of a ToolMessage, which allows
-        // the supervisor to later retrieve these findings via getNotesFromToolCalls()
-        const researchToolMessages = researchResults.map(
-          ({ result, toolCall }: { result: any; toolCall: any }) => {
-            const compressedResearch =
-              result.compressed_research ||
-              "Error synthesizing research report";
-            return new ToolMessage(
-              compressedResearch,
-              toolCall.id,
-              toolCall.name,
-            );
-          },
+        plan = result.plan;
+        toolMessages.push(
+          new ToolMessage(
+            result.errors.length > 0
+              ? `Research plan not updated:\n- ${result.errors.join("\n- ")}\n\nCurrent plan:\n${formatPlan(plan)}`
+              : `Research plan updated:\n${formatPlan(plan)}`,
+            toolCall.id || "",
+            toolCall.name || "",
+          ),
         );
+      }
 
-        toolMessages.push(...researchToolMessages);
+      // Only as many researchers as the concurrency limit run per turn; the
+      // others are answered with an explanation so the supervisor can
+      // delegate them again later. Like every other bookkeeping message,
+      // the explanation is only shown to the supervisor and never becomes a
+      // report note
+      const overflowCalls = conductResearchCalls.splice(
+        limits.maxConcurrentResearchUnits,
+      );
+      for (const toolCall of overflowCalls) {
+        toolMessages.push(
+          new ToolMessage(
+            `Research task not started: at most ${limits.maxConcurrentResearchUnits} research units can run per turn. ` +
+              "Delegate it again in a later turn if it is still needed.",
+            toolCall.id || "",
+            toolCall.name || "",
+          ),
+        );
+      }
 
-        // Aggregate raw notes from all research
-        allRawNotes.push(
-          ...researchResults.map(({ result }: { result: any }) =>
-            result.raw_notes ? result.raw_notes.join("\n") : "",
+      // Handle ConductResearch calls, in waves that respect the
+      // dependencies between sub-questions
+      const { waves, rejected, blocked } = scheduleResearchCalls(
+        plan,
+        conductResearchCalls,
+      );
+      plan = blockSubQuestions(plan, blocked);
+      for (const { toolCall, reason } of rejected) {
+        toolMessages.push(
+          new ToolMessage(
+            `Research task not started: ${reason}.`,
+            toolCall.id || "",
+            toolCall.name || "",
           ),
         );
       }
+
+      for (const [i, wave] of waves.entries()) {
+        // Later waves are skipped once the budget is used up
+        const exhausted = budgetExhausted(
+          totalUsage([...state.usage, ...allUsage]),
+          budget,
+        );
+        if (exhausted) {
+          console.error(`Stopping research: ${exhausted}`);
+          for (const toolCall of waves.slice(i).flat()) {
+            toolMessages.push(
+              new ToolMessage(
+                `Research task not started: ${exhausted}.`,
+                toolCall.id || "",
+                toolCall.name || "",
+              ),
+            );
+          }
+          shouldEnd = true;
+          nextStep = END;
+          break;
+        }
+
+        const research = await runResearchers(
+          wave.map((toolCall) => withPrerequisiteFindings(plan, toolCall)),
+          [...state.usage, ...allUsage],
+          config,
+          store,
+        );
+        toolMessages.push(...research.toolMessages);
+        allNotes.push(...research.notes);
+        allRawNotes.push(...research.rawNotes);
+        allSources.push(...research.sources);
+        allFindings.push(...research.findings);
+        allUsage.push(...research.usage);
+        allDegradedSummaries.push(...research.degradedSummaries);
+
+        // Record findings in the plan so later waves can build on them
+        const answered = new Set(
+          wave.map((toolCall) => toolCall.args.sub_question_id).filter(Boolean),
+        );
+        for (const id of answered) {
+          const ids = wave
+            .filter((toolCall) => toolCall.args.sub_question_id === id)
+            .map((toolCall) => toolCall.id);
+          const findings = research.toolMessages
+            .filter((message) => ids.includes(message.tool_call_id))
+            .map((message) => String(message.content));
+          plan = recordFindings(
+            plan,
+            id,
+            ids.join(", "),
+            findings.join("\n\n"),
+          );
+        }
+      }
+
+      // Stop once the research just completed used up the budget
+      const exhausted =
+        !shouldEnd &&
+        waves.length > 0 &&
+        budgetExhausted(totalUsage([...state.usage, ...allUsage]), budget);
+      if (exhausted) {
+        console.error(`Stopping research: ${exhausted}`);
+        shouldEnd = true;
+        nextStep = END;
+      }
     } catch (error) {
       console.error("Error in supervisor tools:", error);
       shouldEnd = true;
@@ -194,35 +564,110 @@ async function supervisorTools(
   }
 
   // Single return point with appropriate state updates
+  const update = {
+    supervisor_messages: toolMessages,
+    notes: allNotes,
+    raw_notes: allRawNotes,
+    sources: allSources,
+    findings: allFindings,
+    usage: allUsage,
+    degraded_summaries: allDegradedSummaries,
+    research_plan: plan,
+  };
   if (shouldEnd) {
     return new Command({
       goto: nextStep,
       update: {
-        notes: getNotesFromToolCalls(supervisorMessages),
+        ...update,
         research_brief: state.research_brief || "",
       },
     });
   } else {
     return new Command({
       goto: nextStep,
-      update: {
-        supervisor_messages: toolMessages,
-        raw_notes: allRawNotes,
-      },
+      update,
     });
   }
 }
 
+/**
+ * Let a human review the research plan between supervisor iterations.
+ *
+ * When review is enabled (REVIEW_RESEARCH_PLAN or the `review_research_plan`
+ * configurable option) and the supervisor updated its plan in the last turn,
+ * the graph is interrupted with the plan. The run is resumed with a
+ * PlanReviewDecision: approve the plan as is, or replace it with an edited
+ * version, which the supervisor follows from its next turn. An invalid
+ * decision interrupts the graph again with the plan and the `errors` found.
+ * @param state - Current supervisor state with the research plan
+ * @param config - Runtime config with the per-run review option
+ * @returns The edited plan and a note to the supervisor, or no update
+ */
+async function reviewResearchPlan(
+  state: typeof SupervisorState.State,
+  config: LangGraphRunnableConfig,
+): Promise<{ research_plan?: ResearchPlan; supervisor_messages?: any[] }> {
+  const reviewEnabled =
+    config.configurable?.review_research_plan ?? reviewResearchPlanDefault;
+  const lastTurn = [...(state.supervisor_messages ?? [])]
+    .reverse()
+    .find((message) => isAIMessage(message)) as AIMessage | undefined;
+  const planUpdated = lastTurn?.tool_calls?.some(
+    (toolCall) => toolCall.name === "UpdateResearchPlan",
+  );
+  if (!reviewEnabled || !planUpdated) {
+    return {};
+  }
+
+  // Ask again, with the reasons, until the reviewer gives a valid decision
+  let errors: string[] = [];
+  while (true) {
+    const parsed = PlanReviewDecision.safeParse(
+      interrupt({
+        type: "research_plan_review",
+        research_plan: state.research_plan,
+        ...(errors.length > 0 ? { errors } : {}),
+      }),
+    );
+    if (!parsed.success) {
+      errors = parsed.error.issues.map(
+        (issue) => `${issue.path.join(".") || "decision"}: ${issue.message}`,
+      );
+      continue;
+    }
+    const decision = parsed.data;
+    if (decision.action === "approve") {
+      return {};
+    }
+
+    errors = validatePlan(decision.research_plan);
+    if (errors.length === 0) {
+      return {
+        research_plan: decision.research_plan,
+        supervisor_messages: [
+          new HumanMessage(
+            `A reviewer edited the research plan. Follow the updated plan:\n${formatPlan(decision.research_plan)}`,
+          ),
+        ],
+      };
+    }
+  }
+}
+
 // ===== GRAPH CONSTRUCTION =====
 
 // Build supervisor graph
-const supervisorBuilder = new StateGraph({
+export const supervisorBuilder = new StateGraph({
   stateSchema: SupervisorState,
 })
   .addNode("supervisor", supervisor, { ends: ["supervisor_tools"] })
-  .addNode("supervisor_tools", supervisorTools, { ends: ["supervisor", END] })
+  .addNode("supervisor_tools", supervisorTools, {
+    ends: ["review_research_plan", END],
+  })
+  .addNode("review_research_plan", reviewResearchPlan)
   .addEdge(START, "supervisor")
+  .addEdge("review_research_plan", "supervisor")
   .addEdge("supervisor_tools", END);
 
-export const supervisorAgent = supervisorBuilder.compile();
+export const supervisorAgent = supervisorBuilder.compile({ checkpointer });
 supervisorAgent.name = "Supervisor Agent";
@@ -0,0 +1,87 @@
+/**
+ * Rate Limiting and Retries.
+ *
+ * All LLM calls share one limiter, all web searches another and all page
+ * fetches a third, across every researcher and every run in the process. Calls are retried with
+ * exponential backoff when the provider reports a rate limit or server error.
+ */
+
+import { BaseChatModel } from "@langchain/core/language_models/chat_models";
+import { ChatResult } from "@langchain/core/outputs";
+import { rateLimits } from "../config.js";
+import { estimateTokens } from "../context/index.js";
+import { RateLimiter } from "./limiter.js";
+import { withRetry } from "./retry.js";
+
+export * from "./limiter.js";
+export * from "./retry.js";
+
+// Shared by every chat model created for a workflow role
+export const llmRateLimiter = new RateLimiter({
+  requestsPerMinute: rateLimits.llmRequestsPerMinute,
+  tokensPerMinute: rateLimits.llmTokensPerMinute,
+});
+
+// Shared by every web search provider
+export const searchRateLimiter = new RateLimiter({
+  requestsPerMinute: rateLimits.searchRequestsPerMinute,
+  tokensPerMinute: 0,
+});
+
+// Shared by the page fetch and site crawl tools
+export const fetchRateLimiter = new RateLimiter({
+  requestsPerMinute: rateLimits.fetchRequestsPerMinute,
+  tokensPerMinute: 0,
+});
+
+/**
+ * Run a call through a rate limiter, retrying rate limits and server errors.
+ * Every attempt counts as a request against the limiter.
+ * @param limiter - Rate limiter to wait for
+ * @param label - Name of the call in log messages
+ * @param fn - The call; it can report the tokens it actually used
+ * @param tokens - Estimated tokens of the call
+ * @returns The call's result
+ */
+export function callWithLimits<T>(
+  limiter: RateLimiter,
+  label: string,
+  fn: (reportTokens: (tokens: number) => void) => Promise<T>,
+  tokens: number = 0,
+): Promise<T> {
+  return withRetry(() => limiter.schedule(fn, tokens), {
+    maxRetries: rateLimits.maxRetries,
+    baseDelayMs: rateLimits.retryBaseDelayMs,
+    label,
+  });
+}
+
+/**
+ * Route every generation of a chat model through the shared LLM rate limiter
+ * and retry policy.
+ *
+ * The model's own generate method is wrapped, so tool binding and structured
+ * output keep their provider-specific behaviour.
+ * @param model - Chat model, created without its own retries
+ * @param label - Name of the model in log messages
+ * @returns The same model
+ */
+export function withRateLimits<M extends BaseChatModel>(
+  model: M,
+  label: string,
+): M {
+  const generate = model._generate.bind(model);
+  model._generate = (messages, options, runManager) =>
+    callWithLimits(
+      llmRateLimiter,
+      label,
+      async (reportTokens): Promise<ChatResult> => {
+        const result = await generate(messages, options, runManager);
+        const usage = (result.generations[0]?.message as any)?.usage_metadata;
+        if (usage?.total_tokens) reportTokens(usage.total_tokens);
+        return result;
+      },
+      estimateTokens(messages),
+    );
+  return model;
+}
@@ -0,0 +1,107 @@
+/**
+ * Sliding-window Rate Limiter.
+ *
+ * Limits the requests and tokens started in any one-minute window. Callers
+ * wait in order until the window has room for them, so one busy researcher
+ * cannot starve the others.
+ */
+
+// Limits per minute; 0 means unlimited.
+export type RateLimits = {
+  requestsPerMinute: number;
+  tokensPerMinute: number;
+};
+
+// A request in the current window, with its estimated (later actual) tokens
+type WindowEntry = {
+  time: number;
+  tokens: number;
+};
+
+const WINDOW_MS = 60_000;
+
+/**
+ * Wait for a number of milliseconds.
+ * @param ms - Delay in milliseconds
+ */
+export function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+export class RateLimiter {
+  private readonly window: WindowEntry[] = [];
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(private readonly limits: RateLimits) {}
+
+  /**
+   * Run a call once the limits allow it.
+   * @param fn - The call; it can report the tokens it actually used
+   * @param tokens - Estimated tokens of the call
+   * @returns The call's result
+   */
+  async schedule<T>(
+    fn: (reportTokens: (tokens: number) => void) => Promise<T>,
+    tokens: number = 0,
+  ): Promise<T> {
+    if (!this.limits.requestsPerMinute && !this.limits.tokensPerMinute) {
+      return fn(() => {});
+    }
+
+    const turn = this.queue.then(() => this.reserve(tokens));
+    this.queue = turn.catch(() => {});
+    const entry = await turn;
+    return fn((actual) => {
+      entry.tokens = actual;
+    });
+  }
+
+  /**
+   * Wait until the window has room for a request, then add it.
+   * @param tokens - Estimated tokens of the request
+   * @returns The request's window entry
+   */
+  private async reserve(tokens: number): Promise<WindowEntry> {
+    while (true) {
+      const now = Date.now();
+      while (this.window.length && this.window[0]!.time <= now - WINDOW_MS) {
+        this.window.shift();
+      }
+
+      const delay = this.delayFor(tokens, now);
+      if (delay <= 0) {
+        const entry = { time: now, tokens };
+        this.window.push(entry);
+        return entry;
+      }
+      await sleep(delay);
+    }
+  }
+
+  /**
+   * Compute how long a request has to wait for the window to have room.
+   * @param tokens - Estimated tokens of the request
+   * @param now - Current time
+   * @returns Delay in milliseconds, 0 when the request can start now
+   */
+  private delayFor(tokens: number, now: number): number {
+    const { requestsPerMinute, tokensPerMinute } = this.limits;
+    const expiresIn = (entry: WindowEntry) => entry.time + WINDOW_MS - now;
+
+    if (requestsPerMinute > 0 && this.window.length >= requestsPerMinute) {
+      return expiresIn(this.window[this.window.length - requestsPerMinute]!);
+    }
+
+    if (tokensPerMinute > 0) {
+      let used = this.window.reduce((sum, entry) => sum + entry.tokens, 0);
+      // A request larger than the whole limit runs alone in an empty window
+      const needed = Math.min(tokens, tokensPerMinute);
+      for (const entry of this.window) {
+        if (used + needed <= tokensPerMinute) break;
+        used -= entry.tokens;
+        if (used + needed <= tokensPerMinute) return expiresIn(entry);
+      }
+    }
+    return 0;
+  }
+}
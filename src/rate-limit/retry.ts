@@ -0,0 +1,108 @@
+/**
+ * Retry with Exponential Backoff.
+ *
+ * Retries calls that failed with a rate limit (429), a server error (5xx) or
+ * a network error. Each retry is logged, so a rate-limit storm is visible
+ * instead of silently degrading the research.
+ */
+
+import { sleep } from "./limiter.js";
+
+export type RetryOptions = {
+  // Retries after the first attempt
+  maxRetries: number;
+  // Delay before the first retry; doubled on every retry
+  baseDelayMs: number;
+  // Longest delay before a retry, including delays asked for by the server
+  maxDelayMs?: number;
+  // Name of the call in log messages
+  label: string;
+};
+
+const NETWORK_ERROR_CODES = [
+  "ECONNRESET",
+  "ECONNREFUSED",
+  "ETIMEDOUT",
+  "EAI_AGAIN",
+  "EPIPE",
+  "UND_ERR_SOCKET",
+  "UND_ERR_CONNECT_TIMEOUT",
+];
+
+/**
+ * Get the HTTP status of a failed call.
+ * @param error - Error thrown by an SDK or by fetch-based code
+ * @returns The status code, when the error carries one
+ */
+export function getErrorStatus(error: any): number | undefined {
+  const status =
+    error?.status ?? error?.statusCode ?? error?.response?.status ?? undefined;
+  if (typeof status === "number") return status;
+
+  // Providers built on fetch report the status in their message
+  const match = /status(?: code)? (\d{3})\b/i.exec(String(error?.message));
+  return match ? Number(match[1]) : undefined;
+}
+
+/**
+ * Check whether a failed call is worth retrying.
+ * @param error - Error thrown by the call
+ * @returns True for rate limits, server errors and network errors
+ */
+export function isRetryableError(error: any): boolean {
+  const status = getErrorStatus(error);
+  if (status !== undefined) return status === 429 || status >= 500;
+
+  const code = error?.code ?? error?.cause?.code;
+  if (NETWORK_ERROR_CODES.includes(code)) return true;
+  return error instanceof TypeError && error.message === "fetch failed";
+}
+
+/**
+ * Read the delay a server asked for in a Retry-After header.
+ * @param error - Error thrown by the call
+ * @returns Delay in milliseconds, if the header is present
+ */
+function getRetryAfterMs(error: any): number | undefined {
+  const headers = error?.headers ?? error?.response?.headers;
+  const value =
+    typeof headers?.get === "function"
+      ? headers.get("retry-after")
+      : headers?.["retry-after"];
+  const seconds = Number(value);
+  return value && Number.isFinite(seconds) ? seconds * 1000 : undefined;
+}
+
+/**
+ * Run a call, retrying retryable failures with exponential backoff and jitter.
+ * @param fn - The call
+ * @param options - Retry settings
+ * @returns The call's result
+ */
+export async function withRetry<T>(
+  fn: () => Promise<T>,
+  options: RetryOptions,
+): Promise<T> {
+  const { maxRetries, baseDelayMs, maxDelayMs = 60_000, label } = options;
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn();
+    } catch (error) {
+      if (attempt >= maxRetries || !isRetryableError(error)) throw error;
+
+      const backoff = Math.min(baseDelayMs * 2 ** attempt, maxDelayMs);
+      // Retry-After is honoured up to the maximum delay
+      const delay = Math.min(
+        getRetryAfterMs(error) ?? backoff * (0.5 + Math.random() / 2),
+        maxDelayMs,
+      );
+      const status = getErrorStatus(error);
+      console.error(
+        `${label} failed${status ? ` with status ${status}` : ""}: ${String((error as any)?.message ?? error)}. ` +
+          `Retrying in ${(delay / 1000).toFixed(1)}s (retry ${attempt + 1} of ${maxRetries})`,
+      );
+      await sleep(delay);
+    }
+  }
+}
@@ -0,0 +1,327 @@
+/**
+ * Claim-Level Verification of the Final Report.
+ *
+ * After the final report is written, its factual claims are extracted and
+ * each one is checked against the evidence collected during research: the
+ * excerpts of the sources the report cites for it and the most relevant
+ * passages of the raw research notes. Claims are labelled supported,
+ * unsupported or contradicted. Depending on the verification mode, the
+ * report is then rewritten to remove or qualify the failed claims, or a
+ * verification appendix listing them is added.
+ */
+
+import { HumanMessage } from "@langchain/core/messages";
+import { LangGraphRunnableConfig } from "@langchain/langgraph";
+import { createRoleModel, getRoleModelName } from "./llm/factory.js";
+import {
+  AgentState,
+  ClaimVerdicts,
+  ReportClaims,
+  ReportVerification,
+  VerifiedClaim,
+} from "./shared/types.js";
+import {
+  createClaimExtractionPrompt,
+  createClaimVerificationPrompt,
+  createReportRevisionPrompt,
+} from "./shared/prompts.js";
+import { verificationSettings } from "./config.js";
+import { Bm25Index, createBm25Index } from "./corpus/bm25.js";
+import {
+  revalidateCitations,
+  SourceRecord,
+  SOURCES_SECTION,
+  validateCitations,
+} from "./sources/index.js";
+import {
+  attributeUsage,
+  measureUsage,
+  TokenUsage,
+  UsageRecord,
+} from "./usage/index.js";
+import { getToday, mapWithConcurrency } from "./utils.js";
+
+export const verificationModes = ["appendix", "revise", "off"] as const;
+
+export type VerificationMode = (typeof verificationModes)[number];
+
+// Claims checked per verification call
+const CLAIMS_PER_BATCH = 5;
+// Verification calls made at the same time
+const BATCH_CONCURRENCY = 3;
+// Research note passages shown as evidence for each claim
+const PASSAGES_PER_CLAIM = 3;
+const MAX_PASSAGE_LENGTH = 1200;
+// Verification appendix added to a report, up to the next section
+const APPENDIX_SECTION =
+  /\n## Claim Verification\n[\s\S]*?(?=\n#{1,2} [^#]|\n#{1,6} Sources\n|$)/;
+
+const verifyLLM = createRoleModel("verify", { temperature: 0.0 });
+// Raw responses are kept for their token usage
+const structuredClaimsLLM = verifyLLM.withStructuredOutput(ReportClaims, {
+  includeRaw: true,
+});
+const structuredVerdictsLLM = verifyLLM.withStructuredOutput(ClaimVerdicts, {
+  includeRaw: true,
+});
+const reviseLLM = createRoleModel("final_report");
+
+// A claim with the evidence it is checked against.
+type ClaimEvidence = {
+  claim: string;
+  sources: SourceRecord[];
+  passages: string[];
+};
+
+/**
+ * Get the verification mode of a run.
+ * @param config - Runnable config; its `verification_mode` option overrides
+ *   VERIFICATION_MODE
+ * @returns The verification mode
+ */
+export function getVerificationMode(
+  config?: LangGraphRunnableConfig,
+): VerificationMode {
+  const mode =
+    config?.configurable?.verification_mode ?? verificationSettings.mode;
+  if (!verificationModes.includes(mode)) {
+    throw new Error(
+      `Unknown verification mode: ${mode}. Expected one of ${verificationModes.join(", ")}`,
+    );
+  }
+  return mode;
+}
+
+/**
+ * Index the passages of research notes so they can be ranked as evidence.
+ * @param rawNotes - Raw notes collected by the researchers
+ * @returns BM25 index over passages of at most MAX_PASSAGE_LENGTH characters
+ */
+export function createPassageIndex(rawNotes: string[]): Bm25Index<string> {
+  const passages = rawNotes
+    .flatMap((note) => note.split(/\n\s*\n/))
+    .map((passage) => passage.trim())
+    .filter((passage) => passage.length > 0)
+    .flatMap((passage) => {
+      const pieces: string[] = [];
+      for (let i = 0; i < passage.length; i += MAX_PASSAGE_LENGTH) {
+        pieces.push(passage.slice(i, i + MAX_PASSAGE_LENGTH));
+      }
+      return pieces;
+    });
+  return createBm25Index(passages, (passage) => passage);
+}
+
+/**
+ * Remove the verification appendix from a report, e.g. before it is changed
+ * and verified again.
+ * @param report - Report markdown
+ * @returns Report without its Claim Verification section
+ */
+export function stripVerificationAppendix(report: string): string {
+  return report.replace(APPENDIX_SECTION, "");
+}
+
+/**
+ * Gather the evidence for each claim.
+ * @param claims - Extracted claims with the citation numbers the report gives
+ * @param cited - Sources cited in the report; the source numbered n is at index n - 1
+ * @param rawNotes - Raw research notes
+ * @returns Claims with their cited sources and most relevant note passages
+ */
+function gatherEvidence(
+  claims: { claim: string; citations: number[] }[],
+  cited: SourceRecord[],
+  rawNotes: string[],
+): ClaimEvidence[] {
+  const index = createPassageIndex(rawNotes);
+  return claims.map(({ claim, citations }) => ({
+    claim,
+    sources: [...new Set(citations)]
+      .map((number) => cited[number - 1])
+      .filter((source): source is SourceRecord => source !== undefined),
+    passages: index.search(claim, PASSAGES_PER_CLAIM).map((hit) => hit.item),
+  }));
+}
+
+/**
+ * Format a batch of claims and their evidence for the verification prompt.
+ * @param batch - Claims with evidence
+ * @returns Numbered claims, each followed by its evidence
+ */
+function formatClaims(batch: ClaimEvidence[]): string {
+  return batch
+    .map(({ claim, sources, passages }, i) => {
+      const excerpts = sources.flatMap((source) =>
+        source.excerpts.map(
+          (excerpt) => `- [${source.id}] ${source.title}: ${excerpt}`,
+        ),
+      );
+      const notes = passages.map((passage) => `- ${passage}`);
+      return [
+        `Claim ${i + 1}: ${claim}`,
+        "Cited source excerpts:",
+        ...(excerpts.length ? excerpts : ["(none)"]),
+        "Research note passages:",
+        ...(notes.length ? notes : ["(none)"]),
+      ].join("\n");
+    })
+    .join("\n\n");
+}
+
+/**
+ * Verify a batch of claims in one model call.
+ * @param batch - Claims with evidence
+ * @param usage - Collects the call's usage
+ * @returns One verified claim per claim in the batch
+ */
+async function verifyBatch(
+  batch: ClaimEvidence[],
+  usage: TokenUsage[],
+): Promise<VerifiedClaim[]> {
+  const { raw, parsed } = await structuredVerdictsLLM.invoke([
+    new HumanMessage(
+      createClaimVerificationPrompt(formatClaims(batch), getToday()),
+    ),
+  ]);
+  usage.push(measureUsage(raw, getRoleModelName("verify")));
+
+  return batch.map(({ claim, sources }, i) => {
+    const verdict = parsed.verdicts.find(
+      (item: { claim_number: number }) => item.claim_number === i + 1,
+    );
+    return {
+      claim,
+      status: verdict?.status ?? "unsupported",
+      explanation:
+        verdict?.explanation ?? "No verdict was given for this claim.",
+      sources: sources.map((source) => source.id),
+    };
+  });
+}
+
+/**
+ * Format the claims that failed verification as a Markdown list.
+ * @param claims - Failed claims
+ * @returns One list item per claim
+ */
+function formatFailedClaims(claims: VerifiedClaim[]): string {
+  return claims
+    .map(
+      ({ claim, status, explanation }) =>
+        `- **${status === "contradicted" ? "Contradicted" : "Unsupported"}:** ${claim} — ${explanation}`,
+    )
+    .join("\n");
+}
+
+/**
+ * Build the verification appendix of a report.
+ * @param claims - Verified claims
+ * @returns Appendix section in Markdown
+ */
+function createAppendix(claims: VerifiedClaim[]): string {
+  const failed = claims.filter((item) => item.status !== "supported");
+  const summary = `${claims.length - failed.length} of ${claims.length} checked claims are supported by the research notes and sources.`;
+  return [
+    "## Claim Verification",
+    "",
+    failed.length
+      ? `${summary} The following claims could not be confirmed:`
+      : summary,
+    ...(failed.length ? ["", formatFailedClaims(failed)] : []),
+  ].join("\n");
+}
+
+/**
+ * Report verification node.
+ *
+ * Extracts the report's factual claims, checks them against the raw notes
+ * and cited source excerpts, and revises the report or appends the
+ * verification results. Also delivers the final report to the user.
+ * @param state - The current state of the workflow
+ * @param config - Runtime config with the per-run verification mode
+ * @returns The verified report, the verification results and usage
+ */
+export async function verifyReport(
+  state: typeof AgentState.State,
+  config: LangGraphRunnableConfig,
+): Promise<{
+  final_report: string;
+  messages: string[];
+  verification?: ReportVerification;
+  usage?: UsageRecord[];
+}> {
+  const mode = getVerificationMode(config);
+  // A report revised after a follow-up is verified again from scratch
+  const report = stripVerificationAppendix(state.final_report ?? "");
+  if (mode === "off" || !report) {
+    return {
+      final_report: report,
+      messages: ["Here is the final report: " + report],
+    };
+  }
+
+  const registry = state.sources ?? {};
+  const usage: TokenUsage[] = [];
+
+  const extracted = await structuredClaimsLLM.invoke([
+    new HumanMessage(
+      createClaimExtractionPrompt(report, verificationSettings.maxClaims),
+    ),
+  ]);
+  usage.push(measureUsage(extracted.raw, getRoleModelName("verify")));
+
+  const evidence = gatherEvidence(
+    extracted.parsed.claims.slice(0, verificationSettings.maxClaims),
+    validateCitations(report, registry).cited,
+    state.raw_notes ?? [],
+  );
+  const batches: ClaimEvidence[][] = [];
+  for (let i = 0; i < evidence.length; i += CLAIMS_PER_BATCH) {
+    batches.push(evidence.slice(i, i + CLAIMS_PER_BATCH));
+  }
+  const claims = (
+    await mapWithConcurrency(batches, BATCH_CONCURRENCY, (batch) =>
+      verifyBatch(batch, usage),
+    )
+  ).flat();
+  const failed = claims.filter((item) => item.status !== "supported");
+
+  let finalReport = report;
+  let revised = false;
+  if (mode === "revise" && failed.length > 0) {
+    const revision = await reviseLLM.invoke([
+      new HumanMessage(
+        createReportRevisionPrompt(report, formatFailedClaims(failed)),
+      ),
+    ]);
+    usage.push(measureUsage(revision, getRoleModelName("final_report")));
+    const text = String(revision.content).trim();
+    if (text) {
+      finalReport = revalidateCitations(text, report, registry);
+      revised = true;
+    }
+  } else if (mode === "appendix" && claims.length > 0) {
+    finalReport = revalidateCitations(
+      `${report.replace(SOURCES_SECTION, "").trim()}\n\n${createAppendix(claims)}`,
+      report,
+      registry,
+    );
+  }
+
+  const count = (status: VerifiedClaim["status"]) =>
+    claims.filter((item) => item.status === status).length;
+  return {
+    final_report: finalReport,
+    messages: ["Here is the final report: " + finalReport],
+    verification: {
+      mode,
+      claims,
+      supported: count("supported"),
+      unsupported: count("unsupported"),
+      contradicted: count("contradicted"),
+      revised,
+    },
+    usage: attributeUsage(usage, "verify_report"),
+  };
+}
@@ -0,0 +1,361 @@
+/**
+ * Final Report Writing.
+ *
+ * Small runs are written in a single call from all research notes. Larger
+ * runs, whose notes would crowd a single prompt, are written in three
+ * stages: an outline that assigns the notes to the report's sections, the
+ * sections written in parallel from only their own notes, and an
+ * introduction and conclusion framing them. Every stage cites sources by
+ * their IDs, so citations are numbered once for the whole report when it is
+ * validated.
+ */
+
+import { HumanMessage } from "@langchain/core/messages";
+import { LangGraphRunnableConfig } from "@langchain/langgraph";
+import { createRoleModel, getRoleModelName } from "./llm/factory.js";
+import { AgentState, ReportFraming, ReportOutline } from "./shared/types.js";
+import {
+  createFinalReportGenerationPrompt,
+  createReportFramingPrompt,
+  createReportOutlinePrompt,
+  createReportSectionPrompt,
+} from "./shared/prompts.js";
+import { reportWriterSettings } from "./config.js";
+import { estimateTextTokens, groupTexts, packTexts } from "./context/index.js";
+import { createBm25Index } from "./corpus/bm25.js";
+import { SOURCES_SECTION } from "./sources/index.js";
+import { measureUsage, TokenUsage } from "./usage/index.js";
+import { getToday, mapWithConcurrency } from "./utils.js";
+import { z } from "zod/v3";
+
+export const reportWriterModes = ["auto", "single", "sectioned"] as const;
+
+export type ReportWriterMode = (typeof reportWriterModes)[number];
+
+// Largest passage research notes are split into for the outline
+const PASSAGE_TOKENS = 800;
+// Characters of each passage shown in the outline prompt
+const OUTLINE_PREVIEW_LENGTH = 400;
+// Notes given to one section writer; sections with more are written in parts
+const MAX_SECTION_NOTE_TOKENS = 30000;
+// Characters of each section shown when writing the introduction and conclusion
+const FRAMING_PREVIEW_LENGTH = 1500;
+
+const llm = createRoleModel("final_report");
+// Raw responses are kept for their token usage
+const structuredOutlineLLM = llm.withStructuredOutput(ReportOutline, {
+  includeRaw: true,
+});
+const structuredFramingLLM = llm.withStructuredOutput(ReportFraming, {
+  includeRaw: true,
+});
+
+type OutlineSection = z.infer<typeof ReportOutline>["sections"][number];
+
+/**
+ * Get the report writer mode of a run.
+ * @param config - Runnable config; its `report_writer` option overrides
+ *   REPORT_WRITER
+ * @returns The report writer mode
+ */
+export function getReportWriterMode(
+  config?: LangGraphRunnableConfig,
+): ReportWriterMode {
+  const mode = config?.configurable?.report_writer ?? reportWriterSettings.mode;
+  if (!reportWriterModes.includes(mode)) {
+    throw new Error(
+      `Unknown report writer mode: ${mode}. Expected one of ${reportWriterModes.join(", ")}`,
+    );
+  }
+  return mode;
+}
+
+/**
+ * Write the report in a single call from all research notes.
+ * @param researchBrief - Research brief the report answers
+ * @param notes - Compressed research notes
+ * @param usage - Collects the token usage of the call
+ * @returns Report citing source IDs
+ */
+async function writeSingleShot(
+  researchBrief: string,
+  notes: string[],
+  usage: TokenUsage[],
+): Promise<string> {
+  const response = await llm.invoke([
+    new HumanMessage(
+      createFinalReportGenerationPrompt(
+        researchBrief,
+        notes.join("\n"),
+        getToday(),
+      ),
+    ),
+  ]);
+  usage.push(measureUsage(response, getRoleModelName("final_report")));
+  return String(response.content);
+}
+
+/**
+ * Split research notes into passages of paragraphs.
+ * @param notes - Compressed research notes
+ * @returns Passages of at most PASSAGE_TOKENS, in note order
+ */
+function splitNotes(notes: string[]): string[] {
+  return notes.flatMap((note) =>
+    packTexts(
+      note
+        .split(/\n\s*\n/)
+        .map((paragraph) => paragraph.trim())
+        .filter(Boolean),
+      PASSAGE_TOKENS,
+    ),
+  );
+}
+
+/**
+ * Collect the passages of each outline section.
+ *
+ * Passages the outline left unassigned go to the section they match best,
+ * so no finding is left out of the report. Sections left without passages
+ * are dropped.
+ * @param sections - Sections of the outline
+ * @param passages - Passages of the research notes
+ * @returns Sections with their passages, in outline order
+ */
+function assignPassages(
+  sections: OutlineSection[],
+  passages: string[],
+): { section: OutlineSection; passages: string[] }[] {
+  const assigned = sections.map(
+    (section) =>
+      new Set(
+        section.notes
+          .map((number) => number - 1)
+          .filter((i) => i >= 0 && i < passages.length),
+      ),
+  );
+  const index = createBm25Index(
+    sections.map((section, i) => ({ section, i })),
+    ({ section }) => `${section.heading}\n${section.description}`,
+  );
+  passages.forEach((passage, p) => {
+    if (assigned.some((set) => set.has(p))) return;
+    const best = index.search(passage, 1)[0]?.item.i ?? 0;
+    assigned[best]?.add(p);
+  });
+
+  return sections
+    .map((section, i) => ({
+      section,
+      passages: [...assigned[i]!]
+        .sort((a, b) => a - b)
+        .map((p) => passages[p]!),
+    }))
+    .filter(({ passages }) => passages.length > 0);
+}
+
+/**
+ * Write one section from its notes.
+ *
+ * A section whose notes exceed MAX_SECTION_NOTE_TOKENS is written in parts,
+ * each from a consecutive share of the notes, which are joined in order.
+ * @param researchBrief - Research brief the report answers
+ * @param outlineText - Numbered outline of all sections
+ * @param section - Section to write
+ * @param passages - Passages assigned to the section
+ * @param date - Date for the prompt
+ * @param usage - Collects the token usage of every call
+ * @returns Section body citing source IDs
+ */
+async function writeSection(
+  researchBrief: string,
+  outlineText: string,
+  section: OutlineSection,
+  passages: string[],
+  date: string,
+  usage: TokenUsage[],
+): Promise<string> {
+  const parts = groupTexts(passages, MAX_SECTION_NOTE_TOKENS);
+  if (parts.length > 1) {
+    console.error(
+      `Notes of section "${section.heading}" exceed ${MAX_SECTION_NOTE_TOKENS} tokens; writing it in ${parts.length} parts`,
+    );
+  }
+
+  const bodies: string[] = [];
+  for (const [i, part] of parts.entries()) {
+    const label =
+      parts.length > 1
+        ? `${section.heading}: ${section.description} (part ${i + 1} of ${parts.length}; continue from the previous part without repeating it)`
+        : `${section.heading}: ${section.description}`;
+    const response = await llm.invoke([
+      new HumanMessage(
+        createReportSectionPrompt(
+          researchBrief,
+          outlineText,
+          label,
+          part.join("\n\n"),
+          date,
+        ),
+      ),
+    ]);
+    usage.push(measureUsage(response, getRoleModelName("final_report")));
+    bodies.push(cleanSection(String(response.content), section.heading));
+  }
+  return bodies.join("\n\n");
+}
+
+/**
+ * Clean up a section written on its own.
+ * @param body - Section as written by the model
+ * @param heading - Heading of the section
+ * @returns Section body without a repeated heading or a Sources list
+ */
+function cleanSection(body: string, heading: string): string {
+  const lines = body.trim().split("\n");
+  const first = lines[0]
+    ?.replace(/^#{1,6}\s*/, "")
+    .replace(/\*/g, "")
+    .trim();
+  if (/^#{1,6}\s/.test(lines[0] ?? "") && first === heading.trim()) {
+    lines.shift();
+  }
+  return `\n${lines.join("\n")}`.replace(SOURCES_SECTION, "").trim();
+}
+
+/**
+ * Write the report by sections: outline, sections in parallel, framing.
+ * @param researchBrief - Research brief the report answers
+ * @param notes - Compressed research notes
+ * @param usage - Collects the token usage of every call
+ * @returns Report citing source IDs
+ */
+async function writeSectioned(
+  researchBrief: string,
+  notes: string[],
+  usage: TokenUsage[],
+): Promise<string> {
+  const date = getToday();
+  const passages = splitNotes(notes);
+
+  // Stage 1: outline the report and assign the notes to its sections
+  const previews = passages
+    .map((passage, i) => {
+      const preview =
+        passage.length > OUTLINE_PREVIEW_LENGTH
+          ? `${passage.slice(0, OUTLINE_PREVIEW_LENGTH)}...`
+          : passage;
+      return `NOTE ${i + 1}:\n${preview}`;
+    })
+    .join("\n\n");
+  const outline = await structuredOutlineLLM.invoke([
+    new HumanMessage(createReportOutlinePrompt(researchBrief, previews, date)),
+  ]);
+  usage.push(measureUsage(outline.raw, getRoleModelName("final_report")));
+  const sections = assignPassages(outline.parsed.sections, passages);
+  if (sections.length === 0) {
+    throw new Error("the outline has no sections");
+  }
+
+  // Stage 2: write the sections in parallel from their own notes
+  const outlineText = sections
+    .map(
+      ({ section }, i) =>
+        `${i + 1}. ${section.heading}: ${section.description}`,
+    )
+    .join("\n");
+  const bodies = await mapWithConcurrency(
+    sections,
+    reportWriterSettings.sectionConcurrency,
+    ({ section, passages: sectionPassages }) =>
+      writeSection(
+        researchBrief,
+        outlineText,
+        section,
+        sectionPassages,
+        date,
+        usage,
+      ),
+  );
+
+  // Stage 3: frame the sections with an introduction and conclusion
+  const sectionPreviews = sections
+    .map(({ section }, i) => {
+      const body = bodies[i]!;
+      const preview =
+        body.length > FRAMING_PREVIEW_LENGTH
+          ? `${body.slice(0, FRAMING_PREVIEW_LENGTH)}...`
+          : body;
+      return `## ${section.heading}\n${preview}`;
+    })
+    .join("\n\n");
+  const framing = await structuredFramingLLM.invoke([
+    new HumanMessage(
+      createReportFramingPrompt(
+        researchBrief,
+        outline.parsed.title,
+        sectionPreviews,
+        date,
+      ),
+    ),
+  ]);
+  usage.push(measureUsage(framing.raw, getRoleModelName("final_report")));
+
+  const { introduction, conclusion_heading, conclusion } = framing.parsed;
+  return [
+    `# ${outline.parsed.title}`,
+    introduction.trim(),
+    ...sections.map(
+      ({ section }, i) => `## ${section.heading}\n\n${bodies[i]}`,
+    ),
+    conclusion.trim()
+      ? `## ${conclusion_heading || "Conclusion"}\n\n${conclusion.trim()}`
+      : "",
+  ]
+    .filter(Boolean)
+    .join("\n\n");
+}
+
+/**
+ * Write the final report from the research notes.
+ *
+ * In auto mode, the report is written by sections once the notes exceed
+ * REPORT_SECTIONED_MIN_TOKENS, and in one call otherwise. When writing by
+ * sections fails, the report is written in one call instead.
+ * @param state - The current state of the workflow
+ * @param config - Runnable config with the per-run report writer mode
+ * @returns Report citing source IDs, and the token usage of writing it
+ */
+export async function writeReport(
+  state: typeof AgentState.State,
+  config?: LangGraphRunnableConfig,
+): Promise<{ report: string; usage: TokenUsage[] }> {
+  const notes = state.notes ?? [];
+  const researchBrief = state.research_brief ?? "";
+  const mode = getReportWriterMode(config);
+  const usage: TokenUsage[] = [];
+
+  const sectioned =
+    mode === "sectioned" ||
+    (mode === "auto" &&
+      estimateTextTokens(notes.join("\n")) >
+        reportWriterSettings.sectionedMinTokens);
+  if (sectioned && notes.length > 0) {
+    try {
+      return {
+        report: await writeSectioned(researchBrief, notes, usage),
+        usage,
+      };
+    } catch (error) {
+      console.error(
+        "Error writing the report by sections, writing it in one pass instead:",
+        error,
+      );
+    }
+  }
+
+  return {
+    report: await writeSingleShot(researchBrief, notes, usage),
+    usage,
+  };
+}
@@ -5,29 +5,103 @@
  * and synthesis to answer complex research questions.
  */
 
-import { StateGraph, START, END } from "@langchain/langgraph";
 import {
+  StateGraph,
+  START,
+  END,
+  LangGraphRunnableConfig,
+} from "@langchain/langgraph";
+import {
+  BaseMessage,
   HumanMessage,
+  RemoveMessage,
   SystemMessage,
   ToolMessage,
   filterMessages,
+  isToolMessage,
 } from "@langchain/core/messages";
-import { createChatModel } from "./llm/factory";
-import { ResearcherState, ResearcherOutputState } from "./shared/types";
-import { tavilySearch, thinkTool } from "./utils";
+import { createRoleModel, getRoleModelName } from "./llm/factory.js";
+import { checkpointer } from "./checkpoint/index.js";
+import { contextSettings } from "./config.js";
+import {
+  estimateTextTokens,
+  estimateTokens,
+  formatTranscript,
+  groupTexts,
+  keepSources,
+  packTexts,
+  splitHistory,
+  withRunningNotes,
+} from "./context/index.js";
+import {
+  DegradedSummary,
+  ResearcherState,
+  ResearcherOutputState,
+} from "./shared/types.js";
+import { getKnowledgeStore } from "./knowledge/index.js";
+import { extractSourceIds, SourceRecord } from "./sources/index.js";
 import {
+  tavilySearch,
+  localSearch,
+  fetchUrl,
+  crawlSite,
+  searchKnowledge,
+  thinkTool,
+  getResearchLimits,
+  getToday,
+  SearchToolArtifact,
+} from "./utils.js";
+import {
+  attributeUsage,
+  budgetExhausted,
+  getUsageBudget,
+  measureUsage,
+  totalUsage,
+  TokenUsage,
+  UsageRecord,
+} from "./usage/index.js";
+import {
+  createCompressResearchChunkMessage,
   createCompressResearchHumanMessage,
   createCompressResearchSystemPrompt,
+  createCondenseHistoryHumanMessage,
+  createCondenseHistoryPrompt,
+  createMergeCompressedResearchMessage,
   createResearchAgentPrompt,
-} from "./shared/prompts";
+  runningNotesHeading,
+} from "./shared/prompts.js";
 
 // Set up tools and model binding
-const tools = [tavilySearch, thinkTool];
+const tools = [
+  searchKnowledge,
+  tavilySearch,
+  localSearch,
+  fetchUrl,
+  crawlSite,
+  thinkTool,
+];
 const toolsByName = new Map(tools.map((tool) => [tool.name, tool]));
 
-const modelWithTools = createChatModel({ family: "gpt41", model: "gpt-4.1" }).bindTools(tools);
+const modelWithTools = createRoleModel("researcher").bindTools(tools);
+
+const compressModel = createRoleModel("compress", { maxTokens: 32000 });
 
-const compressModel = createChatModel({ family: "gpt41", model: "gpt-4.1", maxTokens: 32000 });
+// Prompt tokens set aside for the instructions of a compress model call
+const PROMPT_RESERVE_TOKENS = 2000;
+
+// Characters of each tool output kept when older rounds cannot be condensed
+const CONDENSE_FALLBACK_LENGTH = 1000;
+
+/**
+ * Collect the raw notes of researcher messages.
+ * @param messages - Researcher messages
+ * @returns Contents of the tool outputs and model turns
+ */
+function collectRawNotes(messages: BaseMessage[]): string {
+  return filterMessages(messages, { includeTypes: ["tool", "ai"] })
+    .map((m) => String(m.content))
+    .join("\n");
+}
 
 // ===== AGENT NODES =====
 
@@ -38,90 +112,301 @@ const compressModel = createChatModel({ family: "gpt41", model: "gpt-4.1", maxTo
  * 1. Call search tool to gather more information
  * 2. Provide a final answer based on gathered information
  * @param state - The current state of the research agent
- * @returns Updated state with the model's response
+ * @param config - Runtime config with the run's research limits
+ * @returns Updated state with the model's response and its token usage
  */
-async function llmCall(state: { researcher_messages: any[] }): Promise<{
+async function llmCall(
+  state: typeof ResearcherState.State,
+  config: LangGraphRunnableConfig,
+): Promise<{
   researcher_messages: any[];
+  usage: UsageRecord[];
 }> {
+  const { maxReactToolCalls } = getResearchLimits(config);
+  const response = await modelWithTools.invoke([
+    new SystemMessage(
+      createResearchAgentPrompt(getToday(), String(maxReactToolCalls)),
+    ),
+    ...withRunningNotes(
+      state.researcher_messages,
+      state.running_notes,
+      runningNotesHeading,
+    ),
+  ]);
+
   return {
-    researcher_messages: [
-      await modelWithTools.invoke([
-        new SystemMessage(createResearchAgentPrompt()),
-        ...state.researcher_messages,
-      ]),
-    ],
+    researcher_messages: [response],
+    usage: attributeUsage(
+      [measureUsage(response, getRoleModelName("researcher"))],
+      "llm_call",
+      state.researcher_id,
+    ),
   };
 }
 
 /**
  * Execute all tool call from the previous LLM response.
  *
+ * Sources, usage and degraded summaries returned by the search tools as
+ * ToolMessage artifacts are added to the researcher's state. Once the usage budget is exhausted, or the
+ * researcher has used up its tool-call limit, tool calls are answered without
+ * being executed. Sources are also added to the run's knowledge store as soon
+ * as a tool returns them, so the researchers running alongside can use them.
  * @param state - The current state of the research agent
- * @returns Updated state with tool execution results.
+ * @param config - Runtime config, forwarded to tools for per-run options
+ * @returns Updated state with tool execution results, sources, usage and the
+ *          number of tool calls executed so far.
  */
-async function toolNode(state: { researcher_messages: any[] }): Promise<{
+async function toolNode(
+  state: typeof ResearcherState.State,
+  config: LangGraphRunnableConfig,
+): Promise<{
   researcher_messages: any[];
+  sources: SourceRecord[];
+  usage: UsageRecord[];
+  degraded_summaries: DegradedSummary[];
+  tool_call_iteration: number;
 }> {
-  const lastMessage = state.researcher_messages.at(-1);
+  const lastMessage: any = state.researcher_messages.at(-1);
   const toolCalls = lastMessage?.tool_calls ?? [];
+  const exhausted = budgetExhausted(
+    totalUsage(state.usage),
+    getUsageBudget(config),
+  );
+  const { maxReactToolCalls } = getResearchLimits(config);
+  let executedCalls = state.tool_call_iteration;
 
   // Execute each tool call and always emit a corresponding ToolMessage
   const toolOutputs: ToolMessage[] = [];
+  const sources: SourceRecord[] = [];
+  const usage: TokenUsage[] = [];
+  const degradedSummaries: DegradedSummary[] = [];
+  // The run's knowledge store, or one of this researcher's own when it runs
+  // on its own
+  const store = getKnowledgeStore(config);
+  store.addSources(state.sources);
+  const toolConfig = {
+    ...config,
+    configurable: { ...config.configurable, knowledge_store: store },
+  };
   for (const toolCall of toolCalls) {
     const tool = toolsByName.get(toolCall.name);
     let observation: any;
 
-    if (!tool) {
+    if (exhausted) {
+      observation = `Not executed: the research budget is exhausted (${exhausted}).`;
+    } else if (executedCalls >= maxReactToolCalls) {
+      observation = `Not executed: the tool call limit of ${maxReactToolCalls} for this researcher was reached.`;
+    } else if (!tool) {
       // Still emit a ToolMessage so the LLM sees a response for every tool_call_id
       observation = `Error: tool '${toolCall.name}' not found.`;
     } else {
+      executedCalls++;
       try {
-        observation = await (tool as any).invoke(toolCall.args);
+        // Invoking with the whole tool call returns a ToolMessage that
+        // carries the tool's artifact
+        observation = await (tool as any).invoke(
+          { ...toolCall, type: "tool_call" },
+          toolConfig,
+        );
       } catch (error) {
         console.error(`Error executing tool ${toolCall.name}:`, error);
         observation = `Error executing tool '${toolCall.name}': ${String(error)}`;
       }
     }
 
-    toolOutputs.push(new ToolMessage(observation, toolCall.id, toolCall.name));
+    if (isToolMessage(observation)) {
+      const artifact = observation.artifact as SearchToolArtifact | undefined;
+      toolOutputs.push(observation);
+      sources.push(...(artifact?.sources ?? []));
+      store.addSources(artifact?.sources);
+      usage.push(...(artifact?.usage ?? []));
+      degradedSummaries.push(...(artifact?.degraded_summaries ?? []));
+    } else {
+      toolOutputs.push(
+        new ToolMessage(observation, toolCall.id, toolCall.name),
+      );
+    }
   }
 
   return {
     // LangGraph will append these to the running message history via the reducer
     researcher_messages: toolOutputs,
+    sources,
+    usage: attributeUsage(usage, "tool_node", state.researcher_id),
+    degraded_summaries: degradedSummaries,
+    tool_call_iteration: executedCalls,
+  };
+}
+
+/**
+ * Condense the older rounds of the researcher's history into running notes.
+ *
+ * The rounds are folded into the notes chunk by chunk, so the compress
+ * model's window is never exceeded. Every source the rounds mention stays
+ * listed in the notes, and the rounds' content is kept in the raw notes.
+ * When the model fails, the start of each tool output is kept instead.
+ * @param state - The current state of the research agent
+ * @returns The removal of the condensed rounds, the updated notes, raw notes
+ *          and usage
+ */
+async function condenseHistory(state: typeof ResearcherState.State): Promise<{
+  researcher_messages?: BaseMessage[];
+  running_notes?: string;
+  raw_notes?: string[];
+  usage?: UsageRecord[];
+}> {
+  const { older } = splitHistory(
+    state.researcher_messages,
+    contextSettings.keepRecentRounds,
+  );
+  if (older.length === 0) return {};
+
+  const systemMessage = new SystemMessage(createCondenseHistoryPrompt());
+  const chunks = packTexts(
+    older.map((message) => formatTranscript([message])),
+    Math.floor(contextSettings.compressContextTokens / 2),
+  );
+  const usage: TokenUsage[] = [];
+  let notes = state.running_notes;
+  try {
+    for (const chunk of chunks) {
+      const response = await compressModel.invoke([
+        systemMessage,
+        new HumanMessage(
+          createCondenseHistoryHumanMessage(state.research_topic, notes, chunk),
+        ),
+      ]);
+      usage.push(measureUsage(response, getRoleModelName("compress")));
+      notes = String(response.content);
+    }
+  } catch (error) {
+    console.error(
+      "Error condensing research history, keeping the start of each tool output instead:",
+      error,
+    );
+    const excerpts = older
+      .filter((message) => isToolMessage(message))
+      .map((message) =>
+        formatTranscript([message]).slice(0, CONDENSE_FALLBACK_LENGTH),
+      );
+    notes = [state.running_notes, ...excerpts].filter(Boolean).join("\n\n");
+  }
+
+  const cited = extractSourceIds(
+    `${state.running_notes}\n${formatTranscript(older)}`,
+  );
+  return {
+    researcher_messages: older.map(
+      (message) => new RemoveMessage({ id: message.id! }),
+    ),
+    running_notes: keepSources(notes, cited, state.sources),
+    raw_notes: [collectRawNotes(older)],
+    usage: attributeUsage(usage, "condense_history", state.researcher_id),
   };
 }
 
 /**
  * Compress research findings into a concise summary.
  *
- * Takes all the research messages and tool outputs and creates
- * a compressed summary suitable for the supervisor's decision-making.
+ * Takes all the research messages and tool outputs, with the running notes of
+ * condensed rounds, and creates a compressed summary suitable for the
+ * supervisor's decision-making. When they exceed the compress model's window,
+ * they are compressed in chunks whose findings are then merged, several
+ * levels deep if needed. Sources cited by the running notes or the chunks'
+ * findings are always kept in the compressed research.
  * @param state - The current state of the research agent
- * @returns Updated state with the compressed research summary and raw notes
+ * @returns Updated state with the compressed research summary, raw notes and usage
  */
 async function compressResearch(state: typeof ResearcherState.State): Promise<{
   compressed_research: string;
   raw_notes: string[];
+  usage: UsageRecord[];
 }> {
-  const systemMessage = createCompressResearchSystemPrompt();
-  const messages = [
-    new SystemMessage(systemMessage),
-    ...state.researcher_messages,
+  const systemMessage = new SystemMessage(createCompressResearchSystemPrompt());
+  const messages = withRunningNotes(
+    state.researcher_messages,
+    state.running_notes,
+    runningNotesHeading,
+  );
+  const usage: TokenUsage[] = [];
+  const compress = async (prompt: BaseMessage[]): Promise<string> => {
+    const response = await compressModel.invoke(prompt);
+    usage.push(measureUsage(response, getRoleModelName("compress")));
+    return String(response.content);
+  };
+
+  const prompt = [
+    systemMessage,
+    ...messages,
     new HumanMessage(createCompressResearchHumanMessage(state.research_topic)),
   ];
-  const response = await compressModel.invoke(messages);
+  let compressed: string;
+  let cited = extractSourceIds(state.running_notes);
+  if (estimateTokens(prompt) <= contextSettings.compressContextTokens) {
+    compressed = await compress(prompt);
+  } else {
+    const maxTokens =
+      contextSettings.compressContextTokens -
+      estimateTokens([systemMessage]) -
+      PROMPT_RESERVE_TOKENS;
 
-  // Extract raw notes from tool and AI messages
-  const rawNotes = [
-    ...filterMessages(state.researcher_messages, {
-      includeTypes: ["tool", "ai"],
-    }).map((m) => String(m.content)),
-  ];
+    // Map: clean up each chunk of the transcript on its own
+    const chunks = packTexts(
+      messages.map((message) => formatTranscript([message])),
+      maxTokens,
+    );
+    let parts: string[] = [];
+    for (const [i, chunk] of chunks.entries()) {
+      parts.push(
+        await compress([
+          systemMessage,
+          new HumanMessage(
+            createCompressResearchChunkMessage(
+              state.research_topic,
+              chunk,
+              i + 1,
+              chunks.length,
+            ),
+          ),
+        ]),
+      );
+    }
+    cited = [...new Set([...cited, ...extractSourceIds(parts.join("\n"))])];
+
+    // Reduce: merge as many findings per call as fit, until one is left
+    while (parts.length > 1) {
+      const groups = groupTexts(parts, maxTokens);
+      if (groups.length === parts.length) {
+        // No two findings fit in one call; keep them side by side
+        parts = [parts.join("\n\n")];
+        break;
+      }
+      const merged: string[] = [];
+      for (const group of groups) {
+        merged.push(
+          group.length === 1
+            ? group[0]!
+            : await compress([
+                systemMessage,
+                new HumanMessage(
+                  createMergeCompressedResearchMessage(
+                    state.research_topic,
+                    group,
+                  ),
+                ),
+              ]),
+        );
+      }
+      parts = merged;
+    }
+    compressed = parts[0] ?? "";
+  }
 
   return {
-    compressed_research: String(response.content),
-    raw_notes: [rawNotes.join("\n")],
+    compressed_research: keepSources(compressed, cited, state.sources),
+    raw_notes: [collectRawNotes(state.researcher_messages)],
+    usage: attributeUsage(usage, "compress_research", state.researcher_id),
   };
 }
 
@@ -152,13 +437,55 @@ function shouldContinue(state: typeof ResearcherState.State): string {
   return "compress_research";
 }
 
+/**
+ * Decide whether to keep researching after tools ran.
+ *
+ * Once the researcher's usage budget or tool-call limit is exhausted, the
+ * findings gathered so far are compressed instead of asking the model for
+ * more tool calls. Once the history exceeds the context threshold, its
+ * older rounds are condensed before the model is called again.
+ * @param state - The current state of the research agent
+ * @param config - Runtime config with the usage budget and research limits
+ * @returns "llm_call": Continue the research loop
+ *          "condense_history": Condense older rounds, then continue
+ *          "compress_research": Stop and compress research findings
+ */
+function afterTools(
+  state: typeof ResearcherState.State,
+  config: LangGraphRunnableConfig,
+): string {
+  if (budgetExhausted(totalUsage(state.usage), getUsageBudget(config))) {
+    return "compress_research";
+  }
+  if (
+    state.tool_call_iteration >= getResearchLimits(config).maxReactToolCalls
+  ) {
+    return "compress_research";
+  }
+  const historyTokens =
+    estimateTokens(state.researcher_messages) +
+    estimateTextTokens(state.running_notes);
+  if (
+    historyTokens > contextSettings.historyTokens &&
+    splitHistory(state.researcher_messages, contextSettings.keepRecentRounds)
+      .older.length > 0
+  ) {
+    return "condense_history";
+  }
+  return "llm_call";
+}
+
 // ===== GRAPH CONSTRUCTION =====
 
 // Build the agent workflow
-const agentBuilder = new StateGraph(ResearcherState, ResearcherOutputState)
+export const agentBuilder = new StateGraph(
+  ResearcherState,
+  ResearcherOutputState,
+)
   // Add nodes to the graph
   .addNode("llm_call", llmCall)
   .addNode("tool_node", toolNode)
+  .addNode("condense_history", condenseHistory)
   .addNode("compress_research", compressResearch)
 
   // Add edges to connect nodes
@@ -167,8 +494,16 @@ const agentBuilder = new StateGraph(ResearcherState, ResearcherOutputState)
     tool_node: "tool_node",
     compress_research: "compress_research",
   })
-  .addEdge("tool_node", "llm_call") // Loop back to llm_call after tool execution
+  // Loop back to llm_call after tool execution, unless the budget or the
+  // tool-call limit is spent; condense older rounds first once the history
+  // grows too long
+  .addConditionalEdges("tool_node", afterTools, {
+    llm_call: "llm_call",
+    condense_history: "condense_history",
+    compress_research: "compress_research",
+  })
+  .addEdge("condense_history", "llm_call")
   .addEdge("compress_research", END);
 
-export const researcherAgent = agentBuilder.compile();
+export const researcherAgent = agentBuilder.compile({ checkpointer });
 researcherAgent.name = "Researcher Agent";
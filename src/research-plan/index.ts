@@ -0,0 +1,9 @@
+/**
+ * Structured research planning for the supervisor.
+ *
+ * Sub-questions are created and updated through the UpdateResearchPlan tool,
+ * researched in dependency order, and can be reviewed between supervisor
+ * iterations.
+ */
+
+export * from "./plan.js";
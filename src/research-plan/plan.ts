@@ -0,0 +1,335 @@
+/**
+ * Research Plan.
+ *
+ * The supervisor breaks the research brief into sub-questions and keeps them
+ * in a typed plan: each sub-question has a status, a priority, the
+ * researcher assigned to it, the sub-questions it depends on, and a summary
+ * of its findings once researched. Dependencies form a DAG, so a
+ * sub-question is only researched after its prerequisites, with their
+ * findings as context.
+ */
+
+import { z } from "zod/v3";
+
+// Blocked sub-questions were delegated before their prerequisites were done
+export const subQuestionStatuses = [
+  "pending",
+  "blocked",
+  "done",
+  "dropped",
+] as const;
+
+export type SubQuestionStatus = (typeof subQuestionStatuses)[number];
+
+export const SubQuestion = z.object({
+  id: z.string().min(1),
+  question: z.string().min(1),
+  status: z.enum(subQuestionStatuses).default("pending"),
+  // 1 is the highest priority
+  priority: z.number().int().min(1).max(5).default(3),
+  // IDs of the sub-questions that must be answered first
+  depends_on: z.array(z.string()).default([]),
+  // ID of the researcher (its ConductResearch tool call) that answered it
+  researcher: z.string().optional(),
+  findings: z.string().optional(),
+});
+
+export type SubQuestion = z.infer<typeof SubQuestion>;
+
+export const ResearchPlan = z.object({
+  sub_questions: z.array(SubQuestion),
+});
+
+export type ResearchPlan = z.infer<typeof ResearchPlan>;
+
+// Changes to one sub-question; unknown IDs add a new sub-question.
+export const SubQuestionUpdate = z.object({
+  id: z
+    .string()
+    .min(1)
+    .describe("Short stable ID of the sub-question, e.g. q1."),
+  question: z
+    .string()
+    .optional()
+    .describe("The sub-question. Required when adding a new one."),
+  priority: z
+    .number()
+    .int()
+    .min(1)
+    .max(5)
+    .optional()
+    .describe("1 (highest) to 5 (lowest)."),
+  depends_on: z
+    .array(z.string())
+    .optional()
+    .describe(
+      "IDs of sub-questions whose findings this one needs before it can be researched.",
+    ),
+  status: z
+    .enum(["pending", "done", "dropped"])
+    .optional()
+    .describe(
+      "Set to dropped to abandon a sub-question, or done when it is already answered.",
+    ),
+});
+
+export type SubQuestionUpdate = z.infer<typeof SubQuestionUpdate>;
+
+// Length of the findings summary kept for a sub-question
+const MAX_FINDINGS_LENGTH = 1500;
+
+/**
+ * Create an empty research plan.
+ * @returns Plan without sub-questions
+ */
+export function emptyPlan(): ResearchPlan {
+  return { sub_questions: [] };
+}
+
+/**
+ * Check that a plan's sub-questions form a valid DAG.
+ * @param plan - Research plan
+ * @returns Problems found; empty when the plan is valid
+ */
+export function validatePlan(plan: ResearchPlan): string[] {
+  const errors: string[] = [];
+  const byId = new Map<string, SubQuestion>();
+  for (const item of plan.sub_questions) {
+    if (byId.has(item.id)) errors.push(`Duplicate sub-question ID ${item.id}`);
+    byId.set(item.id, item);
+  }
+  for (const item of plan.sub_questions) {
+    for (const dependency of item.depends_on) {
+      if (!byId.has(dependency)) {
+        errors.push(`${item.id} depends on unknown sub-question ${dependency}`);
+      } else if (dependency === item.id) {
+        errors.push(`${item.id} depends on itself`);
+      }
+    }
+  }
+  if (errors.length > 0) return errors;
+
+  // Depth-first search for a dependency cycle
+  const state = new Map<string, "visiting" | "visited">();
+  const visit = (id: string, path: string[]): string | undefined => {
+    if (state.get(id) === "visited") return undefined;
+    if (state.get(id) === "visiting") {
+      return [...path.slice(path.indexOf(id)), id].join(" -> ");
+    }
+    state.set(id, "visiting");
+    for (const dependency of byId.get(id)!.depends_on) {
+      const cycle = visit(dependency, [...path, id]);
+      if (cycle) return cycle;
+    }
+    state.set(id, "visited");
+    return undefined;
+  };
+  for (const item of plan.sub_questions) {
+    const cycle = visit(item.id, []);
+    if (cycle) return [`Dependency cycle: ${cycle}`];
+  }
+  return [];
+}
+
+/**
+ * Apply sub-question updates to a plan.
+ *
+ * The updates are applied together: if the resulting plan is invalid, none
+ * of them is applied.
+ * @param plan - Current plan
+ * @param updates - Added or changed sub-questions
+ * @returns The updated plan, or the current plan and the problems found
+ */
+export function applyPlanUpdates(
+  plan: ResearchPlan,
+  updates: SubQuestionUpdate[],
+): { plan: ResearchPlan; errors: string[] } {
+  const subQuestions = plan.sub_questions.map((item) => ({ ...item }));
+  const errors: string[] = [];
+
+  for (const update of updates) {
+    const existing = subQuestions.find((item) => item.id === update.id);
+    if (existing) {
+      if (update.question !== undefined) existing.question = update.question;
+      if (update.priority !== undefined) existing.priority = update.priority;
+      if (update.depends_on !== undefined) {
+        existing.depends_on = update.depends_on;
+      }
+      if (update.status !== undefined) existing.status = update.status;
+    } else if (!update.question) {
+      errors.push(`New sub-question ${update.id} needs a question`);
+    } else {
+      subQuestions.push({
+        id: update.id,
+        question: update.question,
+        status: update.status ?? "pending",
+        priority: update.priority ?? 3,
+        depends_on: update.depends_on ?? [],
+      });
+    }
+  }
+
+  const updated = { sub_questions: subQuestions };
+  errors.push(...validatePlan(updated));
+  return errors.length > 0 ? { plan, errors } : { plan: updated, errors };
+}
+
+/**
+ * Order sub-questions into waves that respect their dependencies.
+ *
+ * A sub-question can run once each of its prerequisites is done or runs in
+ * an earlier wave. Sub-questions whose prerequisites are neither are blocked.
+ * @param plan - Research plan
+ * @param ids - Sub-questions to research now
+ * @returns Waves of sub-question IDs, in order, and the blocked ones
+ */
+export function scheduleWaves(
+  plan: ResearchPlan,
+  ids: string[],
+): { waves: string[][]; blocked: { id: string; reason: string }[] } {
+  const byId = new Map(plan.sub_questions.map((item) => [item.id, item]));
+  const requested = new Set(ids);
+  const scheduled = new Set<string>();
+  const waves: string[][] = [];
+
+  let remaining = [...requested];
+  while (remaining.length > 0) {
+    const wave = remaining.filter((id) =>
+      byId
+        .get(id)!
+        .depends_on.every(
+          (dependency) =>
+            byId.get(dependency)?.status === "done" ||
+            scheduled.has(dependency),
+        ),
+    );
+    if (wave.length === 0) break;
+    // Higher priority first within a wave
+    wave.sort((a, b) => byId.get(a)!.priority - byId.get(b)!.priority);
+    waves.push(wave);
+    wave.forEach((id) => scheduled.add(id));
+    remaining = remaining.filter((id) => !scheduled.has(id));
+  }
+
+  const blocked = remaining.map((id) => {
+    const waiting = byId
+      .get(id)!
+      .depends_on.filter(
+        (dependency) =>
+          byId.get(dependency)?.status !== "done" && !scheduled.has(dependency),
+      )
+      .map((dependency) => `${dependency} (${byId.get(dependency)?.status})`);
+    return { id, reason: `waits for ${waiting.join(", ")}` };
+  });
+  return { waves, blocked };
+}
+
+/**
+ * Record the findings of a researched sub-question.
+ *
+ * The sub-question is marked done, and sub-questions blocked on it whose
+ * prerequisites are now all done become pending again.
+ * @param plan - Research plan
+ * @param id - Sub-question ID
+ * @param researcher - ID of the researcher that answered it
+ * @param findings - Compressed research findings
+ * @returns The updated plan
+ */
+export function recordFindings(
+  plan: ResearchPlan,
+  id: string,
+  researcher: string,
+  findings: string,
+): ResearchPlan {
+  const subQuestions = plan.sub_questions.map((item) =>
+    item.id === id
+      ? {
+          ...item,
+          status: "done" as const,
+          researcher,
+          findings: summarizeFindings(findings),
+        }
+      : item,
+  );
+  const done = new Set(
+    subQuestions
+      .filter((item) => item.status === "done")
+      .map((item) => item.id),
+  );
+  return {
+    sub_questions: subQuestions.map((item) =>
+      item.status === "blocked" &&
+      item.depends_on.every((dependency) => done.has(dependency))
+        ? { ...item, status: "pending" as const }
+        : item,
+    ),
+  };
+}
+
+/**
+ * Mark sub-questions as blocked on unfinished prerequisites.
+ * @param plan - Research plan
+ * @param ids - Sub-question IDs
+ * @returns The updated plan
+ */
+export function blockSubQuestions(
+  plan: ResearchPlan,
+  ids: string[],
+): ResearchPlan {
+  return {
+    sub_questions: plan.sub_questions.map((item) =>
+      ids.includes(item.id) ? { ...item, status: "blocked" as const } : item,
+    ),
+  };
+}
+
+/**
+ * Describe the findings of a sub-question's prerequisites.
+ * @param plan - Research plan
+ * @param id - Sub-question ID
+ * @returns Findings of each prerequisite, or an empty string when it has none
+ */
+export function prerequisiteFindings(plan: ResearchPlan, id: string): string {
+  const item = plan.sub_questions.find((entry) => entry.id === id);
+  return (item?.depends_on ?? [])
+    .map((dependency) =>
+      plan.sub_questions.find((entry) => entry.id === dependency),
+    )
+    .filter((entry): entry is SubQuestion => entry?.findings !== undefined)
+    .map((entry) => `- ${entry.question}\n${entry.findings}`)
+    .join("\n\n");
+}
+
+/**
+ * Shorten a researcher's compressed findings for the plan.
+ * @param findings - Compressed research findings
+ * @returns Findings of at most MAX_FINDINGS_LENGTH characters
+ */
+function summarizeFindings(findings: string): string {
+  const text = findings.trim();
+  return text.length > MAX_FINDINGS_LENGTH
+    ? `${text.slice(0, MAX_FINDINGS_LENGTH)}…`
+    : text;
+}
+
+/**
+ * Format a plan for prompts and tool responses.
+ * @param plan - Research plan
+ * @returns One line per sub-question, with its findings indented below it
+ */
+export function formatPlan(plan: ResearchPlan): string {
+  if (plan.sub_questions.length === 0) {
+    return "No research plan yet.";
+  }
+  return plan.sub_questions
+    .map((item) => {
+      const dependencies = item.depends_on.length
+        ? `, depends on ${item.depends_on.join(", ")}`
+        : "";
+      const line = `- ${item.id} [${item.status}, priority ${item.priority}${dependencies}] ${item.question}`;
+      return item.findings
+        ? `${line}\n  Findings: ${item.findings.replace(/\n/g, "\n  ")}`
+        : line;
+    })
+    .join("\n");
+}
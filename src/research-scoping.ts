@@ -4,6 +4,7 @@
  * This module implements the scoping phase of the research workflow, where we:
  * 1. Assess if the user's request needs clarification
  * 2. Generate a detailed research brief from the conversation
+ * 3. Optionally let a human approve, edit or reject the brief
  *
  * The workflow uses structured output to make deterministic decisions about
  * whether sufficient context exists to proceed with research.
@@ -11,29 +12,46 @@
 
 import {
   createClarifyWithUserInstructions,
+  createResearchBriefFeedbackInstructions,
   createTransformMessagesIntoResearchTopicInstructions,
-} from "./shared/prompts";
+} from "./shared/prompts.js";
 import {
   ClarifyWithUser,
   ResearchQuestion,
   AgentState,
   AgentInputState,
-} from "./shared/types";
-import { getToday } from "./utils";
-import { Command, START, END, StateGraph } from "@langchain/langgraph";
+  BriefReviewDecision,
+} from "./shared/types.js";
+import { getToday } from "./utils.js";
+import { reviewResearchBrief as reviewResearchBriefDefault } from "./config.js";
+import {
+  Command,
+  START,
+  END,
+  StateGraph,
+  LangGraphRunnableConfig,
+  interrupt,
+} from "@langchain/langgraph";
 import {
   HumanMessage,
   AIMessage,
   getBufferString,
 } from "@langchain/core/messages";
-import { createChatModel } from "./llm/factory";
+import { createRoleModel, getRoleModelName } from "./llm/factory.js";
+import { attributeUsage, measureUsage, UsageRecord } from "./usage/index.js";
+import { checkpointer } from "./checkpoint/index.js";
 
-const clarifyLLM = createChatModel({ family: "gpt41", model: "gpt-4.1", temperature: 0.0 });
-const structuredClarifyLLM = clarifyLLM.withStructuredOutput(ClarifyWithUser);
+const clarifyLLM = createRoleModel("clarify", { temperature: 0.0 });
+// Raw responses are kept for their token usage
+const structuredClarifyLLM = clarifyLLM.withStructuredOutput(ClarifyWithUser, {
+  includeRaw: true,
+});
 
-const researchBriefLLM = createChatModel({ family: "gpt41", model: "gpt-4.1", temperature: 0.0 });
-const structuredResearchBriefLLM =
-  researchBriefLLM.withStructuredOutput(ResearchQuestion);
+const researchBriefLLM = createRoleModel("brief", { temperature: 0.0 });
+const structuredResearchBriefLLM = researchBriefLLM.withStructuredOutput(
+  ResearchQuestion,
+  { includeRaw: true },
+);
 
 /* ===== WORKFLOW NODES ===== */
 
@@ -49,7 +67,7 @@ export async function clarifyWithUser(state: {
   messages: any[];
 }): Promise<Command<"write_research_brief" | typeof END>> {
   // Invoke the model with clarification instructions
-  const response = await structuredClarifyLLM.invoke([
+  const { raw, parsed: response } = await structuredClarifyLLM.invoke([
     new HumanMessage(
       createClarifyWithUserInstructions(
         getBufferString(state.messages),
@@ -57,17 +75,21 @@ export async function clarifyWithUser(state: {
       ),
     ),
   ]);
+  const usage = attributeUsage(
+    [measureUsage(raw, getRoleModelName("clarify"))],
+    "clarify_with_user",
+  );
 
   // Route based on clarification need
   if (response.need_clarification) {
     return new Command({
       goto: END,
-      update: { messages: [new AIMessage(response.question)] },
+      update: { messages: [new AIMessage(response.question)], usage },
     });
   } else {
     return new Command({
       goto: "write_research_brief",
-      update: { messages: [new AIMessage(response.verification)] },
+      update: { messages: [new AIMessage(response.verification)], usage },
     });
   }
 }
@@ -76,34 +98,104 @@ export async function clarifyWithUser(state: {
  * Transform the conversation history into a comprehensive research brief.
  *
  * Uses structured output to ensure the brief follows the required format
- * and contains all necessary details for effective research.
+ * and contains all necessary details for effective research. When a reviewer
+ * rejected the previous brief, their feedback is included in the prompt.
  * @param state - The current state of the workflow.
- * @returns A command to either write a research brief or end the workflow.
+ * @returns Updated state with the generated research brief.
  */
 export async function writeResearchBrief(state: {
   messages: any[];
-}): Promise<{ research_brief: string; supervisor_messages: any[] }> {
+  research_brief?: string | undefined;
+  brief_feedback?: string | undefined;
+}): Promise<{ research_brief: string; usage: UsageRecord[] }> {
+  let instructions = createTransformMessagesIntoResearchTopicInstructions(
+    getBufferString(state.messages),
+    getToday(),
+  );
+  if (state.brief_feedback && state.research_brief) {
+    instructions += createResearchBriefFeedbackInstructions(
+      state.research_brief,
+      state.brief_feedback,
+    );
+  }
+
   // Generate research brief from conversation history
-  const response = await structuredResearchBriefLLM.invoke([
-    new HumanMessage(
-      createTransformMessagesIntoResearchTopicInstructions(
-        getBufferString(state.messages),
-        getToday(),
-      ),
-    ),
+  const { raw, parsed: response } = await structuredResearchBriefLLM.invoke([
+    new HumanMessage(instructions),
   ]);
 
-  // Update state with generated research brief and pass it to the supervisor
   return {
     research_brief: response.research_brief,
-    supervisor_messages: [new HumanMessage(`${response.research_brief}.`)],
+    usage: attributeUsage(
+      [measureUsage(raw, getRoleModelName("brief"))],
+      "write_research_brief",
+    ),
+  };
+}
+
+/**
+ * Let a human review the research brief before research is delegated.
+ *
+ * When review is enabled (REVIEW_RESEARCH_BRIEF or the `review_research_brief`
+ * configurable option), the graph is interrupted with the brief. The run is
+ * resumed with a BriefReviewDecision: approve it as is, replace it with an
+ * edited version, or reject it with feedback to regenerate it. The approved
+ * brief is what gets passed to the supervisor.
+ * @param state - The current state of the workflow.
+ * @param config - Runtime config with the per-run review option.
+ * @returns Updated state with the approved brief, or the reviewer's feedback.
+ */
+export async function reviewResearchBrief(
+  state: typeof AgentState.State,
+  config: LangGraphRunnableConfig,
+): Promise<{
+  research_brief?: string;
+  brief_feedback: string;
+  supervisor_messages?: any[];
+}> {
+  let researchBrief = state.research_brief ?? "";
+  const reviewEnabled =
+    config.configurable?.review_research_brief ?? reviewResearchBriefDefault;
+
+  if (reviewEnabled) {
+    const decision = BriefReviewDecision.parse(
+      interrupt({
+        type: "research_brief_review",
+        research_brief: researchBrief,
+      }),
+    );
+
+    if (decision.action === "reject") {
+      return { brief_feedback: decision.feedback };
+    }
+    if (decision.action === "edit") {
+      researchBrief = decision.research_brief;
+    }
+  }
+
+  // Pass the approved brief to the supervisor
+  return {
+    research_brief: researchBrief,
+    brief_feedback: "",
+    supervisor_messages: [new HumanMessage(`${researchBrief}.`)],
   };
 }
 
+/**
+ * Route after brief review: regenerate a rejected brief, otherwise continue.
+ * @param state - The current state of the workflow.
+ * @returns "write_research_brief" when the brief was rejected, else "approved"
+ */
+export function routeAfterBriefReview(
+  state: typeof AgentState.State,
+): "write_research_brief" | "approved" {
+  return state.brief_feedback ? "write_research_brief" : "approved";
+}
+
 /* ===== GRAPH CONSTRUCTION ===== */
 
 // Build the scoping workflow
-const deepResearchBuilder = new StateGraph({
+export const scopeResearchBuilder = new StateGraph({
   stateSchema: AgentState,
   input: AgentInputState,
 })
@@ -112,11 +204,16 @@ const deepResearchBuilder = new StateGraph({
     ends: ["write_research_brief", END],
   })
   .addNode("write_research_brief", writeResearchBrief)
+  .addNode("review_research_brief", reviewResearchBrief)
 
   // Add workflow edges
   .addEdge(START, "clarify_with_user")
-  .addEdge("write_research_brief", END);
+  .addEdge("write_research_brief", "review_research_brief")
+  .addConditionalEdges("review_research_brief", routeAfterBriefReview, {
+    write_research_brief: "write_research_brief",
+    approved: END,
+  });
 
 // Compile the workflow
-export const scopeResearch = deepResearchBuilder.compile();
+export const scopeResearch = scopeResearchBuilder.compile({ checkpointer });
 scopeResearch.name = "Scope Research";
@@ -0,0 +1,72 @@
+import { SearchOptions, SearchProvider, SearchResponse } from "./types.js";
+
+const BRAVE_API_URL = "https://api.search.brave.com/res/v1";
+
+// Brave's freshness codes for each time range
+const freshnessByTimeRange = {
+  day: "pd",
+  week: "pw",
+  month: "pm",
+  year: "py",
+} as const;
+
+/**
+ * Create a search provider backed by the Brave Search API.
+ *
+ * Brave does not return full page text, so results only carry snippets
+ * (the description plus any extra snippets) as content. Domain filters are
+ * applied to the results by the caller.
+ * @param apiKey - Brave Search subscription token
+ * @returns Search provider returning normalized Brave results
+ */
+export function createBraveProvider(apiKey: string): SearchProvider {
+  return {
+    name: "brave",
+    async search(
+      query: string,
+      options: SearchOptions,
+    ): Promise<SearchResponse> {
+      const endpoint = options.topic === "news" ? "news" : "web";
+      const url = new URL(`${BRAVE_API_URL}/${endpoint}/search`);
+      url.searchParams.set("q", query);
+      url.searchParams.set("count", String(options.maxResults));
+      if (options.timeRange) {
+        url.searchParams.set(
+          "freshness",
+          freshnessByTimeRange[options.timeRange],
+        );
+      }
+
+      const response = await fetch(url, {
+        headers: {
+          Accept: "application/json",
+          "X-Subscription-Token": apiKey,
+        },
+      });
+      if (!response.ok) {
+        throw new Error(
+          `Brave search failed with status ${response.status}: ${await response.text()}`,
+        );
+      }
+      const body = (await response.json()) as {
+        results?: any[];
+        web?: { results?: any[] };
+      };
+      const results =
+        (endpoint === "news" ? body.results : body.web?.results) ?? [];
+
+      return {
+        query,
+        provider: "brave",
+        results: results.slice(0, options.maxResults).map((result) => ({
+          url: String(result.url),
+          title: String(result.title ?? result.url),
+          content: [result.description, ...(result.extra_snippets ?? [])]
+            .filter(Boolean)
+            .join("\n"),
+          publishedDate: result.page_age ?? result.age ?? undefined,
+        })),
+      };
+    },
+  };
+}
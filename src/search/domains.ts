@@ -0,0 +1,129 @@
+/**
+ * Domain Policy.
+ *
+ * Operators can restrict every search and page fetch to an allowlist of
+ * domains and keep them away from a blocklist. Researchers can narrow a
+ * search further with their own include and exclude lists, but never widen
+ * it past the policy. Providers that cannot filter by domain themselves are
+ * covered by filtering their results.
+ */
+
+import { domainPolicy } from "../config.js";
+import { SearchResponse } from "./types.js";
+
+export type DomainPolicy = {
+  // When non-empty, only these domains and their subdomains are allowed
+  allow: string[];
+  // These domains and their subdomains are never allowed
+  deny: string[];
+};
+
+/**
+ * Normalize a domain as written by a researcher or operator.
+ * @param domain - Domain, host or URL, e.g. "https://www.Example.com/path"
+ * @returns Lowercased host without scheme, path, port or "www."/"*." prefix
+ */
+export function normalizeDomain(domain: string): string {
+  return domain
+    .trim()
+    .toLowerCase()
+    .replace(/^[a-z][a-z0-9+.-]*:\/\//, "")
+    .replace(/[/:?#].*$/, "")
+    .replace(/^(\*\.|www\.)/, "");
+}
+
+/**
+ * Check whether a host is a domain or one of its subdomains.
+ * @param host - Host of a URL
+ * @param domain - Domain, normalized before matching
+ * @returns True when the host belongs to the domain
+ */
+export function matchesDomain(host: string, domain: string): boolean {
+  const normalized = normalizeDomain(host);
+  const target = normalizeDomain(domain);
+  return normalized === target || normalized.endsWith(`.${target}`);
+}
+
+/**
+ * Check whether a host is allowed by a domain policy.
+ * @param host - Host of a URL
+ * @param policy - Domain policy, the configured one by default
+ * @returns False when the host is blocked or outside a non-empty allowlist
+ */
+export function isHostAllowed(
+  host: string,
+  policy: DomainPolicy = domainPolicy,
+): boolean {
+  if (policy.deny.some((domain) => matchesDomain(host, domain))) return false;
+  return (
+    policy.allow.length === 0 ||
+    policy.allow.some((domain) => matchesDomain(host, domain))
+  );
+}
+
+/**
+ * Check whether a URL is allowed by a domain policy.
+ * @param url - URL of a search result or page
+ * @param policy - Domain policy, the configured one by default
+ * @returns False for blocked URLs and URLs without a host
+ */
+export function isUrlAllowed(
+  url: string,
+  policy: DomainPolicy = domainPolicy,
+): boolean {
+  try {
+    const { host } = new URL(url);
+    return host !== "" && isHostAllowed(host, policy);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Combine a researcher's domain filters with the domain policy.
+ * @param includeDomains - Domains the researcher wants results from
+ * @param excludeDomains - Domains the researcher wants no results from
+ * @param policy - Domain policy, the configured one by default
+ * @returns Effective filters, and the requested domains the policy rejected
+ */
+export function resolveDomainFilters(
+  includeDomains: string[] = [],
+  excludeDomains: string[] = [],
+  policy: DomainPolicy = domainPolicy,
+): { includeDomains: string[]; excludeDomains: string[]; rejected: string[] } {
+  const requested = [...new Set(includeDomains.map(normalizeDomain))].filter(
+    Boolean,
+  );
+  const allowed = requested.filter((domain) => isHostAllowed(domain, policy));
+  return {
+    // Without a request of its own the researcher gets the whole allowlist
+    includeDomains: requested.length > 0 ? allowed : policy.allow,
+    excludeDomains: [
+      ...new Set([...excludeDomains.map(normalizeDomain), ...policy.deny]),
+    ].filter(Boolean),
+    rejected: requested.filter((domain) => !allowed.includes(domain)),
+  };
+}
+
+/**
+ * Drop the results of a search response that fall outside domain filters.
+ * @param response - Search response
+ * @param includeDomains - When non-empty, only results from these domains are kept
+ * @param excludeDomains - Results from these domains are dropped
+ * @returns Response with the remaining results
+ */
+export function filterByDomain(
+  response: SearchResponse,
+  includeDomains: string[] = [],
+  excludeDomains: string[] = [],
+): SearchResponse {
+  return {
+    ...response,
+    results: response.results.filter((result) =>
+      isUrlAllowed(result.url, {
+        allow: includeDomains,
+        deny: excludeDomains,
+      }),
+    ),
+  };
+}
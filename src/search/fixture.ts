@@ -0,0 +1,49 @@
+import { readFileSync } from "node:fs";
+import {
+  SearchOptions,
+  SearchProvider,
+  SearchResponse,
+  SearchResult,
+} from "./types.js";
+import { normalizeQuery } from "./query.js";
+
+// Fixture file layout: a map from query to canned results. The "*" entry,
+// when present, is served for any query without an exact match.
+type FixtureFile = Record<string, SearchResult[]>;
+
+/**
+ * Create a search provider that serves canned results from a JSON file.
+ *
+ * Used to run the research graphs fully offline. Time ranges are ignored, and
+ * domain filters are applied to the results by the caller.
+ * @param path - Path to the fixture JSON file
+ * @returns Search provider returning results from the fixture file
+ */
+export function createFixtureProvider(path: string): SearchProvider {
+  const fixtures: FixtureFile = JSON.parse(readFileSync(path, "utf-8"));
+  const byQuery = new Map(
+    Object.entries(fixtures).map(([query, results]) => [
+      normalizeQuery(query),
+      results,
+    ]),
+  );
+
+  return {
+    name: "fixture",
+    async search(
+      query: string,
+      options: SearchOptions,
+    ): Promise<SearchResponse> {
+      const results = byQuery.get(normalizeQuery(query)) ?? fixtures["*"] ?? [];
+
+      return {
+        query,
+        provider: "fixture",
+        results: results.slice(0, options.maxResults).map((result) => ({
+          ...result,
+          rawContent: options.includeRawContent ? result.rawContent : undefined,
+        })),
+      };
+    },
+  };
+}
@@ -0,0 +1,86 @@
+/**
+ * Search Provider Selection.
+ *
+ * Builds the configured search provider by name. Providers are created lazily
+ * and reused, so a provider whose credentials are missing only fails when a
+ * run actually selects it.
+ */
+
+import { searchProvider, searchSecrets } from "../config.js";
+import { createBraveProvider } from "./brave.js";
+import { createFixtureProvider } from "./fixture.js";
+import { createSearxngProvider } from "./searxng.js";
+import { createTavilyProvider } from "./tavily.js";
+import { SearchProvider } from "./types.js";
+import { withSearchCassette } from "../cassette/index.js";
+
+export * from "./domains.js";
+export * from "./query.js";
+export * from "./types.js";
+
+export const searchProviderNames = [
+  "tavily",
+  "searxng",
+  "brave",
+  "fixture",
+] as const;
+
+export type SearchProviderName = (typeof searchProviderNames)[number];
+
+const providers = new Map<string, SearchProvider>();
+
+/**
+ * Create a new search provider instance from configuration.
+ * @param name - Provider name
+ * @returns Configured search provider
+ */
+export function createSearchProvider(name: SearchProviderName): SearchProvider {
+  switch (name) {
+    case "tavily":
+      return createTavilyProvider(searchSecrets.tavily.apiKey);
+    case "searxng":
+      if (!searchSecrets.searxng.baseUrl) {
+        throw new Error(
+          "SEARXNG_BASE_URL must be set to use the searxng provider",
+        );
+      }
+      return createSearxngProvider(searchSecrets.searxng.baseUrl);
+    case "brave":
+      if (!searchSecrets.brave.apiKey) {
+        throw new Error("BRAVE_API_KEY must be set to use the brave provider");
+      }
+      return createBraveProvider(searchSecrets.brave.apiKey);
+    case "fixture":
+      if (!searchSecrets.fixture.path) {
+        throw new Error(
+          "SEARCH_FIXTURE_PATH must be set to use the fixture provider",
+        );
+      }
+      return createFixtureProvider(searchSecrets.fixture.path);
+  }
+}
+
+/**
+ * Get the search provider for a run, falling back to the configured default.
+ * @param name - Provider name, usually from the run's configurable options
+ * @returns Cached search provider instance, recording to or replaying from
+ *          the cassette when one is in use
+ */
+export function getSearchProvider(
+  name: string = searchProvider,
+): SearchProvider {
+  if (!searchProviderNames.includes(name as SearchProviderName)) {
+    throw new Error(
+      `Unknown search provider: ${name}. Expected one of ${searchProviderNames.join(", ")}`,
+    );
+  }
+
+  let provider = providers.get(name);
+  if (!provider) {
+    provider = withSearchCassette(name, () =>
+      createSearchProvider(name as SearchProviderName),
+    );
+    providers.set(name, provider);
+  }
+  return provider;
+}
@@ -0,0 +1,15 @@
+/**
+ * Search Query Keys.
+ *
+ * Queries are compared by a normalized form, shared by the search cache and
+ * the fixture provider so cache keys and fixture lookups always agree.
+ */
+
+/**
+ * Normalize a search query so lookups ignore case and whitespace differences.
+ * @param query - Raw search query
+ * @returns Lowercased query with collapsed whitespace
+ */
+export function normalizeQuery(query: string): string {
+  return query.trim().replace(/\s+/g, " ").toLowerCase();
+}
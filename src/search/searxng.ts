@@ -0,0 +1,56 @@
+import { SearchOptions, SearchProvider, SearchResponse } from "./types.js";
+
+// SearXNG has no finance category, so finance queries fall back to general.
+const categoryByTopic = {
+  general: "general",
+  news: "news",
+  finance: "general",
+} as const;
+
+/**
+ * Create a search provider backed by a self-hosted SearXNG instance.
+ *
+ * The instance must have the JSON output format enabled in its settings.
+ * Domain filters are applied to the results by the caller.
+ * @param baseUrl - Base URL of the SearXNG instance (e.g. "http://localhost:8080")
+ * @returns Search provider returning normalized SearXNG results
+ */
+export function createSearxngProvider(baseUrl: string): SearchProvider {
+  return {
+    name: "searxng",
+    async search(
+      query: string,
+      options: SearchOptions,
+    ): Promise<SearchResponse> {
+      const url = new URL("/search", baseUrl);
+      url.searchParams.set("q", query);
+      url.searchParams.set("format", "json");
+      url.searchParams.set("categories", categoryByTopic[options.topic]);
+      if (options.timeRange) {
+        url.searchParams.set("time_range", options.timeRange);
+      }
+
+      const response = await fetch(url);
+      if (!response.ok) {
+        throw new Error(
+          `SearXNG search failed with status ${response.status}: ${await response.text()}`,
+        );
+      }
+      const body = (await response.json()) as { results?: any[] };
+
+      return {
+        query,
+        provider: "searxng",
+        results: (body.results ?? [])
+          .slice(0, options.maxResults)
+          .map((result) => ({
+            url: String(result.url),
+            title: String(result.title ?? result.url),
+            content: String(result.content ?? ""),
+            score: typeof result.score === "number" ? result.score : undefined,
+            publishedDate: result.publishedDate ?? undefined,
+          })),
+      };
+    },
+  };
+}
@@ -0,0 +1,45 @@
+import { tavily } from "@tavily/core";
+import { SearchOptions, SearchProvider, SearchResponse } from "./types.js";
+
+/**
+ * Create a search provider backed by the Tavily search API.
+ * @param apiKey - Tavily API key
+ * @returns Search provider returning normalized Tavily results
+ */
+export function createTavilyProvider(apiKey: string): SearchProvider {
+  const client = tavily({ apiKey });
+
+  return {
+    name: "tavily",
+    async search(
+      query: string,
+      options: SearchOptions,
+    ): Promise<SearchResponse> {
+      const response = await client.search(query, {
+        maxResults: options.maxResults,
+        topic: options.topic,
+        includeRawContent: options.includeRawContent ? "text" : false,
+        ...(options.timeRange ? { timeRange: options.timeRange } : {}),
+        ...(options.includeDomains?.length
+          ? { includeDomains: options.includeDomains }
+          : {}),
+        ...(options.excludeDomains?.length
+          ? { excludeDomains: options.excludeDomains }
+          : {}),
+      });
+
+      return {
+        query,
+        provider: "tavily",
+        results: response.results.map((result) => ({
+          url: result.url,
+          title: result.title,
+          content: result.content,
+          rawContent: result.rawContent || undefined,
+          score: result.score,
+          publishedDate: result.publishedDate || undefined,
+        })),
+      };
+    },
+  };
+}
@@ -0,0 +1,53 @@
+/**
+ * Search Provider Types.
+ *
+ * Normalized search result shapes shared by every search backend, so the
+ * research tools never depend on a particular vendor's response format.
+ */
+
+export const searchTopics = ["general", "news", "finance"] as const;
+
+export type SearchTopic = (typeof searchTopics)[number];
+
+export const searchTimeRanges = ["day", "week", "month", "year"] as const;
+
+export type SearchTimeRange = (typeof searchTimeRanges)[number];
+
+// Options understood by every provider. Providers that cannot honour an
+// option (e.g. raw content for Brave) simply ignore it.
+export type SearchOptions = {
+  maxResults: number;
+  topic: SearchTopic;
+  includeRawContent: boolean;
+  // Only results published within this period
+  timeRange?: SearchTimeRange | undefined;
+  // Only results from these domains or their subdomains
+  includeDomains?: string[] | undefined;
+  // No results from these domains or their subdomains
+  excludeDomains?: string[] | undefined;
+};
+
+// A single normalized search hit.
+export type SearchResult = {
+  url: string;
+  title: string;
+  // Short snippet returned by the search engine
+  content: string;
+  // Full page text, when the provider can return it
+  rawContent?: string | undefined;
+  // Provider relevance score, when available
+  score?: number | undefined;
+  publishedDate?: string | undefined;
+};
+
+// The results returned for one query.
+export type SearchResponse = {
+  query: string;
+  provider: string;
+  results: SearchResult[];
+};
+
+export interface SearchProvider {
+  readonly name: string;
+  search(query: string, options: SearchOptions): Promise<SearchResponse>;
+}
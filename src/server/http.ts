@@ -0,0 +1,231 @@
+/**
+ * HTTP API for research jobs.
+ *
+ * Endpoints:
+ *   POST /jobs                       Start a job from { messages } or { question }
+ *   GET  /jobs                       List jobs
+ *   GET  /jobs/:id                   Job status (and pending clarification question)
+ *   POST /jobs/:id/clarification     Answer the clarification question with { answer }
+ *   POST /jobs/:id/brief             Review the research brief with { action, research_brief?, feedback? }
+ *   POST /jobs/:id/plan              Review the research plan with { action, research_plan? }
+ *   POST /jobs/:id/follow-up         Ask a follow-up about a completed job's report with { question }
+ *   GET  /jobs/:id/events            Server-sent events with node-level progress
+ *   POST /jobs/:id/cancel            Cancel a running job
+ *   POST /jobs/:id/resume            Resume an interrupted job from its last checkpoint
+ *   GET  /jobs/:id/result            final_report, notes and sources of a completed job
+ *   GET  /jobs/:id/report?format=    Final report as markdown, html, docx or json
+ */
+
+import {
+  createServer,
+  IncomingMessage,
+  Server,
+  ServerResponse,
+} from "node:http";
+import { Job, JobError, JobManager } from "./jobs.js";
+
+const MAX_BODY_BYTES = 1024 * 1024;
+
+/**
+ * Read and parse a JSON request body.
+ * @param req - Incoming request
+ * @returns Parsed body, or an empty object when there is no body
+ */
+async function readJsonBody(
+  req: IncomingMessage,
+): Promise<Record<string, any>> {
+  let body = "";
+  for await (const chunk of req) {
+    body += chunk;
+    if (body.length > MAX_BODY_BYTES) {
+      throw new JobError("Request body too large", 413);
+    }
+  }
+  if (!body) return {};
+
+  try {
+    return JSON.parse(body);
+  } catch {
+    throw new JobError("Request body must be valid JSON", 400);
+  }
+}
+
+function sendJson(
+  res: ServerResponse,
+  statusCode: number,
+  body: unknown,
+): void {
+  res.writeHead(statusCode, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+/**
+ * Public view of a job, without its event history.
+ * @param job - Job
+ * @returns Job summary for API responses
+ */
+function jobSummary(job: Job) {
+  return {
+    id: job.id,
+    status: job.status,
+    clarification_question: job.clarificationQuestion,
+    research_brief: job.researchBrief,
+    research_plan: job.researchPlan,
+    error: job.error,
+    created_at: job.createdAt,
+    updated_at: job.updatedAt,
+  };
+}
+
+/**
+ * Stream a job's events to the client as server-sent events.
+ * Past events are replayed first. The stream is closed once the job
+ * finishes or waits for clarification.
+ * @param jobs - Job manager
+ * @param id - Job ID
+ * @param req - Incoming request
+ * @param res - Response to stream to
+ */
+function streamEvents(
+  jobs: JobManager,
+  id: string,
+  req: IncomingMessage,
+  res: ServerResponse,
+): void {
+  jobs.get(id); // 404 before the stream starts
+
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    Connection: "keep-alive",
+  });
+
+  let unsubscribe = () => {};
+  const close = () => {
+    unsubscribe();
+    res.end();
+  };
+
+  unsubscribe = jobs.subscribe(id, (event) => {
+    res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+    if (event.type === "status" && jobs.get(id).status !== "running") {
+      setImmediate(close);
+    }
+  });
+  req.on("close", unsubscribe);
+}
+
+/**
+ * Route a request to the matching job operation.
+ * @param jobs - Job manager
+ * @param req - Incoming request
+ * @param res - Response
+ */
+async function handleRequest(
+  jobs: JobManager,
+  req: IncomingMessage,
+  res: ServerResponse,
+): Promise<void> {
+  const { pathname, searchParams } = new URL(
+    req.url ?? "/",
+    "http://localhost",
+  );
+  const [, resource, id, action] = pathname.split("/");
+
+  if (resource !== "jobs") {
+    throw new JobError(`No route for ${req.method} ${pathname}`, 404);
+  }
+
+  if (!id) {
+    if (req.method === "GET") {
+      return sendJson(res, 200, jobs.list().map(jobSummary));
+    }
+    if (req.method === "POST") {
+      const body = await readJsonBody(req);
+      const messages =
+        body.messages ??
+        (body.question
+          ? [{ role: "user", content: String(body.question) }]
+          : []);
+      if (!Array.isArray(messages)) {
+        throw new JobError("messages must be an array", 400);
+      }
+      return sendJson(
+        res,
+        202,
+        jobSummary(jobs.start(messages, body.configurable)),
+      );
+    }
+  } else if (!action && req.method === "GET") {
+    return sendJson(res, 200, jobSummary(jobs.get(id)));
+  } else if (action === "clarification" && req.method === "POST") {
+    const { answer } = await readJsonBody(req);
+    if (typeof answer !== "string" || !answer.trim()) {
+      throw new JobError("answer must be a non-empty string", 400);
+    }
+    return sendJson(res, 202, jobSummary(jobs.answerClarification(id, answer)));
+  } else if (action === "follow-up" && req.method === "POST") {
+    const { question } = await readJsonBody(req);
+    if (typeof question !== "string" || !question.trim()) {
+      throw new JobError("question must be a non-empty string", 400);
+    }
+    return sendJson(res, 202, jobSummary(jobs.followUp(id, question)));
+  } else if (action === "brief" && req.method === "POST") {
+    return sendJson(
+      res,
+      202,
+      jobSummary(jobs.reviewBrief(id, await readJsonBody(req))),
+    );
+  } else if (action === "plan" && req.method === "POST") {
+    return sendJson(
+      res,
+      202,
+      jobSummary(jobs.reviewPlan(id, await readJsonBody(req))),
+    );
+  } else if (action === "events" && req.method === "GET") {
+    return streamEvents(jobs, id, req, res);
+  } else if (action === "cancel" && req.method === "POST") {
+    return sendJson(res, 200, jobSummary(jobs.cancel(id)));
+  } else if (action === "resume" && req.method === "POST") {
+    const { configurable } = await readJsonBody(req);
+    return sendJson(res, 202, jobSummary(await jobs.resume(id, configurable)));
+  } else if (action === "result" && req.method === "GET") {
+    return sendJson(res, 200, await jobs.result(id));
+  } else if (action === "report" && req.method === "GET") {
+    const report = await jobs.report(
+      id,
+      searchParams.get("format") ?? undefined,
+    );
+    res.writeHead(200, {
+      "Content-Type": report.contentType,
+      "Content-Disposition": `attachment; filename="${id}${report.extension}"`,
+    });
+    res.end(report.content);
+    return;
+  }
+
+  throw new JobError(`No route for ${req.method} ${pathname}`, 404);
+}
+
+/**
+ * Create the research job HTTP server.
+ * @param jobs - Job manager backing the API
+ * @returns HTTP server, not yet listening
+ */
+export function createResearchServer(
+  jobs: JobManager = new JobManager(),
+): Server {
+  return createServer((req, res) => {
+    handleRequest(jobs, req, res).catch((error) => {
+      const statusCode = error instanceof JobError ? error.statusCode : 500;
+      if (statusCode === 500) {
+        console.error("Error handling request:", error);
+      }
+      if (res.headersSent) {
+        res.end();
+      } else {
+        sendJson(res, statusCode, { error: String(error.message ?? error) });
+      }
+    });
+  });
+}
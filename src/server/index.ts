@@ -0,0 +1,13 @@
+/**
+ * Entry point for the research job HTTP server.
+ */
+
+import { serverPort } from "../config.js";
+import { createResearchServer } from "./http.js";
+
+const server = createResearchServer();
+server.listen(serverPort, () => {
+  console.log(
+    `Deep research server listening on http://localhost:${serverPort}`,
+  );
+});
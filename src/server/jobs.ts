@@ -0,0 +1,587 @@
+/**
+ * Research Job Manager.
+ *
+ * Runs the deep research graph as background jobs. Each job is a LangGraph
+ * thread: the job ID is the thread ID, so a clarification answer simply
+ * continues the conversation on the same thread, a brief or plan review
+ * resumes the paused run with the reviewer's decision, and an interrupted job can
+ * be resumed from its last checkpoint, even after a server restart.
+ * Progress events are kept per job and pushed to subscribers as they happen.
+ */
+
+import { randomUUID } from "node:crypto";
+import { z } from "zod/v3";
+import {
+  AIMessage,
+  BaseMessage,
+  HumanMessage,
+  isAIMessage,
+} from "@langchain/core/messages";
+import { Command } from "@langchain/langgraph";
+import { deepResearch } from "../full-research.js";
+import { hasPendingRun } from "../checkpoint/index.js";
+import { ProgressEvent, toProgressEvent } from "../shared/progress.js";
+import {
+  BriefReviewDecision,
+  DegradedSummary,
+  FollowUp,
+  PlanReviewDecision,
+  ReportVerification,
+} from "../shared/types.js";
+import {
+  formatPlan,
+  ResearchPlan,
+  validatePlan,
+} from "../research-plan/index.js";
+import {
+  findSourceByUrl,
+  SourceRecord,
+  SourceRegistry,
+} from "../sources/index.js";
+import {
+  maxConcurrentResearchUnits,
+  maxReactToolCalls,
+  maxResearcherIterations,
+  reportFormat,
+  usageBudget,
+} from "../config.js";
+import { summarizeUsage } from "../usage/index.js";
+import {
+  ExportedReport,
+  exportReport,
+  isReportFormat,
+  reportFormats,
+} from "../export/index.js";
+import { cacheModes } from "../cache/index.js";
+import { searchProviderNames } from "../search/index.js";
+import { reportWriterModes } from "../report-writer.js";
+import { verificationModes } from "../report-verification.js";
+
+export type JobStatus =
+  | "running"
+  | "awaiting_clarification"
+  | "awaiting_brief_review"
+  | "awaiting_plan_review"
+  | "completed"
+  | "failed"
+  | "cancelled";
+
+export type JobEvent =
+  | { type: "progress"; progress: ProgressEvent }
+  | { type: "status"; status: JobStatus; detail?: string };
+
+export type Job = {
+  id: string;
+  status: JobStatus;
+  clarificationQuestion?: string | undefined;
+  // Brief waiting for approval while the status is awaiting_brief_review
+  researchBrief?: string | undefined;
+  // Plan waiting for approval while the status is awaiting_plan_review
+  researchPlan?: ResearchPlan | undefined;
+  error?: string | undefined;
+  createdAt: string;
+  updatedAt: string;
+  events: JobEvent[];
+};
+
+export type JobResult = {
+  final_report: string;
+  notes: string[];
+  sources: SourceRecord[];
+  // Token, cost and search usage, in total and per node and researcher
+  usage: ReturnType<typeof summarizeUsage>;
+  // Webpages that could not be summarized, so researchers only saw their start
+  degraded_summaries: DegradedSummary[];
+  // Claim-level fact check of the report, unless verification was off
+  verification?: ReportVerification | undefined;
+  // Latest follow-up, with its answer when it needed no new research
+  follow_up?: FollowUp | undefined;
+  // Sub-questions the supervisor planned, with their findings
+  research_plan?: ResearchPlan | undefined;
+};
+
+// A message as accepted over the API
+export type MessageInput = { role: string; content: string };
+
+type JobRuntime = {
+  job: Job;
+  configurable: Record<string, any>;
+  controller?: AbortController;
+  listeners: Set<(event: JobEvent) => void>;
+};
+
+export class JobError extends Error {
+  constructor(
+    message: string,
+    readonly statusCode: number,
+  ) {
+    super(message);
+    this.name = "JobError";
+  }
+}
+
+const TERMINAL_STATUSES: JobStatus[] = ["completed", "failed", "cancelled"];
+
+/**
+ * A positive number no larger than a server limit.
+ * @param limit - Server limit; 0 means unlimited
+ * @returns Schema of the number
+ */
+function atMost(limit: number) {
+  const schema = z.number().positive();
+  return limit > 0 ? schema.max(limit) : schema;
+}
+
+// Configurable options API callers may set. Anything else, such as
+// corpus_dir or thread_id, is the server's own, and research limits and
+// budgets can only be lowered.
+const RunOptions = z
+  .object({
+    search_provider: z.enum(searchProviderNames),
+    report_format: z.enum(reportFormats),
+    report_writer: z.enum(reportWriterModes),
+    verification_mode: z.enum(verificationModes),
+    cache_mode: z.enum(cacheModes),
+    review_research_brief: z.boolean(),
+    review_research_plan: z.boolean(),
+    max_concurrent_research_units: atMost(maxConcurrentResearchUnits).int(),
+    max_researcher_iterations: atMost(maxResearcherIterations).int(),
+    max_react_tool_calls: atMost(maxReactToolCalls).int(),
+    budget: z
+      .object({
+        max_tokens: atMost(usageBudget.maxTokens).int(),
+        max_cost_usd: atMost(usageBudget.maxCostUsd),
+        max_search_calls: atMost(usageBudget.maxSearchCalls).int(),
+      })
+      .partial()
+      .strict(),
+  })
+  .partial()
+  .strict();
+
+/**
+ * Check the configurable options of an API request.
+ * @param configurable - Options from the request body
+ * @returns The validated options
+ * @throws JobError when an option is unknown, not settable over the API or
+ *         out of range
+ */
+function parseRunOptions(configurable: unknown): Record<string, any> {
+  const parsed = RunOptions.safeParse(configurable ?? {});
+  if (!parsed.success) {
+    throw new JobError(
+      `Invalid configurable options: ${parsed.error.issues
+        .map(
+          (issue) =>
+            `${issue.path.join(".") || "configurable"}: ${issue.message}`,
+        )
+        .join("; ")}`,
+      400,
+    );
+  }
+  return parsed.data;
+}
+
+/**
+ * Convert API messages into LangChain messages.
+ * @param messages - Messages with a role ("user" or "assistant") and content
+ * @returns LangChain messages
+ */
+function toLangChainMessages(messages: MessageInput[]): BaseMessage[] {
+  return messages.map(({ role, content }) => {
+    if (role === "user" || role === "human") return new HumanMessage(content);
+    if (role === "assistant" || role === "ai") return new AIMessage(content);
+    throw new JobError(`Unsupported message role: ${role}`, 400);
+  });
+}
+
+/**
+ * List the sources cited in a final report, in citation order.
+ *
+ * The report's Sources list is built from the source registry, so each
+ * "[n] Title: URL" entry resolves to its registered record.
+ * @param report - Final report
+ * @param registry - Source registry of the run
+ * @returns Cited sources with their IDs and retrieval times
+ */
+export function extractSources(
+  report: string,
+  registry: SourceRegistry,
+): SourceRecord[] {
+  const sources = new Map<string, SourceRecord>();
+  const pattern =
+    /^\s*[-*]?\s*\[\d+\]\s*(.*?):?\s*((?:https?|file):\/\/\S+)\s*$/gm;
+
+  for (const match of report.matchAll(pattern)) {
+    const source = findSourceByUrl(registry, match[2]!);
+    if (source && !sources.has(source.id)) {
+      sources.set(source.id, source);
+    }
+  }
+  return [...sources.values()];
+}
+
+export class JobManager {
+  private readonly graph = deepResearch;
+  private readonly jobs = new Map<string, JobRuntime>();
+
+  /**
+   * Start a research job from a conversation.
+   * @param messages - Conversation so far, usually a single user message
+   * @param configurable - Per-run configurable options (e.g. search_provider),
+   *   limited to those API callers may set
+   * @returns The new job
+   */
+  start(messages: MessageInput[], configurable: unknown = {}): Job {
+    const options = parseRunOptions(configurable);
+    const input = toLangChainMessages(messages);
+    if (input.length === 0) {
+      throw new JobError("At least one message is required", 400);
+    }
+
+    const now = new Date().toISOString();
+    const runtime: JobRuntime = {
+      job: {
+        id: randomUUID(),
+        status: "running",
+        createdAt: now,
+        updatedAt: now,
+        events: [],
+      },
+      configurable: options,
+      listeners: new Set(),
+    };
+    this.jobs.set(runtime.job.id, runtime);
+
+    void this.run(runtime, { messages: input });
+    return runtime.job;
+  }
+
+  /**
+   * Answer a job's clarification question and resume research on its thread.
+   * @param id - Job ID
+   * @param answer - The user's answer
+   * @returns The resumed job
+   */
+  answerClarification(id: string, answer: string): Job {
+    const runtime = this.getRuntime(id);
+    if (runtime.job.status !== "awaiting_clarification") {
+      throw new JobError(`Job ${id} is not waiting for clarification`, 409);
+    }
+
+    runtime.job.clarificationQuestion = undefined;
+    this.setStatus(runtime, "running");
+    void this.run(runtime, { messages: [new HumanMessage(answer)] });
+    return runtime.job;
+  }
+
+  /**
+   * Ask a follow-up question about a completed job's report.
+   *
+   * The question continues the job's thread: it is answered from the
+   * existing research, or researched further to revise the report.
+   * @param id - Job ID
+   * @param question - The follow-up question
+   * @returns The resumed job
+   */
+  followUp(id: string, question: string): Job {
+    const runtime = this.getRuntime(id);
+    if (runtime.job.status !== "completed") {
+      throw new JobError(`Job ${id} has not completed`, 409);
+    }
+
+    this.setStatus(runtime, "running");
+    void this.run(runtime, { messages: [new HumanMessage(question)] });
+    return runtime.job;
+  }
+
+  /**
+   * Approve, edit or reject the research brief of a job paused for review.
+   * @param id - Job ID
+   * @param decision - Brief review decision ({ action, research_brief?, feedback? })
+   * @returns The resumed job
+   */
+  reviewBrief(id: string, decision: Record<string, any>): Job {
+    const runtime = this.getRuntime(id);
+    if (runtime.job.status !== "awaiting_brief_review") {
+      throw new JobError(`Job ${id} is not waiting for a brief review`, 409);
+    }
+    const parsed = BriefReviewDecision.safeParse(decision);
+    if (!parsed.success) {
+      throw new JobError(`Invalid brief review: ${parsed.error.message}`, 400);
+    }
+
+    runtime.job.researchBrief = undefined;
+    this.setStatus(runtime, "running");
+    void this.run(runtime, new Command({ resume: parsed.data }));
+    return runtime.job;
+  }
+
+  /**
+   * Approve or edit the research plan of a job paused for review.
+   * @param id - Job ID
+   * @param decision - Plan review decision ({ action, research_plan? })
+   * @returns The resumed job
+   */
+  reviewPlan(id: string, decision: Record<string, any>): Job {
+    const runtime = this.getRuntime(id);
+    if (runtime.job.status !== "awaiting_plan_review") {
+      throw new JobError(`Job ${id} is not waiting for a plan review`, 409);
+    }
+    const parsed = PlanReviewDecision.safeParse(decision);
+    if (!parsed.success) {
+      throw new JobError(`Invalid plan review: ${parsed.error.message}`, 400);
+    }
+    if (parsed.data.action === "edit") {
+      const errors = validatePlan(parsed.data.research_plan);
+      if (errors.length > 0) {
+        throw new JobError(`Invalid research plan: ${errors.join("; ")}`, 400);
+      }
+    }
+
+    runtime.job.researchPlan = undefined;
+    this.setStatus(runtime, "running");
+    void this.run(runtime, new Command({ resume: parsed.data }));
+    return runtime.job;
+  }
+
+  /**
+   * Resume an interrupted job from its last completed super-step.
+   *
+   * Works for jobs that failed or were cancelled, and for threads started
+   * by a previous server process that are no longer in the job list.
+   * @param id - Job (thread) ID
+   * @param configurable - Per-run options for unknown jobs, limited to those
+   *   API callers may set
+   * @returns The resumed job
+   */
+  async resume(id: string, configurable: unknown = {}): Promise<Job> {
+    const options = parseRunOptions(configurable);
+    let runtime = this.jobs.get(id);
+    if (runtime && !TERMINAL_STATUSES.includes(runtime.job.status)) {
+      throw new JobError(`Job ${id} is still ${runtime.job.status}`, 409);
+    }
+    if (!(await hasPendingRun(this.graph, id))) {
+      throw new JobError(`Job ${id} has no interrupted run to resume`, 409);
+    }
+
+    if (!runtime) {
+      const now = new Date().toISOString();
+      runtime = {
+        job: {
+          id,
+          status: "running",
+          createdAt: now,
+          updatedAt: now,
+          events: [],
+        },
+        configurable: options,
+        listeners: new Set(),
+      };
+      this.jobs.set(id, runtime);
+    }
+    runtime.job.error = undefined;
+    this.setStatus(runtime, "running");
+
+    // A null input continues the thread from its last checkpoint
+    void this.run(runtime, null);
+    return runtime.job;
+  }
+
+  /**
+   * Cancel a running job.
+   * @param id - Job ID
+   * @returns The cancelled job
+   */
+  cancel(id: string): Job {
+    const runtime = this.getRuntime(id);
+    if (TERMINAL_STATUSES.includes(runtime.job.status)) {
+      throw new JobError(`Job ${id} has already finished`, 409);
+    }
+
+    runtime.controller?.abort();
+    this.setStatus(runtime, "cancelled");
+    return runtime.job;
+  }
+
+  get(id: string): Job {
+    return this.getRuntime(id).job;
+  }
+
+  list(): Job[] {
+    return [...this.jobs.values()].map(({ job }) => job);
+  }
+
+  /**
+   * Get the report, notes, sources and usage of a completed job.
+   * @param id - Job ID
+   * @returns Job result
+   */
+  async result(id: string): Promise<JobResult> {
+    const runtime = this.getRuntime(id);
+    if (runtime.job.status !== "completed") {
+      throw new JobError(`Job ${id} has not completed`, 409);
+    }
+
+    const { values } = await this.graph.getState({
+      configurable: { thread_id: id },
+    });
+    const finalReport: string = values.final_report ?? "";
+    const notes: string[] = values.notes ?? [];
+    return {
+      final_report: finalReport,
+      notes,
+      sources: extractSources(finalReport, values.sources ?? {}),
+      usage: summarizeUsage(values.usage ?? []),
+      degraded_summaries: values.degraded_summaries ?? [],
+      verification: values.verification,
+      follow_up: values.follow_up,
+      research_plan: values.research_plan,
+    };
+  }
+
+  /**
+   * Export the final report of a completed job.
+   * @param id - Job ID
+   * @param format - Report format; defaults to the job's `report_format` option
+   * @returns The exported report
+   */
+  async report(id: string, format?: string): Promise<ExportedReport> {
+    const runtime = this.getRuntime(id);
+    const selected =
+      format ?? runtime.configurable.report_format ?? reportFormat;
+    if (!isReportFormat(selected)) {
+      throw new JobError(`Unsupported report format: ${selected}`, 400);
+    }
+    if (runtime.job.status !== "completed") {
+      throw new JobError(`Job ${id} has not completed`, 409);
+    }
+
+    const { values } = await this.graph.getState({
+      configurable: { thread_id: id },
+    });
+    return await exportReport(
+      values.final_report ?? "",
+      selected,
+      values.sources ?? {},
+    );
+  }
+
+  /**
+   * Subscribe to a job's events. Past events are replayed first.
+   * @param id - Job ID
+   * @param listener - Called for every event
+   * @returns Function that removes the subscription
+   */
+  subscribe(id: string, listener: (event: JobEvent) => void): () => void {
+    const runtime = this.getRuntime(id);
+    runtime.job.events.forEach(listener);
+    runtime.listeners.add(listener);
+    return () => runtime.listeners.delete(listener);
+  }
+
+  private getRuntime(id: string): JobRuntime {
+    const runtime = this.jobs.get(id);
+    if (!runtime) {
+      throw new JobError(`Job ${id} not found`, 404);
+    }
+    return runtime;
+  }
+
+  private emit(runtime: JobRuntime, event: JobEvent): void {
+    runtime.job.events.push(event);
+    runtime.job.updatedAt = new Date().toISOString();
+    runtime.listeners.forEach((listener) => listener(event));
+  }
+
+  private setStatus(
+    runtime: JobRuntime,
+    status: JobStatus,
+    detail?: string,
+  ): void {
+    runtime.job.status = status;
+    this.emit(
+      runtime,
+      detail ? { type: "status", status, detail } : { type: "status", status },
+    );
+  }
+
+  /**
+   * Stream the graph on the job's thread until it completes or waits for the user.
+   * @param runtime - Job runtime
+   * @param input - Graph input for this leg of the conversation, a resume
+   *   command, or null to continue from the last checkpoint
+   */
+  private async run(
+    runtime: JobRuntime,
+    input: { messages: BaseMessage[] } | Command | null,
+  ): Promise<void> {
+    const controller = new AbortController();
+    runtime.controller = controller;
+    const config = {
+      configurable: { ...runtime.configurable, thread_id: runtime.job.id },
+    };
+
+    try {
+      const stream = await this.graph.stream(input, {
+        ...config,
+        streamMode: "updates",
+        subgraphs: true,
+        signal: controller.signal,
+      });
+      for await (const [namespace, chunk] of stream) {
+        for (const [node, update] of Object.entries(chunk ?? {})) {
+          if (node.startsWith("__")) continue; // e.g. __interrupt__
+          this.emit(runtime, {
+            type: "progress",
+            progress: toProgressEvent(namespace, node, update as any),
+          });
+        }
+      }
+
+      const { values, tasks } = await this.graph.getState(config);
+      const interrupts = tasks.flatMap((task) => task.interrupts ?? []);
+      const review = interrupts.find(
+        (item: any) => item.value?.type === "research_brief_review",
+      );
+      const planReview = interrupts.find(
+        (item: any) => item.value?.type === "research_plan_review",
+      );
+      const lastMessage = values.messages?.at(-1);
+
+      if (review) {
+        runtime.job.researchBrief = (review.value as any).research_brief;
+        this.setStatus(
+          runtime,
+          "awaiting_brief_review",
+          runtime.job.researchBrief,
+        );
+      } else if (planReview) {
+        runtime.job.researchPlan = (planReview.value as any).research_plan;
+        this.setStatus(
+          runtime,
+          "awaiting_plan_review",
+          formatPlan(runtime.job.researchPlan!),
+        );
+      } else if (
+        !values.research_brief &&
+        lastMessage &&
+        isAIMessage(lastMessage)
+      ) {
+        runtime.job.clarificationQuestion = String(lastMessage.content);
+        this.setStatus(
+          runtime,
+          "awaiting_clarification",
+          runtime.job.clarificationQuestion,
+        );
+      } else {
+        this.setStatus(runtime, "completed");
+      }
+    } catch (error) {
+      if (controller.signal.aborted) return;
+      console.error(`Error in research job ${runtime.job.id}:`, error);
+      runtime.job.error = String(error);
+      this.setStatus(runtime, "failed", runtime.job.error);
+    }
+  }
+}
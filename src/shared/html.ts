@@ -0,0 +1,75 @@
+/* Helpers for turning HTML into plain text */
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+  mdash: "—",
+  ndash: "–",
+  hellip: "…",
+  rsquo: "’",
+  lsquo: "‘",
+  rdquo: "”",
+  ldquo: "“",
+};
+
+/**
+ * Decode the HTML entities that commonly appear in page text.
+ * @param text - Text containing HTML entities
+ * @returns Text with entities replaced by their characters
+ */
+export function decodeHtmlEntities(text: string): string {
+  return text.replace(/&(#x?[0-9a-f]+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity.startsWith("#x") || entity.startsWith("#X")) {
+      return String.fromCodePoint(parseInt(entity.slice(2), 16));
+    }
+    if (entity.startsWith("#")) {
+      return String.fromCodePoint(parseInt(entity.slice(1), 10));
+    }
+    return NAMED_ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+/**
+ * Extract the document title from an HTML page.
+ * @param html - Raw HTML
+ * @returns The <title> text, if present
+ */
+export function extractHtmlTitle(html: string): string | undefined {
+  const match = html.match(/<title[^>]*>([\s\S]*?)<\/title>/i);
+  return match?.[1] ? decodeHtmlEntities(match[1]).trim() : undefined;
+}
+
+/**
+ * Convert HTML into readable plain text.
+ *
+ * Drops scripts, styles and other non-content elements, keeps block
+ * boundaries as line breaks and collapses the remaining whitespace.
+ * @param html - Raw HTML
+ * @returns Plain text content
+ */
+export function htmlToText(html: string): string {
+  const text = html
+    .replace(/<!--[\s\S]*?-->/g, "")
+    .replace(
+      /<(head|script|style|noscript|template|svg|iframe)[^>]*>[\s\S]*?<\/\1>/gi,
+      "",
+    )
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(
+      /<\/(p|div|section|article|li|tr|h[1-6]|blockquote|pre|table|ul|ol)>/gi,
+      "\n\n",
+    )
+    .replace(/<li[^>]*>/gi, "- ")
+    .replace(/<[^>]+>/g, "");
+
+  return decodeHtmlEntities(text)
+    .split("\n")
+    .map((line) => line.replace(/[ \t\f\v ]+/g, " ").trim())
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
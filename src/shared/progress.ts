@@ -0,0 +1,77 @@
+/* Progress events derived from graph stream updates */
+
+import {
+  AIMessage,
+  BaseMessage,
+  isAIMessage,
+  isBaseMessage,
+} from "@langchain/core/messages";
+
+export type ProgressEvent = {
+  // Node path from the top-level graph, e.g. ["supervisor_subgraph", "supervisor"]
+  path: string[];
+  node: string;
+  // Tool calls made in this update, with a short description of their input
+  tool_calls: { name: string; detail: string }[];
+  timestamp: string;
+};
+
+/**
+ * Turn a node's state update from `stream(..., { streamMode: "updates", subgraphs: true })`
+ * into a progress event.
+ * @param namespace - Subgraph namespace of the node, empty for the top-level graph
+ * @param node - Node name
+ * @param update - State update returned by the node
+ * @returns Progress event for the update
+ */
+export function toProgressEvent(
+  namespace: string[],
+  node: string,
+  update: Record<string, any> | null,
+): ProgressEvent {
+  const path = [...namespace.map((ns) => ns.split(":")[0]!), node];
+  const event: ProgressEvent = {
+    path,
+    node,
+    tool_calls: [],
+    timestamp: new Date().toISOString(),
+  };
+
+  // A subgraph node's update repeats every message its inner nodes produced
+  if (node.endsWith("_subgraph")) {
+    return event;
+  }
+
+  const messages: BaseMessage[] = [
+    ...(update?.messages ?? []),
+    ...(update?.supervisor_messages ?? []),
+    ...(update?.researcher_messages ?? []),
+  ];
+  event.tool_calls = messages
+    .filter((message) => isBaseMessage(message) && isAIMessage(message))
+    .flatMap((message) => (message as AIMessage).tool_calls ?? [])
+    .map((toolCall) => {
+      const args = toolCall.args ?? {};
+      const detail =
+        args.research_topic ??
+        args.query ??
+        args.url ??
+        args.reflection ??
+        (args.sub_questions ?? []).map((item: any) => item.id).join(", ");
+      return { name: toolCall.name, detail: String(detail).slice(0, 120) };
+    });
+
+  return event;
+}
+
+/**
+ * Format a progress event as a line of terminal output.
+ * @param event - Progress event
+ * @returns Human-readable progress line
+ */
+export function formatProgressEvent(event: ProgressEvent): string {
+  const details = event.tool_calls.map(
+    ({ name, detail }) => `\n    - ${name}${detail ? `: ${detail}` : ""}`,
+  );
+  return `▸ ${event.path.join(" > ")}${details.join("")}`;
+}
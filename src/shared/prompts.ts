@@ -1,6 +1,6 @@
 /* Unified storage of prompts for deep research */
 
-import { getToday } from "../utils";
+import { getToday } from "../utils.js";
 
 export const clarifyWithUserInstructions = `These are the messages that have been exchanged so far from the user asking for the report:
 <Messages>
@@ -84,6 +84,18 @@ Guidelines:
 - If the query is in a specific language, prioritize sources published in that language.
 `;
 
+export const researchBriefFeedbackPrompt = `
+A reviewer rejected the previous version of the research question. Write a new research question that addresses their feedback.
+
+<Previous Research Question>
+{research_brief}
+</Previous Research Question>
+
+<Reviewer Feedback>
+{feedback}
+</Reviewer Feedback>
+`;
+
 export const summarizeWebpagePrompt = `You are tasked with summarizing the raw content of a webpage retrieved from a web search. Your goal is to create a summary that preserves the most important information from the original web page. This summary will be used by a downstream research agent, so it's crucial to maintain the key details without losing essential information.
 
 Here is the raw content of the webpage:
@@ -150,9 +162,19 @@ You can use any of the tools provided to you to find resources that can help ans
 </Task>
 
 <Available Tools>
-You have access to two main tools:
-1. **tavily_search**: For conducting web searches to gather information
-2. **think_tool**: For reflection and strategic planning during research
+You have access to six main tools:
+1. **search_knowledge**: For looking up what this research run has already found: sources retrieved by other researchers and their findings
+2. **tavily_search**: For conducting web searches to gather information
+3. **local_search**: For searching the local corpus of internal documents (PDF, Markdown, HTML and text files)
+4. **fetch_url**: For reading a specific page, e.g. a promising link mentioned in a search result
+5. **crawl_site**: For reading several pages of one site, e.g. a documentation site, by following its links
+6. **think_tool**: For reflection and strategic planning during research
+
+Use search_knowledge before searching the web. Sources it returns can be cited by their source IDs without retrieving them again; search the web only for what the run has not covered yet.
+
+Use local_search when the topic may be covered by internal documents. Local documents have source IDs and are cited just like web pages.
+Use fetch_url and crawl_site when a search result points to a page or site worth reading in full. Fetched pages have source IDs and are cited just like search results.
+Web sources show a CREDIBILITY score from 0 to 1, based on the domain's reputation, recency, search relevance and corroboration by other sites. Prefer well-scored sources, and look for corroboration before relying on a low-scoring one.
 
 **CRITICAL: Use think_tool after each search to reflect on results and plan next steps**
 </Available Tools>
@@ -172,6 +194,7 @@ Think like a human researcher with limited time. Follow these steps:
 - **Simple queries**: Use 2-3 search tool calls maximum
 - **Complex queries**: Use up to 5 search tool calls maximum
 - **Always stop**: After 5 search tool calls if you cannot find the right sources
+- **Hard cap**: You can make at most {max_react_tool_calls} tool calls in total, including think_tool. After that your findings are collected automatically
 
 **Stop Immediately When**:
 - You can answer the user's question comprehensively
@@ -199,7 +222,7 @@ Only these fully comprehensive cleaned findings are going to be returned to the
 
 <Tool Call Filtering>
 **IMPORTANT**: When processing the research messages, focus only on substantive research content:
-- **Include**: All tavily_search results and findings from web searches
+- **Include**: All tavily_search and local_search results and findings from web searches and local documents
 - **Exclude**: think_tool calls and responses - these are internal agent reflections for decision-making and should not be included in the final research report
 - **Focus on**: Actual information gathered from external sources, not the agent's internal reasoning process
 
@@ -223,12 +246,13 @@ The report should be structured like this:
 </Output Format>
 
 <Citation Rules>
-- Assign each unique URL a single citation number in your text
-- End with ### Sources that lists each source with corresponding numbers
-- IMPORTANT: Number sources sequentially without gaps (1,2,3,4...) in the final list regardless of which sources you choose
+- Every search result is labelled with a source ID, e.g. "--- SOURCE src-1a2b3c4d: Title ---"
+- Cite a source inline with its ID in square brackets, e.g. [src-1a2b3c4d]. Never number sources yourself or invent IDs
+- End with ### Sources that lists each cited source with its ID
 - Example format:
-  [1] Source Title: URL
-  [2] Source Title: URL
+  [src-1a2b3c4d] Source Title: URL
+  [src-5e6f7a8b] Source Title: URL
+- Local documents found with local_search are sources too: cite them with their source ID in the same way
 </Citation Rules>
 
 Critical Reminder: It is extremely important that any information that is even remotely relevant to the user's research topic is preserved verbatim (e.g. don't rewrite it, don't summarize it, don't paraphrase it).
@@ -250,6 +274,56 @@ CRITICAL REQUIREMENTS:
 
 The cleaned findings will be used for final report generation, so comprehensiveness is critical.`;
 
+export const compressResearchChunkMessage = `Below is part {part} of {parts} of the messages of research conducted by an AI Researcher for the following research topic. The research was too long to clean up at once, so each part is cleaned up on its own and the results are merged afterwards.
+
+RESEARCH TOPIC: {research_topic}
+
+<Research Messages>
+{transcript}
+</Research Messages>
+
+Clean up the findings in this part by the same rules: preserve ALL relevant information verbatim, cite every source by its source ID, and end with ### Sources listing each source of this part.`;
+
+export const mergeCompressedResearchMessage = `The research conducted by an AI Researcher for the following research topic was too long to clean up at once, so it was cleaned up in parts. Merge the cleaned-up parts below into one set of findings.
+
+RESEARCH TOPIC: {research_topic}
+
+<Cleaned-up Parts>
+{findings}
+</Cleaned-up Parts>
+
+CRITICAL REQUIREMENTS:
+- Only remove information that is repeated across parts; preserve everything else verbatim
+- Keep every source ID citation, e.g. [src-1a2b3c4d], exactly as written
+- End with a single ### Sources section that lists every source of every part`;
+
+export const condenseHistoryPrompt = `You are keeping the running notes of an AI Researcher whose conversation has grown too long. The oldest rounds of its research are being removed from the conversation, and your notes are all it will remember of them. For context, today's date is {date}.
+
+<Task>
+Update the current notes with the information gathered in the research messages below, and return the complete updated notes.
+</Task>
+
+<Guidelines>
+1. Keep every fact, figure, name and date relevant to the research topic, verbatim where possible
+2. Cite every statement with the source ID it came from, e.g. [src-1a2b3c4d]; never invent IDs
+3. Record the queries and pages already searched or read, so they are not repeated
+4. Keep the researcher's open questions and planned next steps
+5. Leave out think_tool reflections that are no longer relevant and anything unrelated to the topic
+6. End with ### Sources listing every source ID with its title and URL, e.g. [src-1a2b3c4d] Title: URL
+</Guidelines>`;
+
+export const condenseHistoryHumanMessage = `RESEARCH TOPIC: {research_topic}
+
+<Current Notes>
+{notes}
+</Current Notes>
+
+<Research Messages>
+{transcript}
+</Research Messages>`;
+
+export const runningNotesHeading = `Notes on your earlier research rounds, which were condensed to save space. The sources they cite can still be cited by their source IDs:`;
+
 export const leadResearcherPrompt = `You are a research supervisor. Your job is to conduct research by calling the "ConductResearch" tool. For context, today's date is {date}.
 
 <Task>
@@ -258,15 +332,29 @@ When you are completely satisfied with the research findings returned from the t
 </Task>
 
 <Available Tools>
-You have access to three main tools:
+You have access to four main tools:
 1. **ConductResearch**: Delegate research tasks to specialized sub-agents
-2. **ResearchComplete**: Indicate that research is complete
-3. **think_tool**: For reflection and strategic planning during research
+2. **UpdateResearchPlan**: Create and update the research plan of sub-questions
+3. **ResearchComplete**: Indicate that research is complete
+4. **think_tool**: For reflection and strategic planning during research
 
 **CRITICAL: Use think_tool before calling ConductResearch to plan your approach, and after each ConductResearch to assess progress**
 **PARALLEL RESEARCH**: When you identify multiple independent sub-topics that can be explored simultaneously, make multiple ConductResearch tool calls in a single response to enable parallel research execution. This is more efficient than sequential research for comparative or multi-faceted questions. Use at most {max_concurrent_research_units} parallel agents per iteration.
 </Available Tools>
 
+<Research Plan>
+For questions with several parts, first break the research brief into sub-questions with UpdateResearchPlan. Give each sub-question a short ID (q1, q2, ...), a priority from 1 (highest) to 5, and the IDs of the sub-questions whose findings it needs first.
+- Pass the sub_question_id when calling ConductResearch for a sub-question. Sub-questions are researched after their prerequisites, which may be delegated in the same response, and their researchers receive the prerequisite findings.
+- Update the plan as you learn: add sub-questions for gaps, change priorities, and drop sub-questions that are no longer needed.
+- The plan may also be edited by a reviewer between your turns. Always follow the current plan below.
+
+Current plan:
+{research_plan}
+
+Coverage of the research so far:
+{coverage}
+</Research Plan>
+
 <Instructions>
 Think like a research manager with limited time and resources. Follow these steps:
 
@@ -304,7 +392,8 @@ After each ConductResearch tool call, use think_tool to analyze the results:
 **Important Reminders:**
 - Each ConductResearch call spawns a dedicated research agent for that specific topic
 - A separate agent will write the final report - you just need to gather information
-- When calling ConductResearch, provide complete standalone instructions - sub-agents can't see other agents' work
+- When calling ConductResearch, provide complete standalone instructions - sub-agents only see other agents' work by searching the run's knowledge store
+- Check the coverage before delegating, and don't delegate research for sub-questions that are already answered
 - Do NOT use acronyms or abbreviations in your research questions, be very clear and specific
 </Scaling Rules>`;
 
@@ -327,9 +416,9 @@ Here are the findings from the research that you conducted:
 Please create a detailed answer to the overall research brief that:
 1. Is well-organized with proper headings (# for title, ## for sections, ### for subsections)
 2. Includes specific facts and insights from the research
-3. References relevant sources using [Title](URL) format
+3. Cites relevant sources inline with their source IDs from the findings, e.g. [src-1a2b3c4d]
 4. Provides a balanced, thorough analysis. Be as comprehensive as possible, and include all information that is relevant to the overall research question. People are using you for deep research and will expect detailed, comprehensive answers.
-5. Includes a "Sources" section at the end with all referenced links
+5. Does not include a "Sources" section; it is generated from the cited source IDs
 
 You can structure your report in a number of different ways. Here are some examples:
 
@@ -375,16 +464,193 @@ Make sure the final answer report is in the SAME language as the human messages
 Format the report in clear markdown with proper structure and include source references where appropriate.
 
 <Citation Rules>
-- Assign each unique URL a single citation number in your text
-- End with ### Sources that lists each source with corresponding numbers
-- IMPORTANT: Number sources sequentially without gaps (1,2,3,4...) in the final list regardless of which sources you choose
-- Each source should be a separate line item in a list, so that in markdown it is rendered as a list.
-- Example format:
-  [1] Source Title: URL
-  [2] Source Title: URL
+- Cite each statement with the source IDs that support it, exactly as they appear in the findings, e.g. [src-1a2b3c4d] or [src-1a2b3c4d, src-5e6f7a8b]
+- Only cite source IDs that appear in the findings. Never invent IDs, citation numbers or URLs
+- Do not write a Sources section: citations are numbered and the Sources list is built from the cited IDs after you finish
+- Local documents are cited by their source ID in the same way as web pages.
 - Citations are extremely important. Make sure to include these, and pay a lot of attention to getting these right. Users will often use these citations to look into more information.
 </Citation Rules>`;
 
+export const reportOutlinePrompt = `You are planning a research report that answers the research brief below. The research notes are too long to write the report in one pass, so it will be written section by section, each section from only the notes you assign to it.
+<Research Brief>
+{research_brief}
+</Research Brief>
+
+Today's date is {date}.
+
+Here are the numbered research notes, each shortened to its beginning:
+<Notes>
+{notes}
+</Notes>
+
+Plan the report:
+1. Give it a title in the same language as the research brief
+2. List its body sections in reading order, each with a heading and one or two sentences on what it covers. Do not plan an introduction or conclusion; they are written separately
+3. Assign each section the numbers of the notes it draws on. A note may serve several sections, and every note relevant to the brief should be assigned to at least one section
+4. Keep sections distinct and non-overlapping, and use as many as the brief needs, typically 3 to 8`;
+
+export const reportSectionPrompt = `You are writing one section of a research report that answers the research brief below. The other sections are written separately from their own notes.
+<Research Brief>
+{research_brief}
+</Research Brief>
+
+Today's date is {date}.
+
+<Report Outline>
+{outline}
+</Report Outline>
+
+Write the section: {section}
+
+Here are the research notes for this section:
+<Notes>
+{notes}
+</Notes>
+
+Write the body of this section:
+- Include all specific facts, figures and insights from the notes that belong to this section, and nothing that belongs to other sections of the outline
+- Start directly with the content: do not repeat the section heading, and use ### for subsections
+- Do not write an introduction or conclusion for the whole report, and never refer to yourself or to the report's other sections by number
+- Write in paragraph form, using bullet points or tables where they help; be as thorough as the notes allow
+- Write in the same language as the research brief
+
+<Citation Rules>
+- Cite each statement with the source IDs that support it, exactly as they appear in the notes, e.g. [src-1a2b3c4d] or [src-1a2b3c4d, src-5e6f7a8b]
+- Only cite source IDs that appear in the notes. Never invent IDs, citation numbers or URLs
+- Do not write a Sources section
+</Citation Rules>`;
+
+export const reportFramingPrompt = `You are finishing a research report that answers the research brief below. Its sections were written separately; write the introduction and conclusion that frame them.
+<Research Brief>
+{research_brief}
+</Research Brief>
+
+Today's date is {date}.
+
+Report title: {title}
+
+Here are the report's sections, each shortened to its beginning:
+<Sections>
+{sections}
+</Sections>
+
+- The introduction states the question the report answers and previews its sections in order, in one to three paragraphs
+- The conclusion draws the sections together into a direct answer to the research brief, without introducing new facts
+- Cite source IDs only where you repeat a cited statement, exactly as they appear in the sections, e.g. [src-1a2b3c4d]
+- Write in the same language as the research brief, and never refer to yourself as the writer`;
+
+export const followUpPrompt = `The user has sent a follow-up message about a research report that was already delivered. For context, today's date is {date}.
+
+<Research Brief>
+{research_brief}
+</Research Brief>
+
+<Report>
+{report}
+</Report>
+
+<Research Notes>
+{notes}
+</Research Notes>
+
+<Follow-up>
+{question}
+</Follow-up>
+
+Decide how to handle the follow-up:
+- answer: the report and research notes already contain what is needed. Write the answer directly, in the language of the follow-up, citing the source IDs from the notes, e.g. [src-1a2b3c4d]. Do not make up facts that are not in the notes.
+- revise: new research is needed and its results change the report as a whole, e.g. the user corrects the scope or asks to go deeper on its main topic.
+- addendum: new research is needed to answer a narrower question that the report does not cover; the result is added to the report as a new section.
+
+When new research is needed, list at most {max_topics} research tasks. Scope each one narrowly to what is missing, since everything in the notes is already known, and describe it in enough detail for a researcher who has not seen the report.`;
+
+export const followUpRevisionPrompt = `Revise the research report below to address the user's follow-up, using the findings of the additional research. For context, today's date is {date}.
+
+<Report>
+{report}
+</Report>
+
+<Follow-up>
+{question}
+</Follow-up>
+
+<New Findings>
+{findings}
+</New Findings>
+
+Return the complete revised report:
+- Integrate the new findings where they belong and update anything they correct or extend
+- Keep the existing structure, wording and citation markers such as [1] or [2, 3] wherever they remain accurate
+- Cite new statements with the source IDs from the new findings, e.g. [src-1a2b3c4d]
+- Do not write a Sources section; it is rebuilt from the citations`;
+
+export const followUpAddendumPrompt = `Write an addendum to the research report below that answers the user's follow-up, using the findings of the additional research. For context, today's date is {date}.
+
+<Report>
+{report}
+</Report>
+
+<Follow-up>
+{question}
+</Follow-up>
+
+<New Findings>
+{findings}
+</New Findings>
+
+Write a single section that starts with a "## " heading naming what it covers:
+- Answer the follow-up thoroughly without repeating what the report already says
+- Cite statements with the source IDs from the new findings, e.g. [src-1a2b3c4d], or with the report's citation numbers for what it already covers
+- Write in the language of the follow-up
+- Do not write a Sources section; it is rebuilt from the citations
+
+Return only the section.`;
+
+export const claimExtractionPrompt = `You are fact-checking a research report. List the factual claims it makes so each can be checked against the research evidence.
+
+<Report>
+{report}
+</Report>
+
+Guidelines:
+- Extract at most {max_claims} claims, most important first: numbers, dates, names, rankings, causal statements and comparisons
+- Each claim must be a single statement that can be checked on its own; resolve pronouns and keep the report's wording where possible
+- Skip opinions, recommendations, definitions and statements about the report itself
+- For each claim, give the citation numbers the report attaches to it, e.g. [2, 5]; leave them empty when the claim is uncited`;
+
+export const claimVerificationPrompt = `You are fact-checking claims from a research report against the evidence gathered during research. For context, today's date is {date}.
+
+<Claims>
+{claims}
+</Claims>
+
+Each claim is followed by the evidence found for it: excerpts of the sources the report cites for it, and the most relevant passages of the research notes.
+
+Give a verdict for every claim:
+- supported: the evidence states the claim, or it follows directly from the evidence
+- unsupported: the evidence does not establish the claim, even if it might be true
+- contradicted: the evidence states something incompatible with the claim, e.g. a different number or date
+
+Judge only against the evidence shown, not your own knowledge. Minor rounding or paraphrasing still counts as supported.`;
+
+export const reportRevisionPrompt = `You are revising a research report after a fact check. Some of its claims are not supported by the research evidence, or are contradicted by it.
+
+<Report>
+{report}
+</Report>
+
+<Failed Claims>
+{claims}
+</Failed Claims>
+
+Rewrite the report so that:
+1. Contradicted claims are corrected to match the evidence when the explanation states what the evidence says, and removed otherwise
+2. Unsupported claims are removed, or clearly qualified (e.g. "reportedly", "could not be confirmed") when the surrounding text depends on them
+3. Everything else stays exactly as it is: structure, headings, wording and citation markers such as [1] or [2, 3]
+4. The Sources section is left out; it is rebuilt from the citations
+
+Return only the revised report.`;
+
 export function createClarifyWithUserInstructions(
   messages: string,
   date: string = getToday(),
@@ -403,6 +669,15 @@ export function createTransformMessagesIntoResearchTopicInstructions(
     .replace("{date}", date);
 }
 
+export function createResearchBriefFeedbackInstructions(
+  researchBrief: string,
+  feedback: string,
+): string {
+  return researchBriefFeedbackPrompt
+    .replace("{research_brief}", researchBrief)
+    .replace("{feedback}", feedback);
+}
+
 export function createSummarizeWebpagePrompt(
   webpageContent: string,
   date: string = getToday(),
@@ -412,8 +687,13 @@ export function createSummarizeWebpagePrompt(
     .replace("{date}", date);
 }
 
-export function createResearchAgentPrompt(date: string = getToday()): string {
-  return researchAgentPrompt.replace("{date}", date);
+export function createResearchAgentPrompt(
+  date: string = getToday(),
+  max_react_tool_calls: string = "10",
+): string {
+  return researchAgentPrompt
+    .replace("{date}", date)
+    .replace("{max_react_tool_calls}", max_react_tool_calls);
 }
 
 export function createCompressResearchSystemPrompt(
@@ -431,15 +711,58 @@ export function createCompressResearchHumanMessage(
   );
 }
 
+export function createCompressResearchChunkMessage(
+  researchTopic: string,
+  transcript: string,
+  part: number,
+  parts: number,
+): string {
+  return compressResearchChunkMessage
+    .replace("{part}", String(part))
+    .replace("{parts}", String(parts))
+    .replace("{research_topic}", researchTopic)
+    .replace("{transcript}", () => transcript);
+}
+
+export function createMergeCompressedResearchMessage(
+  researchTopic: string,
+  findings: string[],
+): string {
+  return mergeCompressedResearchMessage
+    .replace("{research_topic}", researchTopic)
+    .replace("{findings}", () =>
+      findings.map((part, i) => `--- PART ${i + 1} ---\n${part}`).join("\n\n"),
+    );
+}
+
+export function createCondenseHistoryPrompt(date: string = getToday()): string {
+  return condenseHistoryPrompt.replace("{date}", date);
+}
+
+export function createCondenseHistoryHumanMessage(
+  researchTopic: string,
+  notes: string,
+  transcript: string,
+): string {
+  return condenseHistoryHumanMessage
+    .replace("{research_topic}", researchTopic)
+    .replace("{notes}", () => notes || "No notes yet.")
+    .replace("{transcript}", () => transcript);
+}
+
 export function createLeadResearcherPrompt(
   date: string = getToday(),
   max_concurrent_research_units: string,
   max_researcher_iterations: string,
+  research_plan: string = "No research plan yet.",
+  coverage: string = "Nothing has been researched yet.",
 ): string {
   return leadResearcherPrompt
     .replace("{date}", date)
     .replace("{max_concurrent_research_units}", max_concurrent_research_units)
-    .replace("{max_researcher_iterations}", max_researcher_iterations);
+    .replace("{max_researcher_iterations}", max_researcher_iterations)
+    .replace("{research_plan}", research_plan)
+    .replace("{coverage}", coverage);
 }
 
 export function createFinalReportGenerationPrompt(
@@ -452,3 +775,100 @@ export function createFinalReportGenerationPrompt(
     .replace("{findings}", findings)
     .replace("{date}", date);
 }
+
+export function createReportOutlinePrompt(
+  researchBrief: string,
+  notes: string,
+  date: string = getToday(),
+): string {
+  return reportOutlinePrompt
+    .replace("{research_brief}", researchBrief)
+    .replace("{date}", date)
+    .replace("{notes}", () => notes);
+}
+
+export function createReportSectionPrompt(
+  researchBrief: string,
+  outline: string,
+  section: string,
+  notes: string,
+  date: string = getToday(),
+): string {
+  return reportSectionPrompt
+    .replace("{research_brief}", researchBrief)
+    .replace("{date}", date)
+    .replace("{outline}", () => outline)
+    .replace("{section}", () => section)
+    .replace("{notes}", () => notes);
+}
+
+export function createReportFramingPrompt(
+  researchBrief: string,
+  title: string,
+  sections: string,
+  date: string = getToday(),
+): string {
+  return reportFramingPrompt
+    .replace("{research_brief}", researchBrief)
+    .replace("{date}", date)
+    .replace("{title}", () => title)
+    .replace("{sections}", () => sections);
+}
+
+export function createClaimExtractionPrompt(
+  report: string,
+  maxClaims: number,
+): string {
+  return claimExtractionPrompt
+    .replace("{report}", report)
+    .replace("{max_claims}", String(maxClaims));
+}
+
+export function createClaimVerificationPrompt(
+  claims: string,
+  date: string = getToday(),
+): string {
+  return claimVerificationPrompt
+    .replace("{claims}", claims)
+    .replace("{date}", date);
+}
+
+export function createReportRevisionPrompt(
+  report: string,
+  claims: string,
+): string {
+  return reportRevisionPrompt
+    .replace("{report}", report)
+    .replace("{claims}", claims);
+}
+
+export function createFollowUpPrompt(
+  researchBrief: string,
+  report: string,
+  notes: string,
+  question: string,
+  maxTopics: number,
+  date: string = getToday(),
+): string {
+  return followUpPrompt
+    .replace("{research_brief}", researchBrief)
+    .replace("{report}", report)
+    .replace("{notes}", notes)
+    .replace("{question}", question)
+    .replace("{max_topics}", String(maxTopics))
+    .replace("{date}", date);
+}
+
+export function createFollowUpReportPrompt(
+  mode: "revise" | "addendum",
+  report: string,
+  question: string,
+  findings: string,
+  date: string = getToday(),
+): string {
+  return (mode === "revise" ? followUpRevisionPrompt : followUpAddendumPrompt)
+    .replace("{report}", report)
+    .replace("{question}", question)
+    .replace("{findings}", findings)
+    .replace("{date}", date);
+}
@@ -13,6 +13,64 @@ import {
 } from "@langchain/langgraph";
 import { BaseMessage } from "@langchain/core/messages";
 import { tool } from "@langchain/core/tools";
+import { mergeSources, SourceRegistry } from "../sources/index.js";
+import { mergeUsage, UsageRecord } from "../usage/index.js";
+import { emptyPlan, ResearchPlan } from "../research-plan/index.js";
+import { mergeFindings, ResearchFinding } from "../knowledge/index.js";
+
+// A webpage whose summarization failed, so researchers only saw its start.
+export type DegradedSummary = {
+  url: string;
+  error: string;
+};
+
+/**
+ * Merge degraded summaries, keeping one entry per URL.
+ * @param current - Degraded summaries in state
+ * @param update - Degraded summaries to add
+ * @returns Merged list, with the latest error for each URL
+ */
+function mergeDegradedSummaries(
+  current: DegradedSummary[],
+  update: DegradedSummary[] | undefined,
+): DegradedSummary[] {
+  if (!update?.length) return current;
+  const urls = new Set(update.map((item) => item.url));
+  return current.filter((item) => !urls.has(item.url)).concat(update);
+}
+
+export type ClaimStatus = "supported" | "unsupported" | "contradicted";
+
+// A factual claim of the final report and how the evidence bears on it.
+export type VerifiedClaim = {
+  claim: string;
+  status: ClaimStatus;
+  explanation: string;
+  // IDs of the sources the report cites for the claim
+  sources: string[];
+};
+
+// Result of fact-checking the final report.
+export type ReportVerification = {
+  mode: "appendix" | "revise";
+  claims: VerifiedClaim[];
+  supported: number;
+  unsupported: number;
+  contradicted: number;
+  // Whether the report was rewritten to remove or qualify claims
+  revised: boolean;
+};
+
+// A message sent on a thread whose report is already finished.
+export type FollowUp = {
+  question: string;
+  // How it was handled: answered from the existing research, or researched
+  // further and written into a revised report or an addendum
+  action: "answer" | "revise" | "addendum";
+  answer?: string | undefined;
+  // Compressed findings of the follow-up research
+  findings?: string[] | undefined;
+};
 
 // ===== SCOPING STATE DEFINITIONS =====
 
@@ -48,6 +106,46 @@ export const AgentState = Annotation.Root({
   final_report: Annotation<string>({
     reducer: (x: string, y: string) => y ?? x,
   }),
+  // Reviewer feedback on a rejected research brief, cleared once approved
+  brief_feedback: Annotation<string | undefined>({
+    reducer: (x: string | undefined, y: string | undefined) => y ?? x,
+  }),
+  // Registry of every source retrieved during research, keyed by source ID
+  sources: Annotation<SourceRegistry>({
+    reducer: mergeSources,
+    default: () => ({}),
+  }),
+  // Findings of every finished research task, with the sources they cite
+  findings: Annotation<ResearchFinding[]>({
+    reducer: mergeFindings,
+    default: () => [],
+  }),
+  // Token, cost and search usage of every call made during the run
+  usage: Annotation<UsageRecord[]>({
+    reducer: mergeUsage,
+    default: () => [],
+  }),
+  // Webpages that could not be summarized during research
+  degraded_summaries: Annotation<DegradedSummary[]>({
+    reducer: mergeDegradedSummaries,
+    default: () => [],
+  }),
+  // Sub-questions the supervisor planned and researched
+  research_plan: Annotation<ResearchPlan | undefined>({
+    reducer: (x: ResearchPlan | undefined, y: ResearchPlan | undefined) =>
+      y ?? x,
+  }),
+  // Latest follow-up on the finished report
+  follow_up: Annotation<FollowUp | undefined>({
+    reducer: (x: FollowUp | undefined, y: FollowUp | undefined) => y ?? x,
+  }),
+  // Claim-level fact check of the final report, unless verification is off
+  verification: Annotation<ReportVerification | undefined>({
+    reducer: (
+      x: ReportVerification | undefined,
+      y: ReportVerification | undefined,
+    ) => y ?? x,
+  }),
 });
 
 // ===== SCOPING STRUCTURED OUTPUT SCHEMAS =====
@@ -74,6 +172,33 @@ export const ResearchQuestion = z.object({
     .describe("A research question that will be used to guide the research."),
 });
 
+// Schema for the reviewer's decision on a generated research brief, passed
+// as the resume value of the brief review interrupt.
+export const BriefReviewDecision = z.discriminatedUnion("action", [
+  z.object({ action: z.literal("approve") }),
+  z.object({
+    action: z.literal("edit"),
+    research_brief: z.string().min(1).describe("The edited research brief."),
+  }),
+  z.object({
+    action: z.literal("reject"),
+    feedback: z
+      .string()
+      .min(1)
+      .describe("What to change when regenerating the brief."),
+  }),
+]);
+
+// Schema for the reviewer's decision on the supervisor's research plan,
+// passed as the resume value of the plan review interrupt.
+export const PlanReviewDecision = z.discriminatedUnion("action", [
+  z.object({ action: z.literal("approve") }),
+  z.object({
+    action: z.literal("edit"),
+    research_plan: ResearchPlan.describe("The edited research plan."),
+  }),
+]);
+
 // ===== RESEARCHER STATE DEFINITIONS =====
 
 // State for the researh agent containing message history and research metadata.
@@ -93,14 +218,37 @@ export const ResearcherState = Annotation.Root({
     reducer: (x: string, y: string) => y ?? x,
     default: () => "",
   }),
+  // Identifies the researcher in usage records (the ConductResearch call ID)
+  researcher_id: Annotation<string>({
+    reducer: (x: string, y: string) => y ?? x,
+    default: () => "",
+  }),
   compressed_research: Annotation<string>({
     reducer: (x: string, y: string) => y ?? x,
     default: () => "",
   }),
+  // Notes standing in for the older rounds of researcher_messages, which are
+  // condensed once the history grows too long
+  running_notes: Annotation<string>({
+    reducer: (x: string, y: string) => y ?? x,
+    default: () => "",
+  }),
   raw_notes: Annotation<string[]>({
     reducer: (x: string[], y: string[]) => x.concat(y),
     default: () => [],
   }),
+  sources: Annotation<SourceRegistry>({
+    reducer: mergeSources,
+    default: () => ({}),
+  }),
+  usage: Annotation<UsageRecord[]>({
+    reducer: mergeUsage,
+    default: () => [],
+  }),
+  degraded_summaries: Annotation<DegradedSummary[]>({
+    reducer: mergeDegradedSummaries,
+    default: () => [],
+  }),
 });
 
 // Output state for the research agent containing final research results.
@@ -119,6 +267,18 @@ export const ResearcherOutputState = Annotation.Root({
     reducer: addMessages,
     default: () => [],
   }),
+  sources: Annotation<SourceRegistry>({
+    reducer: mergeSources,
+    default: () => ({}),
+  }),
+  usage: Annotation<UsageRecord[]>({
+    reducer: mergeUsage,
+    default: () => [],
+  }),
+  degraded_summaries: Annotation<DegradedSummary[]>({
+    reducer: mergeDegradedSummaries,
+    default: () => [],
+  }),
 });
 
 // ===== RESEARCHER STRUCTURED OUTPUT SCHEMAS =====
@@ -131,6 +291,106 @@ export const Summary = z.object({
     .describe("Important quotes and excerpts from the content"),
 });
 
+// ===== FOLLOW-UP STRUCTURED OUTPUT SCHEMAS =====
+
+// Schema for deciding how to handle a follow-up on a finished report.
+export const FollowUpPlan = z.object({
+  action: z
+    .enum(["answer", "revise", "addendum"])
+    .describe(
+      "answer: the existing research suffices; revise: new research changes the report as a whole; addendum: new research adds to the report without changing it.",
+    ),
+  answer: z
+    .string()
+    .describe(
+      "The answer when action is answer, citing source IDs such as [src-1a2b3c4d]; otherwise empty.",
+    ),
+  research_topics: z
+    .array(z.string())
+    .describe(
+      "Narrowly scoped research tasks when action is revise or addendum, each described in detail; otherwise empty.",
+    ),
+});
+
+// ===== REPORT WRITING STRUCTURED OUTPUT SCHEMAS =====
+
+// Schema for the outline of a report written section by section.
+export const ReportOutline = z.object({
+  title: z.string().describe("Title of the report."),
+  sections: z
+    .array(
+      z.object({
+        heading: z.string().describe("Section heading, without any #."),
+        description: z
+          .string()
+          .describe("What the section covers, in one or two sentences."),
+        notes: z
+          .array(z.number().int())
+          .describe("Numbers of the research notes the section draws on."),
+      }),
+    )
+    .describe(
+      "Body sections in reading order, without introduction or conclusion.",
+    ),
+});
+
+// Schema for the introduction and conclusion framing a sectioned report.
+export const ReportFraming = z.object({
+  introduction: z
+    .string()
+    .describe("Introduction of the report, without a heading."),
+  conclusion_heading: z
+    .string()
+    .describe(
+      'Heading of the conclusion, without any #, e.g. "Conclusion" in the language of the report.',
+    ),
+  conclusion: z
+    .string()
+    .describe("Conclusion of the report, without a heading."),
+});
+
+// ===== VERIFICATION STRUCTURED OUTPUT SCHEMAS =====
+
+// Schema for the factual claims extracted from the final report.
+export const ReportClaims = z.object({
+  claims: z
+    .array(
+      z.object({
+        claim: z
+          .string()
+          .describe(
+            "A single checkable factual statement, self-contained and close to the report's wording.",
+          ),
+        citations: z
+          .array(z.number().int())
+          .describe(
+            'Citation numbers the report gives for the statement, e.g. [2, 5] for "[2, 5]". Empty if uncited.',
+          ),
+      }),
+    )
+    .describe("Factual claims of the report, most important first."),
+});
+
+// Schema for the verdicts on a batch of claims.
+export const ClaimVerdicts = z.object({
+  verdicts: z.array(
+    z.object({
+      claim_number: z
+        .number()
+        .int()
+        .describe("Number of the claim in the list, starting at 1."),
+      status: z
+        .enum(["supported", "unsupported", "contradicted"])
+        .describe(
+          "supported: the evidence states it; unsupported: the evidence does not establish it; contradicted: the evidence states otherwise.",
+        ),
+      explanation: z
+        .string()
+        .describe("One sentence citing what the evidence says."),
+    }),
+  ),
+});
+
 // ===== LEAD RESEARCHER STATE DEFINITIONS =====
 
 // State for the multi-agent reserach supervisor.
@@ -158,6 +418,27 @@ export const SupervisorState = Annotation.Root({
     reducer: (x: string[], y: string[]) => x.concat(y),
     default: () => [],
   }),
+  sources: Annotation<SourceRegistry>({
+    reducer: mergeSources,
+    default: () => ({}),
+  }),
+  findings: Annotation<ResearchFinding[]>({
+    reducer: mergeFindings,
+    default: () => [],
+  }),
+  usage: Annotation<UsageRecord[]>({
+    reducer: mergeUsage,
+    default: () => [],
+  }),
+  degraded_summaries: Annotation<DegradedSummary[]>({
+    reducer: mergeDegradedSummaries,
+    default: () => [],
+  }),
+  // Sub-questions of the brief, created and updated by the supervisor
+  research_plan: Annotation<ResearchPlan>({
+    reducer: (x: ResearchPlan, y: ResearchPlan) => y ?? x,
+    default: emptyPlan,
+  }),
 });
 
 // ===== SUPERVISOR TOOLS =====
@@ -0,0 +1,84 @@
+/**
+ * URL Canonicalization.
+ *
+ * The same article is often reached through several URLs: with tracking
+ * parameters, through its AMP or mobile version, with or without "www." or
+ * a trailing slash. Canonicalizing URLs before deriving source IDs makes all
+ * of them one source.
+ */
+
+// Query parameters that only track where a visitor came from
+const TRACKING_PARAMETERS = new Set([
+  "fbclid",
+  "gclid",
+  "dclid",
+  "msclkid",
+  "yclid",
+  "igshid",
+  "mc_cid",
+  "mc_eid",
+  "_ga",
+  "_gl",
+  "ref",
+  "ref_src",
+  "ref_url",
+  "spm",
+  "amp",
+  "outputtype",
+]);
+
+// Host prefixes of mobile, AMP and "www." variants of a site
+const HOST_VARIANT = /^(www\d*|m|mobile|amp)\./;
+
+// Google AMP cache URLs, e.g. https://example-com.cdn.ampproject.org/c/s/example.com/a
+const AMP_CACHE_PATH = /^\/[a-z]\/(s\/)?(.+)$/;
+
+/**
+ * Canonicalize a URL so that variants of the same page compare equal.
+ *
+ * Pages served from the Google AMP cache map to their origin, "www.", "m.",
+ * "mobile." and "amp." hosts to the bare host, and http to https. Tracking
+ * parameters, "/amp" path suffixes, fragments and trailing slashes are
+ * dropped, and the remaining query parameters are sorted. URLs that are not
+ * http(s) only lose their fragment.
+ * @param url - URL as retrieved or cited
+ * @returns Canonical form of the URL
+ */
+export function canonicalizeUrl(url: string): string {
+  const trimmed = url.trim();
+  let parsed: URL;
+  try {
+    parsed = new URL(trimmed);
+  } catch {
+    return trimmed.replace(/#.*$/, "");
+  }
+  parsed.hash = "";
+  if (parsed.protocol !== "http:" && parsed.protocol !== "https:") {
+    return parsed.toString();
+  }
+
+  const ampCache = parsed.hostname.endsWith(".cdn.ampproject.org")
+    ? parsed.pathname.match(AMP_CACHE_PATH)
+    : null;
+  if (ampCache) {
+    return canonicalizeUrl(`https://${ampCache[2]}${parsed.search}`);
+  }
+
+  const host = parsed.hostname.toLowerCase().replace(HOST_VARIANT, "");
+  const path =
+    parsed.pathname
+      .replace(/\/amp\/?$/i, "")
+      .replace(/\.amp(\.html?)$/i, "$1")
+      .replace(/\/+$/, "") || "/";
+
+  const parameters = [...parsed.searchParams]
+    .filter(([name]) => {
+      const key = name.toLowerCase();
+      return !key.startsWith("utm_") && !TRACKING_PARAMETERS.has(key);
+    })
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+  const query = new URLSearchParams(parameters).toString();
+
+  const port = parsed.port ? `:${parsed.port}` : "";
+  return `https://${host}${port}${path}${query ? `?${query}` : ""}`;
+}
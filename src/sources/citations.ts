@@ -0,0 +1,220 @@
+/**
+ * Citation Validation.
+ *
+ * Writers cite sources by their registry ID (e.g. "[src-1a2b3c4d]"). Before a
+ * report is returned, every citation is checked against the source registry:
+ * citations of registered sources are renumbered sequentially, citations that
+ * can be traced back to a registered URL are repaired, and everything else is
+ * removed. The Sources list is then rebuilt from the registry, so a report can
+ * only ever list sources that were actually retrieved.
+ *
+ * Code is never touched, and a bracketed number such as "[2]" only counts as
+ * a citation when the model's own Sources list defines it; otherwise it is
+ * left as written, since it may be an array index, a footnote or a range.
+ */
+
+import {
+  findSourceByUrl,
+  resolveSource,
+  SourceRecord,
+  SourceRegistry,
+} from "./registry.js";
+
+export type CitationValidation = {
+  // Report with sequential citations and a Sources list built from the registry
+  report: string;
+  // Cited sources in citation order; the source numbered n is at index n - 1
+  cited: SourceRecord[];
+  // Citations that did not resolve to a registered source and were removed
+  unknown: string[];
+};
+
+// Sources list at the end of a validated report
+export const SOURCES_SECTION = /\n#{1,6} Sources\n[\s\S]*$/;
+
+const SOURCES_HEADING = /^(#{1,6})\s*\**\s*(?:sources|references)\b.*$/gim;
+const CITATION_GROUP = /\s?\[([^[\]\n]+)\](?!\()/g;
+const CITATION_TOKEN = /^(?:src-[0-9a-f]{8}|\d+)$/;
+const NUMBER_TOKEN = /^\d+$/;
+// Fenced code blocks (closed, or running to the end) and inline code spans
+const CODE =
+  /^(`{3,}|~{3,})[^\n]*\n[\s\S]*?(?:^\1[`~]*[ \t]*$|(?![\s\S]))|(`+)[^`\n]+?\2(?!`)/gm;
+const MARKDOWN_LINK = /\[([^[\]\n]+)\]\(((?:https?|file):\/\/[^)\s]+)\)/g;
+const LISTED_SOURCE =
+  /^\s*[-*]?\s*\[(src-[0-9a-f]{8}|\d+)\]\s*.*?((?:https?|file):\/\/\S+)\s*$/gm;
+
+/**
+ * Describe the credibility of a listed source.
+ * @param source - Registered source
+ * @returns E.g. " (credibility 0.82)", or "" for unscored sources
+ */
+export function formatSourceCredibility(source: {
+  credibility?: number | undefined;
+}): string {
+  return source.credibility !== undefined
+    ? ` (credibility ${source.credibility.toFixed(2)})`
+    : "";
+}
+
+/**
+ * Split a report into its body and the Sources section written by the model.
+ * @param report - Report markdown
+ * @returns The body without the Sources section, and the section itself
+ */
+function splitSourcesSection(report: string): {
+  body: string;
+  section: string;
+} {
+  const headings = [...report.matchAll(SOURCES_HEADING)];
+  const heading = headings.at(-1);
+  if (!heading) {
+    return { body: report, section: "" };
+  }
+
+  // The section runs until the next heading of the same or a higher level
+  const start = heading.index!;
+  const level = heading[1]!.length;
+  const rest = report.slice(start + heading[0].length);
+  const next = rest.match(new RegExp(`^#{1,${level}}\\s`, "m"));
+  const end =
+    next?.index !== undefined
+      ? start + heading[0].length + next.index
+      : report.length;
+
+  return {
+    body: (report.slice(0, start) + report.slice(end)).trim(),
+    section: report.slice(start, end),
+  };
+}
+
+/**
+ * Apply a replacement to the prose of a markdown text, leaving code as is.
+ * @param text - Markdown text
+ * @param replace - Replacement for each stretch of text between code
+ * @returns The text with its prose replaced
+ */
+function replaceOutsideCode(
+  text: string,
+  replace: (prose: string) => string,
+): string {
+  let result = "";
+  let last = 0;
+  for (const match of text.matchAll(CODE)) {
+    result += replace(text.slice(last, match.index)) + match[0];
+    last = match.index! + match[0].length;
+  }
+  return result + replace(text.slice(last));
+}
+
+/**
+ * Validate and renumber the citations in a report against the source registry.
+ * @param report - Report markdown citing sources by ID
+ * @param registry - Sources retrieved during the run
+ * @returns The repaired report, the cited sources and the removed citations
+ */
+export function validateCitations(
+  report: string,
+  registry: SourceRegistry,
+): CitationValidation {
+  const { body, section } = splitSourcesSection(report);
+
+  // Labels the model used in its own Sources list, for repairing citations
+  // that use numbers or IDs instead of the registry's IDs
+  const listed = new Map<string, string>();
+  for (const match of section.matchAll(LISTED_SOURCE)) {
+    listed.set(match[1]!, match[2]!.replace(/[).,]+$/, ""));
+  }
+
+  const unknown: string[] = [];
+  const resolve = (label: string): SourceRecord | undefined => {
+    const listedUrl = listed.get(label);
+    return (
+      resolveSource(registry, label) ??
+      (listedUrl ? findSourceByUrl(registry, listedUrl) : undefined)
+    );
+  };
+
+  // Inline links to a retrieved source become citations; links to anything
+  // else lose their URL
+  const linked = replaceOutsideCode(body, (prose) =>
+    prose.replace(MARKDOWN_LINK, (_match, text: string, url: string) => {
+      const source = findSourceByUrl(registry, url);
+      if (source) return `${text} [${source.id}]`;
+      unknown.push(url);
+      return text;
+    }),
+  );
+
+  const numbers = new Map<string, number>();
+  const cited: SourceRecord[] = [];
+  const renumberGroup = (match: string, inner: string): string => {
+    const labels = inner.split(",").map((label) => label.trim());
+    if (
+      !labels.every(
+        (label) =>
+          CITATION_TOKEN.test(label) &&
+          (!NUMBER_TOKEN.test(label) || listed.has(label)),
+      )
+    ) {
+      return match;
+    }
+
+    const resolved: number[] = [];
+    for (const label of labels) {
+      const source = resolve(label);
+      if (!source) {
+        unknown.push(`[${label}]`);
+        continue;
+      }
+      if (!numbers.has(source.id)) {
+        cited.push(source);
+        numbers.set(source.id, cited.length);
+      }
+      const number = numbers.get(source.id)!;
+      if (!resolved.includes(number)) resolved.push(number);
+    }
+
+    if (resolved.length === 0) return "";
+    const leading = match.startsWith("[") ? "" : match[0];
+    return `${leading}[${resolved.join(", ")}]`;
+  };
+  const renumbered = replaceOutsideCode(linked, (prose) =>
+    prose.replace(CITATION_GROUP, renumberGroup),
+  );
+
+  const sourcesList = cited
+    .map(
+      (source, i) =>
+        `- [${i + 1}] ${source.title}${formatSourceCredibility(source)}: ${source.url}`,
+    )
+    .join("\n");
+
+  return {
+    report: cited.length
+      ? `${renumbered.trim()}\n\n### Sources\n\n${sourcesList}\n`
+      : `${renumbered.trim()}\n`,
+    cited,
+    unknown,
+  };
+}
+
+/**
+ * Validate the citations of a changed copy of a validated report.
+ *
+ * The copy may mix the original's citation numbers with new source IDs, so
+ * the original's Sources list is used to map the numbers back to sources.
+ * @param report - Changed report, with or without a Sources list
+ * @param original - Validated report its citation numbers refer to
+ * @param registry - Sources retrieved during the run
+ * @returns The validated report
+ */
+export function revalidateCitations(
+  report: string,
+  original: string,
+  registry: SourceRegistry,
+): string {
+  const sourcesSection = original.match(SOURCES_SECTION)?.[0] ?? "";
+  const body = report.replace(SOURCES_SECTION, "");
+  return validateCitations(`${body.trim()}\n${sourcesSection}`, registry)
+    .report;
+}
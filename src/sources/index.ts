@@ -0,0 +1,12 @@
+/**
+ * Source tracking for research runs.
+ *
+ * The registry records the sources retrieved by the search tools, merging
+ * variants and near-duplicates of the same page, and the citation validator
+ * checks reports against it.
+ */
+
+export * from "./canonical.js";
+export * from "./near-duplicates.js";
+export * from "./registry.js";
+export * from "./citations.js";
@@ -0,0 +1,110 @@
+/**
+ * Near-Duplicate Detection.
+ *
+ * Syndicated copies and mirrors of an article live at unrelated URLs, so
+ * they are recognized by their content instead: each page's text is reduced
+ * to a MinHash fingerprint of its word shingles, and two pages whose
+ * fingerprints agree closely enough are treated as the same source.
+ */
+
+// Words per shingle
+const SHINGLE_SIZE = 5;
+
+// Hash functions in a fingerprint
+const SIGNATURE_SIZE = 64;
+
+// Estimated share of shingles two pages must have in common to be duplicates
+export const NEAR_DUPLICATE_SIMILARITY = 0.7;
+
+// Seeds of the hash functions, fixed so fingerprints are stable across runs
+const SEEDS = Array.from({ length: SIGNATURE_SIZE }, (_, i) =>
+  Math.imul(i + 1, 0x9e3779b9),
+);
+
+/**
+ * Hash a string with 32-bit FNV-1a.
+ * @param text - String to hash
+ * @returns Unsigned 32-bit hash
+ */
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Mix a hash with a seed (MurmurHash3 finalizer).
+ * @param hash - Shingle hash
+ * @param seed - Seed of one hash function
+ * @returns Unsigned 32-bit hash
+ */
+function mix(hash: number, seed: number): number {
+  let x = hash ^ seed;
+  x ^= x >>> 16;
+  x = Math.imul(x, 0x85ebca6b);
+  x ^= x >>> 13;
+  x = Math.imul(x, 0xc2b2ae35);
+  x ^= x >>> 16;
+  return x >>> 0;
+}
+
+/**
+ * Compute the MinHash fingerprint of a page's text.
+ * @param text - Page text
+ * @returns Fingerprint as hex string, or undefined when the text has no words
+ */
+export function createFingerprint(text: string): string | undefined {
+  const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+  if (words.length === 0) return undefined;
+
+  // Texts shorter than a shingle are a single shingle
+  const shingles = new Set<number>();
+  const count = Math.max(1, words.length - SHINGLE_SIZE + 1);
+  for (let i = 0; i < count; i++) {
+    shingles.add(fnv1a(words.slice(i, i + SHINGLE_SIZE).join(" ")));
+  }
+
+  const signature = new Array<number>(SIGNATURE_SIZE).fill(0xffffffff);
+  for (const shingle of shingles) {
+    for (let i = 0; i < SIGNATURE_SIZE; i++) {
+      const value = mix(shingle, SEEDS[i]!);
+      if (value < signature[i]!) signature[i] = value;
+    }
+  }
+  return signature.map((value) => value.toString(16).padStart(8, "0")).join("");
+}
+
+/**
+ * Estimate the share of shingles two pages have in common.
+ * @param a - Fingerprint of the first page
+ * @param b - Fingerprint of the second page
+ * @returns Estimated Jaccard similarity between 0 and 1
+ */
+export function fingerprintSimilarity(a: string, b: string): number {
+  if (a.length !== b.length) return 0;
+  let equal = 0;
+  for (let i = 0; i < a.length; i += 8) {
+    if (a.slice(i, i + 8) === b.slice(i, i + 8)) equal++;
+  }
+  return equal / (a.length / 8);
+}
+
+/**
+ * Check whether two fingerprints belong to near-duplicate pages.
+ * @param a - Fingerprint of the first page, if it has one
+ * @param b - Fingerprint of the second page, if it has one
+ * @returns True when both exist and are similar enough
+ */
+export function isNearDuplicate(
+  a: string | undefined,
+  b: string | undefined,
+): boolean {
+  return (
+    a !== undefined &&
+    b !== undefined &&
+    fingerprintSimilarity(a, b) >= NEAR_DUPLICATE_SIMILARITY
+  );
+}
@@ -0,0 +1,244 @@
+/**
+ * Source Registry.
+ *
+ * Every page or document returned by a search tool is recorded once in the
+ * run's source registry under an ID derived from its canonical URL. Because
+ * the ID only depends on the URL, two researchers that find the same page
+ * cite it with the same ID, and the final report can number citations from
+ * one list. Near-duplicate pages at other URLs are merged into the source
+ * found first; their own IDs stay in the registry as aliases, so citations
+ * of either resolve to the same source.
+ */
+
+import { createHash } from "node:crypto";
+import { canonicalizeUrl } from "./canonical.js";
+import { isNearDuplicate } from "./near-duplicates.js";
+
+// A source that was actually retrieved during the run.
+export type SourceRecord = {
+  // Stable citation ID, e.g. "src-1a2b3c4d"
+  id: string;
+  url: string;
+  title: string;
+  // ISO timestamp of the first retrieval
+  retrieved_at: string;
+  // Snippets of the source that were shown to the researchers
+  excerpts: string[];
+  // Summary of the full content the researchers were shown, if summarized
+  summary?: string | undefined;
+  // Credibility score between 0 and 1, for scored web sources
+  credibility?: number | undefined;
+  // Other URLs the same content was found at
+  alternate_urls?: string[] | undefined;
+  // MinHash fingerprint of the content, for pages with full text
+  fingerprint?: string | undefined;
+  // ID of the source this one is a near-duplicate of
+  duplicate_of?: string | undefined;
+};
+
+// Registry of all sources retrieved in a run, keyed by source ID.
+export type SourceRegistry = Record<string, SourceRecord>;
+
+// Artifact attached to the ToolMessage of a search tool.
+export type SourceArtifact = {
+  sources: SourceRecord[];
+};
+
+export const SOURCE_ID_PATTERN = /^src-[0-9a-f]{8}$/;
+
+const MAX_EXCERPTS = 5;
+const MAX_EXCERPT_LENGTH = 500;
+
+/**
+ * Derive the stable source ID for a URL.
+ * @param url - Source URL
+ * @returns Source ID of the form "src-" followed by 8 hex characters
+ */
+export function createSourceId(url: string): string {
+  // Tracking parameters, fragments and mobile or AMP hosts never change
+  // which document was retrieved
+  const key = canonicalizeUrl(url);
+  return `src-${createHash("sha256").update(key).digest("hex").slice(0, 8)}`;
+}
+
+/**
+ * Find the source IDs mentioned in a text.
+ * @param text - Text citing or listing sources, e.g. "[src-1a2b3c4d]"
+ * @returns Distinct source IDs in order of first mention
+ */
+export function extractSourceIds(text: string): string[] {
+  return [...new Set(text.match(/src-[0-9a-f]{8}/g) ?? [])];
+}
+
+/**
+ * Create a registry record for a retrieved source.
+ * @param url - Source URL
+ * @param title - Source title, falls back to the URL
+ * @param excerpt - Snippet of the source shown to the researcher
+ * @returns New source record retrieved now
+ */
+export function createSourceRecord(
+  url: string,
+  title: string,
+  excerpt?: string,
+): SourceRecord {
+  const trimmed = excerpt?.trim() ?? "";
+  return {
+    id: createSourceId(url),
+    url,
+    title: title.trim() || url,
+    retrieved_at: new Date().toISOString(),
+    excerpts: trimmed
+      ? [
+          trimmed.length > MAX_EXCERPT_LENGTH
+            ? trimmed.slice(0, MAX_EXCERPT_LENGTH) + "..."
+            : trimmed,
+        ]
+      : [],
+  };
+}
+
+/**
+ * Combine a source found again with its registered record.
+ *
+ * The record keeps its first retrieval time, summary and best credibility
+ * score, and gains any new excerpts and alternate URLs.
+ * @param existing - Registered record
+ * @param record - Record of the source found again
+ * @returns Combined record
+ */
+function combineSources(
+  existing: SourceRecord,
+  record: SourceRecord,
+): SourceRecord {
+  const credibility = [existing.credibility, record.credibility].filter(
+    (score): score is number => score !== undefined,
+  );
+  const canonical = canonicalizeUrl(existing.url);
+  const alternateUrls = [
+    ...new Set([
+      ...(existing.alternate_urls ?? []),
+      record.url,
+      ...(record.alternate_urls ?? []),
+    ]),
+  ].filter((url) => canonicalizeUrl(url) !== canonical);
+  const fingerprint = existing.fingerprint ?? record.fingerprint;
+  const summary = existing.summary ?? record.summary;
+
+  return {
+    ...existing,
+    ...(credibility.length > 0
+      ? { credibility: Math.max(...credibility) }
+      : {}),
+    ...(alternateUrls.length > 0 ? { alternate_urls: alternateUrls } : {}),
+    ...(fingerprint ? { fingerprint } : {}),
+    ...(summary ? { summary } : {}),
+    title: existing.title === existing.url ? record.title : existing.title,
+    retrieved_at:
+      record.retrieved_at < existing.retrieved_at
+        ? record.retrieved_at
+        : existing.retrieved_at,
+    excerpts: [...new Set([...existing.excerpts, ...record.excerpts])].slice(
+      0,
+      MAX_EXCERPTS,
+    ),
+  };
+}
+
+/**
+ * Find the registered source a new source duplicates.
+ * @param registry - Source registry
+ * @param record - New source
+ * @returns The registered source with the same content, if any
+ */
+export function findDuplicateSource(
+  registry: SourceRegistry,
+  record: Pick<SourceRecord, "url" | "fingerprint">,
+): SourceRecord | undefined {
+  return (
+    findSourceByUrl(registry, record.url) ??
+    Object.values(registry).find(
+      (source) =>
+        !source.duplicate_of &&
+        isNearDuplicate(source.fingerprint, record.fingerprint),
+    )
+  );
+}
+
+/**
+ * Merge source records into a registry.
+ *
+ * Used as the state reducer for `sources`. A source found again, at the same
+ * canonical URL or as a near-duplicate, is combined with its registered
+ * record. A near-duplicate's own ID is kept as an alias of that record.
+ * @param registry - Current registry
+ * @param update - Records to add, as a registry or a list
+ * @returns Merged registry
+ */
+export function mergeSources(
+  registry: SourceRegistry,
+  update: SourceRegistry | SourceRecord[] | undefined,
+): SourceRegistry {
+  const records = Array.isArray(update) ? update : Object.values(update ?? {});
+  if (records.length === 0) return registry;
+
+  const merged: SourceRegistry = { ...registry };
+  for (const record of records) {
+    // Aliases from another registry point at a source merged along with them
+    const existing = record.duplicate_of
+      ? merged[record.id]
+      : findDuplicateSource(merged, record);
+    if (!existing) {
+      merged[record.id] = record;
+      continue;
+    }
+
+    merged[existing.id] = combineSources(existing, record);
+    if (existing.id !== record.id && !merged[record.id]) {
+      const { fingerprint: _fingerprint, summary: _summary, ...alias } = record;
+      merged[record.id] = {
+        ...alias,
+        excerpts: [],
+        duplicate_of: existing.id,
+      };
+    }
+  }
+  return merged;
+}
+
+/**
+ * Look up a registered source by ID, following aliases of near-duplicates.
+ * @param registry - Source registry
+ * @param id - Source ID
+ * @returns The record the ID stands for, if registered
+ */
+export function resolveSource(
+  registry: SourceRegistry,
+  id: string,
+): SourceRecord | undefined {
+  const record = registry[id];
+  return (record?.duplicate_of && registry[record.duplicate_of]) || record;
+}
+
+/**
+ * Find a registered source by URL.
+ * @param registry - Source registry
+ * @param url - URL to look up, the source's own or an alternate one
+ * @returns The matching record, if the URL was retrieved
+ */
+export function findSourceByUrl(
+  registry: SourceRegistry,
+  url: string,
+): SourceRecord | undefined {
+  const canonical = canonicalizeUrl(url);
+  return (
+    resolveSource(registry, createSourceId(url)) ??
+    Object.values(registry).find(
+      (source) =>
+        !source.duplicate_of &&
+        source.alternate_urls?.some(
+          (alternate) => canonicalizeUrl(alternate) === canonical,
+        ),
+    )
+  );
+}
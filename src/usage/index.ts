@@ -0,0 +1,315 @@
+/**
+ * Usage Accounting and Budgets.
+ *
+ * Every LLM call and search query made during a run is recorded as a usage
+ * record in graph state, attributed to the graph node (and researcher) that
+ * made it. Records are summed into totals that are checked against the run's
+ * token, cost and search-call budgets.
+ */
+
+import { randomUUID } from "node:crypto";
+import { RunnableConfig } from "@langchain/core/runnables";
+import { BaseMessage } from "@langchain/core/messages";
+import { usageBudget } from "../config.js";
+import { CacheOutcome } from "../cache/index.js";
+import { estimateCost } from "./pricing.js";
+
+export * from "./pricing.js";
+
+// ===== USAGE RECORDS =====
+
+// Usage of a single LLM call or search query.
+export type TokenUsage = {
+  // Model name, or "search:<provider>" for search queries
+  model: string;
+  input_tokens: number;
+  output_tokens: number;
+  cost_usd: number;
+  search_calls: number;
+  // Set when the call went through the cache; a hit costs nothing
+  cache?: CacheOutcome | undefined;
+};
+
+// Usage attributed to the part of the graph that caused it.
+export type UsageRecord = TokenUsage & {
+  id: string;
+  node: string;
+  // ID of the researcher (its ConductResearch tool call) that made the call
+  researcher?: string | undefined;
+};
+
+// Artifact attached to a tool's ToolMessage when the tool used models or search.
+export type UsageArtifact = {
+  usage: TokenUsage[];
+};
+
+export type UsageTotals = {
+  input_tokens: number;
+  output_tokens: number;
+  total_tokens: number;
+  cost_usd: number;
+  search_calls: number;
+};
+
+// Cache hits and misses of one kind of cached call.
+export type CacheTotals = {
+  hits: number;
+  misses: number;
+};
+
+/**
+ * Measure the token usage of a model response.
+ * @param message - AI message returned by the model
+ * @param fallbackModel - Model name to use when the provider does not report one
+ * @returns Token usage and estimated cost of the call
+ */
+export function measureUsage(
+  message: BaseMessage | undefined,
+  fallbackModel: string,
+): TokenUsage {
+  const usage = (message as any)?.usage_metadata;
+  const metadata = message?.response_metadata ?? {};
+  const model: string = metadata.model_name ?? metadata.model ?? fallbackModel;
+  const inputTokens = usage?.input_tokens ?? 0;
+  const outputTokens = usage?.output_tokens ?? 0;
+
+  return {
+    model,
+    input_tokens: inputTokens,
+    output_tokens: outputTokens,
+    cost_usd: estimateCost(model, inputTokens, outputTokens),
+    search_calls: 0,
+  };
+}
+
+/**
+ * Usage of search queries sent to a search provider.
+ * @param provider - Search provider name
+ * @param queries - Number of queries
+ * @returns Search usage without tokens
+ */
+export function searchUsage(provider: string, queries: number): TokenUsage {
+  return {
+    model: `search:${provider}`,
+    input_tokens: 0,
+    output_tokens: 0,
+    cost_usd: 0,
+    search_calls: queries,
+  };
+}
+
+/**
+ * Attribute usage to a graph node and, optionally, a researcher.
+ * @param usage - Usage of one or more calls
+ * @param node - Graph node that made the calls
+ * @param researcher - Researcher ID, when the node runs inside a researcher
+ * @returns Usage records ready to add to graph state
+ */
+export function attributeUsage(
+  usage: TokenUsage[],
+  node: string,
+  researcher?: string,
+): UsageRecord[] {
+  return usage.map((entry) => ({
+    ...entry,
+    id: randomUUID(),
+    node,
+    ...(researcher ? { researcher } : {}),
+  }));
+}
+
+/**
+ * Merge usage records into the records in state.
+ *
+ * Used as the state reducer for `usage`. Records are merged by ID, so the
+ * same records coming back from a subgraph are not counted twice.
+ * @param records - Current records
+ * @param update - Records to add
+ * @returns Merged records
+ */
+export function mergeUsage(
+  records: UsageRecord[],
+  update: UsageRecord[] | undefined,
+): UsageRecord[] {
+  if (!update?.length) return records;
+  const seen = new Set(records.map((record) => record.id));
+  return records.concat(update.filter((record) => !seen.has(record.id)));
+}
+
+/**
+ * Sum usage records.
+ * @param records - Usage records
+ * @returns Totals over all records
+ */
+export function totalUsage(records: TokenUsage[]): UsageTotals {
+  const totals: UsageTotals = {
+    input_tokens: 0,
+    output_tokens: 0,
+    total_tokens: 0,
+    cost_usd: 0,
+    search_calls: 0,
+  };
+  for (const record of records) {
+    totals.input_tokens += record.input_tokens;
+    totals.output_tokens += record.output_tokens;
+    totals.total_tokens += record.input_tokens + record.output_tokens;
+    totals.cost_usd += record.cost_usd;
+    totals.search_calls += record.search_calls;
+  }
+  return totals;
+}
+
+/**
+ * Count cache hits and misses per kind of cached call.
+ * @param records - Usage records
+ * @returns Hits and misses by cache namespace, empty when nothing was cached
+ */
+export function totalCacheUsage(
+  records: TokenUsage[],
+): Record<string, CacheTotals> {
+  const totals: Record<string, CacheTotals> = {};
+  for (const { cache } of records) {
+    if (!cache) continue;
+    const entry = (totals[cache.namespace] ??= { hits: 0, misses: 0 });
+    if (cache.hit) entry.hits++;
+    else entry.misses++;
+  }
+  return totals;
+}
+
+/**
+ * Sum usage records per node and per researcher.
+ * @param records - Usage records
+ * @returns Overall totals, totals grouped by node and by researcher, and
+ *          cache hits and misses
+ */
+export function summarizeUsage(records: UsageRecord[]): {
+  total: UsageTotals;
+  by_node: Record<string, UsageTotals>;
+  by_researcher: Record<string, UsageTotals>;
+  cache: Record<string, CacheTotals>;
+} {
+  const group = (key: (record: UsageRecord) => string | undefined) => {
+    const groups: Record<string, UsageRecord[]> = {};
+    for (const record of records) {
+      const name = key(record);
+      if (name) (groups[name] ??= []).push(record);
+    }
+    return Object.fromEntries(
+      Object.entries(groups).map(([name, items]) => [name, totalUsage(items)]),
+    );
+  };
+
+  return {
+    total: totalUsage(records),
+    by_node: group((record) => record.node),
+    by_researcher: group((record) => record.researcher),
+    cache: totalCacheUsage(records),
+  };
+}
+
+/**
+ * Format usage totals on one line.
+ * @param totals - Usage totals
+ * @returns e.g. "12,345 tokens (10,000 in / 2,345 out), $0.0388, 4 searches"
+ */
+export function formatUsage(totals: UsageTotals): string {
+  const n = (value: number) => value.toLocaleString("en-US");
+  return (
+    `${n(totals.total_tokens)} tokens (${n(totals.input_tokens)} in / ${n(totals.output_tokens)} out), ` +
+    `$${totals.cost_usd.toFixed(4)}, ${n(totals.search_calls)} searches`
+  );
+}
+
+/**
+ * Format cache hits and misses on one line.
+ * @param totals - Cache totals by namespace
+ * @returns e.g. "search 2 hits / 1 miss, summary 5 hits / 0 misses"
+ */
+export function formatCacheUsage(totals: Record<string, CacheTotals>): string {
+  const plural = (count: number, word: string) =>
+    `${count} ${word}${count === 1 ? "" : word.endsWith("s") ? "es" : "s"}`;
+  return Object.entries(totals)
+    .map(
+      ([namespace, { hits, misses }]) =>
+        `${namespace} ${plural(hits, "hit")} / ${plural(misses, "miss")}`,
+    )
+    .join(", ");
+}
+
+// ===== BUDGETS =====
+
+// Limits for one run; a missing limit means unlimited.
+export type UsageBudget = {
+  max_tokens?: number | undefined;
+  max_cost_usd?: number | undefined;
+  max_search_calls?: number | undefined;
+};
+
+/**
+ * Get the usage budget of a run.
+ * @param config - Runnable config; its `budget` option overrides the defaults
+ * @returns The run's budget
+ */
+export function getUsageBudget(config?: RunnableConfig): UsageBudget {
+  // A configured limit of 0 means unlimited
+  const limit = (value: number) => (value > 0 ? value : undefined);
+  return {
+    max_tokens: limit(usageBudget.maxTokens),
+    max_cost_usd: limit(usageBudget.maxCostUsd),
+    max_search_calls: limit(usageBudget.maxSearchCalls),
+    ...(config?.configurable?.budget ?? {}),
+  };
+}
+
+/**
+ * Check whether usage has reached a budget.
+ * @param totals - Usage so far
+ * @param budget - Budget to check against
+ * @returns Why the budget is exhausted, or undefined while within budget
+ */
+export function budgetExhausted(
+  totals: UsageTotals,
+  budget: UsageBudget,
+): string | undefined {
+  if (
+    budget.max_tokens !== undefined &&
+    totals.total_tokens >= budget.max_tokens
+  ) {
+    return `token budget of ${budget.max_tokens} reached`;
+  }
+  if (
+    budget.max_cost_usd !== undefined &&
+    totals.cost_usd >= budget.max_cost_usd
+  ) {
+    return `cost budget of $${budget.max_cost_usd} reached`;
+  }
+  if (
+    budget.max_search_calls !== undefined &&
+    totals.search_calls >= budget.max_search_calls
+  ) {
+    return `search budget of ${budget.max_search_calls} calls reached`;
+  }
+  return undefined;
+}
+
+/**
+ * Split what is left of a budget evenly between parallel workers.
+ * @param budget - Run budget
+ * @param totals - Usage so far
+ * @param workers - Number of workers sharing the remainder
+ * @returns Budget for each worker
+ */
+export function shareRemainingBudget(
+  budget: UsageBudget,
+  totals: UsageTotals,
+  workers: number,
+): UsageBudget {
+  const share = (limit: number | undefined, used: number) =>
+    limit === undefined ? undefined : Math.max(limit - used, 0) / workers;
+  return {
+    max_tokens: share(budget.max_tokens, totals.total_tokens),
+    max_cost_usd: share(budget.max_cost_usd, totals.cost_usd),
+    max_search_calls: share(budget.max_search_calls, totals.search_calls),
+  };
+}
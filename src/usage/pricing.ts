@@ -0,0 +1,78 @@
+/**
+ * Model Pricing.
+ *
+ * List prices in USD per million tokens, used to estimate the cost of a run.
+ * Models are matched by the longest name prefix, so dated snapshots such as
+ * "gpt-4.1-2025-04-14" use the price of "gpt-4.1". Unknown models (including
+ * local Ollama models) are counted as free.
+ */
+
+import { modelPricingOverrides } from "../config.js";
+
+export type ModelPrice = {
+  input: number;
+  output: number;
+};
+
+const defaultPricing: Record<string, ModelPrice> = {
+  "gpt-4.1": { input: 2, output: 8 },
+  "gpt-4.1-mini": { input: 0.4, output: 1.6 },
+  "gpt-4.1-nano": { input: 0.1, output: 0.4 },
+  "gpt-4o": { input: 2.5, output: 10 },
+  "gpt-4o-mini": { input: 0.15, output: 0.6 },
+  o3: { input: 2, output: 8 },
+  "o4-mini": { input: 1.1, output: 4.4 },
+  "claude-opus-4": { input: 15, output: 75 },
+  "claude-sonnet-4": { input: 3, output: 15 },
+  "claude-3-7-sonnet": { input: 3, output: 15 },
+  "claude-3-5-haiku": { input: 0.8, output: 4 },
+};
+
+/**
+ * Parse the MODEL_PRICING override.
+ * @returns Prices by model name, empty when unset or invalid
+ */
+function loadPricingOverrides(): Record<string, ModelPrice> {
+  if (!modelPricingOverrides) return {};
+  try {
+    return JSON.parse(modelPricingOverrides);
+  } catch (error) {
+    console.error("Ignoring invalid MODEL_PRICING:", error);
+    return {};
+  }
+}
+
+const pricing: Record<string, ModelPrice> = {
+  ...defaultPricing,
+  ...loadPricingOverrides(),
+};
+
+/**
+ * Look up the price of a model.
+ * @param model - Model name as reported by the provider
+ * @returns The price of the longest matching model name, if any
+ */
+export function getModelPrice(model: string): ModelPrice | undefined {
+  const name = model.toLowerCase();
+  const match = Object.keys(pricing)
+    .filter((prefix) => name.startsWith(prefix.toLowerCase()))
+    .sort((a, b) => b.length - a.length)[0];
+  return match ? pricing[match] : undefined;
+}
+
+/**
+ * Estimate the cost of a model call.
+ * @param model - Model name
+ * @param inputTokens - Prompt tokens
+ * @param outputTokens - Completion tokens
+ * @returns Cost in USD
+ */
+export function estimateCost(
+  model: string,
+  inputTokens: number,
+  outputTokens: number,
+): number {
+  const price = getModelPrice(model);
+  if (!price) return 0;
+  return (inputTokens * price.input + outputTokens * price.output) / 1_000_000;
+}
@@ -5,37 +5,92 @@
  * including web search capabilities and content summarization tools.
  */
 
-import { tavilyClient } from "./config";
-import { createSummarizeWebpagePrompt } from "./shared/prompts";
-import { Summary } from "./shared/types";
+import { createSummarizeWebpagePrompt } from "./shared/prompts.js";
+import { DegradedSummary, Summary } from "./shared/types.js";
 import {
   HumanMessage,
   filterMessages,
   BaseMessage,
 } from "@langchain/core/messages";
 import { tool } from "@langchain/core/tools";
+import { RunnableConfig } from "@langchain/core/runnables";
 import { z } from "zod/v3";
-import { AzureChatOpenAI } from "@langchain/openai";
-import { modelSecrets } from "./config";
-
-const llm = new AzureChatOpenAI({
-  model: "gpt-4.1-mini",
-  azureOpenAIApiKey: modelSecrets.gpt41Mini.apiKey,
-  azureOpenAIApiDeploymentName: modelSecrets.gpt41Mini.apiDeploymentName,
-  azureOpenAIApiVersion: modelSecrets.gpt41Mini.apiVersion,
-  azureOpenAIApiInstanceName: modelSecrets.gpt41Mini.apiInstanceName,
-});
+import {
+  corpusSettings,
+  pinnedDate,
+  maxConcurrentResearchUnits,
+  maxReactToolCalls,
+  maxResearcherIterations,
+  searchSettings,
+  summarizationConcurrency,
+  webFetchSettings,
+} from "./config.js";
+import { createRoleModel, getRoleModelName } from "./llm/factory.js";
+import { createCorpusProvider } from "./corpus/index.js";
+import {
+  filterByDomain,
+  getSearchProvider,
+  normalizeQuery,
+  resolveDomainFilters,
+  SearchOptions,
+  SearchResponse,
+  SearchResult,
+  searchTimeRanges,
+  SearchTopic,
+  searchTopics,
+} from "./search/index.js";
+import {
+  canonicalizeUrl,
+  createFingerprint,
+  createSourceId,
+  createSourceRecord,
+  findDuplicateSource,
+  isNearDuplicate,
+  mergeSources,
+  SourceArtifact,
+  SourceRecord,
+  SourceRegistry,
+} from "./sources/index.js";
+import {
+  measureUsage,
+  searchUsage,
+  TokenUsage,
+  UsageArtifact,
+} from "./usage/index.js";
+import { cached, CacheMode, getCacheMode, hashContent } from "./cache/index.js";
+import { callWithLimits, searchRateLimiter } from "./rate-limit/index.js";
+import { cassette } from "./cassette/index.js";
+import { SubQuestionUpdate } from "./research-plan/index.js";
+import { crawlPages, FetchedPage, fetchPage } from "./web/index.js";
+import { getKnowledgeStore } from "./knowledge/index.js";
+import {
+  CredibilityScore,
+  formatCredibility,
+  rankByCredibility,
+  scoreSources,
+} from "./credibility/index.js";
+
+const llm = createRoleModel("summarize");
 
-const structuredModel = llm.withStructuredOutput(Summary);
+// The raw response is kept for its token usage
+const structuredModel = llm.withStructuredOutput(Summary, { includeRaw: true });
 
 // ===== UTILITY FUNCTIONS =====
 
 /**
  * Get current date in a human-readable format
+ *
+ * The date can be pinned with PINNED_DATE, and is taken from the cassette
+ * while recording or replaying, so prompts are reproducible.
  * @returns Formatted date string (e.g. "Mon, Aug 23, 2025")
  */
 export function getToday(): string {
-  return new Date().toLocaleDateString("en-US", {
+  const pinned = cassette?.date || pinnedDate;
+  const date = pinned ? new Date(`${pinned}T12:00:00`) : new Date();
+  if (Number.isNaN(date.getTime())) {
+    throw new Error(`Invalid PINNED_DATE: ${pinned}. Expected YYYY-MM-DD`);
+  }
+  return date.toLocaleDateString("en-US", {
     weekday: "short",
     month: "short",
     day: "numeric",
@@ -46,28 +101,85 @@ export function getToday(): string {
 // ===== SEARCH FUNCTIONS =====
 
 /**
- * Perform search suing Tavily API for multiple queries
+ * Perform search using the selected search provider for multiple queries
+ *
+ * Responses are cached by provider, normalized query and options; queries
+ * answered from the cache do not count as search calls. Other queries go
+ * through the shared search rate limiter and are retried on rate limits and
+ * server errors. The domain policy is added to the requested domain filters,
+ * and results outside them are dropped, for providers that ignore them.
  * @param searchQueries - List of search queries to execute
  * @param maxResults - Maximum number of results per query
  * @param topic - Topic filter for search queries
  * @param includeRawContent - Whether to include raw content in the results
- * @returns List of search result dictionaries
+ * @param providerName - Search provider to use, defaults to the configured provider
+ * @param usage - Collects the search calls made
+ * @param cacheMode - Cache mode of the run
+ * @param filters - Time range and domain filters requested for the searches
+ * @returns List of normalized search responses
  */
-export async function tavilySearchMultiple(
+export async function searchMultiple(
   searchQueries: string[],
   maxResults: number,
-  topic: "general" | "news" | "finance" = "general",
+  topic: SearchTopic = "general",
   includeRawContent: boolean = true,
-): Promise<Record<string, any>[]> {
+  providerName?: string,
+  usage: TokenUsage[] = [],
+  cacheMode: CacheMode = getCacheMode(),
+  filters: Pick<
+    SearchOptions,
+    "timeRange" | "includeDomains" | "excludeDomains"
+  > = {},
+): Promise<SearchResponse[]> {
+  const provider = getSearchProvider(providerName);
+  const { includeDomains, excludeDomains, rejected } = resolveDomainFilters(
+    filters.includeDomains,
+    filters.excludeDomains,
+  );
+  // Every requested domain is outside the domain policy
+  if (rejected.length > 0 && includeDomains.length === 0) {
+    return searchQueries.map((query) => ({
+      query,
+      provider: provider.name,
+      results: [],
+    }));
+  }
+  const options: SearchOptions = {
+    maxResults,
+    topic,
+    includeRawContent,
+    ...(filters.timeRange ? { timeRange: filters.timeRange } : {}),
+    ...(includeDomains.length > 0 ? { includeDomains } : {}),
+    ...(excludeDomains.length > 0 ? { excludeDomains } : {}),
+  };
+
   // Run searches in parallel using Promise.all
   const results = await Promise.all(
-    searchQueries.map((query) =>
-      tavilyClient.search(query, {
-        maxResults: maxResults,
-        topic: topic,
-        includeRawContent: includeRawContent ? "text" : false,
-      }),
-    ),
+    searchQueries.map(async (query) => {
+      const { value, outcome } = await cached(
+        "search",
+        {
+          provider: provider.name,
+          query: normalizeQuery(query),
+          max_results: maxResults,
+          topic,
+          include_raw_content: includeRawContent,
+          time_range: options.timeRange,
+          include_domains: options.includeDomains,
+          exclude_domains: options.excludeDomains,
+        },
+        cacheMode,
+        () =>
+          callWithLimits(searchRateLimiter, `${provider.name} search`, () =>
+            provider.search(query, options),
+          ),
+      );
+      usage.push({
+        ...searchUsage(provider.name, outcome?.hit ? 0 : 1),
+        cache: outcome,
+      });
+      return filterByDomain(value, includeDomains, excludeDomains);
+    }),
   );
 
   return results;
@@ -75,44 +187,103 @@ export async function tavilySearchMultiple(
 
 /**
  * Summarize webpage content using the configured summarization model
+ *
+ * Summaries are cached by the hash of the content and the summarization
+ * model, so the same page is only summarized once. When summarization fails
+ * even after retries, the start of the page is returned instead, marked as
+ * unsummarized, and the error is collected.
  * @param webpageContent - Raw webpage content to summarize
+ * @param usage - Collects the token usage of the summarization call
+ * @param cacheMode - Cache mode of the run
+ * @param errors - Collects the error when the page could not be summarized
  * @returns Formatted summary with key excerpts
  */
 export async function summarizeWebpageContent(
   webpageContent: string,
+  usage: TokenUsage[] = [],
+  cacheMode: CacheMode = getCacheMode(),
+  errors: string[] = [],
 ): Promise<string> {
+  const model = getRoleModelName("summarize");
   try {
-    // Generate summary
-    const summary = await structuredModel.invoke([
-      new HumanMessage(createSummarizeWebpagePrompt(webpageContent)),
-    ]);
+    // A cache hit costs nothing, so the call's usage stays empty
+    let callUsage = measureUsage(undefined, model);
+    const { value: formatted_summary, outcome } = await cached(
+      "summary",
+      { model, content: hashContent(webpageContent) },
+      cacheMode,
+      async () => {
+        // Generate summary
+        const { raw, parsed: summary } = await structuredModel.invoke([
+          new HumanMessage(createSummarizeWebpagePrompt(webpageContent)),
+        ]);
+        callUsage = measureUsage(raw, model);
 
-    const formatted_summary = `<summary>\n${summary.summary}\n</summary>\n\n<key_excerpts>\n${summary.key_excerpts}\n</key_excerpts>\n`;
+        return `<summary>\n${summary.summary}\n</summary>\n\n<key_excerpts>\n${summary.key_excerpts}\n</key_excerpts>\n`;
+      },
+    );
+    usage.push({ ...callUsage, cache: outcome });
 
     return formatted_summary;
   } catch (error) {
-    console.error("Error summarizing webpage content:", error);
-    return webpageContent.length > 1000
-      ? webpageContent.substring(0, 1000) + "..."
-      : webpageContent;
+    const reason = error instanceof Error ? error.message : String(error);
+    console.error(
+      `Error summarizing webpage content, using its first 1000 characters instead: ${reason}`,
+    );
+    errors.push(reason);
+    const excerpt =
+      webpageContent.length > 1000
+        ? webpageContent.substring(0, 1000) + "..."
+        : webpageContent;
+    return `[Summary unavailable (${reason}); showing the start of the page]\n${excerpt}`;
   }
 }
 
+// A search result after deduplication, with the URLs of its duplicates.
+export type UniqueSearchResult = SearchResult & {
+  // Other URLs the same content was found at
+  alternateUrls: string[];
+  // MinHash fingerprint of the raw content, when there is any
+  fingerprint?: string | undefined;
+};
+
 /**
- * Deduplicate seaerch results by URL to avoid processing duplicate content.
+ * Deduplicate seaerch results to avoid processing duplicate content.
+ *
+ * Results are the same when their canonical URLs match, or when their raw
+ * content is nearly identical, e.g. a syndicated copy of an article. The
+ * first result is kept and remembers the URLs of its duplicates.
  * @param searchResults - List of search results
  * @returns Dictionary mapping URLs to unique results
  */
 export async function deduplicateSearchResults(
-  searchResults: Record<string, any>[],
-): Promise<Record<string, any>> {
-  let uniqueResults: Record<string, any> = {};
+  searchResults: SearchResponse[],
+): Promise<Record<string, UniqueSearchResult>> {
+  let uniqueResults: Record<string, UniqueSearchResult> = {};
+  const urlsByCanonical = new Map<string, string>();
 
   for (const response of searchResults) {
     for (const result of response.results) {
-      const url = result.url;
-      if (!uniqueResults[url]) {
-        uniqueResults[url] = result;
+      const canonical = canonicalizeUrl(result.url);
+      const fingerprint = result.rawContent
+        ? createFingerprint(result.rawContent)
+        : undefined;
+      const duplicate =
+        uniqueResults[urlsByCanonical.get(canonical) ?? ""] ??
+        Object.values(uniqueResults).find((unique) =>
+          isNearDuplicate(unique.fingerprint, fingerprint),
+        );
+
+      if (!duplicate) {
+        uniqueResults[result.url] = {
+          ...result,
+          alternateUrls: [],
+          ...(fingerprint ? { fingerprint } : {}),
+        };
+        urlsByCanonical.set(canonical, result.url);
+      } else if (canonicalizeUrl(duplicate.url) !== canonical) {
+        duplicate.alternateUrls.push(result.url);
+        urlsByCanonical.set(canonical, duplicate.url);
       }
     }
   }
@@ -120,42 +291,116 @@ export async function deduplicateSearchResults(
   return uniqueResults;
 }
 
+/**
+ * Set aside the results the run has already retrieved as sources.
+ *
+ * Known sources whose full content was already read are not summarized
+ * again: the researcher is pointed to the registered source instead, and the
+ * result is recorded as another sighting of it. Sources only known from a
+ * search snippet are read when a result brings their full content.
+ * @param uniqueResults - Dictionary of unique search results
+ * @param knownSources - Sources the run has retrieved so far
+ * @returns The new results, the output entries of the known ones by source
+ *          URL, and the known sources' updated records
+ */
+export function separateKnownResults(
+  uniqueResults: Record<string, UniqueSearchResult>,
+  knownSources: SourceRegistry,
+): {
+  fresh: Record<string, UniqueSearchResult>;
+  repeated: Record<string, { title: string; content: string }>;
+  sources: SourceRecord[];
+} {
+  const fresh: Record<string, UniqueSearchResult> = {};
+  const repeated: Record<string, { title: string; content: string }> = {};
+  const sources: SourceRecord[] = [];
+
+  for (const [url, result] of Object.entries(uniqueResults)) {
+    const [record] = createSearchSources({ [url]: result });
+    const known = findDuplicateSource(knownSources, record!);
+    if (!known || (!known.fingerprint && result.rawContent)) {
+      fresh[url] = result;
+      continue;
+    }
+    const sameUrl = canonicalizeUrl(known.url) === canonicalizeUrl(url);
+    repeated[known.url] = {
+      title: known.title,
+      content:
+        `Already retrieved earlier in this run${sameUrl ? "" : ` (this copy is at ${url})`}; not summarized again.\n` +
+        (known.summary ?? known.excerpts[0] ?? ""),
+    };
+    sources.push(mergeSources({ [known.id]: known }, [record!])[known.id]!);
+  }
+
+  return { fresh, repeated, sources };
+}
+
 /**
  * Process search results by summarizing content where available.
+ *
+ * Pages are summarized concurrently, at most SUMMARIZATION_CONCURRENCY at a
+ * time.
  * @param uniqueResults - Dictionary of unique search results
+ * @param usage - Collects the token usage of the summarization calls
+ * @param cacheMode - Cache mode of the run
+ * @param degraded - Collects the pages that could not be summarized
  * @returns Dictionary of processed results with summaries
  */
 export async function processSearchResults(
-  uniqueResults: Record<string, any>,
+  uniqueResults: Record<string, SearchResult>,
+  usage: TokenUsage[] = [],
+  cacheMode: CacheMode = getCacheMode(),
+  degraded: DegradedSummary[] = [],
 ): Promise<Record<string, any>> {
   let summarizedResults: Record<string, any> = {};
 
-  for (const [url, result] of Object.entries(uniqueResults)) {
-    // Use existing content if no raw content for summarization
-    let content: string;
-    if (!result.rawContent) {
-      content = result.content;
-    } else {
+  const entries = Object.entries(uniqueResults);
+  const contents = await mapWithConcurrency(
+    entries,
+    summarizationConcurrency,
+    async ([url, result]) => {
+      // Use existing content if no raw content for summarization
+      if (!result.rawContent) {
+        return result.content;
+      }
+
       // Summarize raw content for better processing
-      content = await summarizeWebpageContent(result.rawContent);
-    }
+      const errors: string[] = [];
+      const content = await summarizeWebpageContent(
+        result.rawContent,
+        usage,
+        cacheMode,
+        errors,
+      );
+      for (const error of errors) {
+        degraded.push({ url, error });
+      }
+      return content;
+    },
+  );
 
+  entries.forEach(([url, result], index) => {
     summarizedResults[url] = {
       title: result.title,
-      content: content,
+      content: contents[index],
     };
-  }
+  });
 
   return summarizedResults;
 }
 
 /**
  * Format search results into a well-structured string output.
+ *
+ * Each source is labelled with its stable source ID, which is how
+ * researchers and writers cite it, and with its credibility when scored.
  * @param summarizedResults - Dictionary of processed search results
+ * @param scores - Credibility scores by URL
  * @returns Formatted string of search resutls with clear source separation
  */
 export async function formatSearchOutput(
   summarizedResults: Record<string, any>,
+  scores: Record<string, CredibilityScore> = {},
 ): Promise<string> {
   if (!summarizedResults || Object.keys(summarizedResults).length === 0) {
     return "No valid search results found. Please try different search queries or use a different search API.";
@@ -163,12 +408,14 @@ export async function formatSearchOutput(
 
   let formattedOutput = "Search Results:\n\n";
 
-  for (const [i, [url, result]] of Object.entries(
-    summarizedResults,
-  ).entries()) {
-    const sourceNumber = i + 1;
-    formattedOutput += `\n\n--- SOURCE ${sourceNumber}: ${result.title} ---\n`;
-    formattedOutput += `URL: ${url}\n\n`;
+  for (const [url, result] of Object.entries(summarizedResults)) {
+    // Sources are labelled with their registry ID, which writers cite
+    formattedOutput += `\n\n--- SOURCE ${createSourceId(url)}: ${result.title} ---\n`;
+    formattedOutput += `URL: ${url}\n`;
+    if (scores[url]) {
+      formattedOutput += `CREDIBILITY: ${formatCredibility(scores[url])}\n`;
+    }
+    formattedOutput += "\n";
     formattedOutput += `SUMMARY:\n${result.content}\n\n`;
     formattedOutput += "-".repeat(80) + "\n";
   }
@@ -176,18 +423,80 @@ export async function formatSearchOutput(
   return formattedOutput;
 }
 
+/**
+ * Build the source registry records for a set of search results.
+ * @param uniqueResults - Dictionary of unique search results
+ * @param scores - Credibility scores by URL
+ * @param summarizedResults - Processed results, whose summaries of the full
+ *        content are kept for the run's knowledge store
+ * @returns One record per result, with the search snippet as excerpt, the
+ *          URLs of its duplicates, its summary, and the credibility score
+ *          when scored
+ */
+export function createSearchSources(
+  uniqueResults: Record<string, UniqueSearchResult>,
+  scores: Record<string, CredibilityScore> = {},
+  summarizedResults: Record<string, any> = {},
+): SourceRecord[] {
+  return Object.entries(uniqueResults).map(([url, result]) => ({
+    ...createSourceRecord(url, result.title, result.content),
+    ...(result.rawContent && summarizedResults[url]
+      ? { summary: summarizedResults[url].content }
+      : {}),
+    ...(result.alternateUrls.length > 0
+      ? { alternate_urls: result.alternateUrls }
+      : {}),
+    ...(result.fingerprint ? { fingerprint: result.fingerprint } : {}),
+    ...(scores[url] ? { credibility: scores[url].score } : {}),
+  }));
+}
+
 // ===== RESEARCH TOOLS =====
 
+// Artifact of the search tools: the sources they retrieved, their usage and
+// the pages that could not be summarized.
+export type SearchToolArtifact = SourceArtifact &
+  UsageArtifact & { degraded_summaries: DegradedSummary[] };
+
 function createTavilySearchFields() {
   const searchFieldsSchema = z.object({
     query: z.string().describe("A single search query to execute."),
+    topic: z
+      .enum(searchTopics)
+      .optional()
+      .describe(
+        "Kind of search: general (default), news for current events, or finance.",
+      ),
+    time_range: z
+      .enum(searchTimeRanges)
+      .optional()
+      .describe("Only return results published within this period."),
+    max_results: z
+      .number()
+      .int()
+      .min(1)
+      .optional()
+      .describe(
+        `Number of results to return (default ${searchSettings.defaultMaxResults}, at most ${searchSettings.maxResults}).`,
+      ),
+    include_domains: z
+      .array(z.string())
+      .optional()
+      .describe(
+        "Only return results from these domains, e.g. europa.eu. Subdomains are included.",
+      ),
+    exclude_domains: z
+      .array(z.string())
+      .optional()
+      .describe("Never return results from these domains."),
   });
 
   return {
     name: "tavily_search",
     description:
-      "Fetch results from Tavily search API with content summarization.",
+      "Fetch results from the configured web search provider with content summarization.",
     schema: searchFieldsSchema,
+    responseFormat: "content_and_artifact" as const,
   };
 }
 
@@ -196,32 +505,433 @@ type SearchFields = z.infer<
 >;
 
 export const tavilySearch = tool(
-  async (input: SearchFields): Promise<string> => {
+  async (
+    input: SearchFields,
+    config?: RunnableConfig,
+  ): Promise<[string, SearchToolArtifact]> => {
     const { query } = input;
 
-    const maxResults = 3;
-    const topic = "general";
+    // Researchers choose the options within the configured bounds
+    const maxResults = Math.min(
+      input.max_results ?? searchSettings.defaultMaxResults,
+      searchSettings.maxResults,
+    );
+    const topic = input.topic ?? "general";
+    const { rejected, includeDomains } = resolveDomainFilters(
+      input.include_domains,
+      input.exclude_domains,
+    );
+    if (rejected.length > 0 && includeDomains.length === 0) {
+      return [
+        `No search was made: the domain policy does not allow ${rejected.join(", ")}.`,
+        { sources: [], usage: [], degraded_summaries: [] },
+      ];
+    }
 
-    // Execute search for a single query
-    const searchResults = await tavilySearchMultiple(
+    // Execute search for a single query with the provider and cache mode
+    // selected for this run
+    const cacheMode = getCacheMode(config);
+    const usage: TokenUsage[] = [];
+    const searchResults = await searchMultiple(
       [query],
       maxResults,
       topic,
       true,
+      config?.configurable?.search_provider,
+      usage,
+      cacheMode,
+      {
+        timeRange: input.time_range,
+        includeDomains: input.include_domains,
+        excludeDomains: input.exclude_domains,
+      },
     );
 
-    // Deduplicate results by URL to avoid processing duplicate content
+    // Deduplicate results by URL and content to avoid processing duplicate
+    // content, and set aside those the run has already retrieved
     const uniqueResults = await deduplicateSearchResults(searchResults);
+    const { fresh, repeated, sources } = separateKnownResults(
+      uniqueResults,
+      getKnowledgeStore(config).sources,
+    );
+
+    // Rank results by credibility and drop the least credible ones before
+    // they are summarized
+    const scores = scoreSources(Object.values(uniqueResults));
+    const { ranked, dropped } = rankByCredibility(fresh, scores);
+    const notes = dropped.map(
+      (url) =>
+        `${url} was dropped for low credibility (${scores[url]!.score.toFixed(2)}).`,
+    );
+    if (rejected.length > 0) {
+      notes.push(
+        `Results from ${rejected.join(", ")} were not searched; the domain policy does not allow them.`,
+      );
+    }
 
     // Process results with summarization
-    const summarizedResults = await processSearchResults(uniqueResults);
+    const degraded: DegradedSummary[] = [];
+    const summarizedResults = await processSearchResults(
+      ranked,
+      usage,
+      cacheMode,
+      degraded,
+    );
 
-    // Format output for consumption
-    return await formatSearchOutput(summarizedResults);
+    // Format output for consumption; the retrieved sources, the usage of the
+    // call and any degraded summaries travel as the ToolMessage artifact
+    const output = await formatSearchOutput(
+      { ...summarizedResults, ...repeated },
+      scores,
+    );
+    return [
+      notes.length > 0
+        ? `${output}\n\nNotes:\n- ${notes.join("\n- ")}`
+        : output,
+      {
+        sources: [
+          ...createSearchSources(ranked, scores, summarizedResults),
+          ...sources,
+        ],
+        usage,
+        degraded_summaries: degraded,
+      },
+    ];
   },
   createTavilySearchFields(),
 );
 
+function createLocalSearchFields() {
+  const localSearchFieldsSchema = z.object({
+    query: z
+      .string()
+      .describe("Keywords to search for in the local document corpus."),
+  });
+
+  return {
+    name: "local_search",
+    description:
+      "Search the local document corpus (internal PDF, Markdown, HTML and text files) with content summarization. " +
+      "Results are cited by their file:// URL.",
+    schema: localSearchFieldsSchema,
+    responseFormat: "content_and_artifact" as const,
+  };
+}
+
+type LocalSearchFields = z.infer<
+  ReturnType<typeof createLocalSearchFields>["schema"]
+>;
+
+export const localSearch = tool(
+  async (
+    input: LocalSearchFields,
+    config?: RunnableConfig,
+  ): Promise<[string, SearchToolArtifact]> => {
+    const { query } = input;
+    const corpusDir: string =
+      config?.configurable?.corpus_dir || corpusSettings.dir;
+
+    if (!corpusDir) {
+      return [
+        "No local document corpus is configured. Use web search instead.",
+        { sources: [], usage: [], degraded_summaries: [] },
+      ];
+    }
+
+    const maxResults = 3;
+
+    // Search the corpus; each result is one document with its best chunks
+    const searchResults = [
+      await createCorpusProvider(corpusDir).search(query, {
+        maxResults,
+        topic: "general",
+        includeRawContent: true,
+      }),
+    ];
+
+    // From here on local documents go through the same pipeline as web results
+    const uniqueResults = await deduplicateSearchResults(searchResults);
+    const usage: TokenUsage[] = [];
+    const degraded: DegradedSummary[] = [];
+    const summarizedResults = await processSearchResults(
+      uniqueResults,
+      usage,
+      getCacheMode(config),
+      degraded,
+    );
+    return [
+      await formatSearchOutput(summarizedResults),
+      {
+        sources: createSearchSources(uniqueResults, {}, summarizedResults),
+        usage,
+        degraded_summaries: degraded,
+      },
+    ];
+  },
+  createLocalSearchFields(),
+);
+
+// Length of the page start used as a fetched page's source excerpt
+const PAGE_EXCERPT_LENGTH = 500;
+
+/**
+ * Summarize fetched pages and register them as sources.
+ *
+ * Pages go through the same pipeline as search results, so they are
+ * summarized, labelled with their source IDs and credibility, and cited like
+ * any web page. The researcher chose them, so none are dropped for low
+ * credibility.
+ * @param pages - Fetched pages
+ * @param notes - Notes on pages that were cut off or could not be fetched
+ * @param config - Runnable config with the run's cache mode
+ * @returns Tool output and artifact with the pages' sources
+ */
+async function summarizeFetchedPages(
+  pages: FetchedPage[],
+  notes: string[],
+  config?: RunnableConfig,
+): Promise<[string, SearchToolArtifact]> {
+  const results: SearchResult[] = [];
+  for (const page of pages) {
+    if (!page.text) {
+      notes.push(`${page.url} has no readable content.`);
+      continue;
+    }
+    results.push({
+      url: page.url,
+      title: page.title,
+      content: page.text.slice(0, PAGE_EXCERPT_LENGTH),
+      rawContent: page.text,
+    });
+    if (page.truncated) {
+      notes.push(
+        `${page.url} exceeded the size limit; only its start was read.`,
+      );
+    }
+  }
+
+  // Crawls often reach one page under several URLs
+  const uniqueResults = await deduplicateSearchResults([
+    { query: "", provider: "fetch", results },
+  ]);
+  const { fresh, repeated, sources } = separateKnownResults(
+    uniqueResults,
+    getKnowledgeStore(config).sources,
+  );
+
+  const usage: TokenUsage[] = [];
+  const degraded: DegradedSummary[] = [];
+  const summarizedResults = await processSearchResults(
+    fresh,
+    usage,
+    getCacheMode(config),
+    degraded,
+  );
+  const scores = scoreSources(Object.values(uniqueResults));
+  const allResults = { ...summarizedResults, ...repeated };
+  const output =
+    Object.keys(allResults).length > 0
+      ? await formatSearchOutput(allResults, scores)
+      : "No readable pages were retrieved.";
+  return [
+    notes.length > 0 ? `${output}\n\nNotes:\n- ${notes.join("\n- ")}` : output,
+    {
+      sources: [
+        ...createSearchSources(fresh, scores, summarizedResults),
+        ...sources,
+      ],
+      usage,
+      degraded_summaries: degraded,
+    },
+  ];
+}
+
+function createFetchUrlFields() {
+  const fetchUrlFieldsSchema = z.object({
+    url: z.string().describe("The http or https URL of the page to read."),
+  });
+
+  return {
+    name: "fetch_url",
+    description:
+      "Download a web page, e.g. a promising link mentioned in a search result, and summarize its main content. " +
+      "The page becomes a citable source. Pages disallowed by the site's robots.txt are not fetched.",
+    schema: fetchUrlFieldsSchema,
+    responseFormat: "content_and_artifact" as const,
+  };
+}
+
+type FetchUrlFields = z.infer<
+  ReturnType<typeof createFetchUrlFields>["schema"]
+>;
+
+export const fetchUrl = tool(
+  async (
+    input: FetchUrlFields,
+    config?: RunnableConfig,
+  ): Promise<[string, SearchToolArtifact]> => {
+    let page: FetchedPage;
+    try {
+      page = await fetchPage(input.url);
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      return [
+        `Could not fetch ${input.url}: ${reason}`,
+        { sources: [], usage: [], degraded_summaries: [] },
+      ];
+    }
+    return summarizeFetchedPages([page], [], config);
+  },
+  createFetchUrlFields(),
+);
+
+function createCrawlSiteFields() {
+  const crawlSiteFieldsSchema = z.object({
+    url: z.string().describe("The http or https URL to start crawling from."),
+    max_pages: z
+      .number()
+      .int()
+      .min(1)
+      .optional()
+      .describe(
+        `Most pages to read, including the start page (at most ${webFetchSettings.maxCrawlPages}).`,
+      ),
+    max_depth: z
+      .number()
+      .int()
+      .min(0)
+      .optional()
+      .describe(
+        `Most links to follow from the start page (at most ${webFetchSettings.maxCrawlDepth}).`,
+      ),
+    path_prefix: z
+      .string()
+      .optional()
+      .describe(
+        "Only follow links whose path starts with this prefix, e.g. /docs/.",
+      ),
+  });
+
+  return {
+    name: "crawl_site",
+    description:
+      "Read several pages of one site, e.g. a documentation site, by following its links from a start page. " +
+      "Only links on the start page's host are followed. Each page is summarized and becomes a citable source.",
+    schema: crawlSiteFieldsSchema,
+    responseFormat: "content_and_artifact" as const,
+  };
+}
+
+type CrawlSiteFields = z.infer<
+  ReturnType<typeof createCrawlSiteFields>["schema"]
+>;
+
+export const crawlSite = tool(
+  async (
+    input: CrawlSiteFields,
+    config?: RunnableConfig,
+  ): Promise<[string, SearchToolArtifact]> => {
+    const { maxCrawlPages, maxCrawlDepth } = webFetchSettings;
+    let crawl: Awaited<ReturnType<typeof crawlPages>>;
+    try {
+      crawl = await crawlPages(input.url, {
+        maxPages: Math.min(input.max_pages ?? maxCrawlPages, maxCrawlPages),
+        maxDepth: Math.min(input.max_depth ?? maxCrawlDepth, maxCrawlDepth),
+        pathPrefix: input.path_prefix,
+      });
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      return [
+        `Could not crawl ${input.url}: ${reason}`,
+        { sources: [], usage: [], degraded_summaries: [] },
+      ];
+    }
+    const notes = crawl.failed.map(
+      ({ url, error }) => `Could not fetch ${url}: ${error}`,
+    );
+    return summarizeFetchedPages(crawl.pages, notes, config);
+  },
+  createCrawlSiteFields(),
+);
+
+// Most sources and findings returned by a knowledge store search
+const KNOWLEDGE_RESULTS = 5;
+
+// Length of a finding shown in knowledge store results
+const FINDING_EXCERPT_LENGTH = 2000;
+
+function createSearchKnowledgeFields() {
+  const searchKnowledgeFieldsSchema = z.object({
+    query: z
+      .string()
+      .describe(
+        "Keywords to look up in what this run's researchers have already found.",
+      ),
+  });
+
+  return {
+    name: "search_knowledge",
+    description:
+      "Search the sources and findings other researchers of this run have already gathered, with their summaries. " +
+      "Costs no web searches; use it before searching the web. Sources found here are cited by their source ID like any other.",
+    schema: searchKnowledgeFieldsSchema,
+    responseFormat: "content_and_artifact" as const,
+  };
+}
+
+type SearchKnowledgeFields = z.infer<
+  ReturnType<typeof createSearchKnowledgeFields>["schema"]
+>;
+
+export const searchKnowledge = tool(
+  async (
+    input: SearchKnowledgeFields,
+    config?: RunnableConfig,
+  ): Promise<[string, SearchToolArtifact]> => {
+    const hits = getKnowledgeStore(config).search(
+      input.query,
+      KNOWLEDGE_RESULTS,
+    );
+    if (hits.length === 0) {
+      return [
+        "Nothing in this run's knowledge store matches the query yet. Search the web instead.",
+        { sources: [], usage: [], degraded_summaries: [] },
+      ];
+    }
+
+    let output = "Knowledge Store Results:\n\n";
+    const sources: SourceRecord[] = [];
+    for (const hit of hits) {
+      if (hit.type === "source") {
+        const { source } = hit;
+        sources.push(source);
+        output += `\n\n--- SOURCE ${source.id}: ${source.title} ---\n`;
+        output += `URL: ${source.url}\n`;
+        if (source.credibility !== undefined) {
+          output += `CREDIBILITY: ${source.credibility.toFixed(2)}\n`;
+        }
+        output += `\nSUMMARY:\n${source.summary ?? source.excerpts.join("\n\n")}\n\n`;
+      } else {
+        const { finding } = hit;
+        const text =
+          finding.findings.length > FINDING_EXCERPT_LENGTH
+            ? finding.findings.slice(0, FINDING_EXCERPT_LENGTH) + "..."
+            : finding.findings;
+        const subQuestion = finding.sub_question_id
+          ? ` (sub-question ${finding.sub_question_id})`
+          : "";
+        output += `\n\n--- FINDINGS of the research on "${finding.topic}"${subQuestion} ---\n\n`;
+        output += `${text}\n\n`;
+      }
+      output += "-".repeat(80) + "\n";
+    }
+
+    // Sources found here join this researcher's registry, so it can cite them
+    return [output, { sources, usage: [], degraded_summaries: [] }];
+  },
+  createSearchKnowledgeFields(),
+);
+
 function createThinkToolFields() {
   const thinkFieldsSchema = z.object({
     reflection: z
@@ -267,6 +977,12 @@ function createConductResearchToolFields() {
       .describe(
         "The topic to research. Should be a single topic, and should be described in high detail (at least a paragraph).",
       ),
+    sub_question_id: z
+      .string()
+      .optional()
+      .describe(
+        "ID of the research plan sub-question this task answers. Its prerequisites are researched first and their findings are passed to the researcher.",
+      ),
   });
 
   return {
@@ -286,11 +1002,115 @@ export const conductResearch = tool(async (_input: ConductResearchFields) => {
   // return `Research task delegated: ${research_topic}`;
 }, createConductResearchToolFields());
 
+function createUpdateResearchPlanToolFields() {
+  const updateResearchPlanFieldsSchema = z.object({
+    sub_questions: z
+      .array(SubQuestionUpdate)
+      .describe(
+        "Sub-questions to add or change. Sub-questions not listed are kept as they are.",
+      ),
+  });
+
+  return {
+    name: "UpdateResearchPlan",
+    description:
+      "Tool for creating and updating the research plan: the sub-questions of the research brief, their priorities and the sub-questions each one depends on. " +
+      "Returns the updated plan, or the problems that prevented the update.",
+    schema: updateResearchPlanFieldsSchema,
+  };
+}
+
+type UpdateResearchPlanFields = z.infer<
+  ReturnType<typeof createUpdateResearchPlanToolFields>["schema"]
+>;
+
+// Applied to the plan in the supervisor's state by the supervisor tools node
+export const updateResearchPlan = tool(
+  async (_input: UpdateResearchPlanFields) => {},
+  createUpdateResearchPlanToolFields(),
+);
+
 export const ResearchComplete = tool(async () => {}, {
   name: "ResearchComplete",
   description: "Tool for indicating that the research process is complete",
 });
 
+/**
+ * Run an async function over items with at most `limit` calls in flight.
+ * @param items - Items to process
+ * @param limit - Maximum number of concurrent calls
+ * @param fn - Function to run for each item
+ * @returns Results in the order of the items
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>,
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]!, index);
+    }
+  };
+
+  await Promise.all(
+    Array.from({ length: Math.min(Math.max(limit, 1), items.length) }, worker),
+  );
+  return results;
+}
+
+/**
+ * Get the research limits of a run.
+ * @param config - Runnable config, whose configurable options override the defaults
+ * @returns Researchers per supervisor turn, supervisor turns, and tool calls per researcher
+ */
+export function getResearchLimits(config?: RunnableConfig): {
+  maxConcurrentResearchUnits: number;
+  maxResearcherIterations: number;
+  maxReactToolCalls: number;
+} {
+  const configurable = config?.configurable ?? {};
+  return {
+    maxConcurrentResearchUnits:
+      configurable.max_concurrent_research_units ?? maxConcurrentResearchUnits,
+    maxResearcherIterations:
+      configurable.max_researcher_iterations ?? maxResearcherIterations,
+    maxReactToolCalls: configurable.max_react_tool_calls ?? maxReactToolCalls,
+  };
+}
+
+/**
+ * Build the config passed to a nested graph invocation from a node's config.
+ *
+ * Only user-supplied configurable options (e.g. `search_provider`) are
+ * forwarded; LangGraph's internal keys and the parent's checkpoint
+ * coordinates are dropped so the nested graph runs independently.
+ * @param config - The calling node's runnable config
+ * @returns Config to pass to the nested graph's invoke()
+ */
+export function getNestedRunConfig(
+  config?: RunnableConfig,
+): RunnableConfig<any> {
+  const configurable = Object.fromEntries(
+    Object.entries(config?.configurable ?? {}).filter(
+      ([key]) =>
+        !key.startsWith("__") &&
+        ![
+          "thread_id",
+          "checkpoint_id",
+          "checkpoint_ns",
+          "checkpoint_map",
+        ].includes(key),
+    ),
+  );
+
+  return { configurable };
+}
+
 /**
  * Extract research notes from ToolMessage objects in supervisor message history.
  *
@@ -0,0 +1,132 @@
+/**
+ * Host Address Checks.
+ *
+ * Researchers choose the URLs they fetch, and pages choose where they
+ * redirect, so a page could point the fetcher at the machine it runs on, the
+ * local network or a cloud metadata service. Hosts are resolved before every
+ * request and refused when any of their addresses is not publicly routable.
+ * The request then connects to the checked addresses instead of resolving
+ * the host again, so a DNS answer that changes in between cannot point it
+ * elsewhere.
+ */
+
+import type { LookupAddress } from "node:dns";
+import { lookup } from "node:dns/promises";
+import { BlockList, isIP, LookupFunction } from "node:net";
+
+// Address ranges that are not publicly routable
+const PRIVATE_RANGES = new BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8], // "this" network
+  ["10.0.0.0", 8], // private
+  ["100.64.0.0", 10], // carrier-grade NAT
+  ["127.0.0.0", 8], // loopback
+  ["169.254.0.0", 16], // link-local, including cloud metadata services
+  ["172.16.0.0", 12], // private
+  ["192.0.0.0", 24], // IETF protocol assignments
+  ["192.168.0.0", 16], // private
+  ["198.18.0.0", 15], // benchmarking
+  ["224.0.0.0", 4], // multicast
+  ["240.0.0.0", 4], // reserved and broadcast
+] as const) {
+  PRIVATE_RANGES.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 128], // unspecified
+  ["::1", 128], // loopback
+  ["64:ff9b:1::", 48], // local-use IPv4/IPv6 translation
+  ["fc00::", 7], // unique local
+  ["fe80::", 10], // link-local
+  ["ff00::", 8], // multicast
+] as const) {
+  PRIVATE_RANGES.addSubnet(network, prefix, "ipv6");
+}
+
+// Host names of metadata services that resolve to private addresses
+const METADATA_HOSTS = new Set(["metadata.google.internal", "metadata"]);
+
+export class PrivateAddressError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PrivateAddressError";
+  }
+}
+
+/**
+ * Check whether an IP address is publicly routable.
+ * @param address - IPv4 or IPv6 address
+ * @returns False for loopback, private, link-local and other reserved addresses
+ */
+export function isPublicAddress(address: string): boolean {
+  // IPv4 addresses written as IPv6, e.g. ::ffff:127.0.0.1
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address)?.[1];
+  if (mapped) return isPublicAddress(mapped);
+
+  const family = isIP(address);
+  if (family === 0) return false;
+  return !PRIVATE_RANGES.check(address, family === 4 ? "ipv4" : "ipv6");
+}
+
+/**
+ * Check that a URL's host only resolves to public addresses.
+ * @param url - URL about to be requested
+ * @returns The checked addresses of the host
+ * @throws PrivateAddressError when the host is local, a metadata service,
+ *         or resolves to an address that is not publicly routable; an error
+ *         when it cannot be resolved
+ */
+export async function assertPublicHost(url: URL): Promise<LookupAddress[]> {
+  const host = url.hostname.replace(/^\[|\]$/g, "").toLowerCase();
+  if (host === "localhost" || host.endsWith(".localhost")) {
+    throw new PrivateAddressError(
+      `Fetching local addresses is not allowed: ${url}`,
+    );
+  }
+  if (METADATA_HOSTS.has(host.replace(/\.$/, ""))) {
+    throw new PrivateAddressError(
+      `Fetching metadata services is not allowed: ${url}`,
+    );
+  }
+
+  const addresses = isIP(host)
+    ? [{ address: host, family: isIP(host) }]
+    : await lookup(host, { all: true, verbatim: true });
+  const blocked = addresses.find(({ address }) => !isPublicAddress(address));
+  if (blocked) {
+    throw new PrivateAddressError(
+      `Fetching private addresses is not allowed: ${url} resolves to ${blocked.address}`,
+    );
+  }
+  return addresses;
+}
+
+/**
+ * Create a DNS lookup that answers with addresses resolved earlier.
+ * @param addresses - Checked addresses of the host
+ * @returns Lookup for the `lookup` option of an HTTP request
+ */
+export function pinnedLookup(addresses: LookupAddress[]): LookupFunction {
+  return (hostname, options, callback) => {
+    const wanted =
+      options.family === "IPv4"
+        ? 4
+        : options.family === "IPv6"
+          ? 6
+          : options.family;
+    const matching = addresses.filter(
+      ({ family }) => !wanted || family === wanted,
+    );
+    const first = matching[0];
+    if (!first) {
+      const error: NodeJS.ErrnoException = new Error(
+        `No checked address of ${hostname} matches the requested family`,
+      );
+      error.code = "ENOTFOUND";
+      callback(error, "");
+    } else if (options.all) {
+      callback(null, matching);
+    } else {
+      callback(null, first.address, first.family);
+    }
+  };
+}
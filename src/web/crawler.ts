@@ -0,0 +1,85 @@
+/**
+ * Site Crawler.
+ *
+ * Walks a site breadth-first from a start page, following links that stay
+ * on the start page's host, within the domain policy and, optionally, under
+ * a path prefix. The crawl stops at the page and link-depth limits. Every
+ * page is fetched through the page fetcher, so robots.txt and the size and
+ * time limits apply.
+ */
+
+import { isUrlAllowed } from "../search/index.js";
+import { FetchedPage, fetchPage, parseFetchUrl } from "./fetcher.js";
+
+export type CrawlOptions = {
+  // Most pages to fetch, including the start page
+  maxPages: number;
+  // Most links to follow from the start page
+  maxDepth: number;
+  // Only follow links whose path starts with this prefix
+  pathPrefix?: string | undefined;
+};
+
+export type CrawlResult = {
+  pages: FetchedPage[];
+  // Pages that could not be fetched, with the reason
+  failed: { url: string; error: string }[];
+};
+
+// Links to files that are not pages
+const NON_PAGE_EXTENSION =
+  /\.(pdf|png|jpe?g|gif|svg|webp|ico|css|js|zip|gz|tar|mp3|mp4|woff2?)$/i;
+
+/**
+ * Crawl a site from a start page.
+ * @param startUrl - URL of the first page
+ * @param options - Page, depth and path limits
+ * @returns Fetched pages in crawl order, and the pages that failed
+ */
+export async function crawlPages(
+  startUrl: string,
+  options: CrawlOptions,
+): Promise<CrawlResult> {
+  const start = parseFetchUrl(startUrl);
+  const inScope = (url: URL) =>
+    url.host === start.host &&
+    (!options.pathPrefix || url.pathname.startsWith(options.pathPrefix)) &&
+    !NON_PAGE_EXTENSION.test(url.pathname) &&
+    isUrlAllowed(url.toString());
+
+  const pages: FetchedPage[] = [];
+  const failed: { url: string; error: string }[] = [];
+  const seen = new Set([start.toString()]);
+  const queue = [{ url: start.toString(), depth: 0 }];
+
+  while (queue.length > 0 && pages.length < options.maxPages) {
+    const { url, depth } = queue.shift()!;
+    let page: FetchedPage;
+    try {
+      page = await fetchPage(url);
+    } catch (error) {
+      failed.push({
+        url,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      continue;
+    }
+    // Redirects can lead to a page that was already fetched
+    if (url !== page.url && pages.some((item) => item.url === page.url)) {
+      continue;
+    }
+    seen.add(page.url);
+    pages.push(page);
+
+    if (depth >= options.maxDepth) continue;
+    for (const link of page.links) {
+      const next = new URL(link);
+      if (!seen.has(link) && inScope(next)) {
+        seen.add(link);
+        queue.push({ url: link, depth: depth + 1 });
+      }
+    }
+  }
+
+  return { pages, failed };
+}
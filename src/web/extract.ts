@@ -0,0 +1,62 @@
+/**
+ * Readable Content Extraction.
+ *
+ * Reduces an HTML page to its main content: navigation, headers, footers,
+ * sidebars and forms are dropped, and the <main> or <article> elements are
+ * preferred over the whole body when the page has them.
+ */
+
+import { decodeHtmlEntities, htmlToText } from "../shared/html.js";
+
+// Page chrome that never holds the main content
+const BOILERPLATE =
+  /<(nav|header|footer|aside|form|menu)\b[^>]*>[\s\S]*?<\/\1>/gi;
+
+/**
+ * Extract the readable main content of an HTML page.
+ * @param html - Raw HTML
+ * @returns Plain text of the page's main content
+ */
+export function extractMainContent(html: string): string {
+  const cleaned = html
+    .replace(/<!--[\s\S]*?-->/g, "")
+    .replace(/<(script|style|noscript|template)[^>]*>[\s\S]*?<\/\1>/gi, "")
+    .replace(BOILERPLATE, "");
+
+  const main = cleaned.match(/<main\b[^>]*>([\s\S]*?)<\/main>/i)?.[1];
+  const articles = [
+    ...cleaned.matchAll(/<article\b[^>]*>([\s\S]*?)<\/article>/gi),
+  ].map((match) => match[1]);
+  const body = cleaned.match(/<body\b[^>]*>([\s\S]*?)(<\/body>|$)/i)?.[1];
+
+  const content =
+    main ?? (articles.length > 0 ? articles.join("\n") : (body ?? cleaned));
+  return htmlToText(content);
+}
+
+/**
+ * Extract the links of an HTML page.
+ * @param html - Raw HTML
+ * @param baseUrl - URL of the page, to resolve relative links against
+ * @returns Absolute http(s) URLs without fragments, in page order, deduplicated
+ */
+export function extractLinks(html: string, baseUrl: string): string[] {
+  const base =
+    html.match(/<base\b[^>]*href\s*=\s*["']([^"']+)["']/i)?.[1] ?? baseUrl;
+  const links = new Set<string>();
+
+  for (const match of html.matchAll(
+    /<a\b[^>]*?href\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+))/gi,
+  )) {
+    const href = decodeHtmlEntities(match[1] ?? match[2] ?? match[3] ?? "");
+    try {
+      const url = new URL(href, new URL(base, baseUrl));
+      if (url.protocol !== "http:" && url.protocol !== "https:") continue;
+      url.hash = "";
+      links.add(url.toString());
+    } catch {
+      // Not a valid URL
+    }
+  }
+  return [...links];
+}
@@ -0,0 +1,315 @@
+/**
+ * Page Fetcher.
+ *
+ * Downloads single pages for the research tools. Redirects are followed one
+ * hop at a time, and every hop honours the domain policy and the site's
+ * robots.txt and is refused when its host resolves to a private address;
+ * the request then connects to the addresses that were checked.
+ * Every request sends the configured User-Agent, times out, and reads at
+ * most WEB_FETCH_MAX_BYTES of the body. HTML pages
+ * are reduced to their readable main content; plain text is kept as is.
+ * Downloads go through the shared fetch rate limiter and are recorded in or
+ * replayed from the cassette.
+ */
+
+import { get as httpGet, IncomingMessage, RequestOptions } from "node:http";
+import { get as httpsGet } from "node:https";
+import { webFetchSettings } from "../config.js";
+import { withFetchCassette } from "../cassette/index.js";
+import { callWithLimits, fetchRateLimiter } from "../rate-limit/index.js";
+import { isUrlAllowed } from "../search/index.js";
+import { extractHtmlTitle } from "../shared/html.js";
+import {
+  assertPublicHost,
+  pinnedLookup,
+  PrivateAddressError,
+} from "./address.js";
+import { extractLinks, extractMainContent } from "./extract.js";
+import {
+  ALLOW_ALL,
+  DISALLOW_ALL,
+  isAllowedByRobots,
+  parseRobotsTxt,
+  RobotsRules,
+} from "./robots.js";
+
+// A downloaded page reduced to its readable content.
+export type FetchedPage = {
+  // URL the page was served from, after redirects
+  url: string;
+  title: string;
+  text: string;
+  // Links of HTML pages, resolved to absolute URLs
+  links: string[];
+  // True when the body was cut off at the size limit
+  truncated: boolean;
+};
+
+// An HTTP response as recorded in the cassette.
+type HttpResponse = {
+  url: string;
+  status: number;
+  contentType: string;
+  body: string;
+  truncated: boolean;
+  // Target of a redirect response
+  location?: string | undefined;
+};
+
+// Most redirects followed for one download
+const MAX_REDIRECTS = 5;
+
+// Parsed robots.txt rules by origin, shared by every run in the process.
+// Rules of a robots.txt that could not be retrieved are not kept.
+const robotsByOrigin = new Map<string, Promise<RobotsRules>>();
+
+/**
+ * Send a GET request.
+ * @param url - URL to request
+ * @param options - Request options, e.g. headers and the DNS lookup
+ * @returns The response, once its headers arrived
+ */
+function get(url: URL, options: RequestOptions): Promise<IncomingMessage> {
+  const send = url.protocol === "https:" ? httpsGet : httpGet;
+  return new Promise((resolve, reject) => {
+    send(url, options, resolve).on("error", reject);
+  });
+}
+
+/**
+ * Read a response body up to a size limit.
+ * @param response - HTTP response
+ * @param maxBytes - Most bytes to read
+ * @returns The body as text, and whether it was cut off
+ */
+async function readBody(
+  response: IncomingMessage,
+  maxBytes: number,
+): Promise<{ body: string; truncated: boolean }> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  let truncated = false;
+  // Leaving the loop early discards the rest of the response
+  for await (const chunk of response as AsyncIterable<Buffer>) {
+    if (size + chunk.length > maxBytes) {
+      chunks.push(chunk.subarray(0, maxBytes - size));
+      truncated = true;
+      break;
+    }
+    chunks.push(chunk);
+    size += chunk.length;
+  }
+  return {
+    body: new TextDecoder().decode(Buffer.concat(chunks)),
+    truncated,
+  };
+}
+
+/**
+ * Download a URL without following redirects.
+ *
+ * The host is resolved first and refused when it is not public, unless
+ * WEB_FETCH_ALLOW_PRIVATE_HOSTS is set; the request connects to the checked
+ * addresses without resolving the host again. Rate limits (429) and server errors
+ * (5xx) are thrown so they are retried; other statuses are returned for the
+ * caller to handle.
+ * @param url - URL to download
+ * @returns The response, with the target of a redirect in `location`
+ */
+function download(url: string): Promise<HttpResponse> {
+  const { userAgent, timeoutMs, maxBytes, allowPrivateHosts } =
+    webFetchSettings;
+  return withFetchCassette({ url, max_bytes: maxBytes }, async () => {
+    const target = new URL(url);
+    // Connecting to the checked addresses keeps a second DNS answer from
+    // pointing the request at a private address
+    const lookup = allowPrivateHosts
+      ? undefined
+      : pinnedLookup(await assertPublicHost(target));
+    return callWithLimits(fetchRateLimiter, `fetch ${url}`, async () => {
+      const response = await get(target, {
+        headers: {
+          "User-Agent": userAgent,
+          Accept: "text/html,application/xhtml+xml,text/plain;q=0.9,*/*;q=0.5",
+        },
+        signal: AbortSignal.timeout(timeoutMs),
+        ...(lookup ? { lookup } : {}),
+      });
+      const status = response.statusCode ?? 0;
+      if (status === 429 || status >= 500) {
+        response.resume();
+        throw new Error(`Fetching ${url} failed with status ${status}`);
+      }
+      const location = response.headers.location;
+      if (status >= 300 && status < 400 && location) {
+        response.resume();
+        return {
+          url,
+          status,
+          contentType: "",
+          body: "",
+          truncated: false,
+          location,
+        };
+      }
+      return {
+        url,
+        status,
+        contentType: response.headers["content-type"] ?? "",
+        ...(await readBody(response, maxBytes)),
+      };
+    });
+  });
+}
+
+/**
+ * Download a URL, following redirects one hop at a time.
+ * @param url - URL to download
+ * @param checkHop - Called with every URL before it is downloaded; throws to
+ *        refuse it
+ * @returns The final response, with the URL it was served from
+ */
+async function downloadFollowingRedirects(
+  url: URL,
+  checkHop: (url: URL) => Promise<void>,
+): Promise<HttpResponse> {
+  let current = url;
+  for (let redirects = 0; redirects <= MAX_REDIRECTS; redirects++) {
+    await checkHop(current);
+    const response = await download(current.toString());
+    if (response.location === undefined) {
+      return response;
+    }
+    let next: string;
+    try {
+      next = new URL(response.location, current).toString();
+    } catch {
+      throw new Error(
+        `Invalid redirect from ${current} to ${response.location}`,
+      );
+    }
+    current = parseFetchUrl(next);
+  }
+  throw new Error(
+    `Fetching ${url} was redirected more than ${MAX_REDIRECTS} times`,
+  );
+}
+
+/**
+ * Load the robots.txt rules of an origin.
+ *
+ * A missing robots.txt (4xx) allows everything; one that cannot be
+ * retrieved (5xx or network error) disallows everything until it is
+ * loaded again.
+ * @param origin - URL origin, e.g. "https://example.com"
+ * @returns Rules for our user agent
+ * @throws PrivateAddressError when the origin or a redirect of its
+ *         robots.txt is on a private address
+ */
+async function loadRobotsRules(origin: string): Promise<RobotsRules> {
+  try {
+    const response = await downloadFollowingRedirects(
+      new URL(`${origin}/robots.txt`),
+      async () => {},
+    );
+    if (response.status >= 200 && response.status < 300) {
+      return parseRobotsTxt(response.body, webFetchSettings.userAgent);
+    }
+    return ALLOW_ALL;
+  } catch (error) {
+    if (error instanceof PrivateAddressError) throw error;
+    console.error(`Could not retrieve ${origin}/robots.txt:`, error);
+    return DISALLOW_ALL;
+  }
+}
+
+/**
+ * Check whether the site's robots.txt allows fetching a URL.
+ *
+ * Rules are loaded once per origin; when robots.txt could not be retrieved,
+ * the next check loads it again.
+ * @param url - URL to fetch
+ * @returns True when fetching is allowed
+ */
+export async function isFetchAllowed(url: URL): Promise<boolean> {
+  let rules = robotsByOrigin.get(url.origin);
+  if (!rules) {
+    const loading = loadRobotsRules(url.origin);
+    rules = loading;
+    robotsByOrigin.set(url.origin, loading);
+    const forget = () => {
+      if (robotsByOrigin.get(url.origin) === loading) {
+        robotsByOrigin.delete(url.origin);
+      }
+    };
+    loading.then((loaded) => {
+      if (loaded === DISALLOW_ALL) forget();
+    }, forget);
+  }
+  return isAllowedByRobots(await rules, url);
+}
+
+/**
+ * Parse a URL that can be fetched.
+ * @param url - URL given by a researcher
+ * @returns Parsed http(s) URL without fragment
+ */
+export function parseFetchUrl(url: string): URL {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new Error(`Invalid URL: ${url}`);
+  }
+  if (parsed.protocol !== "http:" && parsed.protocol !== "https:") {
+    throw new Error(`Only http and https URLs can be fetched: ${url}`);
+  }
+  parsed.hash = "";
+  return parsed;
+}
+
+/**
+ * Download a page and extract its readable content.
+ * @param url - URL of the page
+ * @returns The page's title, main content and links
+ * @throws When the domain policy or robots.txt disallows the page or a
+ *         redirect, a host is on a private address, the request fails, or
+ *         the content is neither HTML nor text
+ */
+export async function fetchPage(url: string): Promise<FetchedPage> {
+  const target = parseFetchUrl(url);
+  // A redirect may lead to a page the domain policy or robots.txt disallows
+  const response = await downloadFollowingRedirects(target, async (hop) => {
+    if (!isUrlAllowed(hop.toString())) {
+      throw new Error(`The domain policy does not allow fetching ${hop}`);
+    }
+    if (!(await isFetchAllowed(hop))) {
+      throw new Error(`robots.txt disallows fetching ${hop}`);
+    }
+  });
+  if (response.status >= 300) {
+    throw new Error(`Fetching ${target} failed with status ${response.status}`);
+  }
+  const served = new URL(response.url);
+
+  const type = response.contentType.split(";")[0]!.trim().toLowerCase();
+  if (type === "text/html" || type === "application/xhtml+xml") {
+    return {
+      url: served.toString(),
+      title: extractHtmlTitle(response.body) || served.toString(),
+      text: extractMainContent(response.body),
+      links: extractLinks(response.body, served.toString()),
+      truncated: response.truncated,
+    };
+  }
+  if (type.startsWith("text/") || type === "application/json" || !type) {
+    return {
+      url: served.toString(),
+      title: served.toString(),
+      text: response.body.trim(),
+      links: [],
+      truncated: response.truncated,
+    };
+  }
+  throw new Error(`Cannot read ${type} content of ${served}`);
+}
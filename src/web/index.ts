@@ -0,0 +1,12 @@
+/**
+ * Web Page Fetching and Crawling.
+ *
+ * Lets researchers open a page they found or walk a documentation site
+ * instead of relying only on what search providers return.
+ */
+
+export * from "./address.js";
+export * from "./crawler.js";
+export * from "./extract.js";
+export * from "./fetcher.js";
+export * from "./robots.js";
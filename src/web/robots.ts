@@ -0,0 +1,106 @@
+/**
+ * robots.txt Rules.
+ *
+ * Parses robots.txt files as described in RFC 9309: the group for the most
+ * specific matching user agent applies, falling back to the `*` group, and
+ * among its rules the longest matching path pattern wins, with Allow winning
+ * ties. Patterns support the `*` wildcard and the `$` end anchor.
+ */
+
+// One Allow or Disallow line.
+type RobotsRule = {
+  allow: boolean;
+  pattern: string;
+};
+
+// Rules of a robots.txt file that apply to one user agent.
+export type RobotsRules = {
+  rules: RobotsRule[];
+};
+
+// Applies when robots.txt is missing or unavailable to us (4xx)
+export const ALLOW_ALL: RobotsRules = { rules: [] };
+
+// Applies when robots.txt cannot be retrieved (5xx or network error)
+export const DISALLOW_ALL: RobotsRules = {
+  rules: [{ allow: false, pattern: "/" }],
+};
+
+/**
+ * Parse the rules of a robots.txt file for a user agent.
+ * @param text - robots.txt content
+ * @param userAgent - Product token of the crawler, e.g. "deep-research-ts"
+ * @returns Rules of the group that matches the user agent, or of the `*` group
+ */
+export function parseRobotsTxt(text: string, userAgent: string): RobotsRules {
+  const token = userAgent.split("/")[0]!.toLowerCase();
+  const groups: { agents: string[]; rules: RobotsRule[] }[] = [];
+  let current: { agents: string[]; rules: RobotsRule[] } | undefined;
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, "").trim();
+    const separator = line.indexOf(":");
+    if (separator === -1) continue;
+    const field = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    if (field === "user-agent") {
+      // Consecutive user-agent lines share one group
+      if (!current || current.rules.length > 0) {
+        current = { agents: [], rules: [] };
+        groups.push(current);
+      }
+      current.agents.push(value.toLowerCase());
+    } else if ((field === "allow" || field === "disallow") && current) {
+      // An empty Disallow allows everything
+      if (value) {
+        current.rules.push({ allow: field === "allow", pattern: value });
+      }
+    }
+  }
+
+  const matching = groups.filter((group) =>
+    group.agents.some((agent) => agent !== "*" && token.includes(agent)),
+  );
+  const applicable = matching.length
+    ? matching
+    : groups.filter((group) => group.agents.includes("*"));
+  return { rules: applicable.flatMap((group) => group.rules) };
+}
+
+/**
+ * Check whether a path pattern matches a URL path.
+ * @param pattern - robots.txt path pattern
+ * @param path - URL path with query string
+ * @returns True when the pattern matches the start of the path
+ */
+function matchesPattern(pattern: string, path: string): boolean {
+  const anchored = pattern.endsWith("$");
+  const source = (anchored ? pattern.slice(0, -1) : pattern)
+    .split("*")
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+    .join(".*");
+  return new RegExp(`^${source}${anchored ? "$" : ""}`).test(path);
+}
+
+/**
+ * Check whether robots.txt rules allow fetching a URL.
+ * @param rules - Rules for our user agent
+ * @param url - URL to fetch
+ * @returns True unless the longest matching rule disallows the URL
+ */
+export function isAllowedByRobots(rules: RobotsRules, url: URL): boolean {
+  const path = `${url.pathname}${url.search}`;
+  let best: RobotsRule | undefined;
+  for (const rule of rules.rules) {
+    if (!matchesPattern(rule.pattern, path)) continue;
+    if (
+      !best ||
+      rule.pattern.length > best.pattern.length ||
+      (rule.pattern.length === best.pattern.length && rule.allow)
+    ) {
+      best = rule;
+    }
+  }
+  return best?.allow ?? true;
+}
@@ -0,0 +1,150 @@
+import { describe, test } from "node:test";
+import { strict as assert } from "node:assert";
+import { readdirSync, utimesSync } from "node:fs";
+import { join } from "node:path";
+import { createTempDir } from "./helpers.js";
+
+process.env.CACHE_DIR = createTempDir();
+process.env.CACHE_SEARCH_TTL_HOURS = "1";
+
+const { cached, FileCache } = await import("../src/cache/index.js");
+
+/**
+ * Paths of the entry files of a cache namespace.
+ * @param dir - Cache directory
+ * @param namespace - Cache namespace
+ * @returns Entry file paths
+ */
+function entryFiles(dir: string, namespace: string): string[] {
+  return readdirSync(join(dir, namespace)).map((name) =>
+    join(dir, namespace, name),
+  );
+}
+
+describe("FileCache", () => {
+  test("drops expired entries", async () => {
+    const fileCache = new FileCache(createTempDir(), 1024 * 1024);
+    await fileCache.set("search", "fresh", "kept", 60_000);
+    await fileCache.set("search", "stale", "dropped", 1);
+    await new Promise((resolve) => setTimeout(resolve, 10));
+
+    assert.equal(await fileCache.get("search", "fresh"), "kept");
+    assert.equal(await fileCache.get("search", "stale"), undefined);
+    assert.equal((await fileCache.stats()).entries, 1);
+  });
+
+  test("evicts the least recently used entries over the size limit", async () => {
+    const dir = createTempDir();
+    const sizing = new FileCache(dir, 1024 * 1024);
+    await sizing.set("search", "a", "x".repeat(100), 60_000);
+    const { bytes } = await sizing.stats();
+
+    // Room for two entries
+    const fileCache = new FileCache(dir, bytes * 2 + 10);
+    await fileCache.set("search", "b", "x".repeat(100), 60_000);
+    for (const path of entryFiles(dir, "search")) {
+      utimesSync(path, new Date(1000), new Date(1000));
+    }
+
+    // Reading an entry makes it the most recently used one
+    assert.ok(await fileCache.get("search", "a"));
+    await fileCache.set("search", "c", "x".repeat(100), 60_000);
+
+    assert.equal((await fileCache.stats()).entries, 2);
+    assert.equal(await fileCache.get("search", "b"), undefined);
+    assert.ok(await fileCache.get("search", "a"));
+    assert.ok(await fileCache.get("search", "c"));
+  });
+});
+
+describe("cached", () => {
+  const counter = () => {
+    let calls = 0;
+    return {
+      get calls() {
+        return calls;
+      },
+      compute: async () => {
+        calls++;
+        await new Promise((resolve) => setTimeout(resolve, 20));
+        return `value ${calls}`;
+      },
+    };
+  };
+
+  test("serves repeated lookups from the cache", async () => {
+    const { compute } = counter();
+    const key = { query: "repeated" };
+    assert.deepEqual(await cached("search", key, "use", compute), {
+      value: "value 1",
+      outcome: { namespace: "search", hit: false },
+    });
+    assert.deepEqual(await cached("search", key, "use", compute), {
+      value: "value 1",
+      outcome: { namespace: "search", hit: true },
+    });
+  });
+
+  test("recomputes and stores values in refresh mode", async () => {
+    const { compute } = counter();
+    const key = { query: "refreshed" };
+    await cached("search", key, "use", compute);
+    assert.deepEqual(await cached("search", key, "refresh", compute), {
+      value: "value 2",
+      outcome: { namespace: "search", hit: false },
+    });
+    assert.equal(
+      (await cached("search", key, "use", compute)).value,
+      "value 2",
+    );
+  });
+
+  test("does not touch the cache when bypassed", async () => {
+    const { compute } = counter();
+    const key = { query: "bypassed" };
+    assert.deepEqual(await cached("search", key, "bypass", compute), {
+      value: "value 1",
+    });
+    assert.equal(
+      (await cached("search", key, "use", compute)).value,
+      "value 2",
+    );
+  });
+
+  test("shares concurrent lookups and their outcome", async () => {
+    const missed = counter();
+    const misses = await Promise.all([
+      cached("search", { query: "concurrent" }, "use", missed.compute),
+      cached("search", { query: "concurrent" }, "use", missed.compute),
+    ]);
+    assert.equal(missed.calls, 1);
+    assert.deepEqual(
+      misses.map(({ outcome }) => outcome?.hit),
+      [false, false],
+    );
+
+    const hits = await Promise.all([
+      cached("search", { query: "concurrent" }, "use", missed.compute),
+      cached("search", { query: "concurrent" }, "use", missed.compute),
+    ]);
+    assert.deepEqual(
+      hits.map(({ outcome }) => outcome?.hit),
+      [true, true],
+    );
+  });
+
+  test("does not let refresh lookups join cached lookups", async () => {
+    const { compute } = counter();
+    const key = { query: "mixed" };
+    await cached("search", key, "use", compute);
+    const [used, refreshed] = await Promise.all([
+      cached("search", key, "use", compute),
+      cached("search", key, "refresh", compute),
+    ]);
+    assert.deepEqual(used.outcome, { namespace: "search", hit: true });
+    assert.deepEqual(refreshed, {
+      value: "value 2",
+      outcome: { namespace: "search", hit: false },
+    });
+  });
+});
@@ -0,0 +1,126 @@
+import { describe, test } from "node:test";
+import { strict as assert } from "node:assert";
+import { appendFileSync, readdirSync, readFileSync } from "node:fs";
+import { join } from "node:path";
+import {
+  Annotation,
+  Command,
+  END,
+  interrupt,
+  START,
+  StateGraph,
+} from "@langchain/langgraph";
+import { FileCheckpointSaver } from "../src/checkpoint/index.js";
+import { createTempDir } from "./helpers.js";
+
+const State = Annotation.Root({
+  steps: Annotation<string[]>({
+    reducer: (x: string[], y: string[]) => x.concat(y),
+    default: () => [],
+  }),
+});
+
+/**
+ * Compile a graph that records a step, waits for an answer, and records it.
+ * @param saver - Checkpointer of the graph
+ * @returns Compiled graph
+ */
+function createGraph(saver: FileCheckpointSaver) {
+  return new StateGraph(State)
+    .addNode("start", () => ({ steps: ["start"] }))
+    .addNode("ask", () => ({ steps: [String(interrupt("question"))] }))
+    .addEdge(START, "start")
+    .addEdge("start", "ask")
+    .addEdge("ask", END)
+    .compile({ checkpointer: saver });
+}
+
+describe("FileCheckpointSaver", () => {
+  test("resumes a thread saved by another process", async () => {
+    const dir = createTempDir();
+    const config = { configurable: { thread_id: "thread/1" } };
+    await createGraph(new FileCheckpointSaver(dir)).invoke({}, config);
+
+    const graph = createGraph(new FileCheckpointSaver(dir));
+    const state = await graph.getState(config);
+    assert.deepEqual(state.next, ["ask"]);
+    assert.deepEqual(state.values.steps, ["start"]);
+
+    const values = await graph.invoke(
+      new Command({ resume: "answer" }),
+      config,
+    );
+    assert.deepEqual(values.steps, ["start", "answer"]);
+    assert.deepEqual(readdirSync(dir), [
+      `${encodeURIComponent("thread/1")}.jsonl`,
+    ]);
+  });
+
+  test("appends each checkpoint instead of rewriting the thread", async () => {
+    const dir = createTempDir();
+    const saver = new FileCheckpointSaver(dir);
+    await createGraph(saver).invoke({}, { configurable: { thread_id: "t" } });
+
+    const log = readFileSync(join(dir, "t.jsonl"), "utf-8");
+    const entries = log
+      .trim()
+      .split("\n")
+      .map((line) => JSON.parse(line));
+    const checkpoints = entries.filter((entry) => entry.type === "checkpoint");
+    assert.equal(
+      new Set(checkpoints.map((entry) => entry.id)).size,
+      checkpoints.length,
+    );
+    const listed = [];
+    for await (const tuple of saver.list({
+      configurable: { thread_id: "t" },
+    })) {
+      listed.push(tuple);
+    }
+    assert.equal(checkpoints.length, listed.length);
+  });
+
+  test("skips a line cut off by a crash", async () => {
+    const dir = createTempDir();
+    const config = { configurable: { thread_id: "t" } };
+    await createGraph(new FileCheckpointSaver(dir)).invoke({}, config);
+    appendFileSync(join(dir, "t.jsonl"), '{"type":"checkpoint","ns":"');
+
+    const state = await createGraph(new FileCheckpointSaver(dir)).getState(
+      config,
+    );
+    assert.deepEqual(state.next, ["ask"]);
+  });
+
+  test("resumes a subgraph interrupted in another process", async () => {
+    const dir = createTempDir();
+    const config = { configurable: { thread_id: "t" } };
+    const parent = (saver: FileCheckpointSaver) =>
+      new StateGraph(State)
+        .addNode("child", createGraph(saver))
+        .addNode("done", () => ({ steps: ["done"] }))
+        .addEdge(START, "child")
+        .addEdge("child", "done")
+        .addEdge("done", END)
+        .compile({ checkpointer: saver });
+    await parent(new FileCheckpointSaver(dir)).invoke({}, config);
+
+    const values = await parent(new FileCheckpointSaver(dir)).invoke(
+      new Command({ resume: "answer" }),
+      config,
+    );
+    assert.deepEqual(values.steps, ["start", "answer", "done"]);
+  });
+
+  test("lists the saved threads", async () => {
+    const dir = createTempDir();
+    const saver = new FileCheckpointSaver(dir);
+    for (const threadId of ["a", "b:research:1"]) {
+      await createGraph(saver).invoke(
+        {},
+        { configurable: { thread_id: threadId } },
+      );
+    }
+    assert.deepEqual(saver.listThreadIds().sort(), ["a", "b:research:1"]);
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, test } from "node:test";
+import { strict as assert } from "node:assert";
+import {
+  createSourceRecord,
+  SourceRegistry,
+  validateCitations,
+} from "../src/sources/index.js";
+
+const widgets = createSourceRecord("https://example.com/widgets", "Widgets");
+const gadgets = createSourceRecord("https://example.com/gadgets", "Gadgets");
+const registry: SourceRegistry = {
+  [widgets.id]: widgets,
+  [gadgets.id]: gadgets,
+};
+
+describe("validateCitations", () => {
+  test("renumbers source IDs and rebuilds the Sources list", () => {
+    const { report, cited, unknown } = validateCitations(
+      `Gadgets grow [${gadgets.id}]. Widgets too [${widgets.id}, ${gadgets.id}].`,
+      registry,
+    );
+    assert.equal(
+      report,
+      "Gadgets grow [1]. Widgets too [2, 1].\n\n### Sources\n\n" +
+        "- [1] Gadgets: https://example.com/gadgets\n" +
+        "- [2] Widgets: https://example.com/widgets\n",
+    );
+    assert.deepEqual(
+      cited.map((source) => source.id),
+      [gadgets.id, widgets.id],
+    );
+    assert.deepEqual(unknown, []);
+  });
+
+  test("removes citations of sources that were not retrieved", () => {
+    const { report, unknown } = validateCitations(
+      "Widgets are small [src-00000000].",
+      registry,
+    );
+    assert.equal(report, "Widgets are small.\n");
+    assert.deepEqual(unknown, ["[src-00000000]"]);
+  });
+
+  test("resolves numbers the model's own Sources list defines", () => {
+    const { report, unknown } = validateCitations(
+      "Widgets are small [1]. Gizmos are new [2].\n\n## Sources\n\n" +
+        "- [1] Widgets: https://example.com/widgets\n" +
+        "- [2] Gizmos: https://example.com/gizmos\n",
+      registry,
+    );
+    assert.equal(
+      report,
+      "Widgets are small [1]. Gizmos are new.\n\n### Sources\n\n" +
+        "- [1] Widgets: https://example.com/widgets\n",
+    );
+    assert.deepEqual(unknown, ["[2]"]);
+  });
+
+  test("leaves numbers alone that no Sources list defines", () => {
+    const text = `Use items[0] and see note [3] in the range [2, 5] [${widgets.id}].`;
+    const { report, unknown } = validateCitations(text, registry);
+    assert.equal(
+      report,
+      "Use items[0] and see note [3] in the range [2, 5] [1].\n\n### Sources\n\n" +
+        "- [1] Widgets: https://example.com/widgets\n",
+    );
+    assert.deepEqual(unknown, []);
+  });
+
+  test("leaves code untouched", () => {
+    const code =
+      "Call `lookup([src-00000000])` or:\n\n```ts\nconst first = rows[1];\nconst id = [src-00000000];\n```";
+    const { report, unknown } = validateCitations(
+      `${code}\n\nWidgets are small [1].\n\n## Sources\n\n- [1] Widgets: https://example.com/widgets\n`,
+      registry,
+    );
+    assert.ok(report.startsWith(`${code}\n\nWidgets are small [1].`));
+    assert.deepEqual(unknown, []);
+  });
+});
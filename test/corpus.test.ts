@@ -0,0 +1,102 @@
+import { describe, test } from "node:test";
+import { strict as assert } from "node:assert";
+import { writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { pathToFileURL } from "node:url";
+import { createTempDir } from "./helpers.js";
+import { createCorpusProvider } from "../src/corpus/index.js";
+import { createBm25Index, tokenize } from "../src/corpus/bm25.js";
+import { chunkText } from "../src/corpus/chunker.js";
+
+describe("chunkText", () => {
+  const text = ["a".repeat(40), "b".repeat(40), "c".repeat(40)].join("\n\n");
+
+  test("packs paragraphs into chunks with an overlap", () => {
+    assert.deepEqual(chunkText(text, 100, 10), [
+      `${"a".repeat(40)}\n\n${"b".repeat(40)}`,
+      `${"b".repeat(10)}\n\n${"c".repeat(40)}`,
+    ]);
+  });
+
+  test("shares nothing between chunks without an overlap", () => {
+    assert.deepEqual(chunkText(text, 50, 0), [
+      "a".repeat(40),
+      "b".repeat(40),
+      "c".repeat(40),
+    ]);
+  });
+
+  test("keeps chunks within the chunk size", () => {
+    const chunks = chunkText(
+      ["a".repeat(30), "b".repeat(45), "c".repeat(120)].join("\n\n"),
+      50,
+      20,
+    );
+    // The overlap shrinks to leave room for the next paragraph, and the long
+    // paragraph is split on its own
+    assert.deepEqual(chunks, [
+      "a".repeat(30),
+      `aaa\n\n${"b".repeat(45)}`,
+      "c".repeat(50),
+      "c".repeat(50),
+      `${"c".repeat(20)}\n\n${"c".repeat(20)}`,
+    ]);
+  });
+});
+
+describe("BM25", () => {
+  test("tokenizes without stopwords and single characters", () => {
+    assert.deepEqual(tokenize("What is the Widget-2 price of a B?"), [
+      "widget",
+      "price",
+    ]);
+  });
+
+  test("ranks documents by matching terms", () => {
+    const index = createBm25Index(
+      [
+        "Widget prices rose in Europe.",
+        "Gadget prices fell.",
+        "Widget widget widget adoption and widget prices.",
+        "Nothing relevant here.",
+      ],
+      (text) => text,
+    );
+    const hits = index.search("widget prices", 10);
+    assert.deepEqual(
+      hits.map((hit) => hit.item),
+      [
+        "Widget widget widget adoption and widget prices.",
+        "Widget prices rose in Europe.",
+        "Gadget prices fell.",
+      ],
+    );
+    assert.equal(index.search("widget prices", 1).length, 1);
+    assert.deepEqual(index.search("unrelated", 10), []);
+  });
+});
+
+describe("corpus provider", () => {
+  test("returns the best matching documents as search results", async () => {
+    const dir = createTempDir();
+    writeFileSync(
+      join(dir, "widgets.md"),
+      "# Widget Handbook\n\nWidgets are small parts.",
+    );
+    writeFileSync(join(dir, "gadgets.txt"), "Gadgets are large machines.");
+    writeFileSync(join(dir, "image.png"), "widgets");
+
+    const response = await createCorpusProvider(dir).search("widgets", {
+      maxResults: 5,
+      topic: "general",
+      includeRawContent: true,
+    });
+    assert.equal(response.results.length, 1);
+    assert.equal(
+      response.results[0]!.url,
+      pathToFileURL(join(dir, "widgets.md")).href,
+    );
+    assert.equal(response.results[0]!.title, "Widget Handbook");
+    assert.match(response.results[0]!.rawContent ?? "", /Widgets are small/);
+  });
+});
@@ -0,0 +1,157 @@
+import { describe, test } from "node:test";
+import { strict as assert } from "node:assert";
+import {
+  ageInDays,
+  countCorroboratingSites,
+  CredibilitySettings,
+  domainReputation,
+  formatCredibility,
+  rankByCredibility,
+  scoreSources,
+  siteOf,
+} from "../src/credibility/index.js";
+
+const settings: CredibilitySettings = {
+  trustedDomains: ["edu", "nature.com"],
+  lowDomains: ["contentfarm.com"],
+  recencyHalfLifeDays: 365,
+  minScore: 0.3,
+};
+
+const now = new Date("2025-01-01T00:00:00Z");
+
+const paper = {
+  url: "https://www.nature.com/articles/widgets",
+  title: "Widget adoption in Europe",
+  content: "Survey shows widget adoption reached sixty percent across Europe",
+  score: 0.9,
+  publishedDate: "2024-01-02",
+};
+const copy = {
+  url: "https://blog.contentfarm.com/widgets",
+  title: "Widget adoption Europe",
+  content: "Widget adoption reached sixty percent in Europe says survey",
+  score: 0.45,
+};
+const recipe = {
+  url: "https://cooking.example.org/soup",
+  title: "Tomato soup",
+  content: "Recipe for tomato soup with basil",
+};
+
+describe("siteOf", () => {
+  test("reduces hosts to their site", () => {
+    assert.equal(siteOf("a.b.example.com"), "example.com");
+    assert.equal(siteOf("news.bbc.co.uk"), "bbc.co.uk");
+    assert.equal(siteOf("docs.example.io"), "example.io");
+  });
+});
+
+describe("domainReputation", () => {
+  test("looks up the listed domains and their subdomains", () => {
+    assert.equal(domainReputation("https://cs.mit.edu/", settings), "trusted");
+    assert.equal(domainReputation(paper.url, settings), "trusted");
+    assert.equal(domainReputation(copy.url, settings), "low");
+    assert.equal(domainReputation(recipe.url, settings), "neutral");
+    assert.equal(domainReputation("not a url", settings), "neutral");
+  });
+
+  test("ranks low-credibility domains over trusted ones", () => {
+    const both = { ...settings, lowDomains: ["nature.com"] };
+    assert.equal(domainReputation(paper.url, both), "low");
+  });
+});
+
+describe("ageInDays", () => {
+  test("counts whole days since publication", () => {
+    assert.equal(ageInDays("2024-12-30T12:00:00Z", now), 1);
+    assert.equal(ageInDays("2026-01-01", now), 0);
+    assert.equal(ageInDays("sometime", now), undefined);
+    assert.equal(ageInDays(undefined, now), undefined);
+  });
+});
+
+describe("countCorroboratingSites", () => {
+  test("counts other sites with overlapping results", () => {
+    const mirror = { ...paper, url: "https://blogs.nature.com/widgets" };
+    assert.deepEqual(countCorroboratingSites([paper, copy, recipe, mirror]), {
+      // Subdomains of one site never corroborate each other
+      [paper.url]: 1,
+      [copy.url]: 1,
+      [recipe.url]: 0,
+      [mirror.url]: 1,
+    });
+  });
+});
+
+describe("scoreSources", () => {
+  test("combines the known signals", () => {
+    assert.deepEqual(scoreSources([paper, copy, recipe], now, settings), {
+      [paper.url]: {
+        // 0.5 * 1 + 0.2 * 0.9 + 0.15 * 0.5 + 0.15 * 0.5
+        score: 0.83,
+        reputation: "trusted",
+        age_days: 365,
+        relevance: 0.9,
+        corroborating_sites: 1,
+      },
+      [copy.url]: {
+        // (0.2 * 0.45 + 0.15 * 0.5) / 0.85, without a publication date
+        score: 0.19,
+        reputation: "low",
+        relevance: 0.45,
+        corroborating_sites: 1,
+      },
+      [recipe.url]: {
+        // (0.5 * 0.5) / 0.65, without a date or provider score
+        score: 0.38,
+        reputation: "neutral",
+        corroborating_sites: 0,
+      },
+    });
+  });
+
+  test("leaves out corroboration when all results are from one site", () => {
+    assert.equal(scoreSources([recipe], now, settings)[recipe.url]?.score, 0.5);
+  });
+
+  test("scales relevance by the highest provider score", () => {
+    const scores = scoreSources(
+      [
+        { ...recipe, score: 20 },
+        { ...copy, score: 5 },
+      ],
+      now,
+      settings,
+    );
+    assert.equal(scores[recipe.url]?.relevance, 1);
+    assert.equal(scores[copy.url]?.relevance, 0.25);
+  });
+});
+
+describe("rankByCredibility", () => {
+  test("orders the results by score and drops the least credible", () => {
+    const scores = scoreSources([paper, copy, recipe], now, settings);
+    const { ranked, dropped } = rankByCredibility(
+      { [recipe.url]: recipe, [copy.url]: copy, [paper.url]: paper },
+      scores,
+      settings.minScore,
+    );
+    assert.deepEqual(Object.keys(ranked), [paper.url, recipe.url]);
+    assert.deepEqual(dropped, [copy.url]);
+  });
+});
+
+describe("formatCredibility", () => {
+  test("describes the score and its signals", () => {
+    const scores = scoreSources([paper, copy, recipe], now, settings);
+    assert.equal(
+      formatCredibility(scores[paper.url]!),
+      "0.83 (trusted domain, published 365 days ago, relevance 0.90, corroborated by 1 other site)",
+    );
+    assert.equal(
+      formatCredibility(scores[recipe.url]!),
+      "0.38 (neutral domain, not corroborated)",
+    );
+  });
+});
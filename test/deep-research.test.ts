@@ -0,0 +1,141 @@
+import { describe, test } from "node:test";
+import { strict as assert } from "node:assert";
+import { spawnSync } from "node:child_process";
+import { writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { fileURLToPath } from "node:url";
+import { createTempDir, useChatScript } from "./helpers.js";
+
+const root = fileURLToPath(new URL("..", import.meta.url));
+const dir = createTempDir();
+const cassettePath = join(dir, "cassette.jsonl");
+const searchFixturePath = join(dir, "search.json");
+writeFileSync(
+  searchFixturePath,
+  JSON.stringify({
+    "widget adoption europe": [
+      {
+        url: "https://example.com/widgets",
+        title: "Widgets",
+        content: "Widget adoption in Europe",
+        rawContent: "Widgets have 60% adoption in Europe.",
+      },
+    ],
+  }),
+);
+
+const question = "How widely are widgets used in Europe?";
+// The report with its citations numbered and its Sources list built
+const report =
+  "# Widget Report\n\nWidgets reach 60% adoption [1].\n\n### Sources\n\n" +
+  "- [1] Widgets (credibility 0.50): https://example.com/widgets\n\n";
+
+/**
+ * Run the deep research graph through the CLI in its own process, so it reads
+ * the environment set up for it.
+ * @param question - Research question
+ * @returns The printed report
+ */
+function runCli(question: string): string {
+  const result = spawnSync(
+    process.execPath,
+    ["--loader", "ts-node/esm", "src/cli.ts", "--quiet", question],
+    {
+      cwd: root,
+      env: { ...process.env, TS_NODE_TRANSPILE_ONLY: "true" },
+      encoding: "utf-8",
+      timeout: 240_000,
+    },
+  );
+  assert.equal(result.status, 0, result.stderr);
+  return result.stdout;
+}
+
+describe("deep research", () => {
+  test("writes a report citing the retrieved sources", () => {
+    useChatScript(
+      {
+        clarify: [
+          {
+            structured: {
+              need_clarification: false,
+              question: "",
+              verification: "Starting.",
+            },
+          },
+        ],
+        brief: [
+          {
+            structured: {
+              research_brief: "Research widget adoption in Europe",
+            },
+          },
+        ],
+        supervisor: [
+          {
+            tool_calls: [
+              {
+                name: "ConductResearch",
+                args: { research_topic: "Widget adoption in Europe" },
+              },
+            ],
+          },
+          {
+            match: "Widgets reach 60% adoption",
+            tool_calls: [{ name: "ResearchComplete", args: {} }],
+          },
+        ],
+        researcher: [
+          {
+            match: "Widget adoption in Europe",
+            tool_calls: [
+              {
+                name: "tavily_search",
+                args: { query: "widget adoption europe" },
+              },
+            ],
+          },
+          { content: "Enough." },
+        ],
+        summarize: [
+          {
+            structured: {
+              summary: "Widgets have 60% adoption in Europe.",
+              key_excerpts: "",
+            },
+          },
+        ],
+        compress: [{ content: "Widgets reach 60% adoption [src-682cc4e2]." }],
+        final_report: [
+          {
+            content:
+              "# Widget Report\n\nWidgets reach 60% adoption [src-682cc4e2].\n",
+          },
+        ],
+      },
+      {
+        SEARCH_PROVIDER: "fixture",
+        SEARCH_FIXTURE_PATH: searchFixturePath,
+        CASSETTE_MODE: "record",
+        CASSETTE_PATH: cassettePath,
+      },
+    );
+
+    assert.equal(runCli(question), report);
+  });
+
+  test("replays the recorded run without models or search", () => {
+    // Every model would fail with an empty script, and searches with no fixture
+    useChatScript(
+      {},
+      {
+        SEARCH_PROVIDER: "fixture",
+        SEARCH_FIXTURE_PATH: join(dir, "missing.json"),
+        CASSETTE_MODE: "replay",
+        CASSETTE_PATH: cassettePath,
+      },
+    );
+
+    assert.equal(runCli(question), report);
+  });
+});
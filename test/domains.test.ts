@@ -0,0 +1,113 @@
+import { describe, test } from "node:test";
+import { strict as assert } from "node:assert";
+import {
+  DomainPolicy,
+  filterByDomain,
+  isHostAllowed,
+  isUrlAllowed,
+  matchesDomain,
+  normalizeDomain,
+  resolveDomainFilters,
+} from "../src/search/domains.js";
+
+const policy: DomainPolicy = {
+  allow: ["example.com", "docs.example.org"],
+  deny: ["ads.example.com"],
+};
+
+describe("normalizeDomain", () => {
+  test("keeps only the lowercased host", () => {
+    assert.equal(
+      normalizeDomain(" https://www.Example.com:8080/a?b "),
+      "example.com",
+    );
+    assert.equal(normalizeDomain("*.example.com"), "example.com");
+    assert.equal(normalizeDomain("example.com/path#top"), "example.com");
+  });
+});
+
+describe("matchesDomain", () => {
+  test("matches a domain and its subdomains", () => {
+    assert.ok(matchesDomain("example.com", "example.com"));
+    assert.ok(matchesDomain("WWW.Example.com", "example.com"));
+    assert.ok(matchesDomain("a.b.example.com", "example.com"));
+    assert.ok(!matchesDomain("badexample.com", "example.com"));
+    assert.ok(!matchesDomain("example.com.evil.net", "example.com"));
+  });
+
+  test("matches domains written as hosts or URLs", () => {
+    assert.ok(matchesDomain("www.example.com", "www.example.com"));
+    assert.ok(matchesDomain("docs.example.com", "https://Example.com/"));
+  });
+});
+
+describe("isHostAllowed", () => {
+  test("allows only the allowlist, minus the blocklist", () => {
+    assert.ok(isHostAllowed("example.com", policy));
+    assert.ok(isHostAllowed("news.example.com", policy));
+    assert.ok(isHostAllowed("docs.example.org", policy));
+    assert.ok(!isHostAllowed("example.org", policy));
+    assert.ok(!isHostAllowed("ads.example.com", policy));
+    assert.ok(!isHostAllowed("eu.ads.example.com", policy));
+  });
+
+  test("allows every host that is not blocked without an allowlist", () => {
+    const denyOnly = { allow: [], deny: ["example.com"] };
+    assert.ok(isHostAllowed("example.org", denyOnly));
+    assert.ok(!isHostAllowed("www.example.com", denyOnly));
+  });
+});
+
+describe("isUrlAllowed", () => {
+  test("checks the URL's host", () => {
+    assert.ok(isUrlAllowed("https://news.example.com/a", policy));
+    assert.ok(!isUrlAllowed("https://ads.example.com/a", policy));
+    assert.ok(!isUrlAllowed("not a url", policy));
+    assert.ok(!isUrlAllowed("mailto:someone@example.com", policy));
+  });
+});
+
+describe("resolveDomainFilters", () => {
+  test("narrows the policy to the researcher's domains", () => {
+    assert.deepEqual(
+      resolveDomainFilters(
+        ["https://News.example.com", "news.example.com", "example.net", ""],
+        ["www.example.com/spam"],
+        policy,
+      ),
+      {
+        includeDomains: ["news.example.com"],
+        excludeDomains: ["example.com", "ads.example.com"],
+        rejected: ["example.net"],
+      },
+    );
+  });
+
+  test("gives the whole allowlist without a request", () => {
+    assert.deepEqual(resolveDomainFilters([], [], policy), {
+      includeDomains: policy.allow,
+      excludeDomains: policy.deny,
+      rejected: [],
+    });
+  });
+});
+
+describe("filterByDomain", () => {
+  test("drops results outside the filters", () => {
+    const result = (url: string) => ({ url, title: url, content: "" });
+    const response = {
+      query: "widgets",
+      provider: "fixture",
+      results: [
+        result("https://example.com/a"),
+        result("https://ads.example.com/b"),
+        result("https://example.org/c"),
+      ],
+    };
+    assert.deepEqual(
+      filterByDomain(response, ["example.com"], ["ads.example.com"]).results,
+      [result("https://example.com/a")],
+    );
+    assert.equal(filterByDomain(response).results.length, 3);
+  });
+});
@@ -0,0 +1,195 @@
+import { describe, test } from "node:test";
+import { strict as assert } from "node:assert";
+import { writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { fileURLToPath } from "node:url";
+import { createTempDir } from "./helpers.js";
+import { CaseOutcome, runChecks } from "../src/eval/checks.js";
+import { EvalCase, loadDataset } from "../src/eval/dataset.js";
+import { compareRuns } from "../src/eval/compare.js";
+import type { CaseResult, EvalRun } from "../src/eval/runner.js";
+
+const evalCase = (expected: EvalCase["expected"]): EvalCase => ({
+  id: "widgets",
+  messages: [{ role: "user", content: "Compare widgets" }],
+  expected,
+});
+
+const outcome: CaseOutcome = {
+  asked_clarification: false,
+  research_brief: "Compare the price and size of widgets",
+  sub_agents: 3,
+  final_report: "# Widgets",
+  report_sections: ["Overview", "Price Comparison"],
+  cited_sources: ["https://example.com/widgets", "https://example.org/prices"],
+};
+
+describe("runChecks", () => {
+  test("runs only the checks a case specifies", () => {
+    assert.deepEqual(runChecks(evalCase({}), outcome), []);
+  });
+
+  test("scores partially met expectations", () => {
+    const checks = runChecks(
+      evalCase({
+        need_clarification: false,
+        brief_must_include: ["PRICE", "weight"],
+        sub_agents: { min: 2, max: 4 },
+        report_sections: ["overview", "price", "size"],
+        min_citations: 4,
+        required_sources: ["example.org"],
+      }),
+      outcome,
+    );
+    assert.deepEqual(
+      checks.map(({ name, passed, score }) => ({ name, passed, score })),
+      [
+        { name: "clarification", passed: true, score: 1 },
+        { name: "brief_must_include", passed: false, score: 0.5 },
+        { name: "sub_agents", passed: true, score: 1 },
+        { name: "report_sections", passed: false, score: 2 / 3 },
+        { name: "min_citations", passed: false, score: 0.5 },
+        { name: "required_sources", passed: true, score: 1 },
+      ],
+    );
+    assert.equal(checks[1]!.detail, "1/2 found; missing: weight");
+    assert.equal(checks[2]!.detail, "3 delegated, expected 2-4");
+  });
+
+  test("checks only the clarification when the run asked for one", () => {
+    const checks = runChecks(
+      evalCase({ need_clarification: false, sub_agents: 3 }),
+      {
+        ...outcome,
+        asked_clarification: true,
+        clarification_question: "Which widgets?",
+      },
+    );
+    assert.deepEqual(checks, [
+      {
+        name: "clarification",
+        passed: false,
+        score: 0,
+        detail: "asked: Which widgets?",
+      },
+    ]);
+  });
+});
+
+describe("loadDataset", () => {
+  /**
+   * Write a dataset file.
+   * @param lines - Lines of the file
+   * @returns Path of the file
+   */
+  function writeDataset(lines: string[]): string {
+    const path = join(createTempDir(), "dataset.jsonl");
+    writeFileSync(path, lines.join("\n"));
+    return path;
+  }
+
+  const line = (id: string, extra: Record<string, unknown> = {}) =>
+    JSON.stringify({
+      id,
+      messages: [{ role: "user", content: "Compare widgets" }],
+      ...extra,
+    });
+
+  test("loads the example dataset", async () => {
+    const path = fileURLToPath(
+      new URL("../evals/example.jsonl", import.meta.url),
+    );
+    const cases = await loadDataset(path);
+    assert.ok(cases.length > 0);
+  });
+
+  test("skips blank lines and defaults the expectations", async () => {
+    const cases = await loadDataset(writeDataset([line("a"), "", line("b")]));
+    assert.deepEqual(
+      cases.map((item) => [item.id, item.expected]),
+      [
+        ["a", {}],
+        ["b", {}],
+      ],
+    );
+  });
+
+  test("reports the line of an invalid case", async () => {
+    await assert.rejects(
+      loadDataset(writeDataset([line("a"), "{not json"])),
+      /dataset\.jsonl:2: invalid JSON/,
+    );
+    await assert.rejects(
+      loadDataset(writeDataset([line("a", { expected: { sub_agents: -1 } })])),
+      /dataset\.jsonl:1: invalid case: expected\.sub_agents/,
+    );
+    await assert.rejects(
+      loadDataset(writeDataset([line("a"), line("a")])),
+      /dataset\.jsonl:2: duplicate case ID a/,
+    );
+  });
+});
+
+describe("compareRuns", () => {
+  const usage = {
+    input_tokens: 1000,
+    output_tokens: 500,
+    total_tokens: 1500,
+    cost_usd: 0.01,
+    search_calls: 4,
+  };
+
+  const result = (id: string, passed: boolean, score: number): CaseResult => ({
+    id,
+    checks: [
+      {
+        name: "min_citations",
+        passed,
+        score,
+        detail: `${passed ? 3 : 1} cited, expected at least 3`,
+      },
+    ],
+    score,
+    usage,
+    duration_ms: 1000,
+  });
+
+  const run = (label: string, cases: CaseResult[]): EvalRun => ({
+    label,
+    configurable: {},
+    started_at: "2025-01-01T00:00:00.000Z",
+    cases,
+    summary: {
+      cases: cases.length,
+      errors: cases.filter((item) => item.error).length,
+      checks_passed: cases.filter((item) => item.checks[0]!.passed).length,
+      checks_total: cases.length,
+      check_score: 0,
+      score: cases.reduce((sum, item) => sum + item.score, 0) / cases.length,
+      usage,
+      judge_usage: usage,
+      duration_ms: 2000,
+    },
+  });
+
+  test("reports score changes, regressions and improvements", () => {
+    const report = compareRuns(
+      run("baseline", [result("a", true, 1), result("b", false, 0.33)]),
+      run("candidate", [
+        result("a", false, 0.33),
+        { ...result("b", false, 0), error: "timeout" },
+        result("c", true, 1),
+      ]),
+    );
+
+    assert.match(report, /^# Evaluation: baseline vs candidate\n/);
+    assert.match(report, /\| Score \| 0\.67 \| 0\.44 \| -0\.22 \|/);
+    assert.match(report, /\| a \| 1\.00 \| 0\.33 \| -0\.67 ▼ \|/);
+    assert.match(report, /\| c \| - \| 1\.00 \| {2}\|/);
+    assert.match(
+      report,
+      /## Regressions\n\n- \*\*a\*\* min_citations: 1 cited, expected at least 3 \(was: 3 cited, expected at least 3\)\n- \*\*b\*\*: run failed: timeout\n/,
+    );
+    assert.match(report, /## Improvements\n\nNone\.\n$/);
+  });
+});
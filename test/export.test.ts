@@ -0,0 +1,174 @@
+import { describe, test } from "node:test";
+import { strict as assert } from "node:assert";
+import {
+  exportReport,
+  formatFromPath,
+  isReportFormat,
+  parseReport,
+  stripInline,
+} from "../src/export/index.js";
+import { createSourceRecord, SourceRegistry } from "../src/sources/index.js";
+
+const widgets = createSourceRecord(
+  "https://example.com/widgets",
+  "Widgets",
+  "Widgets have 60% adoption.",
+);
+const registry: SourceRegistry = { [widgets.id]: widgets };
+
+const report = [
+  "# Widget Report",
+  "",
+  "Widgets are **popular** [1].",
+  "",
+  "## Adoption",
+  "",
+  "- Europe leads [1, 2]",
+  "  with 60%",
+  "- Asia follows",
+  "",
+  "| Region | Share |",
+  "|---|---|",
+  "| Europe | 60% [2] |",
+  "",
+  "## Adoption",
+  "",
+  "```ts",
+  "# not a heading",
+  "```",
+  "",
+  "### Sources",
+  "",
+  "- [1] Widgets (credibility 0.50): https://example.com/widgets",
+  "- [2] Gadgets: https://example.com/gadgets",
+  "",
+].join("\n");
+
+describe("parseReport", () => {
+  const document = parseReport(report, registry);
+
+  test("takes the title from the first top-level heading", () => {
+    assert.equal(document.title, "Widget Report");
+  });
+
+  test("splits the report into sections with unique IDs", () => {
+    assert.deepEqual(
+      document.sections.map(({ id, heading, level }) => ({
+        id,
+        heading,
+        level,
+      })),
+      [
+        { id: "introduction", heading: "", level: 1 },
+        { id: "adoption", heading: "Adoption", level: 2 },
+        { id: "adoption-2", heading: "Adoption", level: 2 },
+      ],
+    );
+  });
+
+  test("maps citations to the listed sources", () => {
+    const gadgetsId = document.sources[1]!.id;
+    assert.deepEqual(document.sections[0]!.blocks, [
+      {
+        type: "paragraph",
+        text: "Widgets are **popular** [1].",
+        citations: [widgets.id],
+      },
+    ]);
+    assert.deepEqual(document.sections[1]!.blocks, [
+      {
+        type: "bullet",
+        text: "Europe leads [1, 2] with 60%",
+        citations: [widgets.id, gadgetsId],
+      },
+      { type: "bullet", text: "Asia follows", citations: [] },
+      {
+        type: "table",
+        header: ["Region", "Share"],
+        rows: [["Europe", "60% [2]"]],
+        citations: [gadgetsId],
+      },
+    ]);
+  });
+
+  test("keeps headings inside code blocks as code", () => {
+    assert.deepEqual(document.sections[2]!.blocks, [
+      { type: "code", text: "# not a heading", language: "ts" },
+    ]);
+  });
+
+  test("resolves listed sources against the registry", () => {
+    assert.deepEqual(document.sources[0], { number: 1, ...widgets });
+    // Sources missing from the registry keep what the list says about them
+    assert.deepEqual(document.sources[1], {
+      number: 2,
+      id: createSourceRecord("https://example.com/gadgets", "").id,
+      url: "https://example.com/gadgets",
+      title: "Gadgets",
+    });
+  });
+
+  test("falls back to a default title", () => {
+    assert.equal(parseReport("Just text.").title, "Research Report");
+  });
+});
+
+describe("stripInline", () => {
+  test("removes markup and keeps citation numbers", () => {
+    assert.equal(
+      stripInline("**Bold** and `code` [link](https://example.com) [1,2]"),
+      "Bold and code link [1, 2]",
+    );
+  });
+});
+
+describe("report formats", () => {
+  test("recognizes format names", () => {
+    assert.ok(isReportFormat("docx"));
+    assert.ok(!isReportFormat("pdf"));
+  });
+
+  test("guesses the format from a file name", () => {
+    assert.equal(formatFromPath("report.MD"), "markdown");
+    assert.equal(formatFromPath("report.markdown"), "markdown");
+    assert.equal(formatFromPath("report.htm"), "html");
+    assert.equal(formatFromPath("out/report.docx"), "docx");
+    assert.equal(formatFromPath("report.json"), "json");
+    assert.equal(formatFromPath("report.pdf"), undefined);
+  });
+});
+
+describe("exportReport", () => {
+  test("returns Markdown unchanged", async () => {
+    const exported = await exportReport(report, "markdown");
+    assert.equal(exported.content, report);
+    assert.equal(exported.extension, ".md");
+  });
+
+  test("renders a standalone HTML page", async () => {
+    const exported = await exportReport(report, "html", registry);
+    const html = exported.content as string;
+    assert.equal(exported.contentType, "text/html; charset=utf-8");
+    assert.match(html, /^<!DOCTYPE html>/);
+    assert.match(html, /<title>Widget Report<\/title>/);
+    assert.match(html, /<h2 id="adoption-2">Adoption<\/h2>/);
+    assert.match(html, /<strong>popular<\/strong>/);
+    assert.match(html, /<a href="#source-1">/);
+    assert.match(html, /<li id="source-2" value="2">Gadgets/);
+  });
+
+  test("writes the document model as JSON", async () => {
+    const exported = await exportReport(report, "json", registry);
+    assert.deepEqual(
+      JSON.parse(exported.content as string),
+      JSON.parse(JSON.stringify(parseReport(report, registry))),
+    );
+  });
+
+  test("builds a DOCX package", async () => {
+    const exported = await exportReport(report, "docx", registry);
+    assert.ok(Buffer.isBuffer(exported.content));
+    assert.equal(exported.content.subarray(0, 2).toString(), "PK");
+    assert.equal(exported.extension, ".docx");
+  });
+});
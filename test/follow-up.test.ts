@@ -0,0 +1,118 @@
+import { describe, test } from "node:test";
+import { strict as assert } from "node:assert";
+import { HumanMessage } from "@langchain/core/messages";
+import type { RunnableConfig } from "@langchain/core/runnables";
+import { useChatScript } from "./helpers.js";
+import {
+  createSourceRecord,
+  SourceRegistry,
+  validateCitations,
+} from "../src/sources/index.js";
+
+const widgets = createSourceRecord(
+  "https://example.com/widgets",
+  "Widgets",
+  "Widgets have 60% adoption in Europe.",
+);
+const registry: SourceRegistry = { [widgets.id]: widgets };
+const report = validateCitations(
+  `# Widget Report\n\nWidgets reach 60% adoption in Europe [${widgets.id}].`,
+  registry,
+).report;
+
+useChatScript({
+  follow_up: [
+    {
+      match: "Where are widgets popular?",
+      structured: {
+        action: "answer",
+        answer: `In Europe [${widgets.id}].`,
+        research_topics: [],
+      },
+    },
+    {
+      match: "What do widgets cost?",
+      structured: {
+        action: "addendum",
+        answer: "",
+        research_topics: ["Widget prices in Europe"],
+      },
+    },
+  ],
+  researcher: [
+    { match: "Widget prices in Europe", content: "Nothing to search for." },
+  ],
+  compress: [{ match: "Widget prices in Europe", content: "Widgets cost $2." }],
+  final_report: [
+    {
+      match: "Widgets cost $2.",
+      content: `## Prices\n\nWidgets cost $2 [1].`,
+    },
+  ],
+});
+
+const { deepResearch } = await import("../src/full-research.js");
+
+/**
+ * Ask a follow-up question on a thread with a finished report.
+ * @param threadId - Thread of the report
+ * @param question - Follow-up question
+ * @returns Final state of the thread
+ */
+async function askFollowUp(threadId: string, question: string) {
+  const config: RunnableConfig<any> = { configurable: { thread_id: threadId } };
+  await deepResearch.updateState(
+    config,
+    {
+      research_brief: "Research widget adoption in Europe",
+      final_report: report,
+      notes: ["Widgets reach 60% adoption in Europe."],
+      sources: registry,
+    },
+    "verify_report",
+  );
+  return deepResearch.invoke(
+    { messages: [new HumanMessage(question)] },
+    config,
+  );
+}
+
+describe("follow-up questions", () => {
+  test("are answered from the existing research", async () => {
+    const values = await askFollowUp("answer", "Where are widgets popular?");
+    const answer =
+      "In Europe [1].\n\n### Sources\n\n- [1] Widgets: https://example.com/widgets\n";
+    assert.equal(values.messages.at(-1)?.content, answer);
+    assert.deepEqual(values.follow_up, {
+      question: "Where are widgets popular?",
+      action: "answer",
+      answer,
+    });
+    // The report is unchanged
+    assert.equal(values.final_report, report);
+    assert.deepEqual(
+      values.usage.map((record: { node: string }) => record.node),
+      ["handle_follow_up"],
+    );
+  });
+
+  test("are researched and added to the report", async () => {
+    const values = await askFollowUp("addendum", "What do widgets cost?");
+    assert.equal(
+      values.final_report,
+      "# Widget Report\n\nWidgets reach 60% adoption in Europe [1].\n\n" +
+        "## Prices\n\nWidgets cost $2 [1].\n\n" +
+        "### Sources\n\n- [1] Widgets: https://example.com/widgets\n",
+    );
+    assert.deepEqual(values.notes, [
+      "Widgets reach 60% adoption in Europe.",
+      "Widgets cost $2.",
+    ]);
+    assert.equal(values.follow_up?.action, "addendum");
+    assert.deepEqual(values.follow_up?.findings, ["Widgets cost $2."]);
+    assert.equal(
+      values.messages.at(-1)?.content,
+      "Here is the final report: " + values.final_report,
+    );
+  });
+});
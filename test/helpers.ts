@@ -0,0 +1,55 @@
+/**
+ * Test Helpers.
+ *
+ * Settings are read from the environment when src/config is first imported,
+ * so tests set up their environment before importing the modules under test.
+ */
+
+import { mkdtempSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { ChatScript } from "../src/llm/scripted.js";
+
+// Environment variables of the model of each role
+const ROLE_MODEL_VARIABLES = [
+  "CLARIFY_MODEL",
+  "BRIEF_MODEL",
+  "SUPERVISOR_MODEL",
+  "RESEARCHER_MODEL",
+  "COMPRESS_MODEL",
+  "SUMMARIZE_MODEL",
+  "FINAL_REPORT_MODEL",
+  "FOLLOW_UP_MODEL",
+  "VERIFY_MODEL",
+  "JUDGE_MODEL",
+];
+
+/**
+ * Create a temporary directory for a test's files.
+ * @returns Path of the directory
+ */
+export function createTempDir(): string {
+  return mkdtempSync(join(tmpdir(), "deep-research-test-"));
+}
+
+/**
+ * Run every role on the scripted fake model, offline and without caches.
+ * @param script - Responses of each role, consumed in order
+ * @param env - Further environment variables of the test
+ */
+export function useChatScript(
+  script: ChatScript,
+  env: Record<string, string> = {},
+): void {
+  const path = join(createTempDir(), "script.json");
+  writeFileSync(path, JSON.stringify(script));
+  for (const variable of ROLE_MODEL_VARIABLES) {
+    process.env[variable] = `fake:${path}`;
+  }
+  Object.assign(process.env, {
+    CHECKPOINT_BACKEND: "memory",
+    CACHE_MODE: "bypass",
+    VERIFICATION_MODE: "off",
+    ...env,
+  });
+}
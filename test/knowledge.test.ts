@@ -0,0 +1,183 @@
+import { describe, test } from "node:test";
+import { strict as assert } from "node:assert";
+import {
+  createFinding,
+  formatCoverage,
+  getKnowledgeStore,
+  KnowledgeStore,
+  mergeFindings,
+} from "../src/knowledge/index.js";
+import { ResearchPlan } from "../src/research-plan/index.js";
+import {
+  createFingerprint,
+  createSourceRecord,
+  SourceRecord,
+  SourceRegistry,
+} from "../src/sources/index.js";
+
+const article =
+  "Widget prices in Europe fell to two dollars this year as new factories " +
+  "opened in Spain and Poland and competition between makers grew.";
+
+const widgets: SourceRecord = {
+  ...createSourceRecord("https://example.com/widgets", "Widget prices"),
+  summary: "Widgets cost $2 in Europe.",
+  fingerprint: createFingerprint(article),
+};
+// A copy of the widgets page, merged into it as an alias
+const mirror: SourceRecord = {
+  ...createSourceRecord("https://example.org/copy", "Copied widget prices"),
+  fingerprint: createFingerprint(article),
+};
+const gadgets = createSourceRecord(
+  "https://example.net/gadgets",
+  "Gadget colors",
+  "Most gadgets are sold in red and blue.",
+);
+
+/**
+ * Create a store with the fixture sources.
+ * @returns Store holding the widgets page, its copy and the gadgets page
+ */
+function createStore(): KnowledgeStore {
+  const store = new KnowledgeStore();
+  store.addSources([widgets, mirror, gadgets]);
+  return store;
+}
+
+describe("createFinding", () => {
+  test("keeps the registered sources the findings cite", () => {
+    const { sources } = createStore();
+    assert.deepEqual(
+      createFinding(
+        "call-1",
+        "Widget prices",
+        `Widgets cost $2 [${mirror.id}] [${widgets.id}] [src-00000000].`,
+        sources,
+        "q1",
+      ),
+      {
+        researcher_id: "call-1",
+        topic: "Widget prices",
+        sub_question_id: "q1",
+        findings: `Widgets cost $2 [${mirror.id}] [${widgets.id}] [src-00000000].`,
+        // The copy's ID resolves to the widgets page
+        source_ids: [widgets.id],
+      },
+    );
+  });
+});
+
+describe("mergeFindings", () => {
+  test("replaces the earlier findings of a researcher", () => {
+    const finding = (researcherId: string, findings: string) =>
+      createFinding(researcherId, "Widgets", findings, {});
+    assert.deepEqual(
+      mergeFindings(
+        [finding("call-1", "First"), finding("call-2", "Second")],
+        [finding("call-1", "Again")],
+      ),
+      [finding("call-2", "Second"), finding("call-1", "Again")],
+    );
+    const current = [finding("call-1", "First")];
+    assert.equal(mergeFindings(current, undefined), current);
+  });
+});
+
+describe("KnowledgeStore", () => {
+  test("searches the sources and findings", () => {
+    const store = createStore();
+    store.addFinding(
+      createFinding("call-1", "Gadget sales", "Gadgets sell best in red.", {}),
+    );
+
+    const hits = store.search("gadgets red", 5);
+    assert.deepEqual(
+      hits.map((hit) =>
+        hit.type === "source" ? hit.source.id : hit.finding.researcher_id,
+      ),
+      ["call-1", gadgets.id],
+    );
+    assert.ok(hits.every((hit) => hit.score > 0));
+  });
+
+  test("leaves merged copies out of the results", () => {
+    const hits = createStore().search("widget prices", 5);
+    assert.deepEqual(
+      hits.map((hit) => (hit.type === "source" ? hit.source.id : "")),
+      [widgets.id],
+    );
+  });
+
+  test("is shared through the run's config", () => {
+    const store = createStore();
+    assert.equal(
+      getKnowledgeStore({ configurable: { knowledge_store: store } }),
+      store,
+    );
+    const sources: SourceRegistry = { [gadgets.id]: gadgets };
+    assert.equal(getKnowledgeStore(undefined, sources).sources, sources);
+  });
+});
+
+describe("formatCoverage", () => {
+  const plan: ResearchPlan = {
+    sub_questions: [
+      {
+        id: "q1",
+        question: "What do widgets cost?",
+        status: "done",
+        priority: 1,
+        depends_on: [],
+      },
+      {
+        id: "q2",
+        question: "Which colors do gadgets come in?",
+        status: "pending",
+        priority: 2,
+        depends_on: [],
+      },
+      {
+        id: "q3",
+        question: "Who repairs doohickeys?",
+        status: "pending",
+        priority: 3,
+        depends_on: [],
+      },
+    ],
+  };
+
+  test("shows which sub-questions are answered by which sources", () => {
+    const store = createStore();
+    store.addFinding(
+      createFinding(
+        "call-1",
+        "Widget prices",
+        `Widgets cost $2 [${widgets.id}].`,
+        store.sources,
+        "q1",
+      ),
+    );
+    store.addFinding(
+      createFinding("call-2", "Widget makers", "No sources found.", {}),
+    );
+
+    assert.equal(
+      formatCoverage(plan, store),
+      [
+        "2 sources retrieved (1 summarized), 2 research tasks finished.",
+        `- q1 [done]: answered by 1 research task citing 1 source: ${widgets.id} (Widget prices)`,
+        `- q2 [pending]: not researched yet; related sources in the store: ${gadgets.id} (Gadget colors)`,
+        "- q3 [pending]: not researched yet",
+        '- Research on "Widget makers": no cited sources',
+      ].join("\n"),
+    );
+  });
+
+  test("says when nothing has been researched", () => {
+    assert.equal(
+      formatCoverage(plan, new KnowledgeStore()),
+      "Nothing has been researched yet.",
+    );
+  });
+});
@@ -0,0 +1,172 @@
+import { afterEach, beforeEach, describe, mock, test } from "node:test";
+import { strict as assert } from "node:assert";
+import {
+  getErrorStatus,
+  isRetryableError,
+  RateLimiter,
+  withRetry,
+} from "../src/rate-limit/index.js";
+
+/**
+ * Let pending promise callbacks run, so waiting calls reach their timers.
+ */
+function settle(): Promise<void> {
+  return new Promise((resolve) => setImmediate(resolve));
+}
+
+describe("RateLimiter", () => {
+  beforeEach(() => {
+    mock.timers.enable({ apis: ["setTimeout", "Date"], now: 0 });
+  });
+
+  afterEach(() => {
+    mock.timers.reset();
+  });
+
+  /**
+   * Schedule calls and record when each one started.
+   * @param limiter - Rate limiter
+   * @param tokens - Estimated tokens of each call
+   * @returns Start times in call order, filled in as calls start
+   */
+  function scheduleAll(limiter: RateLimiter, tokens: number[]): number[] {
+    const started: number[] = [];
+    tokens.forEach((estimate, i) => {
+      void limiter.schedule(async () => {
+        started[i] = Date.now();
+      }, estimate);
+    });
+    return started;
+  }
+
+  test("limits the requests started in a minute", async () => {
+    const limiter = new RateLimiter({
+      requestsPerMinute: 2,
+      tokensPerMinute: 0,
+    });
+    const started = scheduleAll(limiter, [0, 0, 0]);
+    await settle();
+    assert.deepEqual(started, [0, 0]);
+
+    mock.timers.tick(59_999);
+    await settle();
+    assert.equal(started.length, 2);
+
+    mock.timers.tick(1);
+    await settle();
+    assert.deepEqual(started, [0, 0, 60_000]);
+  });
+
+  test("limits the tokens used in a minute", async () => {
+    const limiter = new RateLimiter({
+      requestsPerMinute: 0,
+      tokensPerMinute: 100,
+    });
+    scheduleAll(limiter, [60]);
+    await settle();
+    mock.timers.tick(30_000);
+    // The second call fits next to the first; the third waits for the first
+    // to leave the window, and one larger than the limit runs alone
+    const started = scheduleAll(limiter, [40, 50, 500]);
+    await settle();
+    assert.deepEqual(started, [30_000]);
+
+    mock.timers.tick(30_000);
+    await settle();
+    assert.deepEqual(started, [30_000, 60_000]);
+
+    mock.timers.tick(30_000);
+    await settle();
+    assert.deepEqual(started, [30_000, 60_000]);
+
+    mock.timers.tick(30_000);
+    await settle();
+    assert.deepEqual(started, [30_000, 60_000, 120_000]);
+  });
+
+  test("counts the tokens a call reports instead of its estimate", async () => {
+    const limiter = new RateLimiter({
+      requestsPerMinute: 0,
+      tokensPerMinute: 100,
+    });
+    await limiter.schedule(async (reportTokens) => reportTokens(10), 90);
+    const started = scheduleAll(limiter, [90]);
+    await settle();
+    assert.deepEqual(started, [0]);
+  });
+
+  test("runs calls at once without limits", async () => {
+    const limiter = new RateLimiter({
+      requestsPerMinute: 0,
+      tokensPerMinute: 0,
+    });
+    const started = scheduleAll(limiter, [1000, 1000, 1000]);
+    await settle();
+    assert.deepEqual(started, [0, 0, 0]);
+  });
+});
+
+describe("withRetry", () => {
+  const options = { maxRetries: 2, baseDelayMs: 1, label: "Test call" };
+
+  /**
+   * Create a call that fails with the given errors before succeeding.
+   * @param errors - Errors thrown by the first attempts
+   * @returns The call and the number of attempts made so far
+   */
+  function failing(errors: unknown[]) {
+    const call = {
+      attempts: 0,
+      fn: async () => {
+        const error = errors[call.attempts++];
+        if (error) throw error;
+        return "done";
+      },
+    };
+    return call;
+  }
+
+  test("retries rate limits and server errors", async () => {
+    const call = failing([{ status: 429 }, new Error("status code 503")]);
+    assert.equal(await withRetry(call.fn, options), "done");
+    assert.equal(call.attempts, 3);
+  });
+
+  test("gives up after the maximum number of retries", async () => {
+    const call = failing([{ status: 500 }, { status: 500 }, { status: 500 }]);
+    await assert.rejects(withRetry(call.fn, options));
+    assert.equal(call.attempts, 3);
+  });
+
+  test("does not retry client errors", async () => {
+    const call = failing([{ status: 400 }]);
+    await assert.rejects(withRetry(call.fn, options));
+    assert.equal(call.attempts, 1);
+  });
+
+  test("caps the delay a server asks for", async () => {
+    const call = failing([
+      { status: 429, headers: new Headers({ "retry-after": "3600" }) },
+    ]);
+    const start = Date.now();
+    assert.equal(
+      await withRetry(call.fn, { ...options, maxDelayMs: 10 }),
+      "done",
+    );
+    assert.ok(Date.now() - start < 1000);
+  });
+});
+
+describe("retryable errors", () => {
+  test("are recognized by status or network error code", () => {
+    assert.equal(getErrorStatus({ response: { status: 502 } }), 502);
+    assert.equal(getErrorStatus(new Error("failed with status 429")), 429);
+    assert.equal(getErrorStatus(new Error("failed")), undefined);
+
+    assert.ok(isRetryableError({ status: 500 }));
+    assert.ok(isRetryableError({ cause: { code: "ECONNRESET" } }));
+    assert.ok(isRetryableError(new TypeError("fetch failed")));
+    assert.ok(!isRetryableError({ status: 404 }));
+    assert.ok(!isRetryableError(new Error("invalid input")));
+  });
+});
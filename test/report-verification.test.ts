@@ -0,0 +1,195 @@
+import { describe, test } from "node:test";
+import { strict as assert } from "node:assert";
+import type { LangGraphRunnableConfig } from "@langchain/langgraph";
+import { useChatScript } from "./helpers.js";
+import {
+  createSourceRecord,
+  SourceRegistry,
+  validateCitations,
+} from "../src/sources/index.js";
+
+const widgets = createSourceRecord(
+  "https://example.com/widgets",
+  "Widgets",
+  "Widgets have 60% adoption in Europe.",
+);
+const gadgets = createSourceRecord(
+  "https://example.com/gadgets",
+  "Gadgets",
+  "Gadgets are red.",
+);
+const registry: SourceRegistry = {
+  [widgets.id]: widgets,
+  [gadgets.id]: gadgets,
+};
+const rawNotes = [
+  "Unrelated text.\n\nWidgets reach 60% adoption across Europe, a survey found.",
+];
+
+// Reports as written by the final report step
+const report = validateCitations(
+  `# Widget Report\n\nWidgets reach 60% adoption [${widgets.id}]. Gadgets are blue [${gadgets.id}].`,
+  registry,
+).report;
+const revisedReport = validateCitations(
+  `# Widget Report\n\nWidgets are made in Spain [${widgets.id}].`,
+  registry,
+).report;
+
+useChatScript({
+  verify: [
+    {
+      match: "Gadgets are blue [2]",
+      structured: {
+        claims: [
+          { claim: "Widgets reach 60% adoption", citations: [1] },
+          { claim: "Gadgets are blue", citations: [2] },
+          { claim: "Widgets are cheap", citations: [] },
+        ],
+      },
+    },
+    {
+      // The claims come with the excerpts of their cited sources and the
+      // passages of the notes that match them
+      match:
+        `Claim 1: Widgets reach 60% adoption\nCited source excerpts:\n` +
+        `- [${widgets.id}] Widgets: Widgets have 60% adoption in Europe.\n` +
+        "Research note passages:\n" +
+        "- Widgets reach 60% adoption across Europe, a survey found.\n\nClaim 2",
+      structured: {
+        verdicts: [
+          {
+            claim_number: 1,
+            status: "supported",
+            explanation: "The source states it.",
+          },
+          {
+            claim_number: 2,
+            status: "contradicted",
+            explanation: "The source says gadgets are red.",
+          },
+        ],
+      },
+    },
+    {
+      match: "Widgets are made in Spain [1]",
+      structured: {
+        claims: [{ claim: "Widgets are made in Spain", citations: [1] }],
+      },
+    },
+    {
+      match: "Claim 1: Widgets are made in Spain",
+      structured: {
+        verdicts: [
+          {
+            claim_number: 1,
+            status: "unsupported",
+            explanation: "No source mentions Spain.",
+          },
+        ],
+      },
+    },
+  ],
+  final_report: [
+    {
+      match: "Widgets are made in Spain",
+      content: "# Widget Report\n\nWhere widgets are made is unknown [1].",
+    },
+  ],
+});
+
+const { getVerificationMode, stripVerificationAppendix, verifyReport } =
+  await import("../src/report-verification.js");
+
+/**
+ * Verify a report.
+ * @param finalReport - Report to verify
+ * @param mode - Verification mode
+ * @returns The node's state update
+ */
+function verify(finalReport: string, mode: string) {
+  const config: LangGraphRunnableConfig = {
+    configurable: { verification_mode: mode },
+  };
+  return verifyReport(
+    {
+      final_report: finalReport,
+      sources: registry,
+      raw_notes: rawNotes,
+    } as any,
+    config,
+  );
+}
+
+describe("verifyReport", () => {
+  test("appends the claims that could not be confirmed", async () => {
+    const result = await verify(report, "appendix");
+
+    assert.deepEqual(
+      result.verification?.claims.map(({ status, sources }) => ({
+        status,
+        sources,
+      })),
+      [
+        { status: "supported", sources: [widgets.id] },
+        { status: "contradicted", sources: [gadgets.id] },
+        // Claims without a verdict count as unsupported
+        { status: "unsupported", sources: [] },
+      ],
+    );
+    assert.equal(result.verification?.supported, 1);
+    assert.equal(result.verification?.contradicted, 1);
+    assert.equal(result.verification?.unsupported, 1);
+    assert.equal(result.verification?.revised, false);
+
+    // The appendix goes before the Sources list, which is kept
+    assert.ok(
+      result.final_report.startsWith(
+        report.slice(0, report.indexOf("\n\n### Sources")),
+      ),
+    );
+    assert.match(
+      result.final_report,
+      /## Claim Verification\n\n1 of 3 checked claims are supported by the research notes and sources\. The following claims could not be confirmed:\n\n- \*\*Contradicted:\*\* Gadgets are blue — The source says gadgets are red\.\n- \*\*Unsupported:\*\* Widgets are cheap — No verdict was given for this claim\.\n\n### Sources\n\n- \[1\] Widgets/,
+    );
+    assert.deepEqual(result.messages, [
+      "Here is the final report: " + result.final_report,
+    ]);
+    assert.deepEqual(
+      result.usage?.map((record) => record.node),
+      ["verify_report", "verify_report"],
+    );
+  });
+
+  test("revises the report to fix failed claims", async () => {
+    const result = await verify(revisedReport, "revise");
+    assert.equal(result.verification?.revised, true);
+    assert.equal(
+      result.final_report,
+      "# Widget Report\n\nWhere widgets are made is unknown [1].\n\n" +
+        "### Sources\n\n- [1] Widgets: https://example.com/widgets\n",
+    );
+    assert.equal(result.usage?.length, 3);
+  });
+
+  test("only removes an old appendix when verification is off", async () => {
+    const appended = report.replace(
+      "\n\n### Sources",
+      "\n\n## Claim Verification\n\nAll claims are supported.\n\n### Sources",
+    );
+    const result = await verify(appended, "off");
+    assert.equal(result.final_report, report);
+    assert.equal(result.verification, undefined);
+    assert.equal(stripVerificationAppendix(appended), report);
+  });
+});
+
+describe("getVerificationMode", () => {
+  test("rejects unknown modes", () => {
+    assert.equal(getVerificationMode(), "off");
+    assert.throws(
+      () => getVerificationMode({ configurable: { verification_mode: "x" } }),
+      /Unknown verification mode: x/,
+    );
+  });
+});
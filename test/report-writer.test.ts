@@ -0,0 +1,62 @@
+import { describe, test } from "node:test";
+import { strict as assert } from "node:assert";
+import { useChatScript } from "./helpers.js";
+
+// A paragraph of about 1000 tokens, numbered so each one can be found
+const paragraph = (i: number) =>
+  `Finding ${i} [src-0000000${i % 10}]. ${"Widgets keep getting smaller. ".repeat(130)}`;
+
+useChatScript({
+  final_report: [
+    {
+      structured: {
+        title: "Widget Report",
+        sections: [
+          {
+            heading: "Widget Size",
+            description: "How small widgets get",
+            notes: [],
+          },
+        ],
+      },
+    },
+    { match: "part 1 of 2", content: "First half of the findings." },
+    { match: "part 2 of 2", content: "Second half of the findings." },
+    {
+      structured: {
+        introduction: "Widgets are shrinking.",
+        conclusion_heading: "Conclusion",
+        conclusion: "Smaller widgets are here to stay.",
+      },
+    },
+  ],
+});
+
+const { writeReport } = await import("../src/report-writer.js");
+const { AgentState } = await import("../src/shared/types.js");
+
+describe("writeReport", () => {
+  test("writes a section in parts instead of dropping notes", async () => {
+    // About 40000 tokens of notes, more than one section writer is given
+    const notes = Array.from({ length: 40 }, (_, i) => paragraph(i));
+    const state = {
+      research_brief: "How small do widgets get?",
+      notes,
+    } as typeof AgentState.State;
+
+    const { report, usage } = await writeReport(state, {
+      configurable: { report_writer: "sectioned" },
+    });
+    assert.equal(
+      report,
+      [
+        "# Widget Report",
+        "Widgets are shrinking.",
+        "## Widget Size\n\nFirst half of the findings.\n\nSecond half of the findings.",
+        "## Conclusion\n\nSmaller widgets are here to stay.",
+      ].join("\n\n"),
+    );
+    // Outline, two section parts and framing
+    assert.equal(usage.length, 4);
+  });
+});
@@ -0,0 +1,254 @@
+import { describe, test } from "node:test";
+import { strict as assert } from "node:assert";
+import { HumanMessage } from "@langchain/core/messages";
+import type { RunnableConfig } from "@langchain/core/runnables";
+import { Command } from "@langchain/langgraph";
+import { useChatScript } from "./helpers.js";
+import {
+  applyPlanUpdates,
+  blockSubQuestions,
+  prerequisiteFindings,
+  recordFindings,
+  ResearchPlan,
+  scheduleWaves,
+  SubQuestion,
+  validatePlan,
+} from "../src/research-plan/index.js";
+
+const call = (name: string, args: Record<string, any> = {}) => ({ name, args });
+
+useChatScript({
+  supervisor: [
+    {
+      match: "Research widgets",
+      tool_calls: [
+        call("UpdateResearchPlan", {
+          sub_questions: [{ id: "q1", question: "What do widgets cost?" }],
+        }),
+      ],
+    },
+    {
+      match: "A reviewer edited the research plan",
+      tool_calls: [call("ResearchComplete")],
+    },
+  ],
+});
+
+const { supervisorAgent } = await import("../src/multi-agent-supervisor.js");
+
+const subQuestion = (
+  id: string,
+  depends_on: string[] = [],
+  extra: Partial<SubQuestion> = {},
+): SubQuestion => ({
+  id,
+  question: `Question ${id}?`,
+  status: "pending",
+  priority: 3,
+  depends_on,
+  ...extra,
+});
+
+const plan = (...subQuestions: SubQuestion[]): ResearchPlan => ({
+  sub_questions: subQuestions,
+});
+
+describe("validatePlan", () => {
+  test("accepts a DAG", () => {
+    assert.deepEqual(
+      validatePlan(
+        plan(
+          subQuestion("q1"),
+          subQuestion("q2", ["q1"]),
+          subQuestion("q3", ["q1", "q2"]),
+        ),
+      ),
+      [],
+    );
+  });
+
+  test("reports unknown, self and duplicate sub-questions", () => {
+    assert.deepEqual(
+      validatePlan(
+        plan(
+          subQuestion("q1", ["q9"]),
+          subQuestion("q2", ["q2"]),
+          subQuestion("q1"),
+        ),
+      ),
+      [
+        "Duplicate sub-question ID q1",
+        "q1 depends on unknown sub-question q9",
+        "q2 depends on itself",
+      ],
+    );
+  });
+
+  test("reports dependency cycles", () => {
+    assert.deepEqual(
+      validatePlan(
+        plan(
+          subQuestion("q1", ["q3"]),
+          subQuestion("q2", ["q1"]),
+          subQuestion("q3", ["q2"]),
+        ),
+      ),
+      ["Dependency cycle: q1 -> q3 -> q2 -> q1"],
+    );
+  });
+});
+
+describe("applyPlanUpdates", () => {
+  const current = plan(subQuestion("q1"));
+
+  test("adds and changes sub-questions", () => {
+    const { plan: updated, errors } = applyPlanUpdates(current, [
+      { id: "q1", priority: 1 },
+      { id: "q2", question: "Question q2?", depends_on: ["q1"] },
+    ]);
+    assert.deepEqual(errors, []);
+    assert.deepEqual(updated, {
+      sub_questions: [
+        subQuestion("q1", [], { priority: 1 }),
+        subQuestion("q2", ["q1"]),
+      ],
+    });
+    // The current plan is not changed
+    assert.equal(current.sub_questions[0]!.priority, 3);
+  });
+
+  test("applies no update when any of them is invalid", () => {
+    const result = applyPlanUpdates(current, [
+      { id: "q1", depends_on: ["q2"] },
+      { id: "q2", question: "Question q2?", depends_on: ["q1"] },
+      { id: "q3" },
+    ]);
+    assert.equal(result.plan, current);
+    assert.deepEqual(result.errors, [
+      "New sub-question q3 needs a question",
+      "Dependency cycle: q1 -> q2 -> q1",
+    ]);
+  });
+});
+
+describe("scheduleWaves", () => {
+  test("runs sub-questions after their prerequisites", () => {
+    const research = plan(
+      subQuestion("q1"),
+      subQuestion("q2", ["q1"]),
+      subQuestion("q3"),
+      subQuestion("q4", ["q2", "q3"]),
+      subQuestion("q5", [], { priority: 1 }),
+    );
+    assert.deepEqual(scheduleWaves(research, ["q4", "q3", "q2", "q1", "q5"]), {
+      // Higher priority first within a wave
+      waves: [["q5", "q3", "q1"], ["q2"], ["q4"]],
+      blocked: [],
+    });
+  });
+
+  test("does not wait for prerequisites that are done", () => {
+    const research = plan(
+      subQuestion("q1", [], { status: "done" }),
+      subQuestion("q2", ["q1"]),
+    );
+    assert.deepEqual(scheduleWaves(research, ["q2"]), {
+      waves: [["q2"]],
+      blocked: [],
+    });
+  });
+
+  test("blocks sub-questions whose prerequisites are not researched", () => {
+    const research = plan(
+      subQuestion("q1"),
+      subQuestion("q2", ["q1"]),
+      subQuestion("q3", ["q2"]),
+    );
+    assert.deepEqual(scheduleWaves(research, ["q3"]), {
+      waves: [],
+      blocked: [{ id: "q3", reason: "waits for q2 (pending)" }],
+    });
+  });
+});
+
+describe("recordFindings", () => {
+  test("marks a sub-question done and unblocks its dependents", () => {
+    const research = blockSubQuestions(
+      plan(subQuestion("q1"), subQuestion("q2", ["q1"])),
+      ["q2"],
+    );
+    assert.equal(research.sub_questions[1]!.status, "blocked");
+
+    const updated = recordFindings(
+      research,
+      "q1",
+      "call-1",
+      " Widgets cost $2. ",
+    );
+    assert.deepEqual(updated.sub_questions, [
+      subQuestion("q1", [], {
+        status: "done",
+        researcher: "call-1",
+        findings: "Widgets cost $2.",
+      }),
+      subQuestion("q2", ["q1"]),
+    ]);
+    assert.equal(
+      prerequisiteFindings(updated, "q2"),
+      "- Question q1?\nWidgets cost $2.",
+    );
+  });
+});
+
+describe("plan review", () => {
+  test("asks again until the reviewer's edit is valid", async () => {
+    const config: RunnableConfig<any> = {
+      configurable: { thread_id: "plan-review", review_research_plan: true },
+    };
+    const pendingReview = async () => {
+      const { tasks } = await supervisorAgent.getState(config);
+      return tasks.flatMap((task) => task.interrupts ?? [])[0]?.value as any;
+    };
+
+    await supervisorAgent.invoke(
+      {
+        supervisor_messages: [new HumanMessage("Research widgets")],
+        research_brief: "Research widgets",
+      },
+      config,
+    );
+    const review = await pendingReview();
+    assert.equal(review.type, "research_plan_review");
+    assert.deepEqual(
+      review.research_plan,
+      plan(subQuestion("q1", [], { question: "What do widgets cost?" })),
+    );
+    assert.equal(review.errors, undefined);
+
+    // An edit with a dependency cycle is sent back with the reasons
+    const cyclic = plan(subQuestion("q1", ["q2"]), subQuestion("q2", ["q1"]));
+    await supervisorAgent.invoke(
+      new Command({ resume: { action: "edit", research_plan: cyclic } }),
+      config,
+    );
+    assert.deepEqual((await pendingReview()).errors, [
+      "Dependency cycle: q1 -> q2 -> q1",
+    ]);
+
+    await supervisorAgent.invoke(
+      new Command({ resume: { action: "remove" } }),
+      config,
+    );
+    assert.match((await pendingReview()).errors[0], /^action: /);
+
+    // The supervisor follows a valid edit
+    const edited = plan(subQuestion("q1"), subQuestion("q2", ["q1"]));
+    const values = await supervisorAgent.invoke(
+      new Command({ resume: { action: "edit", research_plan: edited } }),
+      config,
+    );
+    assert.equal(await pendingReview(), undefined);
+    assert.deepEqual(values.research_plan, edited);
+    assert.equal(values.research_iterations, 2);
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, test } from "node:test";
+import { strict as assert } from "node:assert";
+import { HumanMessage, isToolMessage } from "@langchain/core/messages";
+import type { RunnableConfig } from "@langchain/core/runnables";
+import { useChatScript } from "./helpers.js";
+
+const think = (reflection: string) => ({
+  tool_calls: [{ name: "think_tool", args: { reflection } }],
+});
+
+useChatScript({
+  researcher: [
+    { match: "Widget prices", content: "Nothing to search for." },
+    { match: "Widget sizes", ...think("Sizes vary.") },
+    { match: "Reflection recorded: Sizes vary.", content: "Done." },
+    { match: "Widget colours", ...think("Colours vary.") },
+  ],
+  compress: [
+    { match: "Widget prices", content: "Widgets cost little." },
+    { match: "Widget sizes", content: "Widgets come in many sizes." },
+    { match: "Widget colours", content: "Widgets come in many colours." },
+  ],
+});
+
+const { researcherAgent } = await import("../src/research-agent.js");
+
+/**
+ * Run a researcher on a topic.
+ * @param topic - Research topic
+ * @param configurable - Further configurable options of the run
+ * @returns Final state of the researcher
+ */
+function research(topic: string, configurable: Record<string, any> = {}) {
+  const config: RunnableConfig<any> = {
+    configurable: { thread_id: topic, ...configurable },
+  };
+  return researcherAgent.invoke(
+    {
+      researcher_messages: [new HumanMessage(topic)],
+      research_topic: topic,
+    },
+    config,
+  );
+}
+
+describe("researcher routing", () => {
+  test("compresses right away when the model calls no tools", async () => {
+    const values = await research("Widget prices");
+    assert.equal(values.compressed_research, "Widgets cost little.");
+    assert.equal(values.researcher_messages.length, 2);
+  });
+
+  test("runs the tools and asks the model again", async () => {
+    const values = await research("Widget sizes");
+    assert.equal(values.compressed_research, "Widgets come in many sizes.");
+    assert.deepEqual(
+      values.researcher_messages.map((message) => message.content),
+      ["Widget sizes", "", "Reflection recorded: Sizes vary.", "Done."],
+    );
+  });
+
+  test("compresses once the tool call limit is reached", async () => {
+    const values = await research("Widget colours", {
+      max_react_tool_calls: 1,
+    });
+    assert.equal(values.compressed_research, "Widgets come in many colours.");
+    assert.ok(isToolMessage(values.researcher_messages.at(-1)!));
+  });
+});
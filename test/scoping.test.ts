@@ -0,0 +1,69 @@
+import { describe, test } from "node:test";
+import { strict as assert } from "node:assert";
+import { HumanMessage } from "@langchain/core/messages";
+import { useChatScript } from "./helpers.js";
+
+useChatScript({
+  clarify: [
+    {
+      match: "Tell me about widgets",
+      structured: {
+        need_clarification: true,
+        question: "Which kind of widgets do you mean?",
+        verification: "",
+      },
+    },
+    {
+      match: "adoption of UI widgets in Europe",
+      structured: {
+        need_clarification: false,
+        question: "",
+        verification: "I will research UI widget adoption in Europe.",
+      },
+    },
+  ],
+  brief: [
+    {
+      structured: {
+        research_brief: "Research the adoption of UI widgets in Europe.",
+      },
+    },
+  ],
+});
+
+const { scopeResearch } = await import("../src/research-scoping.js");
+
+describe("clarifyWithUser", () => {
+  test("ends with a question when the request is unclear", async () => {
+    const values = await scopeResearch.invoke(
+      { messages: [new HumanMessage("Tell me about widgets")] },
+      { configurable: { thread_id: "unclear" } },
+    );
+    assert.equal(
+      values.messages.at(-1)?.content,
+      "Which kind of widgets do you mean?",
+    );
+    assert.equal(values.research_brief, undefined);
+  });
+
+  test("writes the research brief when the request is clear", async () => {
+    const values = await scopeResearch.invoke(
+      {
+        messages: [
+          new HumanMessage(
+            "How far has the adoption of UI widgets in Europe got?",
+          ),
+        ],
+      },
+      { configurable: { thread_id: "clear" } },
+    );
+    assert.equal(
+      values.messages.at(-1)?.content,
+      "I will research UI widget adoption in Europe.",
+    );
+    assert.equal(
+      values.research_brief,
+      "Research the adoption of UI widgets in Europe.",
+    );
+  });
+});
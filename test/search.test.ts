@@ -0,0 +1,148 @@
+import { after, before, describe, test } from "node:test";
+import { strict as assert } from "node:assert";
+import { writeFileSync } from "node:fs";
+import { createServer, Server } from "node:http";
+import { AddressInfo } from "node:net";
+import { join } from "node:path";
+import { createTempDir } from "./helpers.js";
+import {
+  getSearchProvider,
+  normalizeQuery,
+  SearchOptions,
+} from "../src/search/index.js";
+import { createFixtureProvider } from "../src/search/fixture.js";
+import { createSearxngProvider } from "../src/search/searxng.js";
+
+const options: SearchOptions = {
+  maxResults: 2,
+  topic: "general",
+  includeRawContent: false,
+};
+
+const result = (i: number) => ({
+  url: `https://example.com/${i}`,
+  title: `Widget ${i}`,
+  content: `Snippet ${i}`,
+  rawContent: `Page ${i}`,
+});
+
+describe("normalizeQuery", () => {
+  test("ignores case and whitespace", () => {
+    assert.equal(normalizeQuery("  Widget\n  PRICES "), "widget prices");
+  });
+});
+
+describe("fixture provider", () => {
+  const path = join(createTempDir(), "search.json");
+  writeFileSync(
+    path,
+    JSON.stringify({
+      "Widget Prices": [result(1), result(2), result(3)],
+      "*": [result(9)],
+    }),
+  );
+  const provider = createFixtureProvider(path);
+
+  test("serves the results of a query, up to the maximum", async () => {
+    const response = await provider.search(" widget  prices", options);
+    assert.equal(response.provider, "fixture");
+    assert.deepEqual(
+      response.results.map((item) => item.url),
+      ["https://example.com/1", "https://example.com/2"],
+    );
+    assert.equal(response.results[0]!.rawContent, undefined);
+  });
+
+  test("returns raw content only when asked to", async () => {
+    const response = await provider.search("widget prices", {
+      ...options,
+      includeRawContent: true,
+    });
+    assert.equal(response.results[0]!.rawContent, "Page 1");
+  });
+
+  test("falls back to the catch-all entry", async () => {
+    const response = await provider.search("gadgets", options);
+    assert.deepEqual(
+      response.results.map((item) => item.url),
+      ["https://example.com/9"],
+    );
+  });
+});
+
+describe("searxng provider", () => {
+  let server: Server;
+  let requested: URL | undefined;
+
+  before(async () => {
+    server = createServer((request, response) => {
+      requested = new URL(request.url ?? "/", "http://localhost");
+      if (requested.searchParams.get("q") === "fail") {
+        response.writeHead(500);
+        response.end("broken");
+        return;
+      }
+      response.writeHead(200, { "Content-Type": "application/json" });
+      response.end(
+        JSON.stringify({
+          results: [
+            { url: "https://example.com/1", title: "One", score: 2 },
+            { url: "https://example.com/2", content: "Two" },
+            { url: "https://example.com/3" },
+          ],
+        }),
+      );
+    });
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+  });
+
+  after(() => {
+    server.close();
+  });
+
+  const provider = () =>
+    createSearxngProvider(
+      `http://localhost:${(server.address() as AddressInfo).port}`,
+    );
+
+  test("normalizes the instance's JSON results", async () => {
+    const response = await provider().search("widgets", {
+      ...options,
+      topic: "finance",
+      timeRange: "week",
+    });
+    assert.equal(requested?.pathname, "/search");
+    assert.equal(requested?.searchParams.get("format"), "json");
+    assert.equal(requested?.searchParams.get("categories"), "general");
+    assert.equal(requested?.searchParams.get("time_range"), "week");
+    assert.deepEqual(response.results, [
+      {
+        url: "https://example.com/1",
+        title: "One",
+        content: "",
+        score: 2,
+        publishedDate: undefined,
+      },
+      {
+        url: "https://example.com/2",
+        title: "https://example.com/2",
+        content: "Two",
+        score: undefined,
+        publishedDate: undefined,
+      },
+    ]);
+  });
+
+  test("reports a failed search", async () => {
+    await assert.rejects(
+      provider().search("fail", options),
+      /status 500: broken/,
+    );
+  });
+});
+
+describe("getSearchProvider", () => {
+  test("rejects unknown providers", () => {
+    assert.throws(() => getSearchProvider("bing"), /Unknown search provider/);
+  });
+});
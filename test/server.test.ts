@@ -0,0 +1,92 @@
+import { after, before, describe, test } from "node:test";
+import { strict as assert } from "node:assert";
+import { Server } from "node:http";
+import { AddressInfo } from "node:net";
+import { useChatScript } from "./helpers.js";
+
+useChatScript(
+  {
+    clarify: [
+      {
+        structured: {
+          need_clarification: true,
+          question: "Which widgets do you mean?",
+          verification: "",
+        },
+      },
+    ],
+  },
+  { MAX_RESEARCHER_ITERATIONS: "4" },
+);
+
+const { createResearchServer } = await import("../src/server/http.js");
+
+let server: Server;
+let base: string;
+
+before(async () => {
+  server = createResearchServer();
+  await new Promise<void>((resolve) => server.listen(0, resolve));
+  base = `http://localhost:${(server.address() as AddressInfo).port}`;
+});
+
+after(() => {
+  server.close();
+});
+
+/**
+ * Start a job over the API.
+ * @param body - Request body
+ * @returns Status code and parsed response body
+ */
+async function startJob(
+  body: Record<string, any>,
+): Promise<{ status: number; body: any }> {
+  const response = await fetch(`${base}/jobs`, {
+    method: "POST",
+    body: JSON.stringify(body),
+  });
+  return { status: response.status, body: await response.json() };
+}
+
+describe("POST /jobs", () => {
+  test("rejects a corpus directory chosen by the caller", async () => {
+    const { status, body } = await startJob({
+      question: "What is in /etc?",
+      configurable: { corpus_dir: "/etc" },
+    });
+    assert.equal(status, 400);
+    assert.match(body.error, /Unrecognized key\(s\) in object: 'corpus_dir'/);
+  });
+
+  test("rejects internal options and raised limits", async () => {
+    for (const configurable of [
+      { thread_id: "someone-elses-job" },
+      { max_researcher_iterations: 100 },
+      { budget: { max_tokens: -1 } },
+      { search_provider: "bing" },
+    ]) {
+      const { status } = await startJob({ question: "Widgets", configurable });
+      assert.equal(status, 400, JSON.stringify(configurable));
+    }
+    // None of them started a job
+    const jobs = await (await fetch(`${base}/jobs`)).json();
+    assert.deepEqual(jobs, []);
+  });
+
+  test("runs a job with options callers may set", async () => {
+    const { status, body } = await startJob({
+      question: "Tell me about widgets",
+      configurable: { max_researcher_iterations: 2, report_format: "html" },
+    });
+    assert.equal(status, 202);
+
+    let job = body;
+    for (let i = 0; i < 100 && job.status === "running"; i++) {
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      job = await (await fetch(`${base}/jobs/${body.id}`)).json();
+    }
+    assert.equal(job.status, "awaiting_clarification");
+    assert.equal(job.clarification_question, "Which widgets do you mean?");
+  });
+});
@@ -0,0 +1,128 @@
+import { describe, test } from "node:test";
+import { strict as assert } from "node:assert";
+import {
+  canonicalizeUrl,
+  createFingerprint,
+  createSourceId,
+  createSourceRecord,
+  findSourceByUrl,
+  fingerprintSimilarity,
+  isNearDuplicate,
+  mergeSources,
+  resolveSource,
+  SourceRecord,
+} from "../src/sources/index.js";
+
+const article = `Widget makers across Europe reported record sales this year, as
+  households replaced older gadgets with smaller and cheaper widgets. Analysts
+  expect the trend to continue while prices keep falling and new factories open
+  in Spain and Poland, although shortages of parts could slow production in the
+  second half of the year according to the industry association.`;
+
+describe("canonicalizeUrl", () => {
+  test("makes variants of a page equal", () => {
+    const canonical = "https://example.com/news/widgets?id=7&page=2";
+    for (const url of [
+      "https://example.com/news/widgets?page=2&id=7",
+      "http://www.example.com/news/widgets/?id=7&page=2#comments",
+      "https://m.Example.com/news/widgets?id=7&utm_source=x&page=2&fbclid=y",
+      "https://amp.example.com/news/widgets/amp?id=7&page=2",
+      "https://example-com.cdn.ampproject.org/c/s/example.com/news/widgets?id=7&page=2",
+    ]) {
+      assert.equal(canonicalizeUrl(url), canonical, url);
+    }
+  });
+
+  test("keeps what tells pages apart", () => {
+    assert.equal(
+      canonicalizeUrl("https://example.com:8443/a.amp.html?q=1"),
+      "https://example.com:8443/a.html?q=1",
+    );
+    assert.equal(
+      canonicalizeUrl("https://example.com"),
+      "https://example.com/",
+    );
+    assert.notEqual(
+      canonicalizeUrl("https://example.com/a?id=1"),
+      canonicalizeUrl("https://example.com/a?id=2"),
+    );
+  });
+
+  test("only drops the fragment of other URLs", () => {
+    assert.equal(
+      canonicalizeUrl("file:///notes/widgets.md#intro"),
+      "file:///notes/widgets.md",
+    );
+    assert.equal(canonicalizeUrl(" widgets.md#intro "), "widgets.md");
+  });
+
+  test("gives variants of a page one source ID", () => {
+    assert.equal(
+      createSourceId("http://www.example.com/a/?utm_medium=email"),
+      createSourceId("https://example.com/a"),
+    );
+  });
+});
+
+describe("near-duplicate detection", () => {
+  test("recognizes copies with small changes", () => {
+    const copy = createFingerprint(
+      `${article} Reporting by our staff.`.toUpperCase(),
+    );
+    const original = createFingerprint(article);
+    assert.equal(original, createFingerprint(article));
+    assert.ok(isNearDuplicate(original, copy));
+    assert.ok(fingerprintSimilarity(original!, copy!) >= 0.7);
+  });
+
+  test("tells different pages apart", () => {
+    const other = createFingerprint(
+      "Gadget prices rose sharply in Asia as demand for larger gadgets grew " +
+        "and suppliers struggled to keep up with orders from retailers.",
+    );
+    assert.ok(!isNearDuplicate(createFingerprint(article), other));
+    assert.ok(fingerprintSimilarity(createFingerprint(article)!, other!) < 0.3);
+  });
+
+  test("needs a fingerprint of both pages", () => {
+    assert.equal(createFingerprint(" ... "), undefined);
+    assert.equal(isNearDuplicate(createFingerprint(article), undefined), false);
+    assert.equal(isNearDuplicate(undefined, undefined), false);
+  });
+});
+
+describe("mergeSources", () => {
+  /**
+   * Create a record of a page with full text.
+   * @param url - Page URL
+   * @param text - Page text
+   * @returns Source record with the text's fingerprint
+   */
+  function page(url: string, text: string): SourceRecord {
+    return {
+      ...createSourceRecord(url, url, text.slice(0, 40)),
+      fingerprint: createFingerprint(text),
+    };
+  }
+
+  test("merges a page found again at another variant of its URL", () => {
+    const first = page("https://example.com/widgets", article);
+    const again = page("https://m.example.com/widgets?utm_source=x", article);
+    const merged = mergeSources({}, [first, again]);
+    assert.deepEqual(Object.keys(merged), [first.id]);
+    // The URL variant is not an alternate URL
+    assert.equal(merged[first.id]!.alternate_urls, undefined);
+  });
+
+  test("keeps a near-duplicate as an alias of the page found first", () => {
+    const first = page("https://example.com/widgets", article);
+    const mirror = page("https://news.example.org/widget-sales", article);
+    const merged = mergeSources({ [first.id]: first }, [mirror]);
+
+    assert.deepEqual(merged[first.id]!.alternate_urls, [mirror.url]);
+    assert.equal(merged[mirror.id]!.duplicate_of, first.id);
+    assert.equal(merged[mirror.id]!.fingerprint, undefined);
+    assert.equal(resolveSource(merged, mirror.id), merged[first.id]);
+    assert.equal(findSourceByUrl(merged, mirror.url), merged[first.id]);
+  });
+});
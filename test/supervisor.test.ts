@@ -0,0 +1,97 @@
+import { describe, test } from "node:test";
+import { strict as assert } from "node:assert";
+import { HumanMessage, isToolMessage } from "@langchain/core/messages";
+import type { RunnableConfig } from "@langchain/core/runnables";
+import { useChatScript } from "./helpers.js";
+
+const call = (name: string, args: Record<string, any> = {}) => ({ name, args });
+
+useChatScript({
+  supervisor: [
+    { match: "Brief A", tool_calls: [call("ResearchComplete")] },
+    { match: "Brief B", content: "Nothing left to research." },
+    {
+      match: "Brief C",
+      tool_calls: [call("think_tool", { reflection: "Start small." })],
+    },
+    {
+      match: "Reflection recorded: Start small.",
+      tool_calls: [call("think_tool", { reflection: "Keep going." })],
+    },
+    {
+      match: "Brief D",
+      tool_calls: [
+        call("think_tool", { reflection: "Split the work." }),
+        call("ConductResearch", { research_topic: "Widget prices" }),
+        call("ConductResearch", { research_topic: "Widget sizes" }),
+      ],
+    },
+    { match: "Widgets cost little.", tool_calls: [call("ResearchComplete")] },
+  ],
+  researcher: [{ match: "Widget prices", content: "Nothing to search for." }],
+  compress: [{ match: "Widget prices", content: "Widgets cost little." }],
+});
+
+const { supervisorAgent } = await import("../src/multi-agent-supervisor.js");
+
+/**
+ * Run the supervisor on a research brief.
+ * @param brief - Research brief
+ * @param configurable - Further configurable options of the run
+ * @returns Final state of the supervisor
+ */
+function supervise(brief: string, configurable: Record<string, any> = {}) {
+  const config: RunnableConfig<any> = {
+    configurable: { thread_id: brief, ...configurable },
+  };
+  return supervisorAgent.invoke(
+    {
+      supervisor_messages: [new HumanMessage(brief)],
+      research_brief: brief,
+    },
+    config,
+  );
+}
+
+describe("supervisor exit criteria", () => {
+  test("ends when research is complete", async () => {
+    const values = await supervise("Brief A");
+    assert.equal(values.research_iterations, 1);
+    assert.deepEqual(values.notes, []);
+  });
+
+  test("ends when the model calls no tools", async () => {
+    const values = await supervise("Brief B");
+    assert.equal(values.research_iterations, 1);
+    assert.equal(
+      values.supervisor_messages.at(-1)?.content,
+      "Nothing left to research.",
+    );
+  });
+
+  test("ends at the iteration limit", async () => {
+    const values = await supervise("Brief C", {
+      max_researcher_iterations: 2,
+    });
+    assert.equal(values.research_iterations, 2);
+    // The tools of the last turn are not run
+    assert.equal(
+      values.supervisor_messages.filter((message) => isToolMessage(message))
+        .length,
+      1,
+    );
+  });
+
+  test("keeps only the research that ran in the notes", async () => {
+    const values = await supervise("Brief D", {
+      max_concurrent_research_units: 1,
+    });
+    assert.equal(values.research_iterations, 2);
+    assert.deepEqual(values.notes, ["Widgets cost little."]);
+    assert.ok(
+      values.supervisor_messages.some((message) =>
+        String(message.content).startsWith("Research task not started"),
+      ),
+    );
+  });
+});
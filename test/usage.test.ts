@@ -0,0 +1,188 @@
+import { describe, test } from "node:test";
+import { strict as assert } from "node:assert";
+import { writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { HumanMessage, isToolMessage } from "@langchain/core/messages";
+import type { RunnableConfig } from "@langchain/core/runnables";
+import { createTempDir, useChatScript } from "./helpers.js";
+
+const searchFixturePath = join(createTempDir(), "search.json");
+writeFileSync(
+  searchFixturePath,
+  JSON.stringify({
+    "widget prices": [
+      {
+        url: "https://example.com/prices",
+        title: "Widget prices",
+        content: "Widgets cost $2.",
+      },
+    ],
+  }),
+);
+
+const call = (name: string, args: Record<string, any> = {}) => ({ name, args });
+
+useChatScript(
+  {
+    supervisor: [
+      {
+        tool_calls: [
+          call("UpdateResearchPlan", {
+            sub_questions: [
+              { id: "q1", question: "What do widgets cost?" },
+              {
+                id: "q2",
+                question: "Are widgets worth it?",
+                depends_on: ["q1"],
+              },
+            ],
+          }),
+          call("ConductResearch", {
+            research_topic: "Widget prices",
+            sub_question_id: "q1",
+          }),
+          call("ConductResearch", {
+            research_topic: "Widget value",
+            sub_question_id: "q2",
+          }),
+        ],
+      },
+    ],
+    researcher: [
+      {
+        match: "Widget prices",
+        tool_calls: [call("tavily_search", { query: "widget prices" })],
+      },
+    ],
+    summarize: [
+      { structured: { summary: "Widgets cost $2.", key_excerpts: "" } },
+    ],
+    compress: [{ content: "Widgets cost $2." }],
+  },
+  {
+    SEARCH_PROVIDER: "fixture",
+    SEARCH_FIXTURE_PATH: searchFixturePath,
+    BUDGET_MAX_SEARCH_CALLS: "1",
+  },
+);
+
+const {
+  budgetExhausted,
+  getUsageBudget,
+  mergeUsage,
+  shareRemainingBudget,
+  summarizeUsage,
+  totalUsage,
+} = await import("../src/usage/index.js");
+const { supervisorAgent } = await import("../src/multi-agent-supervisor.js");
+
+const record = (id: string, node: string, researcher?: string) => ({
+  id,
+  node,
+  model: "gpt-4.1",
+  input_tokens: 100,
+  output_tokens: 50,
+  cost_usd: 0.0006,
+  search_calls: 1,
+  ...(researcher ? { researcher } : {}),
+});
+
+describe("usage records", () => {
+  test("are merged by ID", () => {
+    const records = [record("a", "supervisor")];
+    const merged = mergeUsage(records, [
+      record("a", "supervisor"),
+      record("b", "researcher", "r1"),
+    ]);
+    assert.deepEqual(
+      merged.map((entry) => entry.id),
+      ["a", "b"],
+    );
+    assert.equal(mergeUsage(records, undefined), records);
+  });
+
+  test("are summed per node and per researcher", () => {
+    const summary = summarizeUsage([
+      record("a", "supervisor"),
+      record("b", "researcher", "r1"),
+      record("c", "researcher", "r1"),
+    ]);
+    assert.equal(summary.total.total_tokens, 450);
+    assert.equal(summary.total.search_calls, 3);
+    assert.equal(summary.by_node.researcher?.input_tokens, 200);
+    assert.deepEqual(Object.keys(summary.by_researcher), ["r1"]);
+  });
+});
+
+describe("budgets", () => {
+  test("come from the settings, overridden per run", () => {
+    assert.deepEqual(getUsageBudget(), {
+      max_tokens: undefined,
+      max_cost_usd: undefined,
+      max_search_calls: 1,
+    });
+    assert.deepEqual(
+      getUsageBudget({ configurable: { budget: { max_tokens: 1000 } } }),
+      { max_tokens: 1000, max_cost_usd: undefined, max_search_calls: 1 },
+    );
+  });
+
+  test("are exhausted once a limit is reached", () => {
+    const totals = totalUsage([record("a", "supervisor")]);
+    assert.equal(budgetExhausted(totals, {}), undefined);
+    assert.equal(budgetExhausted(totals, { max_tokens: 151 }), undefined);
+    assert.equal(
+      budgetExhausted(totals, { max_tokens: 150 }),
+      "token budget of 150 reached",
+    );
+    assert.equal(
+      budgetExhausted(totals, { max_cost_usd: 0.0005 }),
+      "cost budget of $0.0005 reached",
+    );
+    assert.equal(
+      budgetExhausted(totals, { max_search_calls: 1 }),
+      "search budget of 1 calls reached",
+    );
+  });
+
+  test("share what is left between parallel workers", () => {
+    const totals = totalUsage([record("a", "supervisor")]);
+    assert.deepEqual(
+      shareRemainingBudget(
+        { max_tokens: 1150, max_search_calls: 1 },
+        totals,
+        2,
+      ),
+      { max_tokens: 500, max_cost_usd: undefined, max_search_calls: 0 },
+    );
+  });
+});
+
+describe("supervisor budget", () => {
+  test("skips later waves once the budget is used up", async () => {
+    const config: RunnableConfig<any> = {
+      configurable: { thread_id: "budget" },
+    };
+    const values = await supervisorAgent.invoke(
+      {
+        supervisor_messages: [new HumanMessage("Research widgets")],
+        research_brief: "Research widgets",
+      },
+      config,
+    );
+
+    assert.deepEqual(values.notes, ["Widgets cost $2."]);
+    assert.equal(summarizeUsage(values.usage).total.search_calls, 1);
+    const skipped = values.supervisor_messages.filter(
+      (message) =>
+        isToolMessage(message) &&
+        String(message.content).startsWith("Research task not started"),
+    );
+    assert.deepEqual(
+      skipped.map((message) => message.content),
+      ["Research task not started: search budget of 1 calls reached."],
+    );
+    // The supervisor is not asked to continue
+    assert.equal(values.research_iterations, 1);
+  });
+});
@@ -0,0 +1,301 @@
+import { after, before, describe, test } from "node:test";
+import { strict as assert } from "node:assert";
+import { createServer, get, IncomingMessage, Server } from "node:http";
+import { AddressInfo } from "node:net";
+import { ToolMessage } from "@langchain/core/messages";
+import { useChatScript } from "./helpers.js";
+
+// Pages of the fixture site, by path
+const PAGES: Record<string, string> = {
+  "/": `<html><head><title>Widget Docs</title></head><body>
+    <nav>Site navigation</nav>
+    <main><p>Welcome to the widget docs.</p>
+      <a href="/docs/intro">Intro</a> <a href="/private/notes">Notes</a>
+      <a href="http://localhost:{port}/docs/intro">Mirror</a>
+      <a href="/logo.png">Logo</a></main>
+    <footer>Copyright</footer></body></html>`,
+  "/docs/intro": `<html><head><title>Intro</title></head><body><main>
+    <p>Widgets are small.</p>
+    <a href="/docs/advanced">Advanced</a> <a href="/blog/post">Blog</a>
+    </main></body></html>`,
+  "/docs/advanced": `<html><head><title>Advanced</title></head><body><main>
+    <p>Advanced widget topics.</p><a href="/docs/deep">Deep</a>
+    </main></body></html>`,
+  "/docs/deep": `<html><head><title>Deep</title></head><body><main>
+    <p>Deep widget internals.</p></main></body></html>`,
+  "/blog/post": `<html><head><title>Blog</title></head><body><main>
+    <p>A blog post.</p></main></body></html>`,
+  "/private/notes": `<html><body><p>Secret notes.</p></body></html>`,
+};
+
+// Redirects of the fixture site, by path
+const REDIRECTS: Record<string, string> = {
+  "/moved": "/docs/intro",
+  "/to-private": "/private/notes",
+  "/to-localhost": "http://localhost:{port}/docs/intro",
+  "/loop": "/loop",
+};
+
+// Largest body read, so the size limit is reached by /big
+const MAX_BYTES = 4096;
+
+useChatScript(
+  {
+    summarize: Array.from({ length: 4 }, (_, i) => ({
+      structured: {
+        summary: `Summary ${i + 1} of a widget page.`,
+        key_excerpts: "Widgets are small.",
+      },
+    })),
+  },
+  {
+    WEB_FETCH_ALLOW_PRIVATE_HOSTS: "true",
+    WEB_FETCH_MAX_BYTES: String(MAX_BYTES),
+    CRAWL_MAX_PAGES: "10",
+    CRAWL_MAX_DEPTH: "1",
+    DOMAIN_BLOCKLIST: "localhost",
+    MAX_RETRIES: "0",
+  },
+);
+
+const {
+  crawlPages,
+  fetchPage,
+  isPublicAddress,
+  pinnedLookup,
+  PrivateAddressError,
+} = await import("../src/web/index.js");
+const { webFetchSettings } = await import("../src/config.js");
+
+let server: Server;
+let base: string;
+
+before(async () => {
+  server = createServer((request, response) => {
+    const path = request.url ?? "/";
+    const port = String((server.address() as AddressInfo).port);
+    if (path === "/robots.txt") {
+      response.writeHead(200, { "Content-Type": "text/plain" });
+      response.end("User-agent: *\nDisallow: /private\n");
+    } else if (REDIRECTS[path]) {
+      response.writeHead(302, {
+        Location: REDIRECTS[path].replace("{port}", port),
+      });
+      response.end();
+    } else if (path === "/big") {
+      response.writeHead(200, { "Content-Type": "text/plain" });
+      response.end("x".repeat(MAX_BYTES * 3));
+    } else if (path === "/logo.png") {
+      response.writeHead(200, { "Content-Type": "image/png" });
+      response.end("PNG");
+    } else if (PAGES[path]) {
+      response.writeHead(200, { "Content-Type": "text/html; charset=utf-8" });
+      response.end(PAGES[path].replace("{port}", port));
+    } else {
+      response.writeHead(404);
+      response.end();
+    }
+  });
+  await new Promise<void>((resolve) =>
+    server.listen(0, "127.0.0.1", () => resolve()),
+  );
+  base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(() => {
+  server.close();
+});
+
+describe("fetchPage", () => {
+  test("extracts the main content, title and links of a page", async () => {
+    const page = await fetchPage(`${base}/#top`);
+    assert.equal(page.url, `${base}/`);
+    assert.equal(page.title, "Widget Docs");
+    assert.match(page.text, /Welcome to the widget docs\./);
+    assert.doesNotMatch(page.text, /Site navigation|Copyright/);
+    assert.ok(page.links.includes(`${base}/docs/intro`));
+    assert.equal(page.truncated, false);
+  });
+
+  test("follows redirects", async () => {
+    const page = await fetchPage(`${base}/moved`);
+    assert.equal(page.url, `${base}/docs/intro`);
+    assert.match(page.text, /Widgets are small\./);
+  });
+
+  test("honours robots.txt, also after a redirect", async () => {
+    await assert.rejects(fetchPage(`${base}/private/notes`), /robots\.txt/);
+    await assert.rejects(fetchPage(`${base}/to-private`), /robots\.txt/);
+  });
+
+  test("loads robots.txt again after it could not be retrieved", async () => {
+    let robotsRequests = 0;
+    const flaky = createServer((request, response) => {
+      const failing = request.url === "/robots.txt" && ++robotsRequests === 1;
+      response.writeHead(failing ? 503 : 200, { "Content-Type": "text/plain" });
+      response.end("Flaky page.");
+    });
+    await new Promise<void>((resolve) =>
+      flaky.listen(0, "127.0.0.1", () => resolve()),
+    );
+    const url = `http://127.0.0.1:${(flaky.address() as AddressInfo).port}/`;
+    try {
+      await assert.rejects(fetchPage(url), /robots\.txt disallows/);
+      const page = await fetchPage(url);
+      assert.equal(page.text, "Flaky page.");
+      assert.equal(robotsRequests, 2);
+    } finally {
+      flaky.close();
+    }
+  });
+
+  test("honours the domain policy after a redirect", async () => {
+    await assert.rejects(fetchPage(`${base}/to-localhost`), /domain policy/);
+  });
+
+  test("stops following redirect loops", async () => {
+    await assert.rejects(fetchPage(`${base}/loop`), /redirected more than/);
+  });
+
+  test("reads at most the size limit", async () => {
+    const page = await fetchPage(`${base}/big`);
+    assert.equal(page.truncated, true);
+    assert.equal(page.text.length, MAX_BYTES);
+  });
+
+  test("refuses content that is neither HTML nor text", async () => {
+    await assert.rejects(fetchPage(`${base}/logo.png`), /Cannot read/);
+  });
+
+  test("refuses private addresses unless they are allowed", async () => {
+    webFetchSettings.allowPrivateHosts = false;
+    try {
+      await assert.rejects(
+        fetchPage(`${base.replace("127.0.0.1", "127.0.0.2")}/`),
+        PrivateAddressError,
+      );
+      await assert.rejects(
+        fetchPage("http://169.254.169.254/latest/meta-data/"),
+        PrivateAddressError,
+      );
+    } finally {
+      webFetchSettings.allowPrivateHosts = true;
+    }
+  });
+
+  test("connects to the checked addresses without resolving again", async () => {
+    const lookup = pinnedLookup([{ address: "127.0.0.1", family: 4 }]);
+    // The .invalid name never resolves, so only the pinned address is reached
+    const response = await new Promise<IncomingMessage>((resolve, reject) => {
+      const url = base.replace("127.0.0.1", "widgets.invalid");
+      get(`${url}/docs/intro`, { lookup }, resolve).on("error", reject);
+    });
+    response.resume();
+    assert.equal(response.statusCode, 200);
+
+    lookup("widgets.invalid", { family: 6 }, (error) => {
+      assert.equal(error?.code, "ENOTFOUND");
+    });
+  });
+
+  test("tells public from private addresses", () => {
+    for (const address of ["8.8.8.8", "2606:4700:4700::1111"]) {
+      assert.equal(isPublicAddress(address), true, address);
+    }
+    for (const address of [
+      "127.0.0.1",
+      "10.0.0.1",
+      "172.16.5.4",
+      "192.168.1.1",
+      "169.254.169.254",
+      "::1",
+      "::ffff:127.0.0.1",
+      "fd00::1",
+      "fe80::1",
+    ]) {
+      assert.equal(isPublicAddress(address), false, address);
+    }
+  });
+});
+
+describe("crawlPages", () => {
+  test("stops at the depth limit and stays on the start host", async () => {
+    const crawl = await crawlPages(`${base}/`, { maxPages: 10, maxDepth: 1 });
+    assert.deepEqual(
+      crawl.pages.map((page) => page.url),
+      [`${base}/`, `${base}/docs/intro`],
+    );
+    assert.deepEqual(
+      crawl.failed.map(({ url }) => url),
+      [`${base}/private/notes`],
+    );
+  });
+
+  test("stops at the page limit", async () => {
+    const crawl = await crawlPages(`${base}/`, { maxPages: 3, maxDepth: 5 });
+    assert.equal(crawl.pages.length, 3);
+  });
+
+  test("only follows links under the path prefix", async () => {
+    const crawl = await crawlPages(`${base}/`, {
+      maxPages: 10,
+      maxDepth: 5,
+      pathPrefix: "/docs/",
+    });
+    assert.deepEqual(
+      crawl.pages.map((page) => page.url),
+      [
+        `${base}/`,
+        `${base}/docs/intro`,
+        `${base}/docs/advanced`,
+        `${base}/docs/deep`,
+      ],
+    );
+  });
+});
+
+describe("research tools", async () => {
+  const { crawlSite, fetchUrl } = await import("../src/utils.js");
+
+  test("fetch_url summarizes the page as a citable source", async () => {
+    const message: ToolMessage = await fetchUrl.invoke({
+      name: "fetch_url",
+      args: { url: `${base}/moved` },
+      id: "call-1",
+      type: "tool_call",
+    });
+    assert.match(String(message.content), /Summary 1 of a widget page\./);
+    assert.deepEqual(
+      message.artifact.sources.map((source: any) => source.url),
+      [`${base}/docs/intro`],
+    );
+  });
+
+  test("fetch_url reports pages it may not fetch", async () => {
+    const message: ToolMessage = await fetchUrl.invoke({
+      name: "fetch_url",
+      args: { url: `${base}/private/notes` },
+      id: "call-2",
+      type: "tool_call",
+    });
+    assert.match(String(message.content), /Could not fetch .*robots\.txt/);
+    assert.deepEqual(message.artifact.sources, []);
+  });
+
+  test("crawl_site keeps to the configured depth limit", async () => {
+    const message: ToolMessage = await crawlSite.invoke({
+      name: "crawl_site",
+      args: { url: `${base}/`, max_depth: 5 },
+      id: "call-3",
+      type: "tool_call",
+    });
+    assert.deepEqual(
+      message.artifact.sources.map((source: any) => source.url).sort(),
+      [`${base}/`, `${base}/docs/intro`],
+    );
+    assert.match(
+      String(message.content),
+      /Could not fetch .*\/private\/notes: robots\.txt/,
+    );
+  });
+});